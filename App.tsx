@@ -1,10 +1,43 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { MarketData, AnalysisResponse, HistoricalSignal, PricePoint, Tick, TickWindow, TickLabel, PropChallengeStats, Alert, SentimentAnalysis } from './types';
-import { SYMBOLS, ICONS } from './constants';
-import { analyzeMarket, fetchMarketDataViaSearch, fetchSentimentAnalysis } from './services/geminiService';
-import { TradierService } from './services/tradierService';
+import { InstitutionalLevels, LevelDerivation, MarketData, AnalysisResponse, HistoricalSignal, PricePoint, Tick, TickWindow, TickLabel, PropChallengeStats, Alert, AlertSeverity, SentimentAnalysis } from './types';
+import { ICONS } from './constants';
+import { analyzeMarket, fetchMarketDataViaSearch, fetchSentimentAnalysis, MarketDataPayload } from './services/geminiService';
+import { SchemaValidationError } from './services/schemaValidation';
+import { getLlmProvider } from './services/llmProvider';
+import { GeminiProvider } from './services/geminiProvider';
+import { ORDER_TAG_PREFIX, TradierService, TradierOrder, TradierQuote, closedBrackets, parseBarTime } from './services/tradierService';
+import { StreamState } from './services/tradierStream';
+import { ReplayEngine, ReplaySession, ReplaySpeed, parseSessionFile, buildSessionFile } from './services/replayService';
+import { BacktestBar, BacktestReport, barsFromTicks, barsFromTradier, recordSignal, runBacktest } from './services/backtestService';
+import { PropChallengeState, PropTradeFill, applyFill, createChallenge, loadChallenge, markToMarket, rollSession, rulesFromStats, saveChallenge } from './services/propChallengeService';
+import { PaperBroker, PaperBrokerSnapshot, PaperTrade } from './services/paperBroker';
+import { GammaProfile, annotateHistory, computeGammaLevels } from './services/gammaExposureService';
+import { WindowBuilder, WindowingConfig, WindowingProfiles, WINDOW_PRESETS, buildWindows, describeWindowing, loadWindowingProfiles, presetFor, sameWindowing, saveWindowingProfiles, windowingFor } from './services/windowingService';
+import { JournalEntry, JournalQuery, SignalJournal, createEntry, entriesToCsv, entriesToJson, parseJournalFile } from './services/journalService';
+import { MAX_WATCHLIST, WatchlistSummary, loadWatchlist, normalizeSymbol, quoteToTick, saveWatchlist } from './services/watchlistService';
+import { AlertEngine, AlertRule, DEFAULT_RULES, loadAlertLog, loadAlertRules, saveAlertLog, saveAlertRules, MAX_ALERT_LOG } from './services/alertEngine';
+import { AlertChannelConfig, AlertDispatcher, ChannelDeliveryStatus, loadAlertChannels, saveAlertChannels } from './services/alertChannels';
+import { RiskSettings, loadRiskSettings, quantityBreach, saveRiskSettings, sizePosition } from './services/riskService';
+import { SessionPhase, formatCountdown, formatNyTime, getSession, sessionDateOf } from './services/sessionCalendar';
+import { computeSessionLevels } from './services/candleService';
+import { DEFAULT_VIX, DataQualityReport, assessDataQuality } from './services/dataQualityService';
+import { CredentialKey, CredentialTestResult, CredentialVault, LockReason, VaultSecrets, VaultSettings, VaultStatus, loadVaultSettings, readLegacyCredentials, saveVaultSettings } from './services/credentialVault';
+import { LixiProfile, LixiProfiles, calibrateProfile, loadLixiProfiles, profileFor, saveLixiProfiles, withQuoteAdv } from './services/lixiService';
 import MarketChart from './components/MarketChart';
+import BacktestPanel from './components/BacktestPanel';
+import PropChallengePanel from './components/PropChallengePanel';
+import RiskPanel from './components/RiskPanel';
+import OrderTicket from './components/OrderTicket';
+import PaperBrokerPanel from './components/PaperBrokerPanel';
+import LixiProfilePanel from './components/LixiProfilePanel';
+import WatchlistGrid, { WatchlistRow } from './components/WatchlistGrid';
+import JournalPanel from './components/JournalPanel';
+import AlertRulesPanel from './components/AlertRulesPanel';
+import AlertLogPanel from './components/AlertLogPanel';
+import DataQualityPanel from './components/DataQualityPanel';
+import AlertChannelsPanel from './components/AlertChannelsPanel';
+import VaultModal from './components/VaultModal';
 
 const generateSafeId = () => {
   try {
@@ -16,36 +49,67 @@ const generateSafeId = () => {
   }
 };
 
-const formatToEST = (date: Date) => {
-  try {
-    return date.toLocaleString('en-US', {
-      timeZone: 'America/New_York',
-      hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false
-    });
-  } catch (e) {
-    return date.toLocaleTimeString();
-  }
+// Full-speed polling during the regular session, slower in extended hours, a trickle while the exchange is shut
+const refreshSecondsFor = (phase: SessionPhase, tradier: boolean) =>
+  phase === 'REGULAR' ? (tradier ? 30 : 60) : phase === 'CLOSED' ? 300 : (tradier ? 60 : 120);
+
+const BACKGROUND_POLL_MS: Record<SessionPhase, number> = {
+  PRE: 30000,
+  REGULAR: 15000,
+  POST: 30000,
+  CLOSED: 5 * 60000
 };
 
-const isMarketOpen = () => {
-  try {
-    const now = new Date();
-    const estDate = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' }));
-    const day = estDate.getDay();
-    const hour = estDate.getHours();
-    const min = estDate.getMinutes();
-    if (day === 0 || day === 6) return false;
-    const timeInMins = hour * 60 + min;
-    return timeInMins >= 570 && timeInMins <= 960; // 9:30 AM to 4:00 PM
-  } catch (e) {
-    return true; // Default to open if TZ check fails
-  }
+const SESSION_BADGES: Record<SessionPhase, { label: string; dot: string }> = {
+  PRE: { label: 'PRE-MARKET', dot: 'bg-amber-500 animate-pulse' },
+  REGULAR: { label: 'LIVE', dot: 'bg-emerald-500 animate-pulse' },
+  POST: { label: 'AFTER HOURS', dot: 'bg-violet-500 animate-pulse' },
+  CLOSED: { label: 'CLOSED', dot: 'bg-slate-700' }
 };
 
-type StreamingStatus = 'IDLE' | 'TRADIER_PRO' | 'GROUNDED' | 'OFFLINE' | 'TIMEOUT' | 'ERROR';
+type StreamingStatus = 'IDLE' | 'REPLAY' | 'TRADIER_STREAM' | 'TRADIER_PRO' | 'GROUNDED' | 'OFFLINE' | 'TIMEOUT' | 'ERROR';
+
+const TRADIER_ENDPOINTS = {
+  apiUrl: process.env.TRADIER_API_URL || undefined,
+  streamUrl: process.env.TRADIER_STREAM_URL || undefined
+};
+
+// While a routed bracket is still working, the order book is re-read this often to catch its fills
+const ORDER_POLL_MS = 15000;
+const WORKING_ORDER_STATUSES = ['open', 'partially_filled', 'pending'];
+
+const REPLAY_TICKS_PER_STEP = 4;
+const BACKGROUND_LEVELS_MS = 5 * 60000;
+const MAX_WINDOWS = 120;
+const MAX_RECORDED_TICKS = 50000;
+const MAX_REPLAY_POINTS = 400;
+const MAX_SIGNAL_HISTORY = 500;
+const DEFAULT_SEVERITY: Record<Alert['type'], AlertSeverity> = { GOLDEN: 'CRITICAL', SIGNAL: 'WARNING', SYSTEM: 'INFO' };
+const EMPTY_SEARCH_PAYLOAD: MarketDataPayload = {
+  currentPrice: 0, change24h: 0, vix: 0, hp: 0, mhp: 0, gammaFlip: 0, maxGamma: 0, vannaPivot: 0, yesterdayClose: 0, todayOpen: 0, history: []
+};
+
+const DEFAULT_PROP_RULES = rulesFromStats({
+  startingBalance: 50000,
+  currentEquity: 50000,
+  profitTarget: 53000,
+  maxDrawdown: 48000,
+  currentDrawdown: 0,
+  dailyLossLimit: 49000,
+  status: 'ACTIVE'
+});
+
+interface ReplayState {
+  session: ReplaySession;
+  cursor: number;
+  total: number;
+  speed: ReplaySpeed;
+  playing: boolean;
+}
 
 const App: React.FC = () => {
-  const [selectedSymbol, setSelectedSymbol] = useState(SYMBOLS[0]);
+  const [watchlist, setWatchlist] = useState<string[]>(() => loadWatchlist());
+  const [selectedSymbol, setSelectedSymbol] = useState(() => watchlist[0]);
   const [isTradierConnected, setIsTradierConnected] = useState(false);
   const [hasGeminiKey, setHasGeminiKey] = useState(false);
   const [marketData, setMarketData] = useState<MarketData | null>(null);
@@ -54,42 +118,179 @@ const App: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [fetchingData, setFetchingData] = useState(false);
   const [showVault, setShowVault] = useState(false);
-  const [inputToken, setInputToken] = useState('');
-  const [isSandbox, setIsSandbox] = useState(false);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>('EMPTY');
+  const [vaultSecrets, setVaultSecrets] = useState<VaultSecrets | null>(null);
+  const [vaultSettings, setVaultSettings] = useState<VaultSettings>(() => loadVaultSettings());
+  const [vaultBusy, setVaultBusy] = useState(false);
+  const [vaultError, setVaultError] = useState<string | null>(null);
+  const [legacyCredentials, setLegacyCredentials] = useState(() => readLegacyCredentials());
+  const [credentialTests, setCredentialTests] = useState<Partial<Record<CredentialKey, CredentialTestResult>>>({});
+  const [testingCredential, setTestingCredential] = useState<CredentialKey | null>(null);
   const [signalHistory, setSignalHistory] = useState<HistoricalSignal[]>([]);
   const [streamingStatus, setStreamingStatus] = useState<StreamingStatus>('IDLE');
   const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [alertLog, setAlertLog] = useState<Alert[]>(() => loadAlertLog());
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(() => loadAlertRules());
+  const [alertChannels, setAlertChannels] = useState<AlertChannelConfig[]>(() => loadAlertChannels());
+  const [channelStatus, setChannelStatus] = useState<Record<string, ChannelDeliveryStatus>>({});
   const [countdown, setCountdown] = useState(30);
+  const [streamState, setStreamState] = useState<StreamState>('CLOSED');
+  const [bridgeVersion, setBridgeVersion] = useState(0);
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const [backtestBars, setBacktestBars] = useState<BacktestBar[]>([]);
+  const [backtestReport, setBacktestReport] = useState<BacktestReport | null>(null);
+  const [allowLiveOrders, setAllowLiveOrders] = useState(false);
+  const [placingOrder, setPlacingOrder] = useState(false);
+  const [orders, setOrders] = useState<TradierOrder[]>([]);
+  const [paperSnapshot, setPaperSnapshot] = useState<PaperBrokerSnapshot | null>(null);
+  const [gammaProfile, setGammaProfile] = useState<GammaProfile | null>(null);
+  const [dataQuality, setDataQuality] = useState<DataQualityReport | null>(null);
+  const dataQualityRef = useRef<DataQualityReport | null>(null);
+  const [lixiProfiles, setLixiProfiles] = useState<LixiProfiles>(() => loadLixiProfiles());
+  const [windowingProfiles, setWindowingProfiles] = useState<WindowingProfiles>(() => loadWindowingProfiles());
   
-  const [propStats] = useState<PropChallengeStats>({
-    startingBalance: 50000,
-    currentEquity: 50000,
-    profitTarget: 53000,
-    maxDrawdown: 48000,
-    currentDrawdown: 0,
-    dailyLossLimit: 49000,
-    status: 'ACTIVE'
-  });
+  const [challenge, setChallenge] = useState<PropChallengeState>(() => loadChallenge(DEFAULT_PROP_RULES));
+  const propStats: PropChallengeStats = challenge.stats;
+  const challengeRef = useRef<PropChallengeState>(challenge);
+  challengeRef.current = challenge;
+  const [riskSettings, setRiskSettings] = useState<RiskSettings>(() => loadRiskSettings());
 
-  const [windowHistory, setWindowHistory] = useState<TickWindow[]>([]);
+  const [windowsBySymbol, setWindowsBySymbol] = useState<Record<string, TickWindow[]>>({});
+  const [summaries, setSummaries] = useState<Record<string, WatchlistSummary>>({});
+  const [journalReady, setJournalReady] = useState(false);
+  const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
+  const windowHistory = windowsBySymbol[selectedSymbol] || [];
   const tradierRef = useRef<TradierService | null>(null);
   const fetchLock = useRef<boolean>(false);
+  const windowBuildersRef = useRef<Record<string, WindowBuilder>>({});
+  const lastMidsRef = useRef<Record<string, number>>({});
+  const recordedTicksRef = useRef<Record<string, Tick[]>>({});
+  const marketCacheRef = useRef<Record<string, MarketData>>({});
+  const analysisCacheRef = useRef<Record<string, AnalysisResponse | null>>({});
+  const quoteVolumesRef = useRef<Record<string, number>>({});
+  const journalRef = useRef<SignalJournal | null>(null);
+  const journalQueryRef = useRef<JournalQuery>({});
+  const replayRef = useRef<ReplayEngine | null>(null);
+  const replayClockRef = useRef<number>(0);
+  const replayFileRef = useRef<HTMLInputElement | null>(null);
+  const replayActive = replay !== null;
+  const paperRef = useRef<PaperBroker | null>(null);
+  // Separate, unpersisted book for the length of a replay; paperRef stays the live account
+  const replayPaperRef = useRef<PaperBroker | null>(null);
+  const activePaper = () => replayPaperRef.current || paperRef.current;
 
+  const lixiProfile = profileFor(lixiProfiles, selectedSymbol);
+  const lixiProfilesRef = useRef<LixiProfiles>(lixiProfiles);
+  lixiProfilesRef.current = lixiProfiles;
+  const windowing = windowingFor(windowingProfiles, selectedSymbol);
+  const windowingProfilesRef = useRef<WindowingProfiles>(windowingProfiles);
+  windowingProfilesRef.current = windowingProfiles;
+  const watchlistKey = watchlist.join(',');
+  const selectedSymbolRef = useRef(selectedSymbol);
+  selectedSymbolRef.current = selectedSymbol;
+  const summariesRef = useRef(summaries);
+  summariesRef.current = summaries;
   const currentLixi = windowHistory.length > 0 ? (windowHistory[0].lixi || 0) : 0;
-  const isGoldenFlow = currentLixi > 7.5;
-  const marketLive = isMarketOpen();
+  const isGoldenFlow = currentLixi > lixiProfile.watchThreshold;
+  const marketSession = getSession();
+
+  const dispatcherRef = useRef<AlertDispatcher | null>(null);
+  if (!dispatcherRef.current) {
+    dispatcherRef.current = new AlertDispatcher({
+      // Delivery failures surface on the channel rather than as alerts, which would fan out again
+      onStatus: (id, status) => setChannelStatus(prev => ({ ...prev, [id]: status }))
+    }, alertChannels);
+  }
 
-  const addAlert = useCallback((type: Alert['type'], message: string) => {
-    const newAlert: Alert = { id: generateSafeId(), type, message, timestamp: new Date().toLocaleTimeString() };
+  // Every alert lands in the persistent log and goes out to the delivery channels; toasts are the
+  // transient view, and CRITICAL ones stay until acknowledged
+  const addAlert = useCallback((type: Alert['type'], message: string, meta: Partial<Pick<Alert, 'severity' | 'symbol' | 'ruleId'>> = {}) => {
+    const now = new Date();
+    const newAlert: Alert = {
+      id: generateSafeId(), type, message, timestamp: now.toLocaleTimeString(), epoch: now.getTime(),
+      severity: meta.severity || DEFAULT_SEVERITY[type], acknowledged: false, symbol: meta.symbol, ruleId: meta.ruleId
+    };
+    setAlertLog(prev => [newAlert, ...prev].slice(0, MAX_ALERT_LOG));
+    dispatcherRef.current?.dispatch(newAlert);
     setAlerts(prev => [newAlert, ...prev].slice(0, 5));
+    if (newAlert.severity === 'CRITICAL') return;
     setTimeout(() => {
       setAlerts(prev => prev.filter(a => a.id !== newAlert.id));
     }, 8000);
   }, []);
 
+  const alertEngineRef = useRef<AlertEngine | null>(null);
+  if (!alertEngineRef.current) {
+    alertEngineRef.current = new AlertEngine({
+      onAlert: ({ type, message, ...meta }) => addAlert(type, message, meta)
+    }, alertRules);
+  }
+
+  const disconnectBridge = useCallback(() => {
+    tradierRef.current = null;
+    setIsTradierConnected(false);
+    setBridgeVersion(v => v + 1);
+  }, []);
+
+  const vaultRef = useRef<CredentialVault | null>(null);
+  if (!vaultRef.current) {
+    vaultRef.current = new CredentialVault({
+      // Locking drops every decrypted secret, including the copies held by the bridge and the LLM client
+      onLock: (reason: LockReason) => {
+        disconnectBridge();
+        getLlmProvider().setApiKey?.('');
+        setVaultSecrets(null);
+        setVaultStatus('LOCKED');
+        setCredentialTests({});
+        addAlert('SYSTEM', reason === 'IDLE' ? 'Vault auto-locked after inactivity. Bridge disconnected.' : 'Vault locked. Bridge disconnected.');
+      }
+    }, vaultSettings);
+  }
+
+  const acknowledgeAlerts = (ids: string[] | 'ALL') => {
+    const match = (a: Alert) => ids === 'ALL' || ids.includes(a.id);
+    setAlertLog(prev => prev.map(a => match(a) ? { ...a, acknowledged: true } : a));
+    setAlerts(prev => prev.filter(a => !match(a)));
+  };
+
+  const setSymbolWindows = useCallback((symbol: string, update: TickWindow[] | ((prev: TickWindow[]) => TickWindow[])) => {
+    setWindowsBySymbol(prev => ({ ...prev, [symbol]: typeof update === 'function' ? update(prev[symbol] || []) : update }));
+  }, []);
+
+  // Drops a symbol's partial bar and mid anchor so the next tick starts a clean series
+  const resetWindowing = useCallback((symbol: string) => {
+    delete windowBuildersRef.current[symbol];
+    delete lastMidsRef.current[symbol];
+  }, []);
+
+  // Labels closed bars in order under the symbol's LIXI profile and window type
+  const labelWindows = useCallback((symbol: string, bars: Tick[][]): TickWindow[] => {
+    const service = tradierRef.current || new TradierService("");
+    const profile = profileFor(lixiProfilesRef.current, symbol);
+    const { alpha } = windowingFor(windowingProfilesRef.current, symbol);
+    return bars.map(bar => {
+      const win = service.calculateWindowLabel(bar, lastMidsRef.current[symbol] || bar[0].mid, profile, alpha);
+      lastMidsRef.current[symbol] = bar[bar.length - 1].mid;
+      return win;
+    });
+  }, []);
+
+  // Single windowing path for every tick source (live stream, background polls and replay) so all label identically
+  const ingestTicks = useCallback((symbol: string, ticks: Tick[]) => {
+    const config = windowingFor(windowingProfilesRef.current, symbol);
+    let builder = windowBuildersRef.current[symbol];
+    if (!builder || !sameWindowing(builder.config, config)) {
+      builder = new WindowBuilder(config);
+      windowBuildersRef.current[symbol] = builder;
+    }
+    const fresh = labelWindows(symbol, builder.push(ticks)).reverse();
+    if (fresh.length === 0) return;
+    setSymbolWindows(symbol, prev => [...fresh, ...prev].slice(0, MAX_WINDOWS));
+  }, [labelWindows, setSymbolWindows]);
+
   const fetchData = useCallback(async (forceSymbol?: string) => {
     const symbol = forceSymbol || selectedSymbol;
-    if (fetchLock.current) return;
+    if (fetchLock.current || replayRef.current) return;
     
     fetchLock.current = true;
     setFetchingData(true);
@@ -98,29 +299,86 @@ const App: React.FC = () => {
       let historyPoints: PricePoint[] = [];
       let dataSource: StreamingStatus = 'GROUNDED';
       let currentPrice = 0;
+      let chainLevels: InstitutionalLevels | null = null;
+      let chainProfile: GammaProfile | null = null;
+      let verifiedQuote: TradierQuote | null = null;
+      let vixQuote: TradierQuote | null = null;
+      let tradierPoints: PricePoint[] = [];
+      // With a streaming-capable bridge, windows come only from real prints delivered by the stream
+      const streamOwnsWindows = isTradierConnected && !!tradierRef.current?.supportsStreaming;
 
-      const [searchMeta, sentimentMeta] = await Promise.all([
+      const [searchResult, sentimentResult] = await Promise.allSettled([
         fetchMarketDataViaSearch(symbol),
         fetchSentimentAnalysis(symbol)
       ]);
 
-      setSentiment(sentimentMeta);
+      // A rejected search payload is only fatal without the Tradier bridge to fall back on
+      if (searchResult.status === 'rejected') {
+        if (!(tradierRef.current && isTradierConnected)) throw searchResult.reason;
+        addAlert('SYSTEM', `Search data rejected: ${searchResult.reason?.message || 'unknown error'}`);
+      }
+      const searchMeta: MarketDataPayload = searchResult.status === 'fulfilled' ? searchResult.value : EMPTY_SEARCH_PAYLOAD;
+
+      if (sentimentResult.status === 'fulfilled') {
+        setSentiment(sentimentResult.value);
+      } else {
+        setSentiment(null);
+        addAlert('SYSTEM', `Sentiment rejected: ${sentimentResult.reason?.message || 'unknown error'}`);
+      }
 
       if (tradierRef.current && isTradierConnected) {
         try {
           const [bars, quote] = await Promise.all([
             tradierRef.current.getIntradayHistory(symbol),
-            tradierRef.current.getQuotes([symbol])
+            tradierRef.current.getQuotes([symbol, 'VIX'])
           ]);
           
+          const q = quote.find(item => item.symbol === symbol) || null;
+          verifiedQuote = q;
+          vixQuote = quote.find(item => item.symbol === 'VIX') || null;
+          const averageVolume = Number(q?.average_volume) || 0;
+          const stored = lixiProfilesRef.current[symbol];
+          if (stored?.advSource === 'QUOTE' && averageVolume > 0 && stored.advFactor !== averageVolume) {
+            setLixiProfiles(prev => ({ ...prev, [symbol]: withQuoteAdv(prev[symbol] || {}, averageVolume) }));
+          }
+          if (q) {
+            try {
+              const gex = await computeGammaLevels(tradierRef.current, symbol, q);
+              chainLevels = gex.levels;
+              chainProfile = gex.profile;
+            } catch (err) {
+              // Chain unavailable (permissions, after-hours gaps): levels fall back to the search snapshot below
+            }
+          }
+          if (q && Number(q.bid) > 0 && Number(q.ask) > 0) {
+            const bid = Number(q.bid);
+            const ask = Number(q.ask);
+            // Polled NBBO keeps paper orders working when no stream is running
+            paperRef.current?.onTicks(symbol, [{
+              time: Date.now(), bid, ask, mid: (bid + ask) / 2, last: Number(q.last) || (bid + ask) / 2,
+              spread: ask - bid, volume: 0, bidVolume: 0, askVolume: 0
+            }]);
+          }
+
           if (bars && bars.length > 0) {
-            historyPoints = bars.map(b => ({
-              time: b.date.includes(' ') ? b.date.split(' ')[1] : b.date,
-              price: parseFloat(String(b.close)) || 0,
-              volume: parseFloat(String(b.volume)) || 0
-            }));
-            dataSource = 'TRADIER_PRO';
-            currentPrice = parseFloat(String(quote[0]?.last)) || (historyPoints.length > 0 ? historyPoints[historyPoints.length - 1].price : 0);
+            historyPoints = bars.map(b => {
+              const epoch = parseBarTime(String(b.date)) || undefined;
+              return {
+                // Labels and session ids come from the epoch, so every bar reads in exchange time
+                time: epoch ? formatNyTime(epoch) : String(b.date),
+                epoch,
+                session: epoch ? sessionDateOf(epoch) : undefined,
+                price: parseFloat(String(b.close)) || 0,
+                open: parseFloat(String(b.open)) || undefined,
+                high: parseFloat(String(b.high)) || undefined,
+                low: parseFloat(String(b.low)) || undefined,
+                volume: parseFloat(String(b.volume)) || 0
+              };
+            });
+            tradierPoints = historyPoints;
+            dataSource = streamOwnsWindows ? 'TRADIER_STREAM' : 'TRADIER_PRO';
+            setBacktestBars(barsFromTradier(bars));
+            currentPrice = parseFloat(String(q?.last)) || (historyPoints.length > 0 ? historyPoints[historyPoints.length - 1].price : 0);
           }
         } catch (err: any) {
           dataSource = 'GROUNDED';
@@ -135,53 +393,17 @@ const App: React.FC = () => {
         }));
       }
 
-      if (historyPoints.length === 0 || (historyPoints.length > 0 && historyPoints[0].price === 0)) {
+      const vixValue = parseFloat(String(vixQuote?.last)) || parseFloat(String(searchMeta.vix)) || DEFAULT_VIX;
+      const offline = historyPoints.length === 0 || historyPoints[0].price === 0;
+      if (offline) {
         setStreamingStatus('OFFLINE');
+      } else if (streamOwnsWindows) {
+        setStreamingStatus(dataSource);
       } else {
         setStreamingStatus(dataSource);
-        const service = tradierRef.current || new TradierService("");
-        
-        const vixValue = parseFloat(String(searchMeta.vix)) || 15;
-        const baseSpread = Math.max(0.01, (vixValue / 850)); 
-        const marketActive = isMarketOpen();
-
-        const hftFeed: Tick[] = historyPoints.map((p, idx) => {
-          const openingVol = marketActive ? 1.4 : 1.0;
-          const noise = (Math.random() - 0.5) * (vixValue / 120) * openingVol;
-          const currentSpread = baseSpread * (0.8 + Math.random() * 0.4);
-          const tickVolume = (p.volume || 2500) * (0.5 + Math.random() * 1.5);
-          const cycle = Math.sin(idx / 10);
-          const buySellSkew = 0.5 + (cycle * 0.25) + (Math.random() * 0.1 - 0.05);
-
-          return {
-            time: Date.now() - (historyPoints.length - idx) * 60000,
-            bid: (p.price + noise) - (currentSpread / 2),
-            ask: (p.price + noise) + (currentSpread / 2),
-            mid: p.price + noise,
-            last: p.price + noise,
-            spread: currentSpread,
-            volume: tickVolume,
-            bidVolume: tickVolume * buySellSkew,
-            askVolume: tickVolume * (1 - buySellSkew)
-          };
-        });
-
-        const windows: TickWindow[] = [];
-        for (let i = 0; i < hftFeed.length; i += 4) {
-          const chunk = hftFeed.slice(i, Math.min(i + 4, hftFeed.length));
-          if (chunk.length > 0) {
-            const lastMid = i === 0 ? chunk[0].mid : hftFeed[i - 1].mid;
-            const win = service.calculateWindowLabel(chunk, lastMid);
-            windows.push(win);
-          }
-        }
-        
-        const latestWin = windows[windows.length - 1];
-        if (latestWin && latestWin.lixi > 8.5) {
-          addAlert('GOLDEN', `OPENING CROSS ALERT: Institutional cluster on ${symbol}! LIXI: ${latestWin.lixi.toFixed(2)}`);
-        }
-        
-        setWindowHistory(windows.reverse());
+        // Without the stream there are no real prints to classify; bars and search snapshots carry no order flow
+        delete lastMidsRef.current[symbol];
+        setSymbolWindows(symbol, []);
       }
 
       const hp = parseFloat(String(searchMeta.hp)) || 0;
@@ -191,72 +413,708 @@ const App: React.FC = () => {
       else if (hp > mhp) bias = 'BULLISH';
       else if (mhp > hp) bias = 'BEARISH';
 
+      const searchDerivation = (key: string): LevelDerivation => ({
+        source: 'SEARCH', method: `Gemini web search field "${key}" (unverified)`, inputs: {}, computedAt: new Date().toISOString()
+      });
+      const searchLevels: InstitutionalLevels = {
+        hp, mhp, 
+        hg: (parseFloat(String(searchMeta.yesterdayClose)) + parseFloat(String(searchMeta.todayOpen))) / 2 || 0, 
+        gammaFlip: parseFloat(String(searchMeta.gammaFlip)) || 0, 
+        maxGamma: parseFloat(String(searchMeta.maxGamma)) || 0, 
+        vannaPivot: parseFloat(String(searchMeta.vannaPivot)) || 0, 
+        bias,
+        derivations: {
+          hp: searchDerivation('hp'), mhp: searchDerivation('mhp'), hg: searchDerivation('yesterdayClose/todayOpen'),
+          gammaFlip: searchDerivation('gammaFlip'), maxGamma: searchDerivation('maxGamma'), vannaPivot: searchDerivation('vannaPivot')
+        }
+      };
+
+      const report = assessDataQuality({
+        symbol,
+        search: searchResult.status === 'fulfilled' ? searchResult.value : null,
+        quote: verifiedQuote,
+        vixQuote,
+        bars: tradierPoints,
+        chainLevels,
+        searchLevels,
+        windowsFrom: offline ? 'NONE' : streamOwnsWindows ? 'STREAM' : 'NO_STREAM',
+        session: getSession(),
+        now: Date.now()
+      });
+      const previousReport = dataQualityRef.current;
+      if (report.blockReason && (previousReport?.symbol !== symbol || !previousReport.blockReason)) {
+        addAlert('SYSTEM', `Data Quality: ${report.blockReason}`, { severity: 'WARNING', symbol });
+      }
+      dataQualityRef.current = report;
+      setDataQuality(report);
+
+      const quoteChange = parseFloat(String(verifiedQuote?.change_percentage));
       setMarketData({
         symbol,
         currentPrice: currentPrice || parseFloat(String(searchMeta.currentPrice)) || (historyPoints.length > 0 ? historyPoints[historyPoints.length - 1].price : 0),
-        change24h: parseFloat(String(searchMeta.change24h)) || 0,
+        change24h: Number.isFinite(quoteChange) ? quoteChange : parseFloat(String(searchMeta.change24h)) || 0,
         volume24h: 0,
-        vix: parseFloat(String(searchMeta.vix)) || 15,
-        history: historyPoints,
-        levels: { 
-          hp, mhp, 
-          hg: (parseFloat(String(searchMeta.yesterdayClose)) + parseFloat(String(searchMeta.todayOpen))) / 2 || 0, 
-          gammaFlip: parseFloat(String(searchMeta.gammaFlip)) || 0, 
-          maxGamma: parseFloat(String(searchMeta.maxGamma)) || 0, 
-          vannaPivot: parseFloat(String(searchMeta.vannaPivot)) || 0, 
-          bias 
-        }
+        vix: vixValue,
+        history: chainProfile ? annotateHistory(historyPoints, chainProfile) : historyPoints,
+        levels: chainLevels || searchLevels,
+        sessionLevels: computeSessionLevels(historyPoints) || undefined
       });
-      setCountdown(isTradierConnected ? 30 : 60);
+      setGammaProfile(chainProfile);
+      setCountdown(refreshSecondsFor(getSession().phase, isTradierConnected));
     } catch (e: any) {
-      addAlert('SYSTEM', `Connectivity Error: Institutional pipe failure.`);
+      addAlert('SYSTEM', e instanceof SchemaValidationError ? e.message : `Connectivity Error: Institutional pipe failure.`);
     } finally { 
       setFetchingData(false);
       fetchLock.current = false;
     }
-  }, [selectedSymbol, isTradierConnected, addAlert]);
+  }, [selectedSymbol, isTradierConnected, addAlert, labelWindows, setSymbolWindows]);
+
+  useEffect(() => {
+    const service = tradierRef.current;
+    if (replayActive || !isTradierConnected || !service || !service.supportsStreaming) return;
+    const symbols = watchlistKey.split(',');
+    symbols.forEach(resetWindowing);
+    recordedTicksRef.current = {};
+
+    const stream = service.openStream(symbols, {
+      onTicks: (symbol, ticks) => {
+        const recorded = recordedTicksRef.current[symbol] || (recordedTicksRef.current[symbol] = []);
+        recorded.push(...ticks);
+        if (recorded.length > MAX_RECORDED_TICKS) recorded.splice(0, recorded.length - MAX_RECORDED_TICKS);
+        ingestTicks(symbol, ticks);
+        paperRef.current?.onTicks(symbol, ticks);
+      },
+      onStateChange: (state) => {
+        setStreamState(state);
+        if (state === 'OPEN') setStreamingStatus('TRADIER_STREAM');
+      }
+    });
+
+    return () => stream.stop();
+  }, [watchlistKey, isTradierConnected, bridgeVersion, replayActive, ingestTicks, resetWindowing]);
+
+  // Background symbols: quotes keep price and change fresh, feed windows when no stream is running,
+  // and gamma levels are recomputed on a slower cadence
+  useEffect(() => {
+    const service = tradierRef.current;
+    if (replayActive || !isTradierConnected || !service) return;
+    const symbols = watchlistKey.split(',');
+
+    const poll = async () => {
+      const background = symbols.filter(s => s !== selectedSymbolRef.current);
+      if (background.length === 0) return;
+      try {
+        const quotes = await service.getQuotes(background);
+        const now = Date.now();
+        quotes.forEach(q => {
+          if (!service.supportsStreaming) {
+            const tick = quoteToTick(q, quoteVolumesRef.current[q.symbol] || 0, now);
+            if (tick) ingestTicks(q.symbol, [tick]);
+          }
+          quoteVolumesRef.current[q.symbol] = Number(q.volume) || 0;
+          setSummaries(prev => ({
+            ...prev,
+            [q.symbol]: { ...prev[q.symbol], symbol: q.symbol, price: Number(q.last) || 0, change: Number(q.change_percentage) || 0, updatedAt: now }
+          }));
+        });
+
+        const stale = quotes.filter(q => now - (summariesRef.current[q.symbol]?.levelsAt || 0) > BACKGROUND_LEVELS_MS);
+        for (const q of stale) {
+          try {
+            const { levels } = await computeGammaLevels(service, q.symbol, q, now);
+            setSummaries(prev => ({ ...prev, [q.symbol]: { ...prev[q.symbol], levels, levelsAt: now } }));
+          } catch (err) {
+            // No chain for this symbol (permissions, illiquid); the grid shows bias as unknown
+          }
+        }
+      } catch (err) {
+        // A failed background poll is retried on the next interval
+      }
+    };
+
+    // Re-armed after each poll so the cadence follows the session phase as it changes
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+    const loop = async () => {
+      await poll();
+      if (!cancelled) timer = setTimeout(loop, BACKGROUND_POLL_MS[getSession().phase]);
+    };
+    loop();
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [watchlistKey, isTradierConnected, bridgeVersion, replayActive, ingestTicks]);
+
+  const recordFill = useCallback((fill: PropTradeFill) => {
+    setChallenge(prev => applyFill(prev, fill));
+  }, []);
+
+  const handlePaperTrade = useCallback((trade: PaperTrade) => {
+    addAlert('SIGNAL', `PAPER ${trade.source === 'REPLAY' ? 'REPLAY ' : ''}${trade.exitReason}: ${trade.side} ${trade.quantity} ${trade.symbol} ${trade.realizedPnl >= 0 ? '+' : '-'}$${Math.abs(trade.realizedPnl).toFixed(2)}`);
+    // Replayed sessions are historical; they must not move the live evaluation account
+    if (trade.source === 'REPLAY') return;
+    recordFill({ id: trade.id, symbol: trade.symbol, realizedPnl: trade.realizedPnl, timestamp: Date.now(), source: 'PAPER' });
+  }, [recordFill, addAlert]);
+
+  const startReplay = useCallback((session: ReplaySession) => {
+    replayRef.current?.pause();
+    resetWindowing(session.symbol);
+    replayClockRef.current = 0;
+    setSymbolWindows(session.symbol, []);
+    setSignalHistory([]);
+    setAnalysis(null);
+    setSentiment(null);
+    dataQualityRef.current = null;
+    setDataQuality(null);
+    setSelectedSymbol(session.symbol);
+    setStreamingStatus('REPLAY');
+    setBacktestBars(barsFromTicks(session.ticks));
+    setBacktestReport(null);
+    setMarketData({
+      symbol: session.symbol,
+      currentPrice: session.ticks[0].last,
+      change24h: 0,
+      volume24h: 0,
+      vix: 0,
+      history: [],
+      levels: session.levels
+    });
+
+    const replayBroker = new PaperBroker({ onTrade: handlePaperTrade, onChange: setPaperSnapshot }, { config: paperRef.current?.snapshot().config }, 'REPLAY');
+    replayPaperRef.current = replayBroker;
+    setPaperSnapshot(replayBroker.snapshot());
+
+    const engine = new ReplayEngine(session, {
+      onTicks: (ticks) => {
+        ingestTicks(session.symbol, ticks);
+        replayBroker.onTicks(session.symbol, ticks);
+        const last = ticks[ticks.length - 1];
+        const points: PricePoint[] = ticks.map(t => ({ time: formatNyTime(t.time), epoch: t.time, session: sessionDateOf(t.time), price: t.last, volume: t.volume }));
+        setMarketData(prev => {
+          if (!prev) return prev;
+          const history = [...prev.history, ...points].slice(-MAX_REPLAY_POINTS);
+          return {
+            ...prev,
+            currentPrice: last.last,
+            volume24h: prev.volume24h + ticks.reduce((acc, t) => acc + t.volume, 0),
+            history,
+            sessionLevels: computeSessionLevels(history) || undefined
+          };
+        });
+
+        // Recorded signals re-fire once the replay clock passes the moment they were generated
+        const due = (session.signals || []).filter(sig => {
+          const at = Date.parse(sig.timestamp);
+          return at > replayClockRef.current && at <= last.time;
+        });
+        replayClockRef.current = last.time;
+        if (due.length > 0) setSignalHistory(prev => [...due.reverse(), ...prev].slice(0, MAX_SIGNAL_HISTORY));
+      },
+      onProgress: (cursor, total) => setReplay(prev => prev ? { ...prev, cursor, total } : prev),
+      onComplete: () => {
+        setReplay(prev => prev ? { ...prev, playing: false } : prev);
+        addAlert('SYSTEM', `Replay of ${session.symbol} complete.`);
+      }
+    }, REPLAY_TICKS_PER_STEP);
+    replayRef.current = engine;
+    setReplay({ session, cursor: 0, total: session.ticks.length, speed: engine.speed, playing: false });
+  }, [ingestTicks, addAlert, handlePaperTrade]);
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      startReplay(parseSessionFile(await file.text()));
+      addAlert('SYSTEM', `Replay loaded: ${file.name}`);
+    } catch (err: any) {
+      addAlert('SYSTEM', `Replay Load Failure: ${err?.message || 'unreadable file'}`);
+    }
+  };
+
+  const handleReplayControl = (action: 'PLAY' | 'PAUSE' | 'STEP' | 'RESET') => {
+    const engine = replayRef.current;
+    if (!engine) return;
+    if (action === 'PLAY') engine.play();
+    else if (action === 'PAUSE') engine.pause();
+    else if (action === 'STEP') engine.step();
+    else {
+      engine.reset();
+      const replaySymbol = replay ? replay.session.symbol : selectedSymbol;
+      resetWindowing(replaySymbol);
+      replayClockRef.current = 0;
+      setSymbolWindows(replaySymbol, []);
+      setSignalHistory([]);
+      setMarketData(prev => prev ? { ...prev, history: [], volume24h: 0, sessionLevels: undefined } : prev);
+    }
+    setReplay(prev => prev ? { ...prev, playing: engine.isPlaying } : prev);
+  };
+
+  const handleReplaySpeed = (speed: ReplaySpeed) => {
+    const engine = replayRef.current;
+    if (!engine) return;
+    engine.setSpeed(speed);
+    setReplay(prev => prev ? { ...prev, speed, playing: engine.isPlaying } : prev);
+  };
+
+  const exitReplay = () => {
+    if (replay) {
+      resetWindowing(replay.session.symbol);
+      setSymbolWindows(replay.session.symbol, []);
+      delete marketCacheRef.current[replay.session.symbol];
+    }
+    replayRef.current?.pause();
+    replayRef.current = null;
+    // Whatever the replay opened is closed with it and never reaches the live book
+    replayPaperRef.current?.flatten();
+    replayPaperRef.current = null;
+    setPaperSnapshot(paperRef.current ? paperRef.current.snapshot() : null);
+    setReplay(null);
+    setStreamingStatus('IDLE');
+    setMarketData(null);
+    setSignalHistory([]);
+    reloadSignalHistory();
+    setSelectedSymbol(watchlist[0]);
+    fetchData(watchlist[0]);
+  };
+
+  const handleSaveRecording = () => {
+    const ticks = recordedTicksRef.current[selectedSymbol] || [];
+    if (ticks.length === 0) {
+      addAlert('SYSTEM', 'Nothing to record yet: no streamed ticks this session.');
+      return;
+    }
+    const payload = buildSessionFile(selectedSymbol, ticks, marketData?.levels, signalHistory.filter(s => s.symbol === selectedSymbol));
+    const url = URL.createObjectURL(new Blob([JSON.stringify(payload)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `aether-${selectedSymbol}-${payload.recordedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const challengeStatusRef = useRef(challenge.stats.status);
+
+  useEffect(() => {
+    saveChallenge(challenge);
+    if (challenge.stats.status !== challengeStatusRef.current) {
+      challengeStatusRef.current = challenge.stats.status;
+      addAlert('SYSTEM', `Prop challenge ${challenge.stats.status}${challenge.failReason ? `: ${challenge.failReason}` : ''}`);
+    }
+  }, [challenge, addAlert]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setChallenge(prev => rollSession(prev)), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const broker = PaperBroker.load({
+      onTrade: handlePaperTrade,
+      // The panel shows the replay book while one is running; the live book keeps updating underneath
+      onChange: snapshot => { if (!replayPaperRef.current) setPaperSnapshot(snapshot); }
+    });
+    paperRef.current = broker;
+    if (!replayPaperRef.current) setPaperSnapshot(broker.snapshot());
+  }, [handlePaperTrade]);
+
+  // Only the live book marks the challenge; a replay snapshot leaves it untouched
+  const liveUnrealized = paperSnapshot?.source === 'LIVE' ? paperSnapshot.unrealizedPnl : null;
+  useEffect(() => {
+    if (liveUnrealized === null) return;
+    setChallenge(prev => markToMarket(prev, liveUnrealized));
+  }, [liveUnrealized]);
+
+  const positionSizing = analysis && analysis.signal.type !== 'WAIT' ? sizePosition(analysis.signal, propStats, riskSettings) : null;
+
+  const handlePaperSignal = (quantity: number) => {
+    const sig = analysis?.signal;
+    const broker = activePaper();
+    if (!sig || !broker || !positionSizing) return;
+    const breach = quantityBreach(positionSizing, quantity);
+    if (breach) {
+      addAlert('SYSTEM', `Paper Order Blocked: ${breach}`);
+      return;
+    }
+    try {
+      broker.submitSignal(selectedSymbol, sig, quantity);
+      addAlert('SIGNAL', `PAPER ${sig.type} ${quantity} ${selectedSymbol} working at $${sig.entry.toFixed(2)}`);
+    } catch (err: any) {
+      addAlert('SYSTEM', `Paper Order Rejected: ${err?.message || 'unknown error'}`);
+    }
+  };
+
+  const handleManualFill = (realizedPnl: number) => {
+    recordFill({ id: generateSafeId(), symbol: selectedSymbol, realizedPnl, timestamp: Date.now(), source: 'MANUAL' });
+  };
+
+  const handleResetChallenge = () => {
+    setChallenge(createChallenge(challenge.rules));
+    addAlert('SYSTEM', 'Prop challenge reset to starting balance.');
+  };
+
+  const refreshOrders = useCallback(async () => {
+    const service = tradierRef.current;
+    if (!service || !isTradierConnected) return;
+    try {
+      setOrders(await service.getOrders());
+    } catch (e) {
+      // Order book refresh is best-effort; execution errors are surfaced where they happen
+    }
+  }, [isTradierConnected]);
+
+  const orderBlockedReason = (() => {
+    const sig = analysis?.signal;
+    if (!isTradierConnected || !tradierRef.current) return 'No bridge';
+    if (replayActive) return 'Replay mode';
+    if (!sig || sig.type === 'WAIT') return 'No trade signal';
+    if (sig.executionStatus !== 'RISK ON') return 'Posture: sit out';
+    if (!tradierRef.current.canTrade) return 'Live routing disabled';
+    return null;
+  })();
+
+  const handleExecuteSignal = async (quantity: number) => {
+    const service = tradierRef.current;
+    const sig = analysis?.signal;
+    if (!service || !sig || orderBlockedReason || !positionSizing) return;
+    const breach = quantityBreach(positionSizing, quantity);
+    if (breach) {
+      addAlert('SYSTEM', `Order Blocked: ${breach}`);
+      return;
+    }
+    setPlacingOrder(true);
+    try {
+      const ack = await service.placeBracketOrder(selectedSymbol, sig, quantity, `${ORDER_TAG_PREFIX}${Date.now()}`);
+      addAlert('SIGNAL', `${sig.type} ${quantity} ${selectedSymbol} bracket routed (#${ack.id}, ${ack.status})`);
+      refreshOrders();
+    } catch (err: any) {
+      addAlert('SYSTEM', `Order Rejected: ${err?.message || 'unknown error'}`);
+    } finally {
+      setPlacingOrder(false);
+    }
+  };
+
+  const handleCancelOrder = async (orderId: number) => {
+    const service = tradierRef.current;
+    if (!service) return;
+    try {
+      await service.cancelOrder(orderId);
+      addAlert('SYSTEM', `Order #${orderId} cancel requested.`);
+      refreshOrders();
+    } catch (err: any) {
+      addAlert('SYSTEM', `Cancel Failed: ${err?.message || 'unknown error'}`);
+    }
+  };
+
+  useEffect(() => {
+    setOrders([]);
+    refreshOrders();
+  }, [refreshOrders, bridgeVersion]);
+
+  const hasWorkingBracket = orders.some(o => o.tag?.startsWith(ORDER_TAG_PREFIX) && [o, ...(o.leg || [])].some(l => WORKING_ORDER_STATUSES.includes(l.status)));
+  useEffect(() => {
+    if (!hasWorkingBracket) return;
+    const timer = setInterval(refreshOrders, ORDER_POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasWorkingBracket, refreshOrders]);
+
+  // Brackets the broker has closed out count toward the evaluation like paper and manual fills
+  useEffect(() => {
+    closedBrackets(orders).forEach(trade => {
+      const id = `tradier-${trade.orderId}`;
+      const current = challengeRef.current;
+      if (current.appliedFills?.includes(id) || trade.closedAt < (current.startedAt || 0)) return;
+      addAlert('SIGNAL', `LIVE ${trade.exitReason}: ${trade.quantity} ${trade.symbol} ${trade.realizedPnl >= 0 ? '+' : '-'}$${Math.abs(trade.realizedPnl).toFixed(2)} (#${trade.orderId})`);
+      recordFill({ id, symbol: trade.symbol, realizedPnl: trade.realizedPnl, timestamp: trade.closedAt, source: 'LIVE' });
+    });
+  }, [orders, recordFill, addAlert]);
+
+  useEffect(() => {
+    saveLixiProfiles(lixiProfiles);
+  }, [lixiProfiles]);
+
+  useEffect(() => {
+    saveWindowingProfiles(windowingProfiles);
+  }, [windowingProfiles]);
+
+  useEffect(() => {
+    saveWatchlist(watchlist);
+  }, [watchlist]);
+
+  useEffect(() => {
+    saveRiskSettings(riskSettings);
+  }, [riskSettings]);
+
+  useEffect(() => {
+    saveAlertRules(alertRules);
+    alertEngineRef.current?.setRules(alertRules);
+  }, [alertRules]);
+
+  useEffect(() => {
+    saveAlertLog(alertLog);
+  }, [alertLog]);
+
+  useEffect(() => {
+    saveAlertChannels(alertChannels);
+    dispatcherRef.current?.setChannels(alertChannels);
+  }, [alertChannels]);
+
+  // State rules run against every monitored symbol whenever its windows, quote or levels move
+  useEffect(() => {
+    const engine = alertEngineRef.current;
+    if (!engine) return;
+    // Replay evaluates against the session of the recorded tape, not the wall clock
+    const ruleSession = getSession(replayActive && replayClockRef.current > 0 ? replayClockRef.current : Date.now());
+    watchlist.forEach(symbol => {
+      const summary = summaries[symbol];
+      const windows = windowsBySymbol[symbol];
+      engine.evaluate({
+        symbol,
+        price: lastMidsRef.current[symbol] || summary?.price,
+        levels: summary?.levels,
+        windows,
+        goldenThreshold: profileFor(lixiProfiles, symbol).goldenThreshold,
+        sentimentScore: symbol === selectedSymbol && sentiment ? sentiment.score : undefined,
+        session: ruleSession
+      });
+    });
+  }, [watchlist, windowsBySymbol, summaries, lixiProfiles, sentiment, selectedSymbol, replayActive]);
+
+  // Keep the in-view symbol's snapshot cached and mirrored into the watchlist grid
+  useEffect(() => {
+    if (!marketData || replayActive) return;
+    marketCacheRef.current[marketData.symbol] = marketData;
+    setSummaries(prev => ({
+      ...prev,
+      [marketData.symbol]: {
+        ...prev[marketData.symbol],
+        symbol: marketData.symbol,
+        price: marketData.currentPrice,
+        change: marketData.change24h,
+        levels: marketData.levels,
+        levelsAt: Date.now(),
+        updatedAt: Date.now()
+      }
+    }));
+  }, [marketData, replayActive]);
+
+  // Switching bar type re-cuts whatever the stream has recorded; the polled feed re-synthesizes on fetch
+  const handleWindowingChange = (config: WindowingConfig) => {
+    windowingProfilesRef.current = { ...windowingProfilesRef.current, [selectedSymbol]: config };
+    setWindowingProfiles(windowingProfilesRef.current);
+    const builder = new WindowBuilder(config);
+    windowBuildersRef.current[selectedSymbol] = builder;
+    delete lastMidsRef.current[selectedSymbol];
+    const recorded = recordedTicksRef.current[selectedSymbol] || [];
+    if (replayActive) {
+      setSymbolWindows(selectedSymbol, []);
+    } else if (recorded.length > 0) {
+      setSymbolWindows(selectedSymbol, labelWindows(selectedSymbol, builder.push(recorded)).reverse().slice(0, MAX_WINDOWS));
+    } else {
+      setSymbolWindows(selectedSymbol, []);
+      fetchData();
+    }
+  };
+
+  const handleLixiChange = (patch: Partial<LixiProfile>) => {
+    setLixiProfiles(prev => ({ ...prev, [selectedSymbol]: { ...(prev[selectedSymbol] || {}), ...patch } }));
+  };
+
+  const applyCalibration = (sessions: Tick[][], watchPercentile: number, goldenPercentile: number) => {
+    try {
+      const calibrated = calibrateProfile(lixiProfile, sessions.map(ticks => buildWindows(ticks, windowing)), watchPercentile, goldenPercentile);
+      setLixiProfiles(prev => ({ ...prev, [selectedSymbol]: calibrated }));
+      addAlert('SYSTEM', `LIXI calibrated for ${selectedSymbol}: watch ${calibrated.watchThreshold} / golden ${calibrated.goldenThreshold}`);
+    } catch (err: any) {
+      addAlert('SYSTEM', `Calibration Failure: ${err?.message || 'unknown error'}`);
+    }
+  };
+
+  const handleCalibrateFiles = async (files: File[], watchPercentile: number, goldenPercentile: number) => {
+    try {
+      const sessions = await Promise.all(files.map(async f => parseSessionFile(await f.text())));
+      const matching = sessions.filter(sess => sess.symbol === selectedSymbol);
+      if (matching.length === 0) throw new Error(`No recordings for ${selectedSymbol}`);
+      applyCalibration(matching.map(sess => sess.ticks), watchPercentile, goldenPercentile);
+    } catch (err: any) {
+      addAlert('SYSTEM', `Calibration Failure: ${err?.message || 'unreadable file'}`);
+    }
+  };
+
+  const handleCalibrateRecording = (watchPercentile: number, goldenPercentile: number) => {
+    applyCalibration([recordedTicksRef.current[selectedSymbol] || []], watchPercentile, goldenPercentile);
+  };
+
+  const handleRunBacktest = () => {
+    const symbolSignals = signalHistory.filter(s => s.symbol === selectedSymbol);
+    const report = runBacktest(symbolSignals, backtestBars);
+    setBacktestReport(report);
+    addAlert('SYSTEM', `Backtest resolved ${report.overall.trades} of ${symbolSignals.length} ${selectedSymbol} signals.`);
+  };
 
   const handleSymbolChange = (s: string) => {
+    if (replayRef.current) {
+      replayRef.current.pause();
+      replayRef.current = null;
+      setReplay(null);
+    }
+    // Windows keep accumulating in the background; the cached snapshot shows until the fetch lands
+    analysisCacheRef.current[selectedSymbol] = analysis;
     setSelectedSymbol(s);
-    setMarketData(null);
+    setGammaProfile(null);
+    setBacktestBars([]);
+    setBacktestReport(null);
+    setMarketData(marketCacheRef.current[s] || null);
+    setAnalysis(analysisCacheRef.current[s] || null);
     setSentiment(null);
-    setWindowHistory([]);
     fetchData(s);
   };
 
+  const watchlistRows: WatchlistRow[] = watchlist.map(symbol => {
+    const latest = (windowsBySymbol[symbol] || [])[0];
+    const profile = profileFor(lixiProfiles, symbol);
+    const summary = summaries[symbol];
+    let flow: WatchlistRow['flow'] = 'QUIET';
+    if (latest && latest.lixi > profile.goldenThreshold) flow = 'GOLDEN';
+    else if (latest && latest.lixi > profile.watchThreshold) flow = 'WATCH';
+    return {
+      symbol,
+      price: summary?.price || 0,
+      change: summary?.change || 0,
+      lixi: latest ? latest.lixi : null,
+      flow,
+      bias: summary?.levels?.bias,
+      signal: signalHistory.find(sig => sig.symbol === symbol)
+    };
+  });
+
+  const handleAddSymbol = (raw: string) => {
+    const symbol = normalizeSymbol(raw);
+    if (!symbol) {
+      addAlert('SYSTEM', `Invalid symbol: ${raw}`);
+      return;
+    }
+    if (watchlist.includes(symbol)) return;
+    if (watchlist.length >= MAX_WATCHLIST) {
+      addAlert('SYSTEM', `Watchlist is limited to ${MAX_WATCHLIST} symbols.`);
+      return;
+    }
+    setWatchlist(prev => [...prev, symbol]);
+  };
+
+  const handleRemoveSymbol = (symbol: string) => {
+    if (watchlist.length <= 1) return;
+    const next = watchlist.filter(s => s !== symbol);
+    setWatchlist(next);
+    resetWindowing(symbol);
+    setWindowsBySymbol(prev => {
+      const rest = { ...prev };
+      delete rest[symbol];
+      return rest;
+    });
+    delete marketCacheRef.current[symbol];
+    delete analysisCacheRef.current[symbol];
+    if (symbol === selectedSymbol) handleSymbolChange(next[0]);
+  };
+
+  const reloadSignalHistory = useCallback(async () => {
+    const journal = journalRef.current;
+    if (!journal) return;
+    const recent = await journal.query({ limit: MAX_SIGNAL_HISTORY });
+    setSignalHistory(recent.filter(e => e.source === 'LIVE').map(e => e.signal));
+  }, []);
+
+  const refreshJournal = useCallback(async (query: JournalQuery = journalQueryRef.current) => {
+    const journal = journalRef.current;
+    if (!journal) return;
+    journalQueryRef.current = query;
+    try {
+      setJournalEntries(await journal.query({ ...query, limit: MAX_SIGNAL_HISTORY }));
+    } catch (err: any) {
+      addAlert('SYSTEM', `Journal Query Failure: ${err?.message || 'unknown error'}`);
+    }
+  }, [addAlert]);
+
+  useEffect(() => {
+    SignalJournal.open()
+      .then(journal => {
+        journalRef.current = journal;
+        setJournalReady(true);
+        return reloadSignalHistory();
+      })
+      .catch(err => addAlert('SYSTEM', `Journal unavailable: ${err?.message || 'IndexedDB blocked'}`));
+  }, [addAlert, reloadSignalHistory]);
+
+  const handleAnnotate = async (id: string, notes: string, tags: string) => {
+    const journal = journalRef.current;
+    if (!journal) return;
+    try {
+      await journal.annotate(id, notes, tags.split(','));
+      refreshJournal();
+    } catch (err: any) {
+      addAlert('SYSTEM', `Journal Save Failure: ${err?.message || 'unknown error'}`);
+    }
+  };
+
+  const handleJournalExport = (format: 'CSV' | 'JSON') => {
+    const body = format === 'CSV' ? entriesToCsv(journalEntries) : entriesToJson(journalEntries);
+    const url = URL.createObjectURL(new Blob([body], { type: format === 'CSV' ? 'text/csv' : 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `aether-journal-${new Date().toISOString().replace(/[:.]/g, '-')}.${format.toLowerCase()}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleJournalImport = async (file: File) => {
+    const journal = journalRef.current;
+    if (!journal) return;
+    try {
+      const entries = parseJournalFile(await file.text(), file.name);
+      await journal.put(entries);
+      addAlert('SYSTEM', `Journal imported ${entries.length} entries from ${file.name}`);
+      refreshJournal();
+      if (!replayActive) reloadSignalHistory();
+    } catch (err: any) {
+      addAlert('SYSTEM', `Journal Import Failure: ${err?.message || 'unreadable file'}`);
+    }
+  };
+
   const runAnalysis = useCallback(async () => {
     if (!marketData || windowHistory.length === 0 || loading) return;
+    // Replays run on recorded ticks, not on the fetch the report describes
+    const report = dataQualityRef.current;
+    if (!replayActive && report?.symbol === marketData.symbol && report.blockReason) {
+      addAlert('SYSTEM', `Analysis Blocked: ${report.blockReason}`, { symbol: marketData.symbol });
+      return;
+    }
     setLoading(true);
     try {
       const result = await analyzeMarket(marketData, windowHistory);
       setAnalysis(result);
       const sig = result.signal;
-      if (sig.voteCount >= 85) {
-        addAlert('SIGNAL', `PREMIUM SETUP: ${sig.type} ${sig.voteCount}% Confidence at $${sig.entry.toFixed(2)}`);
-      }
-      
-      setSignalHistory(prev => [{
-        ...sig, id: generateSafeId(), symbol: marketData.symbol, timestamp: new Date().toISOString(),
-        chartTime: formatToEST(new Date()), priceAtSignal: marketData.currentPrice,
-        liquidityZone: sig.isGoldenSetup ? 'GOLDEN SETUP' : sig.liquidityZone || 'NEUTRAL'
-      }, ...prev].slice(0, 50));
+      const at = replayActive && replayClockRef.current > 0 ? replayClockRef.current : Date.now();
+      const historical = recordSignal(sig, marketData.symbol, marketData.currentPrice, at, generateSafeId());
+      setSignalHistory(prev => [historical, ...prev].slice(0, MAX_SIGNAL_HISTORY));
+      alertEngineRef.current?.evaluate({ symbol: historical.symbol, signal: historical });
+      journalRef.current?.put([createEntry(historical, result, sentiment, marketData.levels || null, replayActive ? 'REPLAY' : 'LIVE')])
+        .then(() => refreshJournal())
+        .catch(err => addAlert('SYSTEM', `Journal Write Failure: ${err?.message || 'unknown error'}`));
     } catch (e) { 
-      addAlert('SYSTEM', 'Analysis Engine Failure');
+      addAlert('SYSTEM', e instanceof Error && e.message ? e.message : 'Analysis Engine Failure');
     } finally { setLoading(false); }
-  }, [marketData, windowHistory, loading, addAlert]);
+  }, [marketData, windowHistory, loading, sentiment, replayActive, addAlert, refreshJournal]);
 
   useEffect(() => {
-    const savedToken = localStorage.getItem('TRADIER_TOKEN');
-    const savedSandbox = localStorage.getItem('TRADIER_SANDBOX') === 'true';
-    if (savedToken) {
-      tradierRef.current = new TradierService(savedToken, savedSandbox);
-      setIsTradierConnected(true);
-      setIsSandbox(savedSandbox);
-      setInputToken(savedToken);
-    }
+    // Credentials only exist encrypted: a stored vault (or a plaintext token to migrate) opens the vault on load
+    const status = vaultRef.current?.status || 'EMPTY';
+    setVaultStatus(status);
+    if (status === 'LOCKED' || readLegacyCredentials()) setShowVault(true);
     
     const aistudio = (window as any).aistudio;
-    if (aistudio && typeof aistudio.hasSelectedApiKey === 'function') {
+    if (!getLlmProvider().requiresKey) {
+      // Offline providers (e.g. the stub) need no key selection
+      setHasGeminiKey(true);
+      fetchData();
+    } else if (aistudio && typeof aistudio.hasSelectedApiKey === 'function') {
       aistudio.hasSelectedApiKey().then((has: boolean) => {
         setHasGeminiKey(has);
         if (has) fetchData();
@@ -272,33 +1130,145 @@ const App: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    if (!hasGeminiKey) return;
+    if (!hasGeminiKey || replayActive) return;
     const timer = setInterval(() => {
       setCountdown(prev => {
         if (prev <= 1) {
           fetchData();
-          return isTradierConnected ? 30 : 60;
+          return refreshSecondsFor(getSession().phase, isTradierConnected);
         }
         return prev - 1;
       });
     }, 1000);
     return () => clearInterval(timer);
-  }, [fetchData, hasGeminiKey, isTradierConnected]);
+  }, [fetchData, hasGeminiKey, isTradierConnected, replayActive]);
+
+  useEffect(() => {
+    saveVaultSettings(vaultSettings);
+    vaultRef.current?.setAutoLock(vaultSettings.autoLockMinutes);
+  }, [vaultSettings]);
 
-  const handleSaveToken = () => {
-    localStorage.setItem('TRADIER_TOKEN', inputToken);
-    localStorage.setItem('TRADIER_SANDBOX', isSandbox.toString());
-    tradierRef.current = new TradierService(inputToken, isSandbox);
+  // Any input counts as activity and pushes the auto-lock back
+  useEffect(() => {
+    if (vaultStatus !== 'UNLOCKED') return;
+    const touch = () => vaultRef.current?.touch();
+    const events = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(e => window.addEventListener(e, touch, { passive: true }));
+    return () => events.forEach(e => window.removeEventListener(e, touch));
+  }, [vaultStatus]);
+
+  /** Opens the bridge with the token for the vault's selected environment; false when that token is missing. */
+  const connectBridge = (secrets: VaultSecrets) => {
+    const sandbox = secrets.environment === 'SANDBOX';
+    const token = sandbox ? secrets.tradierSandboxToken : secrets.tradierLiveToken;
+    if (!token) return false;
+    tradierRef.current = new TradierService(token, sandbox, TRADIER_ENDPOINTS);
+    tradierRef.current.allowLiveTrading = !sandbox && allowLiveOrders;
     setIsTradierConnected(true);
+    setBridgeVersion(v => v + 1);
+    return true;
+  };
+
+  const applySecrets = (secrets: VaultSecrets) => {
+    setVaultSecrets(secrets);
+    setVaultStatus('UNLOCKED');
+    setVaultError(null);
+    getLlmProvider().setApiKey?.(secrets.geminiApiKey);
+    if (secrets.geminiApiKey) setHasGeminiKey(true);
+  };
+
+  const openVault = async (action: () => Promise<VaultSecrets>) => {
+    setVaultBusy(true);
+    try {
+      const secrets = await action();
+      applySecrets(secrets);
+      if (connectBridge(secrets)) {
+        setShowVault(false);
+        addAlert('SYSTEM', "Tradier Institutional Bridge Established.");
+      }
+      fetchData();
+    } catch (err: any) {
+      setVaultError(err?.message || 'Vault operation failed');
+    } finally {
+      setVaultBusy(false);
+    }
+  };
+
+  const handleCreateVault = (passphrase: string, secrets: VaultSecrets) => {
+    openVault(async () => {
+      const created = await vaultRef.current!.create(passphrase, secrets);
+      setLegacyCredentials(null);
+      return created;
+    });
+  };
+
+  const handleUnlockVault = (passphrase: string, importLegacy: boolean) => {
+    openVault(async () => {
+      const unlocked = await vaultRef.current!.unlock(passphrase, importLegacy ? legacyCredentials : null);
+      setLegacyCredentials(null);
+      return unlocked;
+    });
+  };
+
+  const handleSaveSecrets = async (secrets: VaultSecrets) => {
+    try {
+      applySecrets(await vaultRef.current!.save(secrets));
+      setCredentialTests({});
+      // A changed environment or token takes effect on the running bridge straight away
+      if (isTradierConnected && !connectBridge(secrets)) disconnectBridge();
+    } catch (err: any) {
+      setVaultError(err?.message || 'Vault write failed');
+    }
+  };
+
+  const handleConnectBridge = () => {
+    if (!vaultSecrets) return;
+    if (!connectBridge(vaultSecrets)) {
+      setVaultError(`No ${vaultSecrets.environment === 'LIVE' ? 'live' : 'sandbox'} Tradier token in the vault`);
+      return;
+    }
     setShowVault(false);
     fetchData();
     addAlert('SYSTEM', "Tradier Institutional Bridge Established.");
   };
 
+  const handleTestCredential = async (key: CredentialKey) => {
+    const value = vaultSecrets?.[key];
+    if (!value) return;
+    setTestingCredential(key);
+    try {
+      let detail: string;
+      if (key === 'geminiApiKey') {
+        detail = `model ${await new GeminiProvider(value).ping()} reachable`;
+      } else {
+        const profile = await new TradierService(value, key === 'tradierSandboxToken', TRADIER_ENDPOINTS).getProfile();
+        detail = `${profile.name || 'profile'} · ${profile.accounts.length} account${profile.accounts.length === 1 ? '' : 's'}`;
+      }
+      setCredentialTests(prev => ({ ...prev, [key]: { ok: true, detail, at: Date.now() } }));
+    } catch (err: any) {
+      setCredentialTests(prev => ({ ...prev, [key]: { ok: false, detail: err?.message || 'request failed', at: Date.now() } }));
+    } finally {
+      setTestingCredential(null);
+    }
+  };
+
+  const handleAllowLiveOrders = (allow: boolean) => {
+    setAllowLiveOrders(allow);
+    if (tradierRef.current && !tradierRef.current.isSandbox) tradierRef.current.allowLiveTrading = allow;
+  };
+
+  const handleForgetVault = () => {
+    vaultRef.current?.forget();
+    setVaultStatus('EMPTY');
+    setVaultError(null);
+  };
+
   const getStatusColor = (status: StreamingStatus) => {
     switch(status) {
+      case 'TRADIER_STREAM':
       case 'TRADIER_PRO': return 'bg-emerald-500 shadow-[0_0_15px_#10b981]';
       case 'GROUNDED': return 'bg-sky-500 shadow-[0_0_15px_#0ea5e9]';
+      case 'REPLAY': return 'bg-violet-500 shadow-[0_0_15px_#8b5cf6]';
       default: return 'bg-slate-700';
     }
   };
@@ -306,8 +1276,8 @@ const App: React.FC = () => {
   const oracleReady = marketData && windowHistory.length > 0;
 
   const getLixiIntensity = (lixi: number) => {
-    if (lixi > 8.5) return 'bg-amber-500 shadow-[0_0_10px_#f59e0b]';
-    if (lixi > 7.5) return 'bg-amber-400';
+    if (lixi > lixiProfile.goldenThreshold) return 'bg-amber-500 shadow-[0_0_10px_#f59e0b]';
+    if (lixi > lixiProfile.watchThreshold) return 'bg-amber-400';
     if (lixi > 6.0) return 'bg-sky-500';
     if (lixi > 4.0) return 'bg-indigo-500';
     return 'bg-slate-800';
@@ -317,9 +1287,9 @@ const App: React.FC = () => {
     <div className="min-h-screen p-2 md:p-8 max-w-7xl mx-auto space-y-4 md:space-y-6 bg-[#020617] text-[#f8fafc] overflow-x-hidden relative selection:bg-sky-500/30">
       <div className="fixed top-4 md:top-24 right-4 md:right-8 z-[2000] flex flex-col gap-3 max-w-[calc(100%-2rem)] md:max-w-sm w-full pointer-events-none">
         {alerts.map(alert => (
-          <div key={alert.id} className={`p-4 md:p-5 rounded-2xl border backdrop-blur-3xl shadow-2xl transition-all duration-500 pointer-events-auto ${alert.type === 'GOLDEN' ? 'bg-amber-500/10 border-amber-500/50 text-amber-500' : alert.type === 'SIGNAL' ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-slate-900 border-slate-700 text-slate-300'}`}>
+          <div key={alert.id} onClick={() => acknowledgeAlerts([alert.id])} title="Click to acknowledge" className={`p-4 md:p-5 rounded-2xl border backdrop-blur-3xl shadow-2xl transition-all duration-500 pointer-events-auto cursor-pointer ${alert.type === 'GOLDEN' ? 'bg-amber-500/10 border-amber-500/50 text-amber-500' : alert.type === 'SIGNAL' ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' : 'bg-slate-900 border-slate-700 text-slate-300'}`}>
             <div className="flex justify-between items-start mb-1">
-              <span className="text-[8px] md:text-[10px] font-black uppercase tracking-[0.2em]">{alert.type} TRIGGER</span>
+              <span className="text-[8px] md:text-[10px] font-black uppercase tracking-[0.2em]">{alert.type} TRIGGER{alert.severity === 'CRITICAL' ? ' · CRITICAL' : ''}</span>
               <span className="text-[7px] md:text-[8px] font-mono opacity-50">{alert.timestamp}</span>
             </div>
             <p className="text-xs md:text-sm font-bold leading-tight tracking-tight">{alert.message}</p>
@@ -335,16 +1305,22 @@ const App: React.FC = () => {
               <div className="flex items-center gap-2">
                 <span className={`w-1.5 h-1.5 md:w-2 md:h-2 rounded-full ${getStatusColor(streamingStatus)} ${fetchingData ? 'animate-pulse' : ''}`} />
                 <span className="text-[8px] md:text-[9px] font-black uppercase tracking-[0.2em] text-slate-400">{streamingStatus.replace('_', ' ')}</span>
+                {streamingStatus === 'TRADIER_STREAM' && streamState !== 'OPEN' && (
+                  <span className="text-[7px] md:text-[8px] font-black uppercase tracking-[0.2em] text-amber-500 animate-pulse">{streamState}</span>
+                )}
               </div>
               <div className="h-3 w-px bg-slate-800 hidden sm:block" />
               <div className="flex items-center gap-1.5">
-                 <span className={`w-1.5 h-1.5 md:w-2 md:h-2 rounded-full ${marketLive ? 'bg-emerald-500 animate-pulse' : 'bg-slate-700'}`} />
-                 <span className="text-[8px] md:text-[9px] font-black uppercase tracking-[0.2em] text-slate-400">{marketLive ? 'LIVE' : 'CLOSED'}</span>
+                 <span className={`w-1.5 h-1.5 md:w-2 md:h-2 rounded-full ${SESSION_BADGES[marketSession.phase].dot}`} />
+                 <span className="text-[8px] md:text-[9px] font-black uppercase tracking-[0.2em] text-slate-400" title={marketSession.holiday}>{SESSION_BADGES[marketSession.phase].label}</span>
+                 <span className="text-[7px] md:text-[8px] font-mono uppercase tracking-widest text-slate-600 tabular-nums">
+                   {marketSession.msToClose !== null ? `closes in ${formatCountdown(marketSession.msToClose)}${marketSession.isHalfDay ? ' · half day' : ''}` : `opens in ${formatCountdown(marketSession.msToOpen)}`}
+                 </span>
               </div>
             </div>
           </div>
           <div className="flex bg-slate-950/90 p-1 md:p-1.5 rounded-xl md:rounded-2xl border border-slate-800 shadow-inner w-full sm:w-auto">
-            {SYMBOLS.map(s => (
+            {watchlist.map(s => (
               <button key={s} disabled={fetchingData && s !== selectedSymbol} onClick={() => handleSymbolChange(s)} className={`flex-1 sm:flex-none px-4 md:px-8 py-2 md:py-2.5 rounded-lg md:rounded-xl text-[10px] md:text-[11px] font-black transition-all duration-300 ${selectedSymbol === s ? 'bg-sky-500 text-white shadow-lg scale-105' : 'text-slate-500 hover:text-slate-300'}`}>{s}</button>
             ))}
           </div>
@@ -352,14 +1328,52 @@ const App: React.FC = () => {
         <div className="flex items-center justify-between lg:justify-end gap-6 w-full lg:w-auto">
           <div className="text-left lg:text-right border-r border-slate-800/60 pr-8">
             <span className="text-[8px] md:text-[9px] font-black uppercase tracking-widest text-slate-500 block mb-0.5">Prop Balance</span>
-            <div className="text-xs md:text-sm font-mono font-bold text-emerald-400 tabular-nums">${propStats.currentEquity.toLocaleString()}</div>
+            <div className={`text-xs md:text-sm font-mono font-bold tabular-nums ${propStats.status === 'FAILING' ? 'text-rose-400' : 'text-emerald-400'}`}>${propStats.currentEquity.toLocaleString()}</div>
+          </div>
+          <div className="flex items-center gap-2">
+            {streamingStatus === 'TRADIER_STREAM' && (
+              <button onClick={handleSaveRecording} title="Save streamed session" className="p-3 md:p-4 rounded-xl md:rounded-2xl border bg-slate-800/40 border-slate-700 text-slate-400 hover:text-sky-400 transition-all">
+                <ICONS.Download size={18} />
+              </button>
+            )}
+            <button onClick={() => replayFileRef.current?.click()} title="Load recorded session" className={`p-3 md:p-4 rounded-xl md:rounded-2xl border transition-all ${replayActive ? 'bg-violet-500/10 border-violet-500/40 text-violet-400' : 'bg-slate-800/40 border-slate-700 text-slate-400 hover:text-violet-400'}`}>
+              <ICONS.Play size={18} />
+            </button>
+            <input ref={replayFileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleReplayFile} />
+            <button onClick={() => setShowVault(true)} className={`p-3 md:p-4 rounded-xl md:rounded-2xl border transition-all ${isTradierConnected ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-400' : 'bg-slate-800/40 border-slate-700 text-sky-400'}`}>
+              <ICONS.Shield size={18} />
+            </button>
           </div>
-          <button onClick={() => setShowVault(true)} className={`p-3 md:p-4 rounded-xl md:rounded-2xl border transition-all ${isTradierConnected ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-400' : 'bg-slate-800/40 border-slate-700 text-sky-400'}`}>
-            <ICONS.Shield size={18} />
-          </button>
         </div>
       </nav>
 
+      {replay && (
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-3 px-4 md:px-8 py-3 bg-violet-500/5 border border-violet-500/30 rounded-2xl md:rounded-[2rem] relative z-40">
+          <div className="flex items-center gap-3 w-full sm:w-auto">
+            <span className="px-2 py-0.5 bg-violet-500/20 text-violet-300 border border-violet-500/30 rounded text-[8px] md:text-[10px] font-black uppercase tracking-widest">Replay</span>
+            <span className="text-[9px] md:text-[11px] font-black text-slate-300 uppercase tracking-widest">{replay.session.symbol} · {replay.session.source}</span>
+            <span className="text-[8px] md:text-[10px] font-mono text-slate-500 tabular-nums">{replay.cursor}/{replay.total}</span>
+          </div>
+          <div className="flex-1 h-1 bg-slate-900 rounded-full overflow-hidden w-full sm:mx-6">
+            <div className="h-full bg-violet-500 transition-all duration-300" style={{ width: `${replay.total ? (replay.cursor / replay.total) * 100 : 0}%` }} />
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex bg-slate-950/90 p-1 rounded-xl border border-slate-800">
+              {([1, 10, 'STEP'] as ReplaySpeed[]).map(sp => (
+                <button key={String(sp)} onClick={() => handleReplaySpeed(sp)} className={`px-3 py-1 rounded-lg text-[9px] md:text-[10px] font-black transition-all ${replay.speed === sp ? 'bg-violet-500 text-white' : 'text-slate-500 hover:text-slate-300'}`}>{sp === 'STEP' ? 'STEP' : `${sp}X`}</button>
+              ))}
+            </div>
+            {replay.speed === 'STEP' ? (
+              <button onClick={() => handleReplayControl('STEP')} className="p-2 rounded-lg bg-violet-500/10 text-violet-300 hover:bg-violet-500/20 active:scale-90 transition-all"><ICONS.SkipForward size={14} /></button>
+            ) : (
+              <button onClick={() => handleReplayControl(replay.playing ? 'PAUSE' : 'PLAY')} className="p-2 rounded-lg bg-violet-500/10 text-violet-300 hover:bg-violet-500/20 active:scale-90 transition-all">{replay.playing ? <ICONS.Pause size={14} /> : <ICONS.Play size={14} />}</button>
+            )}
+            <button onClick={() => handleReplayControl('RESET')} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase text-slate-400 hover:text-white transition-all">Reset</button>
+            <button onClick={exitReplay} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase text-rose-400 hover:text-rose-300 transition-all">Exit</button>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-4 md:gap-8 relative z-10">
         <div className="order-1 lg:order-2 lg:col-span-6 space-y-4 md:order-1 md:space-y-8">
           <div className={`glass-effect rounded-2xl md:rounded-[2.5rem] p-4 md:p-10 transition-all duration-700 ${isGoldenFlow ? 'border-amber-500/50 shadow-2xl' : 'border-sky-500/10 shadow-xl'} min-h-[400px] md:min-h-[550px] relative overflow-hidden`}>
@@ -389,19 +1403,24 @@ const App: React.FC = () => {
                     symbol={selectedSymbol} 
                     signals={signalHistory} 
                     levels={marketData.levels} 
+                    sessionLevels={marketData.sessionLevels}
                     flowHistory={windowHistory} 
+                    gammaProfile={gammaProfile}
                   />
                 </div>
                 <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 md:gap-6 pt-4 md:pt-8 border-t border-slate-800/50">
                   {[
-                    {k: 'WEEKLY HP', v: marketData.levels?.hp}, 
-                    {k: 'MONTHLY HP', v: marketData.levels?.mhp}, 
-                    {k: 'GAMMA FLIP', v: marketData.levels?.gammaFlip}, 
-                    {k: 'VANNA PIVOT', v: marketData.levels?.vannaPivot}
+                    {k: 'WEEKLY HP', v: marketData.levels?.hp, d: marketData.levels?.derivations?.hp}, 
+                    {k: 'MONTHLY HP', v: marketData.levels?.mhp, d: marketData.levels?.derivations?.mhp}, 
+                    {k: 'GAMMA FLIP', v: marketData.levels?.gammaFlip, d: marketData.levels?.derivations?.gammaFlip}, 
+                    {k: 'VANNA PIVOT', v: marketData.levels?.vannaPivot, d: marketData.levels?.derivations?.vannaPivot}
                   ].map(item => (
-                    <div key={item.k} className="space-y-1 md:space-y-1.5">
+                    <div key={item.k} className="space-y-1 md:space-y-1.5" title={item.d ? `${item.d.method}${item.d.expirations ? ` [${item.d.expirations.join(', ')}]` : ''}` : undefined}>
                       <span className="text-[7px] md:text-[9px] font-black text-slate-500 uppercase tracking-widest block">{item.k}</span>
                       <div className="text-[11px] md:text-sm font-mono font-bold text-white tracking-tight">${Number(item.v || 0).toFixed(2)}</div>
+                      {item.d && (
+                        <span className={`text-[6px] md:text-[7px] font-black uppercase tracking-widest block ${item.d.source === 'SEARCH' ? 'text-amber-500/70' : 'text-emerald-500/70'}`}>{item.d.source.replace('_', ' ')}</span>
+                      )}
                     </div>
                   ))}
                   <div className={`col-span-2 sm:col-span-1 space-y-1 md:space-y-1.5 p-2 rounded-xl border ${isGoldenFlow ? 'bg-amber-500/10 border-amber-500/40' : 'bg-slate-900/40 border-slate-800/40'}`}>
@@ -409,6 +1428,20 @@ const App: React.FC = () => {
                     <div className={`text-[11px] md:text-sm font-mono font-black tracking-tight ${isGoldenFlow ? 'text-amber-400' : 'text-sky-400'}`}>{Number(currentLixi).toFixed(2)}</div>
                   </div>
                 </div>
+                {marketData.sessionLevels && (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 pt-3 text-[7px] md:text-[9px] font-mono uppercase tracking-widest text-slate-500">
+                    {[
+                      { k: 'PDH', v: marketData.sessionLevels.priorHigh },
+                      { k: 'PDL', v: marketData.sessionLevels.priorLow },
+                      { k: 'PDC', v: marketData.sessionLevels.priorClose },
+                      { k: `OR${marketData.sessionLevels.openingRangeMinutes} H`, v: marketData.sessionLevels.openingRangeHigh },
+                      { k: `OR${marketData.sessionLevels.openingRangeMinutes} L`, v: marketData.sessionLevels.openingRangeLow }
+                    ].filter(item => typeof item.v === 'number').map(item => (
+                      <span key={item.k}>{item.k} <span className="text-slate-300 font-bold">${Number(item.v).toFixed(2)}</span></span>
+                    ))}
+                    {!marketData.sessionLevels.openingRangeComplete && marketData.sessionLevels.openingRangeHigh !== undefined && <span className="text-amber-500/70 font-black">OR forming</span>}
+                  </div>
+                )}
               </div>
             ) : (
               <div className="h-64 flex flex-col items-center justify-center gap-8 opacity-20"><ICONS.Activity size={60} /></div>
@@ -421,13 +1454,13 @@ const App: React.FC = () => {
               {analysis?.signal.ensembleInsights ? (
                 <div className="space-y-3 md:space-y-5">
                   {analysis.signal.ensembleInsights.map(insight => (
-                    <div key={insight.category} className="space-y-1 md:space-y-2">
+                    <div key={insight.category} title={insight.description} className="space-y-1 md:space-y-2">
                       <div className="flex justify-between text-[8px] md:text-[10px] font-black uppercase">
                         <span className="text-slate-400">{insight.category}</span>
-                        <span className={insight.sentiment === 'BULLISH' ? 'text-emerald-400' : 'text-rose-400'}>{insight.sentiment}</span>
+                        <span className={insight.sentiment === 'BULLISH' ? 'text-emerald-400' : insight.sentiment === 'BEARISH' ? 'text-rose-400' : 'text-slate-500'}>{insight.sentiment} · {insight.weight}%</span>
                       </div>
                       <div className="w-full h-1 bg-slate-900 rounded-full overflow-hidden">
-                        <div className={`h-full transition-all duration-1000 ${insight.sentiment === 'BULLISH' ? 'bg-emerald-500' : 'bg-rose-500'}`} style={{ width: `${insight.weight}%` }} />
+                        <div className={`h-full transition-all duration-1000 ${insight.sentiment === 'BULLISH' ? 'bg-emerald-500' : insight.sentiment === 'BEARISH' ? 'bg-rose-500' : 'bg-slate-600'}`} style={{ width: `${insight.weight}%` }} />
                       </div>
                     </div>
                   ))}
@@ -462,6 +1495,83 @@ const App: React.FC = () => {
               <div className={`text-3xl md:text-5xl font-black italic tracking-tighter ${analysis?.signal.executionStatus === 'RISK ON' ? 'text-emerald-400' : 'text-slate-600'}`}>{analysis?.signal.executionStatus || 'STANDBY'}</div>
             </div>
           </div>
+
+          <WatchlistGrid
+            rows={watchlistRows}
+            selected={selectedSymbol}
+            disabled={fetchingData || replayActive}
+            onSelect={handleSymbolChange}
+            onAdd={handleAddSymbol}
+            onRemove={handleRemoveSymbol}
+          />
+
+          <DataQualityPanel report={dataQuality} />
+
+          <AlertLogPanel
+            alerts={alertLog}
+            onAcknowledge={acknowledgeAlerts}
+            onClearAcknowledged={() => setAlertLog(prev => prev.filter(a => !a.acknowledged))}
+          />
+
+          <AlertRulesPanel
+            rules={alertRules}
+            symbols={watchlist}
+            onChange={setAlertRules}
+            onReset={() => setAlertRules(DEFAULT_RULES)}
+          />
+
+          <AlertChannelsPanel
+            channels={alertChannels}
+            statuses={channelStatus}
+            onChange={setAlertChannels}
+            onTest={channel => dispatcherRef.current?.test(channel)}
+          />
+
+          <JournalPanel
+            entries={journalEntries}
+            symbols={watchlist}
+            available={journalReady}
+            onQuery={refreshJournal}
+            onAnnotate={handleAnnotate}
+            onExport={handleJournalExport}
+            onImport={handleJournalImport}
+          />
+
+          <BacktestPanel
+            report={backtestReport}
+            signalCount={signalHistory.filter(s => s.symbol === selectedSymbol).length}
+            barCount={backtestBars.length}
+            onRun={handleRunBacktest}
+          />
+
+          <LixiProfilePanel
+            symbol={selectedSymbol}
+            profile={lixiProfile}
+            recordedTicks={(recordedTicksRef.current[selectedSymbol] || []).length}
+            onChange={handleLixiChange}
+            onCalibrateFiles={handleCalibrateFiles}
+            onCalibrateRecording={handleCalibrateRecording}
+            onReset={() => setLixiProfiles(prev => ({ ...prev, [selectedSymbol]: {} }))}
+          />
+
+          <PropChallengePanel challenge={challenge} onManualFill={handleManualFill} onReset={handleResetChallenge} />
+
+          <RiskPanel
+            settings={riskSettings}
+            sizing={positionSizing}
+            symbol={selectedSymbol}
+            onChange={patch => setRiskSettings(prev => ({ ...prev, ...patch }))}
+          />
+
+          {paperSnapshot && (
+            <PaperBrokerPanel
+              snapshot={paperSnapshot}
+              onClosePosition={id => activePaper()?.closePosition(id)}
+              onCancelOrder={id => activePaper()?.cancelOrder(id)}
+              onConfigChange={config => activePaper()?.setConfig(config)}
+              onReset={() => activePaper()?.reset()}
+            />
+          )}
         </div>
 
         <div className="order-2 lg:order-3 lg:col-span-3 h-full">
@@ -493,6 +1603,31 @@ const App: React.FC = () => {
                      </div>
                    ))}
                 </div>
+                {positionSizing && (
+                  <div className="flex justify-between items-center px-1">
+                    <div>
+                      <span className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest block">Suggested Size</span>
+                      <span className={`text-sm md:text-base font-mono font-black tracking-tight ${positionSizing.blockedReason ? 'text-rose-400' : 'text-white'}`}>{positionSizing.blockedReason ? 'BLOCKED' : `${positionSizing.quantity} SH`}</span>
+                    </div>
+                    <div className="text-right text-[8px] md:text-[9px] font-mono text-slate-400 uppercase">
+                      <div>Risk ${positionSizing.dollarRisk.toFixed(2)}</div>
+                      <div>Target {positionSizing.rewardRisk.toFixed(2)}R</div>
+                    </div>
+                  </div>
+                )}
+                {positionSizing && (
+                  <OrderTicket
+                    signal={analysis.signal}
+                    isSandbox={tradierRef.current?.isSandbox ?? true}
+                    blockedReason={orderBlockedReason}
+                    sizing={positionSizing}
+                    placing={placingOrder}
+                    orders={orders}
+                    onExecute={handleExecuteSignal}
+                    onPaper={handlePaperSignal}
+                    onCancel={handleCancelOrder}
+                  />
+                )}
                 <div className="p-5 md:p-7 bg-slate-900/30 rounded-2xl md:rounded-[2rem] border border-dashed border-slate-800">
                   <p className="text-[10px] md:text-[12px] text-slate-400 font-mono italic leading-relaxed">"{analysis.signal.reasoning}"</p>
                 </div>
@@ -506,9 +1641,21 @@ const App: React.FC = () => {
             <div className="flex justify-between items-center mb-6">
               <div className="space-y-0.5">
                 <h3 className="text-[9px] md:text-[11px] font-black text-slate-400 uppercase tracking-widest">Aether Flow</h3>
-                <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">Institutional Pipeline</p>
+                <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">Institutional Pipeline · {describeWindowing(windowing)} {windowing.mode.toLowerCase()} bars</p>
               </div>
               <div className="flex items-center gap-2">
+                <select
+                  value={presetFor(windowing)?.id || ''}
+                  onChange={e => {
+                    const preset = WINDOW_PRESETS.find(p => p.id === e.target.value);
+                    if (preset) handleWindowingChange(preset.config);
+                  }}
+                  title="Window type"
+                  className="bg-slate-900/80 border border-slate-800 rounded-lg px-1.5 py-1 text-[8px] font-black text-sky-400 uppercase outline-none"
+                >
+                  {!presetFor(windowing) && <option value="">Custom</option>}
+                  {WINDOW_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
                 <span className="text-[8px] font-black text-slate-600 uppercase tabular-nums">{countdown}s</span>
                 <button onClick={() => fetchData()} disabled={fetchingData} className="p-1.5 md:p-2 bg-sky-500/10 hover:bg-sky-500/20 rounded-lg text-sky-400 transition-all active:scale-90"><ICONS.Activity size={12} /></button>
               </div>
@@ -525,15 +1672,15 @@ const App: React.FC = () => {
                 {windowHistory.length === 0 ? (
                   <div className="h-full flex flex-col items-center justify-center opacity-10 gap-4"><ICONS.Activity size={32} className="animate-pulse" /></div>
                 ) : windowHistory.map(win => (
-                  <div key={win.id} className={`p-3 md:p-5 rounded-xl md:rounded-2xl border transition-all duration-700 ${win.lixi > 7.5 ? 'border-amber-500/60 bg-amber-500/[0.05]' : 'border-slate-800/40 bg-slate-950/30'}`}>
+                  <div key={win.id} className={`p-3 md:p-5 rounded-xl md:rounded-2xl border transition-all duration-700 ${win.lixi > lixiProfile.watchThreshold ? 'border-amber-500/60 bg-amber-500/[0.05]' : 'border-slate-800/40 bg-slate-950/30'}`}>
                     <div className="flex justify-between text-[7px] md:text-[8px] font-mono mb-2 md:mb-3">
                       <span className="text-slate-500">{win.timestamp}</span>
-                      <span className={win.lixi > 7.5 ? 'text-amber-500 font-black tracking-widest' : 'text-slate-600'}>{win.lixi > 7.5 ? 'GOLDEN' : 'NEUTRAL'}</span>
+                      <span className={win.lixi > lixiProfile.watchThreshold ? 'text-amber-500 font-black tracking-widest' : 'text-slate-600'}>{win.lixi > lixiProfile.watchThreshold ? 'GOLDEN' : 'NEUTRAL'}</span>
                     </div>
                     <div className="flex justify-between items-end">
                       <div className={`text-xs md:text-sm font-black italic tracking-tighter ${win.label === TickLabel.UPWARDS ? 'text-emerald-400' : win.label === TickLabel.DOWNWARDS ? 'text-rose-400' : 'text-slate-500'}`}>{win.label}</div>
                       <div className="text-right">
-                        <span className={`text-xl md:text-2xl font-black mono block leading-none ${win.lixi > 7.5 ? 'text-amber-400' : 'text-sky-400'}`}>{win.lixi.toFixed(2)}</span>
+                        <span className={`text-xl md:text-2xl font-black mono block leading-none ${win.lixi > lixiProfile.watchThreshold ? 'text-amber-400' : 'text-sky-400'}`}>{win.lixi.toFixed(2)}</span>
                         <span className="text-[6px] md:text-[7px] font-bold text-slate-500 uppercase tracking-widest mt-0.5 block">LIXI DEPTH</span>
                       </div>
                     </div>
@@ -546,27 +1693,28 @@ const App: React.FC = () => {
       </div>
 
       {showVault && (
-        <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4 md:p-6 bg-slate-950/98 backdrop-blur-3xl" onClick={() => setShowVault(false)}>
-          <div className="glass-effect rounded-2xl md:rounded-[3rem] p-8 md:p-12 border border-slate-700/40 max-w-md w-full relative z-10 shadow-2xl" onClick={e => e.stopPropagation()}>
-            <div className="mb-8 md:mb-10 text-center">
-              <h3 className="text-2xl md:text-4xl font-black text-white tracking-tighter uppercase mb-2">Quant Bridge</h3>
-              <p className="text-[8px] md:text-[10px] text-slate-500 uppercase font-black tracking-[0.2em]">feed configuration</p>
-            </div>
-            <div className="space-y-6 md:space-y-8">
-              <div className="space-y-2">
-                <label className="text-[8px] md:text-[10px] font-black uppercase text-slate-400 ml-1">Access Token</label>
-                <input type="password" value={inputToken} onChange={(e) => setInputToken(e.target.value)} className="w-full bg-slate-900/80 border border-slate-800 rounded-xl md:rounded-2xl px-4 md:px-6 py-4 md:py-5 text-sm text-sky-400 outline-none font-mono" placeholder="Bearer..." />
-              </div>
-              <button onClick={() => setIsSandbox(!isSandbox)} className="w-full flex justify-between items-center p-4 md:p-6 bg-slate-900 rounded-xl md:rounded-2xl border border-slate-800">
-                <div className="text-left">
-                  <span className="text-[9px] md:text-[11px] font-black uppercase text-slate-200 block">Sandbox Pipeline</span>
-                </div>
-                <div className={`w-10 md:w-14 h-5 md:h-7 rounded-full p-1 transition-all duration-500 ${isSandbox ? 'bg-sky-500' : 'bg-slate-700'}`}><div className={`w-3 md:w-4 h-3 md:h-4 bg-white rounded-full transition-all duration-500 ${isSandbox ? 'translate-x-5 md:translate-x-7' : ''}`} /></div>
-              </button>
-              <button onClick={handleSaveToken} className="w-full bg-sky-500 hover:bg-sky-400 text-white font-black py-4 md:py-6 rounded-xl md:rounded-2xl uppercase tracking-[0.2em] text-[10px] md:text-[12px] transition-all active:scale-95">Establish Bridge</button>
-            </div>
-          </div>
-        </div>
+        <VaultModal
+          status={vaultStatus}
+          secrets={vaultSecrets}
+          legacy={legacyCredentials}
+          settings={vaultSettings}
+          allowLiveOrders={allowLiveOrders}
+          connected={isTradierConnected}
+          busy={vaultBusy}
+          error={vaultError}
+          tests={credentialTests}
+          testing={testingCredential}
+          onCreate={handleCreateVault}
+          onUnlock={handleUnlockVault}
+          onSave={handleSaveSecrets}
+          onTest={handleTestCredential}
+          onConnect={handleConnectBridge}
+          onLock={() => vaultRef.current?.lock()}
+          onForget={handleForgetVault}
+          onSettingsChange={patch => setVaultSettings(prev => ({ ...prev, ...patch }))}
+          onAllowLiveOrdersChange={handleAllowLiveOrders}
+          onClose={() => { setShowVault(false); setVaultError(null); }}
+        />
       )}
     </div>
   );
@@ -0,0 +1,96 @@
+import React from 'react';
+import { AlertSeverity } from '../types';
+import { AlertChannelConfig, ChannelDeliveryStatus, DEFAULT_CHANNELS, WEBHOOK_TEMPLATES } from '../services/alertChannels';
+
+interface AlertChannelsPanelProps {
+  channels: AlertChannelConfig[];
+  statuses: Record<string, ChannelDeliveryStatus>;
+  onChange: (channels: AlertChannelConfig[]) => void;
+  onTest: (channel: AlertChannelConfig) => void;
+}
+
+const KIND_STYLES: Record<AlertChannelConfig['kind'], string> = {
+  NOTIFICATION: 'text-sky-400',
+  AUDIO: 'text-violet-300',
+  WEBHOOK: 'text-emerald-400'
+};
+
+const AlertChannelsPanel: React.FC<AlertChannelsPanelProps> = ({ channels, statuses, onChange, onTest }) => {
+  const update = (id: string, patch: Partial<AlertChannelConfig>) => onChange(channels.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  const addWebhook = () => {
+    onChange([...channels, {
+      id: `webhook-${Date.now().toString(36)}`, kind: 'WEBHOOK', name: `Webhook ${channels.filter(c => c.kind === 'WEBHOOK').length + 1}`,
+      enabled: false, minSeverity: 'WARNING', url: '', template: WEBHOOK_TEMPLATES.RAW
+    }]);
+  };
+
+  const fieldClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[8px] md:text-[9px] text-sky-400 outline-none font-mono';
+
+  return (
+    <div className="glass-effect p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-slate-800/40">
+      <div className="flex justify-between items-center mb-4 md:mb-6">
+        <div className="space-y-0.5">
+          <h3 className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Alert Channels</h3>
+          <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">{channels.filter(c => c.enabled).length} active · 3 attempts with backoff</p>
+        </div>
+        <button onClick={addWebhook} className="px-2.5 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 transition-all active:scale-95">+ Webhook</button>
+      </div>
+
+      <div className="space-y-3">
+        {channels.map(channel => {
+          const status = statuses[channel.id];
+          const builtIn = DEFAULT_CHANNELS.some(d => d.id === channel.id);
+          return (
+            <div key={channel.id} className="border-t border-slate-900 pt-2 space-y-2">
+              <div className="flex items-center gap-2 text-[8px] md:text-[9px]">
+                <input type="checkbox" checked={channel.enabled} onChange={e => update(channel.id, { enabled: e.target.checked })} className="accent-sky-500" />
+                <span className={`font-black uppercase shrink-0 ${KIND_STYLES[channel.kind]}`}>{channel.kind}</span>
+                <span className="flex-1 text-slate-300 truncate">{channel.name}</span>
+                <select value={channel.minSeverity} onChange={e => update(channel.id, { minSeverity: e.target.value as AlertSeverity })} title="Minimum severity" className={fieldClass}>
+                  {(['INFO', 'WARNING', 'CRITICAL'] as const).map(s => <option key={s} value={s}>{s}+</option>)}
+                </select>
+                <button onClick={() => onTest(channel)} className="px-2.5 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest bg-sky-500/10 text-sky-400 hover:bg-sky-500/20 transition-all active:scale-95">Test</button>
+                {!builtIn && (
+                  <button onClick={() => onChange(channels.filter(c => c.id !== channel.id))} className="font-black text-slate-600 hover:text-rose-400 transition-all">×</button>
+                )}
+              </div>
+              {channel.kind === 'NOTIFICATION' && (
+                <label className="flex items-center gap-2 text-[7px] md:text-[8px] font-black uppercase tracking-widest text-slate-500">
+                  <input type="checkbox" checked={!!channel.backgroundOnly} onChange={e => update(channel.id, { backgroundOnly: e.target.checked })} className="accent-sky-500" />
+                  Only while tab is hidden
+                </label>
+              )}
+              {channel.kind === 'WEBHOOK' && (
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    <input type="text" value={channel.url || ''} onChange={e => update(channel.id, { url: e.target.value })} placeholder="https://hooks.example.com/..." className={`${fieldClass} flex-1`} />
+                    <select value="" onChange={e => e.target.value && update(channel.id, { template: WEBHOOK_TEMPLATES[e.target.value as keyof typeof WEBHOOK_TEMPLATES] })} className={fieldClass}>
+                      <option value="">Preset</option>
+                      {(Object.keys(WEBHOOK_TEMPLATES) as (keyof typeof WEBHOOK_TEMPLATES)[]).map(k => <option key={k} value={k}>{k}</option>)}
+                    </select>
+                  </div>
+                  <textarea
+                    value={channel.template || ''}
+                    onChange={e => update(channel.id, { template: e.target.value })}
+                    rows={2}
+                    spellCheck={false}
+                    title="Placeholders: {{id}} {{type}} {{severity}} {{symbol}} {{message}} {{timestamp}} {{iso}} {{epoch}}"
+                    className="w-full bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[8px] md:text-[9px] text-slate-300 outline-none resize-none font-mono"
+                  />
+                </div>
+              )}
+              {status && (
+                <p className={`text-[7px] md:text-[8px] font-mono uppercase tracking-widest ${status.ok ? 'text-emerald-500' : 'text-rose-400'}`}>
+                  {status.ok ? 'OK' : 'FAILED'} · {status.detail} · {new Date(status.at).toLocaleTimeString()}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AlertChannelsPanel;
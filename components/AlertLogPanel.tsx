@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Alert, AlertSeverity } from '../types';
+
+interface AlertLogPanelProps {
+  alerts: Alert[];
+  onAcknowledge: (ids: string[] | 'ALL') => void;
+  onClearAcknowledged: () => void;
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  CRITICAL: 'text-rose-400',
+  WARNING: 'text-amber-400',
+  INFO: 'text-slate-500'
+};
+
+const AlertLogPanel: React.FC<AlertLogPanelProps> = ({ alerts, onAcknowledge, onClearAcknowledged }) => {
+  const [showAcknowledged, setShowAcknowledged] = useState(false);
+  const pending = alerts.filter(a => !a.acknowledged).length;
+  const visible = showAcknowledged ? alerts : alerts.filter(a => !a.acknowledged);
+
+  return (
+    <div className="glass-effect p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-slate-800/40">
+      <div className="flex justify-between items-center mb-4 md:mb-6">
+        <div className="space-y-0.5">
+          <h3 className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Alert Log</h3>
+          <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">{pending} unacknowledged · {alerts.length} logged</p>
+        </div>
+        <div className="flex gap-1.5">
+          <button onClick={() => setShowAcknowledged(v => !v)} className={`px-2.5 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest transition-all active:scale-95 ${showAcknowledged ? 'bg-sky-500/20 text-sky-300' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}>All</button>
+          <button onClick={() => onAcknowledge('ALL')} disabled={pending === 0} className={`px-2.5 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest transition-all active:scale-95 ${pending > 0 ? 'bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20' : 'bg-slate-800 text-slate-600 cursor-not-allowed'}`}>Ack All</button>
+          <button onClick={onClearAcknowledged} disabled={pending === alerts.length} className={`px-2.5 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest transition-all active:scale-95 ${pending < alerts.length ? 'bg-rose-500/10 text-rose-400 hover:bg-rose-500/20' : 'bg-slate-800 text-slate-600 cursor-not-allowed'}`}>Clear</button>
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto scrollbar-hide">
+        {visible.length === 0 ? (
+          <div className="h-16 flex items-center justify-center text-[8px] font-black uppercase tracking-widest text-slate-700">No pending alerts</div>
+        ) : visible.map(alert => (
+          <div key={alert.id} className={`border-t border-slate-900 py-1.5 flex items-center gap-2 ${alert.acknowledged ? 'opacity-40' : ''}`}>
+            <span className="text-[7px] md:text-[8px] font-mono text-slate-600 shrink-0">{new Date(alert.epoch).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' })}</span>
+            <span className={`text-[7px] md:text-[8px] font-black uppercase shrink-0 w-12 ${SEVERITY_STYLES[alert.severity]}`}>{alert.severity}</span>
+            <span className="flex-1 text-[8px] md:text-[9px] text-slate-300 leading-tight">{alert.message}</span>
+            {!alert.acknowledged && (
+              <button onClick={() => onAcknowledge([alert.id])} className="text-[8px] font-black uppercase text-slate-600 hover:text-emerald-400 transition-all shrink-0">Ack</button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AlertLogPanel;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { AlertSeverity, HistoricalSignal, LevelKey, TickLabel } from '../types';
+import { AlertRule, CROSS_OPERATORS, LEVEL_NAMES, RuleMetric, RuleOperator, SIGNAL_METRICS, describeRule } from '../services/alertEngine';
+import { SessionPhase } from '../services/sessionCalendar';
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  symbols: string[];
+  onChange: (rules: AlertRule[]) => void;
+  onReset: () => void;
+}
+
+const METRIC_LABELS: Record<RuleMetric, string> = {
+  PRICE: 'Price',
+  LEVEL_CROSS: 'Level cross',
+  LIXI: 'LIXI',
+  GOLDEN_FLOW: 'Golden flow',
+  LABEL_STREAK: 'Label streak',
+  SENTIMENT_SCORE: 'Sentiment',
+  VOTE_COUNT: 'Signal votes',
+  CONFIDENCE: 'Signal confidence',
+  SIGNAL_TYPE: 'Signal type',
+  GOLDEN_SETUP: 'Golden setup'
+};
+
+const COMPARE_OPERATORS: RuleOperator[] = ['>', '>=', '<', '<='];
+
+// Which operators make sense per metric; an empty list means the metric carries its own condition
+const operatorsFor = (metric: RuleMetric): RuleOperator[] => {
+  if (metric === 'PRICE') return [...COMPARE_OPERATORS, ...CROSS_OPERATORS];
+  if (metric === 'LEVEL_CROSS') return CROSS_OPERATORS;
+  if (metric === 'GOLDEN_FLOW' || metric === 'SIGNAL_TYPE' || metric === 'GOLDEN_SETUP' || metric === 'LABEL_STREAK') return [];
+  return COMPARE_OPERATORS;
+};
+
+const SESSION_OPTIONS: { id: string; label: string; phases?: SessionPhase[] }[] = [
+  { id: 'ANY', label: 'Any session' },
+  { id: 'RTH', label: 'Regular hours', phases: ['REGULAR'] },
+  { id: 'ETH', label: 'Pre/regular/post', phases: ['PRE', 'REGULAR', 'POST'] },
+  { id: 'EXT', label: 'Pre/post only', phases: ['PRE', 'POST'] }
+];
+
+const sessionOptionFor = (phases?: SessionPhase[]) =>
+  SESSION_OPTIONS.find(o => (o.phases || []).join() === (phases || []).join()) || SESSION_OPTIONS[0];
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  CRITICAL: 'text-rose-400',
+  WARNING: 'text-amber-400',
+  INFO: 'text-slate-500'
+};
+
+const emptyDraft = (): AlertRule => ({
+  id: '', name: '', enabled: true, symbol: '*', metric: 'PRICE', operator: 'CROSSES_ABOVE', value: 0,
+  severity: 'WARNING', cooldownMs: 60000
+});
+
+const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({ rules, symbols, onChange, onReset }) => {
+  const [draft, setDraft] = useState<AlertRule>(emptyDraft);
+  const operators = operatorsFor(draft.metric);
+  const needsValue = !['LEVEL_CROSS', 'GOLDEN_FLOW', 'SIGNAL_TYPE', 'GOLDEN_SETUP'].includes(draft.metric);
+
+  const patch = (p: Partial<AlertRule>) => setDraft(prev => ({ ...prev, ...p }));
+
+  const changeMetric = (metric: RuleMetric) => {
+    const ops = operatorsFor(metric);
+    patch({
+      metric,
+      operator: ops.length > 0 ? ops[0] : '>',
+      level: metric === 'LEVEL_CROSS' ? draft.level || 'gammaFlip' : undefined,
+      label: metric === 'LABEL_STREAK' ? draft.label || TickLabel.UPWARDS : undefined,
+      signalType: metric === 'SIGNAL_TYPE' ? draft.signalType || 'BUY' : undefined,
+      value: metric === 'LABEL_STREAK' ? 3 : 0
+    });
+  };
+
+  const addRule = () => {
+    const rule: AlertRule = {
+      ...draft,
+      id: `rule-${Date.now().toString(36)}`,
+      name: draft.name.trim() || describeRule(draft)
+    };
+    onChange([...rules, rule]);
+    setDraft(emptyDraft());
+  };
+
+  const updateRule = (id: string, p: Partial<AlertRule>) => onChange(rules.map(r => r.id === id ? { ...r, ...p } : r));
+
+  const fieldClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[8px] md:text-[9px] text-sky-400 outline-none font-mono';
+
+  return (
+    <div className="glass-effect p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-slate-800/40">
+      <div className="flex justify-between items-center mb-4 md:mb-6">
+        <div className="space-y-0.5">
+          <h3 className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Alert Rules</h3>
+          <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">{rules.filter(r => r.enabled).length} of {rules.length} armed</p>
+        </div>
+        <button onClick={onReset} className="px-2.5 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest bg-slate-800 text-slate-500 hover:text-slate-300 transition-all active:scale-95">Defaults</button>
+      </div>
+
+      <div className="space-y-1 mb-4">
+        {rules.length === 0 && (
+          <div className="h-12 flex items-center justify-center text-[8px] font-black uppercase tracking-widest text-slate-700">No rules</div>
+        )}
+        {rules.map(rule => (
+          <div key={rule.id} className={`border-t border-slate-900 py-1.5 flex items-center gap-2 text-[8px] md:text-[9px] ${rule.enabled ? '' : 'opacity-40'}`}>
+            <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(rule.id, { enabled: e.target.checked })} className="accent-sky-500" />
+            <span className="font-black text-white shrink-0">{rule.symbol === '*' ? 'ALL' : rule.symbol}</span>
+            <span className="flex-1 text-slate-300 truncate" title={describeRule(rule)}>{rule.name} <span className="text-slate-600 font-mono">· {describeRule(rule)}</span></span>
+            {rule.phases && rule.phases.length > 0 && <span className="font-mono text-slate-600 shrink-0 uppercase">{sessionOptionFor(rule.phases).id}</span>}
+            <span className={`font-black uppercase shrink-0 ${SEVERITY_STYLES[rule.severity]}`}>{rule.severity}</span>
+            <span className="font-mono text-slate-600 shrink-0">{SIGNAL_METRICS.includes(rule.metric) && rule.cooldownMs === 0 ? 'each' : `${Math.round(rule.cooldownMs / 1000)}s`}</span>
+            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="font-black text-slate-600 hover:text-rose-400 transition-all">×</button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <input type="text" value={draft.name} onChange={e => patch({ name: e.target.value })} placeholder="name" className={`${fieldClass} col-span-2`} />
+        <select value={draft.symbol} onChange={e => patch({ symbol: e.target.value })} className={fieldClass}>
+          <option value="*">All symbols</option>
+          {symbols.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={draft.metric} onChange={e => changeMetric(e.target.value as RuleMetric)} className={fieldClass}>
+          {(Object.keys(METRIC_LABELS) as RuleMetric[]).map(m => <option key={m} value={m}>{METRIC_LABELS[m]}</option>)}
+        </select>
+        {operators.length > 0 && (
+          <select value={draft.operator} onChange={e => patch({ operator: e.target.value as RuleOperator })} className={fieldClass}>
+            {operators.map(op => <option key={op} value={op}>{op.replace('_', ' ')}</option>)}
+          </select>
+        )}
+        {draft.metric === 'LEVEL_CROSS' && (
+          <select value={draft.level} onChange={e => patch({ level: e.target.value as LevelKey })} className={fieldClass}>
+            {(Object.keys(LEVEL_NAMES) as LevelKey[]).map(k => <option key={k} value={k}>{LEVEL_NAMES[k]}</option>)}
+          </select>
+        )}
+        {draft.metric === 'LABEL_STREAK' && (
+          <select value={draft.label} onChange={e => patch({ label: e.target.value as TickLabel })} className={fieldClass}>
+            {[TickLabel.UPWARDS, TickLabel.DOWNWARDS, TickLabel.STATIONARY].map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+        )}
+        {draft.metric === 'SIGNAL_TYPE' && (
+          <select value={draft.signalType} onChange={e => patch({ signalType: e.target.value as HistoricalSignal['type'] })} className={fieldClass}>
+            {(['BUY', 'SELL', 'NEUTRAL'] as const).map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        )}
+        {needsValue && (
+          <input type="number" value={draft.value} onChange={e => patch({ value: Number(e.target.value) })} placeholder={draft.metric === 'LABEL_STREAK' ? 'windows' : 'value'} className={fieldClass} />
+        )}
+        <select value={draft.severity} onChange={e => patch({ severity: e.target.value as AlertSeverity })} className={fieldClass}>
+          {(['INFO', 'WARNING', 'CRITICAL'] as const).map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={sessionOptionFor(draft.phases).id} onChange={e => patch({ phases: SESSION_OPTIONS.find(o => o.id === e.target.value)?.phases })} title="Active session" className={fieldClass}>
+          {SESSION_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+        </select>
+        <input type="number" min={0} value={Math.round(draft.cooldownMs / 1000)} onChange={e => patch({ cooldownMs: Math.max(0, Number(e.target.value) || 0) * 1000 })} title="Cooldown (seconds)" className={fieldClass} />
+        <button onClick={addRule} className="px-3 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest bg-sky-500/10 text-sky-400 hover:bg-sky-500/20 transition-all active:scale-95">Add Rule</button>
+      </div>
+    </div>
+  );
+};
+
+export default AlertRulesPanel;
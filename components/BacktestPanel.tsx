@@ -0,0 +1,88 @@
+import React from 'react';
+import { BacktestReport, BacktestStats } from '../services/backtestService';
+
+interface BacktestPanelProps {
+  report: BacktestReport | null;
+  signalCount: number;
+  barCount: number;
+  onRun: () => void;
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(0)}%`;
+const signed = (v: number, digits: number = 2) => `${v > 0 ? '+' : ''}${v.toFixed(digits)}`;
+
+interface StatRowProps {
+  label: string;
+  stats: BacktestStats;
+}
+
+const StatRow: React.FC<StatRowProps> = ({ label, stats }) => (
+  <tr className="border-b border-slate-900 last:border-0">
+    <td className="py-1.5 pr-2 text-[8px] md:text-[9px] font-black text-slate-400 uppercase tracking-widest">{label}</td>
+    <td className="py-1.5 px-1 text-right text-[9px] md:text-[10px] font-mono text-slate-300 tabular-nums">{stats.trades}</td>
+    <td className="py-1.5 px-1 text-right text-[9px] md:text-[10px] font-mono text-slate-300 tabular-nums">{pct(stats.winRate)}</td>
+    <td className={`py-1.5 px-1 text-right text-[9px] md:text-[10px] font-mono tabular-nums ${stats.avgR >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{signed(stats.avgR)}R</td>
+    <td className="py-1.5 pl-1 text-right text-[9px] md:text-[10px] font-mono text-amber-400 tabular-nums">{stats.maxAdverseExcursionR.toFixed(2)}R</td>
+  </tr>
+);
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ report, signalCount, barCount, onRun }) => {
+  const canRun = signalCount > 0 && barCount > 0;
+  const rows = (group: Record<string, BacktestStats>, prefix: string = ''): StatRowProps[] =>
+    Object.keys(group).sort().reverse().map(k => ({ label: `${prefix}${k}`, stats: group[k] }));
+  const groups = report ? [
+    ...rows(report.byType),
+    ...rows(report.byGolden),
+    ...rows(report.byVoteBucket, 'VOTE ')
+  ] : [];
+
+  return (
+    <div className="glass-effect p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-slate-800/40">
+      <div className="flex justify-between items-center mb-4 md:mb-6">
+        <div className="space-y-0.5">
+          <h3 className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Signal Backtest</h3>
+          <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">{signalCount} signals · {barCount} bars</p>
+        </div>
+        <button onClick={onRun} disabled={!canRun} className={`px-3 md:px-4 py-1.5 md:py-2 rounded-lg md:rounded-xl text-[8px] md:text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 ${canRun ? 'bg-sky-500/10 text-sky-400 hover:bg-sky-500/20' : 'bg-slate-800 text-slate-600 cursor-not-allowed'}`}>Run</button>
+      </div>
+      {report && report.overall.trades > 0 ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { k: 'WIN RATE', v: pct(report.overall.winRate) },
+              { k: 'EXPECTANCY', v: `$${signed(report.overall.expectancy)}` },
+              { k: 'AVG R', v: `${signed(report.overall.avgR)}R` },
+              { k: 'MAX MAE', v: `${report.overall.maxAdverseExcursionR.toFixed(2)}R` }
+            ].map(item => (
+              <div key={item.k} className="space-y-1">
+                <span className="text-[7px] md:text-[9px] font-black text-slate-500 uppercase tracking-widest block">{item.k}</span>
+                <div className="text-[11px] md:text-sm font-mono font-bold text-white tracking-tight">{item.v}</div>
+              </div>
+            ))}
+          </div>
+          <div className="text-[7px] md:text-[8px] font-mono text-slate-600 uppercase tracking-widest">
+            {report.overall.wins}W · {report.overall.losses}L · {report.overall.expired} expired · {report.skipped} skipped
+          </div>
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-800">
+                {['Bucket', 'N', 'Win', 'Avg R', 'MAE'].map((h, i) => (
+                  <th key={h} className={`pb-1.5 text-[7px] md:text-[8px] font-black text-slate-600 uppercase tracking-widest ${i === 0 ? 'text-left' : 'text-right'}`}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(g => <StatRow key={g.label} label={g.label} stats={g.stats} />)}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="h-16 flex items-center justify-center text-[8px] md:text-[9px] font-black text-slate-700 uppercase tracking-widest">
+          {report ? 'No signals resolved against the loaded history' : 'Awaiting run'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
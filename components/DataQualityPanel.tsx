@@ -0,0 +1,80 @@
+import React from 'react';
+import { DataQualityReport, DataSource, FieldHealth } from '../services/dataQualityService';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport | null;
+}
+
+const HEALTH_STYLES: Record<FieldHealth, string> = {
+  OK: 'text-emerald-400',
+  WARN: 'text-amber-400',
+  BAD: 'text-rose-400'
+};
+
+const SOURCE_LABELS: Record<DataSource, string> = {
+  TRADIER_QUOTE: 'Quote',
+  TRADIER_BARS: 'Bars',
+  TRADIER_CHAIN: 'Chain',
+  TRADIER_STREAM: 'Stream',
+  SEARCH: 'Search',
+  DEFAULT: 'Default',
+  NONE: 'None'
+};
+
+const formatValue = (value: number | null) => value === null ? '—' : Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ report }) => {
+  const warnings = report ? report.issues.filter(i => i.health === 'WARN').length : 0;
+  const verdict = !report ? null : report.blockReason ? 'BLOCKED' : warnings > 0 ? 'DEGRADED' : 'TRUSTED';
+  const verdictStyle = verdict === 'BLOCKED' ? 'bg-rose-500/10 text-rose-400' : verdict === 'DEGRADED' ? 'bg-amber-500/10 text-amber-400' : 'bg-emerald-500/10 text-emerald-400';
+
+  return (
+    <div className="glass-effect p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-slate-800/40">
+      <div className="flex justify-between items-center mb-4 md:mb-6">
+        <div className="space-y-0.5">
+          <h3 className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Data Quality</h3>
+          <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">
+            {report ? `${report.symbol} · checked ${new Date(report.checkedAt).toLocaleTimeString()} · ${report.issues.length} issue${report.issues.length === 1 ? '' : 's'}` : 'Awaiting first fetch'}
+          </p>
+        </div>
+        {verdict && (
+          <span className={`px-2.5 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest ${verdictStyle}`}>{verdict}</span>
+        )}
+      </div>
+
+      {report?.blockReason && (
+        <div className="mb-3 px-3 py-2 rounded-xl bg-rose-500/10 border border-rose-500/20 text-[8px] md:text-[9px] text-rose-300 leading-tight">
+          Analysis blocked: {report.blockReason}
+        </div>
+      )}
+
+      {report && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6">
+          {report.fields.map(field => (
+            <div key={field.field} className="border-t border-slate-900 py-1.5 flex items-center gap-2">
+              <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${field.health === 'OK' ? 'bg-emerald-400' : field.health === 'WARN' ? 'bg-amber-400' : 'bg-rose-400'}`} />
+              <span className="text-[8px] md:text-[9px] font-black uppercase text-slate-400 w-20 shrink-0">{field.label}</span>
+              <span className="text-[8px] md:text-[9px] font-mono text-slate-300 w-16 shrink-0 text-right">{formatValue(field.value)}</span>
+              <span className={`text-[7px] md:text-[8px] font-black uppercase w-14 shrink-0 ${HEALTH_STYLES[field.health]}`}>{SOURCE_LABELS[field.source]}</span>
+              <span className="flex-1 text-[7px] md:text-[8px] text-slate-600 leading-tight truncate" title={field.note}>{field.note}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report && report.issues.length > 0 && (
+        <div className="mt-4 max-h-40 overflow-y-auto scrollbar-hide">
+          {report.issues.map((issue, idx) => (
+            <div key={`${issue.field}-${issue.kind}-${idx}`} className="border-t border-slate-900 py-1.5 flex items-center gap-2">
+              <span className={`text-[7px] md:text-[8px] font-black uppercase shrink-0 w-10 ${HEALTH_STYLES[issue.health]}`}>{issue.health}</span>
+              <span className="text-[7px] md:text-[8px] font-mono text-slate-600 shrink-0 w-28">{issue.kind.replace(/_/g, ' ')}</span>
+              <span className="flex-1 text-[8px] md:text-[9px] text-slate-300 leading-tight">{issue.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { JournalEntry, JournalQuery } from '../services/journalService';
+
+interface JournalPanelProps {
+  entries: JournalEntry[];
+  symbols: string[];
+  available: boolean;
+  onQuery: (query: JournalQuery) => void;
+  onAnnotate: (id: string, notes: string, tags: string) => void;
+  onExport: (format: 'CSV' | 'JSON') => void;
+  onImport: (file: File) => void;
+}
+
+const dayStart = (date: string) => date ? new Date(`${date}T00:00:00`).getTime() : undefined;
+const dayEnd = (date: string) => date ? new Date(`${date}T23:59:59.999`).getTime() : undefined;
+
+interface EntryRowProps {
+  entry: JournalEntry;
+  onAnnotate: (id: string, notes: string, tags: string) => void;
+}
+
+const EntryRow: React.FC<EntryRowProps> = ({ entry, onAnnotate }) => {
+  const [open, setOpen] = useState(false);
+  const [notes, setNotes] = useState(entry.notes);
+  const [tags, setTags] = useState(entry.tags.join(', '));
+  const sig = entry.signal;
+
+  useEffect(() => {
+    setNotes(entry.notes);
+    setTags(entry.tags.join(', '));
+  }, [entry.notes, entry.tags]);
+
+  return (
+    <div className="border-t border-slate-900 py-1.5">
+      <button onClick={() => setOpen(o => !o)} className="w-full flex justify-between items-center text-[8px] md:text-[9px] font-mono">
+        <span className="text-slate-500">{new Date(entry.epoch).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+        <span className="text-white font-black">{entry.symbol}</span>
+        <span className={sig.type === 'BUY' ? 'text-emerald-400' : sig.type === 'SELL' ? 'text-rose-400' : 'text-slate-500'}>{sig.type} {sig.voteCount}%</span>
+        <span className="text-slate-600 truncate max-w-[30%]">{entry.tags.length > 0 ? entry.tags.map(t => `#${t}`).join(' ') : entry.source === 'REPLAY' ? 'replay' : ''}</span>
+      </button>
+      {open && (
+        <div className="mt-2 space-y-2">
+          <p className="text-[8px] md:text-[9px] text-slate-400 leading-relaxed">{sig.reasoning}</p>
+          <div className="text-[7px] md:text-[8px] font-mono text-slate-500 uppercase">
+            E {sig.entry.toFixed(2)} · SL {sig.stopLoss.toFixed(2)} · TP {sig.takeProfit.toFixed(2)}
+            {entry.levels ? ` · GF ${entry.levels.gammaFlip} · ${entry.levels.bias}` : ''}
+            {entry.sentiment ? ` · SENT ${entry.sentiment.score}` : ''}
+          </div>
+          <textarea
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            rows={2}
+            placeholder="Notes"
+            className="w-full bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[9px] md:text-[10px] text-slate-300 outline-none resize-none"
+          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={tags}
+              onChange={e => setTags(e.target.value)}
+              placeholder="tags, comma separated"
+              className="flex-1 bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[9px] md:text-[10px] text-sky-400 outline-none font-mono"
+            />
+            <button onClick={() => onAnnotate(entry.id, notes, tags)} className="px-3 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest bg-sky-500/10 text-sky-400 hover:bg-sky-500/20 transition-all active:scale-95">Save</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const JournalPanel: React.FC<JournalPanelProps> = ({ entries, symbols, available, onQuery, onAnnotate, onExport, onImport }) => {
+  const [symbol, setSymbol] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [tag, setTag] = useState('');
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (!available) return;
+    onQuery({ symbol: symbol || undefined, from: dayStart(from), to: dayEnd(to), tag: tag || undefined });
+  }, [available, symbol, from, to, tag, onQuery]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  const fieldClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[8px] md:text-[9px] text-sky-400 outline-none font-mono';
+
+  return (
+    <div className="glass-effect p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-slate-800/40">
+      <div className="flex justify-between items-center mb-4 md:mb-6">
+        <div className="space-y-0.5">
+          <h3 className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Signal Journal</h3>
+          <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">{available ? `${entries.length} entries` : 'storage unavailable'}</p>
+        </div>
+        <div className="flex gap-1.5">
+          {(['CSV', 'JSON'] as const).map(format => (
+            <button key={format} onClick={() => onExport(format)} disabled={entries.length === 0} className={`px-2.5 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest transition-all active:scale-95 ${entries.length > 0 ? 'bg-sky-500/10 text-sky-400 hover:bg-sky-500/20' : 'bg-slate-800 text-slate-600 cursor-not-allowed'}`}>{format}</button>
+          ))}
+          <button onClick={() => fileRef.current?.click()} disabled={!available} className="px-2.5 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest bg-violet-500/10 text-violet-300 hover:bg-violet-500/20 transition-all active:scale-95">Import</button>
+          <input ref={fileRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleFile} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-3">
+        <select value={symbol} onChange={e => setSymbol(e.target.value)} className={fieldClass}>
+          <option value="">All symbols</option>
+          {symbols.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={fieldClass} />
+        <input type="date" value={to} onChange={e => setTo(e.target.value)} className={fieldClass} />
+        <input type="text" value={tag} onChange={e => setTag(e.target.value)} placeholder="tag" className={fieldClass} />
+      </div>
+
+      <div className="max-h-64 overflow-y-auto scrollbar-hide">
+        {entries.length === 0 ? (
+          <div className="h-16 flex items-center justify-center text-[8px] font-black uppercase tracking-widest text-slate-700">No entries</div>
+        ) : entries.map(entry => <EntryRow key={entry.id} entry={entry} onAnnotate={onAnnotate} />)}
+      </div>
+    </div>
+  );
+};
+
+export default JournalPanel;
@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { DEFAULT_LIXI_PROFILE, LixiProfile } from '../services/lixiService';
+
+interface LixiProfilePanelProps {
+  symbol: string;
+  profile: LixiProfile;
+  recordedTicks: number;
+  onChange: (patch: Partial<LixiProfile>) => void;
+  onCalibrateFiles: (files: File[], watchPercentile: number, goldenPercentile: number) => void;
+  onCalibrateRecording: (watchPercentile: number, goldenPercentile: number) => void;
+  onReset: () => void;
+}
+
+const FIELDS: { k: keyof LixiProfile; l: string; step: string }[] = [
+  { k: 'intensityWeight', l: 'Vol coef', step: '0.05' },
+  { k: 'advWeight', l: 'ADV coef', step: '0.05' },
+  { k: 'cap', l: 'Cap', step: '0.5' },
+  { k: 'watchThreshold', l: 'Watch', step: '0.1' },
+  { k: 'goldenThreshold', l: 'Golden', step: '0.1' },
+  { k: 'advFactor', l: 'ADV', step: '1000000' }
+];
+
+const LixiProfilePanel: React.FC<LixiProfilePanelProps> = ({ symbol, profile, recordedTicks, onChange, onCalibrateFiles, onCalibrateRecording, onReset }) => {
+  const [watchPct, setWatchPct] = useState('85');
+  const [goldenPct, setGoldenPct] = useState('95');
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const watch = (parseFloat(watchPct) || 0) / 100;
+  const golden = (parseFloat(goldenPct) || 0) / 100;
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length > 0) onCalibrateFiles(files, watch, golden);
+  };
+
+  return (
+    <div className="glass-effect p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-slate-800/40">
+      <div className="flex justify-between items-center mb-4 md:mb-6">
+        <div className="space-y-0.5">
+          <h3 className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">LIXI Model · {symbol}</h3>
+          <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">
+            ADV {profile.advSource === 'QUOTE' ? 'from quote' : 'manual'}
+            {profile.calibration ? ` · P${Math.round(profile.calibration.goldenPercentile * 100)} over ${profile.calibration.windows} windows` : ' · uncalibrated'}
+          </p>
+        </div>
+        <button onClick={onReset} className="text-[8px] md:text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-rose-400 transition-all">Default</button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {FIELDS.map(field => {
+          // A quote-sourced ADV is refilled on every Tradier fetch, so hand edits would not stick
+          const locked = field.k === 'advFactor' && profile.advSource === 'QUOTE';
+          return (
+            <label key={field.k} className="space-y-1">
+              <span className="text-[7px] md:text-[8px] font-black text-slate-600 uppercase tracking-widest block">{field.l}</span>
+              <input
+                type="number"
+                step={field.step}
+                min={0}
+                value={profile[field.k] as number}
+                readOnly={locked}
+                onChange={e => onChange({ [field.k]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className={`w-full bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[9px] md:text-[10px] outline-none font-mono ${locked ? 'text-slate-500' : 'text-sky-400'}`}
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 mt-3">
+        {([
+          { v: 'DEFAULT', l: 'Manual ADV' },
+          { v: 'QUOTE', l: 'Quote ADV' }
+        ] as const).map(option => (
+          <button
+            key={option.v}
+            // Leaving QUOTE puts the default ADV back rather than keeping the last quote's figure
+            onClick={() => {
+              if (profile.advSource === option.v) return;
+              onChange(option.v === 'QUOTE' ? { advSource: 'QUOTE' } : { advSource: 'DEFAULT', advFactor: DEFAULT_LIXI_PROFILE.advFactor });
+            }}
+            className={`flex-1 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest transition-all active:scale-95 ${profile.advSource === option.v ? 'bg-sky-500/20 text-sky-400' : 'bg-slate-900/80 text-slate-500 hover:text-slate-300'}`}
+          >
+            {option.l}
+          </button>
+        ))}
+      </div>
+
+      <div className="pt-3 mt-3 border-t border-slate-800/50 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          {[
+            { l: 'Watch pct', v: watchPct, set: setWatchPct },
+            { l: 'Golden pct', v: goldenPct, set: setGoldenPct }
+          ].map(field => (
+            <label key={field.l} className="space-y-1">
+              <span className="text-[7px] md:text-[8px] font-black text-slate-600 uppercase tracking-widest block">{field.l}</span>
+              <input
+                type="number"
+                min={1}
+                max={99.9}
+                step="0.5"
+                value={field.v}
+                onChange={e => field.set(e.target.value)}
+                className="w-full bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[9px] md:text-[10px] text-amber-400 outline-none font-mono"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => fileRef.current?.click()} className="flex-1 py-2 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest bg-sky-500/10 text-sky-400 hover:bg-sky-500/20 transition-all active:scale-95">Calibrate Files</button>
+          <button
+            onClick={() => onCalibrateRecording(watch, golden)}
+            disabled={recordedTicks === 0}
+            className={`flex-1 py-2 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest transition-all active:scale-95 ${recordedTicks > 0 ? 'bg-amber-500/10 text-amber-400 hover:bg-amber-500/20' : 'bg-slate-800 text-slate-600 cursor-not-allowed'}`}
+          >
+            Calibrate Live
+          </button>
+          <input ref={fileRef} type="file" multiple accept=".json,application/json" className="hidden" onChange={handleFiles} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LixiProfilePanel;
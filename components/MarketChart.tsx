@@ -3,6 +3,10 @@ import React, { useState, useMemo } from 'react';
 import { 
   AreaChart, 
   Area, 
+  ComposedChart,
+  Bar,
+  Line,
+  Cell,
   XAxis, 
   YAxis, 
   CartesianGrid, 
@@ -10,23 +14,77 @@ import {
   ResponsiveContainer,
   ReferenceDot,
   ReferenceLine,
+  ReferenceArea,
   Label
 } from 'recharts';
-import { PricePoint, HistoricalSignal, MarketData, TickWindow, TickLabel } from '../types';
+import { PricePoint, HistoricalSignal, MarketData, SessionLevels, TickWindow, TickLabel } from '../types';
+import { GammaProfile, ProfileMode, layoutProfile } from '../services/gammaExposureService';
+import { TIMEFRAMES, Timeframe, aggregateCandles, candleIndexAt, candleIndexForLabel } from '../services/candleService';
+import { BacktestBar, DEFAULT_MAX_BARS_HELD, resolveSignal } from '../services/backtestService';
+import { AbsorptionSide, ExhaustionSide, computeOrderFlow } from '../services/orderFlowService';
 
 interface MarketChartProps {
   data: PricePoint[];
   symbol: string;
   signals: HistoricalSignal[];
   levels?: MarketData['levels'];
+  sessionLevels?: SessionLevels;
   flowHistory?: TickWindow[];
+  gammaProfile?: GammaProfile | null;
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+type TradeOutcome = 'TP' | 'SL' | 'EXPIRED' | 'OPEN';
+
+interface TradeOverlay {
+  signal: HistoricalSignal;
+  startSlot: string;
+  endSlot: string;
+  outcome: TradeOutcome;
+  rMultiple: number | null;
+}
+
+const MAX_OVERLAYS = 20;
+
+// Fill opacity of the reward (entry to target) and risk (entry to stop) boxes; the side that resolved is emphasised
+const OUTCOME_FILLS: Record<TradeOutcome, { reward: string; risk: string; rewardOpacity: number; riskOpacity: number }> = {
+  TP: { reward: '#10b981', risk: '#f43f5e', rewardOpacity: 0.25, riskOpacity: 0.05 },
+  SL: { reward: '#10b981', risk: '#f43f5e', rewardOpacity: 0.05, riskOpacity: 0.25 },
+  EXPIRED: { reward: '#64748b', risk: '#64748b', rewardOpacity: 0.12, riskOpacity: 0.08 },
+  OPEN: { reward: '#10b981', risk: '#f43f5e', rewardOpacity: 0.1, riskOpacity: 0.1 }
+};
+
+const OUTCOME_LABELS: Record<TradeOutcome, { text: string; className: string }> = {
+  TP: { text: 'TARGET HIT', className: 'text-emerald-400' },
+  SL: { text: 'STOPPED', className: 'text-rose-400' },
+  EXPIRED: { text: 'EXPIRED', className: 'text-slate-400' },
+  OPEN: { text: 'OPEN', className: 'text-sky-400' }
+};
+
+// Bullish flags (bids soaking up sells, sellers running dry at a low) in green, bearish in red
+const ABSORPTION_COLORS: Record<AbsorptionSide, string> = { BID: '#10b981', ASK: '#f43f5e' };
+const EXHAUSTION_COLORS: Record<ExhaustionSide, string> = { SELLING: '#10b981', BUYING: '#f43f5e' };
+
+// "2025-03-14" -> "FRI 3/14"; noon UTC keeps the weekday stable in every browser zone
+const formatSession = (session: string) =>
+  new Date(`${session}T12:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'short', month: 'numeric', day: 'numeric' }).replace(',', '').toUpperCase();
+
+const formatExposure = (v: number) => {
+  const abs = Math.abs(v);
+  const sign = v < 0 ? '-' : '';
+  if (abs >= 1e9) return `${sign}${(abs / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${sign}${(abs / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${sign}${(abs / 1e3).toFixed(0)}K`;
+  return `${sign}${abs.toFixed(0)}`;
+};
+
+const CustomTooltip = ({ active, payload }: any) => {
   if (active && payload && payload.length) {
-    const price = payload.find((p: any) => p.dataKey === 'price')?.value;
+    const point = payload[0]?.payload || {};
+    const price = point.price;
     const lixi = payload.find((p: any) => p.dataKey === 'lixi')?.value;
-    const flowLabel = payload[0]?.payload?.flowLabel;
+    const flowLabel = point.flowLabel;
+    const gamma = point.gamma;
+    const showOhlc = typeof point.open === 'number' && point.high !== point.low;
 
     const getLabelColor = (lbl: string) => {
       if (lbl === TickLabel.UPWARDS) return 'text-emerald-400';
@@ -36,12 +94,52 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 
     return (
       <div className="bg-slate-950/98 border border-slate-800 p-3 md:p-4 rounded-xl md:rounded-2xl shadow-2xl backdrop-blur-3xl ring-1 ring-white/5 min-w-[150px] md:min-w-[180px]">
-        <p className="text-slate-500 text-[8px] md:text-[10px] font-mono mb-2 md:mb-3 uppercase tracking-[0.15em] border-b border-slate-800 pb-2">{label} EST</p>
+        <p className="text-slate-500 text-[8px] md:text-[10px] font-mono mb-2 md:mb-3 uppercase tracking-[0.15em] border-b border-slate-800 pb-2">{point.session ? `${formatSession(point.session)} ` : ''}{point.time} EST</p>
         <div className="space-y-2 md:space-y-3">
           <div className="flex justify-between items-center">
             <span className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Price</span>
             <span className="text-sky-400 font-black font-mono text-xs md:text-sm">${typeof price === 'number' ? price.toFixed(2) : '0.00'}</span>
           </div>
+          {showOhlc && (
+            <div className="text-[7px] md:text-[9px] font-mono text-slate-400 text-right">
+              O {point.open.toFixed(2)} H {point.high.toFixed(2)} L {point.low.toFixed(2)}
+            </div>
+          )}
+          {typeof point.vwap === 'number' && (
+            <div className="flex justify-between items-center">
+              <span className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">VWAP</span>
+              <span className="text-violet-300 font-black font-mono text-xs md:text-sm">${point.vwap.toFixed(2)}</span>
+            </div>
+          )}
+          {typeof point.volume === 'number' && point.volume > 0 && (
+            <div className="flex justify-between items-center">
+              <span className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Volume</span>
+              <span className="text-slate-300 font-black font-mono text-xs md:text-sm">{formatExposure(point.volume)}</span>
+            </div>
+          )}
+          {typeof gamma === 'number' && (
+            <div className="flex justify-between items-center">
+              <span className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Strike GEX</span>
+              <span className={`font-black font-mono text-xs md:text-sm ${gamma >= 0 ? 'text-cyan-400' : 'text-fuchsia-400'}`}>{formatExposure(gamma)}</span>
+            </div>
+          )}
+          {typeof point.cvd === 'number' && (
+            <div className="space-y-1">
+              {typeof point.delta === 'number' && (
+                <div className="flex justify-between items-center">
+                  <span className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Delta</span>
+                  <span className={`font-black font-mono text-xs md:text-sm ${point.delta >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatExposure(point.delta)}</span>
+                </div>
+              )}
+              <div className="flex justify-between items-center">
+                <span className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">CVD</span>
+                <span className="text-slate-300 font-black font-mono text-xs md:text-sm">{formatExposure(point.cvd)}</span>
+              </div>
+              <div className="text-[7px] md:text-[9px] font-mono text-slate-400 text-right">
+                IMB {(point.imbalance * 100).toFixed(0)}%{point.absorption ? ` · ${point.absorption} ABSORB` : ''}{point.exhaustion ? ` · ${point.exhaustion} EXHAUST` : ''}
+              </div>
+            </div>
+          )}
           {typeof lixi === 'number' && (
             <div className="space-y-1">
               <div className="flex justify-between items-center">
@@ -62,7 +160,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 
 const SignalMarker = (props: any) => {
   const { cx, cy, payload, onMouseEnter, onMouseLeave } = props;
-  const isBuy = payload.type === 'BUY';
+  const isBuy = payload.signal.type === 'BUY';
   const color = isBuy ? '#10b981' : '#f43f5e';
   return (
     <g transform={`translate(${cx},${cy})`} onMouseEnter={(e) => onMouseEnter(e, payload, cx, cy)} onMouseLeave={onMouseLeave}>
@@ -73,39 +171,210 @@ const SignalMarker = (props: any) => {
   );
 };
 
-const MarketChart: React.FC<MarketChartProps> = ({ data, symbol, signals, levels, flowHistory = [] }) => {
-  const [hoveredItem, setHoveredItem] = useState<any | null>(null);
+// Reference-area shape for one side of a trade bracket; spans at least one candle so instant resolutions stay visible
+const TradeBox = (props: any) => {
+  const { x, y, width, height, color, opacity, dash } = props;
+  if (typeof x !== 'number' || typeof y !== 'number') return null;
+  return (
+    <rect
+      x={x}
+      y={Math.min(y, y + height)}
+      width={Math.max(2, width)}
+      height={Math.abs(height)}
+      fill={color}
+      fillOpacity={opacity}
+      stroke={color}
+      strokeOpacity={0.4}
+      strokeDasharray={dash}
+    />
+  );
+};
+
+// Bar shape for a [low, high] range: wick over the full range, body between open and close
+const CandleShape = (props: any) => {
+  const { x, y, width, height, payload } = props;
+  if (!payload || typeof x !== 'number' || typeof y !== 'number') return null;
+  const { open, price: close, high, low } = payload;
+  const top = Math.min(y, y + height);
+  const span = high - low;
+  const pixels = Math.abs(height);
+  const toY = (v: number) => span > 0 ? top + ((high - v) / span) * pixels : top;
+  const color = close >= open ? '#10b981' : '#f43f5e';
+  const cx = x + width / 2;
+  const bodyWidth = Math.max(1, width * 0.7);
+  const bodyTop = Math.min(toY(open), toY(close));
+  return (
+    <g>
+      <line x1={cx} x2={cx} y1={top} y2={top + pixels} stroke={color} strokeWidth={1} />
+      <rect x={cx - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={Math.max(1, Math.abs(toY(open) - toY(close)))} fill={color} fillOpacity={close >= open ? 0.35 : 0.9} stroke={color} strokeWidth={0.75} />
+    </g>
+  );
+};
+
+interface GammaProfilePanelProps {
+  profile: GammaProfile;
+  domain: number[];
+  levels?: MarketData['levels'];
+}
+
+/**
+ * Horizontal per-strike exposure bars positioned with the same price domain as the tape,
+ * so each bar sits level with the price it acts on.
+ */
+const GammaProfilePanel: React.FC<GammaProfilePanelProps> = ({ profile, domain, levels }) => {
+  const [mode, setMode] = useState<ProfileMode>('GEX');
+  const [min, max] = domain;
+  const range = max - min || 1;
+  const toTop = (price: number) => `${((max - price) / range) * 100}%`;
+  const { bars, barHeight } = layoutProfile(profile, domain, mode);
+
+  const markers = [
+    { key: 'GF', value: levels?.gammaFlip, color: '#22d3ee' },
+    { key: 'MG', value: levels?.maxGamma, color: '#f59e0b' },
+    { key: 'VP', value: levels?.vannaPivot, color: '#a78bfa' },
+    { key: 'SPOT', value: profile.spot, color: '#0ea5e9' }
+  ].filter(m => typeof m.value === 'number' && m.value >= min && m.value <= max);
+
+  return (
+    <div className="h-full w-full relative border-l border-slate-800/60">
+      <div className="absolute top-1 md:top-2 right-1 z-20 flex gap-0.5 bg-slate-950/80 rounded-md p-0.5">
+        {(['GEX', 'VANNA'] as const).map(m => (
+          <button key={m} onClick={() => setMode(m)} className={`px-1.5 py-0.5 rounded text-[6px] md:text-[8px] font-black uppercase tracking-widest transition-all ${mode === m ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}>{m}</button>
+        ))}
+      </div>
+      <div className="absolute inset-0 top-[10px]">
+        <div className="absolute top-0 bottom-0 left-1/2 w-px bg-slate-800" />
+        {bars.map(b => (
+          <div
+            key={b.strike}
+            title={`${b.strike}: ${mode} ${formatExposure(b.value)} · OI ${b.openInterest.toLocaleString()}`}
+            className={`absolute -translate-y-1/2 rounded-sm ${b.value >= 0 ? (mode === 'GEX' ? 'bg-cyan-400/60' : 'bg-violet-400/60') : 'bg-fuchsia-500/60'}`}
+            style={{ top: `${b.top}%`, height: `${barHeight}%`, width: `${b.width}%`, left: `${b.left}%` }}
+          />
+        ))}
+        {markers.map(m => (
+          <div key={m.key} className="absolute left-0 right-0 -translate-y-1/2 pointer-events-none" style={{ top: toTop(m.value as number) }}>
+            <div className="w-full border-t border-dashed" style={{ borderColor: m.color, opacity: 0.6 }} />
+            <span className="absolute right-0 -top-2.5 text-[6px] md:text-[7px] font-black" style={{ color: m.color }}>{m.key}</span>
+          </div>
+        ))}
+      </div>
+      <div className="absolute bottom-0 left-1 text-[6px] md:text-[7px] font-mono text-slate-600 uppercase">net {formatExposure(profile.totalGex)}</div>
+    </div>
+  );
+};
+
+const MarketChart: React.FC<MarketChartProps> = ({ data, symbol, signals, levels, sessionLevels, flowHistory = [], gammaProfile }) => {
+  const [hoveredItem, setHoveredItem] = useState<TradeOverlay | null>(null);
   const [tooltipPos, setTooltipPos] = useState({ x: 0, y: 0 });
+  const [mode, setMode] = useState<'LINE' | 'CANDLE'>('LINE');
+  const [timeframe, setTimeframe] = useState<Timeframe>(1);
+
+  const candles = useMemo(() => aggregateCandles(data, timeframe), [data, timeframe]);
+  const orderFlow = useMemo(() => computeOrderFlow(flowHistory), [flowHistory]);
 
   const mergedData = useMemo(() => {
-    if (!data.length) return [];
-    return data.map((d, i) => {
-      const flowIndex = Math.floor((i / data.length) * flowHistory.length);
-      const win = flowHistory[flowHistory.length - 1 - flowIndex];
-      const lixiValue = win ? (win.lixi || 0) : 0;
-      const label = win ? win.label : TickLabel.STATIONARY;
+    if (!candles.length) return [];
+    // Each window lands on the candle its last tick falls in; windows with no candle of their own are dropped
+    const windowsByCandle = new Map<number, number[]>();
+    flowHistory.forEach((w, windowIndex) => {
+      const lastTick = w.ticks[w.ticks.length - 1];
+      const index = lastTick ? candleIndexAt(candles, lastTick.time, timeframe) : -1;
+      if (index < 0) return;
+      windowsByCandle.set(index, [...(windowsByCandle.get(index) || []), windowIndex]);
+    });
+
+    return candles.map((d, i) => {
+      // Newest first, like flowHistory; candles the tape never reached keep empty flow panes
+      const members = windowsByCandle.get(i) || [];
+      const flows = members.map(m => orderFlow[m]);
+      const delta = flows.reduce((acc, f) => acc + f.delta, 0);
+      const volume = flows.reduce((acc, f) => acc + f.volume, 0);
+      // The candle's LIXI is its most liquid window, shown with that window's direction
+      const peak = members.length > 0 ? members.reduce((best, m) => flowHistory[m].lixi > flowHistory[best].lixi ? m : best) : -1;
+      const lixiValue = peak >= 0 ? (flowHistory[peak].lixi || 0) : null;
+      const label = peak >= 0 ? flowHistory[peak].label : null;
 
       return {
         ...d,
+        // History spans several days, so times repeat; the slot keeps each bar a distinct category
+        slot: `${i}`,
+        range: [d.low, d.high],
         lixi: lixiValue,
         flowLabel: label,
         lixiBull: label === TickLabel.UPWARDS ? lixiValue : null,
         lixiBear: label === TickLabel.DOWNWARDS ? lixiValue : null,
         lixiNeut: label === TickLabel.STATIONARY ? lixiValue : null,
+        delta: flows.length > 0 ? delta : null,
+        cvd: flows.length > 0 ? flows[0].cvd : null,
+        imbalance: flows.length > 0 ? (volume > 0 ? delta / volume : 0) : null,
+        absorption: flows.find(f => f.absorption)?.absorption || null,
+        exhaustion: flows.find(f => f.exhaustion)?.exhaustion || null,
       };
     });
-  }, [data, flowHistory]);
+  }, [candles, flowHistory, orderFlow, timeframe]);
 
-  const visibleSignals = signals.filter(s => s.symbol === symbol && data.some(d => d.time === s.chartTime));
+  // Signals anchor to the candle their timestamp falls in, then resolve on the one-minute bars with the
+  // backtester's hold limit so the chart and BacktestPanel call every trade the same way
+  const overlays = useMemo((): TradeOverlay[] => {
+    if (!candles.length) return [];
+    const hasEpochs = candles.some(c => c.epoch !== undefined);
+    const bars: BacktestBar[] = hasEpochs
+      ? data.filter(p => p.epoch !== undefined).map(p => ({ time: p.epoch as number, high: p.high ?? p.price, low: p.low ?? p.price, close: p.price }))
+      : [];
+    const lastIndex = candles.length - 1;
+
+    return signals
+      .filter(sig => sig.symbol === symbol)
+      .slice(0, MAX_OVERLAYS)
+      .map(signal => {
+        const start = hasEpochs
+          ? candleIndexAt(candles, Date.parse(signal.timestamp), timeframe)
+          : candleIndexForLabel(candles, signal.chartTime);
+        if (start < 0) return null;
+        let end = lastIndex;
+        let outcome: TradeOutcome = 'OPEN';
+        let rMultiple: number | null = null;
+        if (hasEpochs && (signal.type === 'BUY' || signal.type === 'SELL')) {
+          const result = resolveSignal(signal, bars);
+          // Running out of bars before the hold limit means the trade is still live, not expired
+          const resolved = result.outcome === 'TP' || result.outcome === 'SL' || (result.outcome === 'EXPIRED' && result.barsHeld >= DEFAULT_MAX_BARS_HELD);
+          if (resolved) {
+            outcome = result.outcome as TradeOutcome;
+            rMultiple = result.rMultiple;
+            end = Math.max(start, candleIndexAt(candles, result.resolvedAt as number, timeframe));
+          }
+        }
+        return { signal, startSlot: `${start}`, endSlot: `${end}`, outcome, rMultiple };
+      })
+      .filter((o): o is TradeOverlay => o !== null);
+  }, [candles, data, signals, symbol, timeframe]);
+  const sessionOpens = mergedData.filter(d => d.sessionOpen && !d.sessionBreak);
+  const sessionBreaks = mergedData.filter(d => d.sessionBreak);
+
+  const sessionLines = useMemo(() => {
+    if (!sessionLevels) return [];
+    const orDash = sessionLevels.openingRangeComplete ? '4 2' : '1 3';
+    return [
+      { key: 'PDH', value: sessionLevels.priorHigh, color: '#94a3b8', dash: '6 3' },
+      { key: 'PDL', value: sessionLevels.priorLow, color: '#94a3b8', dash: '6 3' },
+      { key: 'PDC', value: sessionLevels.priorClose, color: '#e2e8f0', dash: '2 2' },
+      { key: `OR${sessionLevels.openingRangeMinutes}H`, value: sessionLevels.openingRangeHigh, color: '#f59e0b', dash: orDash },
+      { key: `OR${sessionLevels.openingRangeMinutes}L`, value: sessionLevels.openingRangeLow, color: '#f59e0b', dash: orDash }
+    ].filter((l): l is { key: string; value: number; color: string; dash: string } => typeof l.value === 'number' && l.value > 0);
+  }, [sessionLevels]);
+  const flowFlags = mergedData.filter(d => d.absorption || d.exhaustion);
+  const latestFlow = orderFlow[0];
+  const maxVolume = useMemo(() => candles.reduce((acc, c) => Math.max(acc, c.volume || 0), 0), [candles]);
 
   const yPriceDomain = useMemo(() => {
-    if (!data.length) return [0, 100];
-    const prices = data.map(d => d.price).filter(p => typeof p === 'number' && !isNaN(p));
+    if (!candles.length) return [0, 100];
+    const prices = (mode === 'CANDLE' ? candles.flatMap(d => [d.high, d.low]) : candles.map(d => d.price)).filter(p => typeof p === 'number' && !isNaN(p));
     const pivotValues = levels ? [
       levels.hp, levels.mhp, levels.gammaFlip, levels.maxGamma, levels.vannaPivot
     ].filter(v => typeof v === 'number' && !isNaN(v) && v > 0) : [];
     
-    const allValues = [...prices, ...pivotValues];
+    const allValues = [...prices, ...pivotValues, ...sessionLines.map(l => l.value)];
     if (allValues.length === 0) return [0, 100];
     
     const min = Math.min(...allValues);
@@ -113,9 +382,11 @@ const MarketChart: React.FC<MarketChartProps> = ({ data, symbol, signals, levels
     const range = max - min;
     const padding = range === 0 ? 1 : range * 0.1;
     return [min - padding, max + padding];
-  }, [data, levels]);
+  }, [candles, levels, sessionLines, mode]);
+
+  const showProfile = !!gammaProfile && gammaProfile.symbol === symbol && gammaProfile.strikes.length > 0;
 
-  const handleMouseEnter = (_: any, item: any, cx: number, cy: number) => {
+  const handleMouseEnter = (_: any, item: TradeOverlay, cx: number, cy: number) => {
     setHoveredItem(item);
     setTooltipPos({ x: cx, y: cy });
   };
@@ -126,53 +397,151 @@ const MarketChart: React.FC<MarketChartProps> = ({ data, symbol, signals, levels
 
   return (
     <div className="w-full h-full flex flex-col relative">
-      <div className="h-[70%] w-full relative">
-        <div className="absolute top-1 md:top-2 left-1 md:left-2 z-20 pointer-events-none">
-           <span className="px-2 py-0.5 bg-sky-500/10 border border-sky-500/20 text-sky-400 text-[7px] md:text-[9px] font-black uppercase tracking-widest rounded-md backdrop-blur-md">Institutional Tape</span>
+      <div className="h-[56%] w-full relative flex">
+        <div className="h-full flex-1 min-w-0 relative">
+          <div className="absolute top-1 md:top-2 left-1 md:left-2 z-20 flex items-center gap-1.5">
+             <span className="px-2 py-0.5 bg-sky-500/10 border border-sky-500/20 text-sky-400 text-[7px] md:text-[9px] font-black uppercase tracking-widest rounded-md backdrop-blur-md pointer-events-none">Institutional Tape</span>
+             <div className="flex gap-0.5 bg-slate-950/80 rounded-md p-0.5">
+               {(['LINE', 'CANDLE'] as const).map(m => (
+                 <button key={m} onClick={() => setMode(m)} className={`px-1.5 py-0.5 rounded text-[6px] md:text-[8px] font-black uppercase tracking-widest transition-all ${mode === m ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}>{m}</button>
+               ))}
+             </div>
+             <div className="flex gap-0.5 bg-slate-950/80 rounded-md p-0.5">
+               {TIMEFRAMES.map(tf => (
+                 <button key={tf} onClick={() => setTimeframe(tf)} className={`px-1.5 py-0.5 rounded text-[6px] md:text-[8px] font-black uppercase tracking-widest transition-all ${timeframe === tf ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}>{tf}m</button>
+               ))}
+             </div>
+          </div>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={mergedData} syncId="aetherSync" margin={{ top: 10, right: 0, bottom: 0, left: 0 }}>
+              <defs>
+                <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#0ea5e9" stopOpacity={0.15}/>
+                  <stop offset="95%" stopColor="#0ea5e9" stopOpacity={0}/>
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} strokeOpacity={0.1} />
+              <XAxis dataKey="slot" hide />
+              <YAxis hide domain={yPriceDomain} />
+              <YAxis yAxisId="volume" hide domain={[0, (maxVolume || 1) * 4]} />
+              <Tooltip content={<CustomTooltip />} />
+
+              <Bar yAxisId="volume" dataKey="volume" isAnimationActive={false}>
+                {mergedData.map(d => (
+                  <Cell key={d.slot} fill={d.price >= d.open ? '#10b981' : '#f43f5e'} fillOpacity={0.18} />
+                ))}
+              </Bar>
+
+              {mode === 'LINE' ? (
+                <Area 
+                  type="monotone" 
+                  dataKey="price" 
+                  stroke="#0ea5e9" 
+                  strokeWidth={2} 
+                  fillOpacity={1} 
+                  fill="url(#colorPrice)" 
+                  isAnimationActive={false} 
+                />
+              ) : (
+                <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+              )}
+
+              <Line type="monotone" dataKey="vwap" stroke="#a78bfa" strokeWidth={1} strokeDasharray="3 2" dot={false} isAnimationActive={false} />
+
+              {sessionBreaks.map(d => (
+                <ReferenceLine key={`break-${d.slot}`} x={d.slot} stroke="#475569" strokeOpacity={0.9}>
+                  <Label value={formatSession(d.session as string)} position="insideTopLeft" fill="#94a3b8" fontSize={7} fontWeight="900" />
+                </ReferenceLine>
+              ))}
+
+              {sessionOpens.map(d => (
+                <ReferenceLine key={`open-${d.slot}`} x={d.slot} stroke="#64748b" strokeDasharray="2 3" strokeOpacity={0.6}>
+                  <Label value="OPEN" position="insideTopLeft" fill="#64748b" fontSize={7} fontWeight="900" />
+                </ReferenceLine>
+              ))}
+
+              {levels?.gammaFlip ? (
+                <ReferenceLine y={levels.gammaFlip} stroke="#22d3ee" strokeDasharray="4 4" strokeOpacity={0.3} strokeWidth={1}>
+                  <Label value="GF" position="insideRight" fill="#22d3ee" fontSize={7} fontWeight="900" />
+                </ReferenceLine>
+              ) : null}
+
+              {sessionLines.map(l => (
+                <ReferenceLine key={l.key} y={l.value} stroke={l.color} strokeDasharray={l.dash} strokeOpacity={0.35} strokeWidth={1}>
+                  <Label value={l.key} position="insideLeft" fill={l.color} fontSize={7} fontWeight="900" />
+                </ReferenceLine>
+              ))}
+
+              {overlays.filter(o => o.signal.type !== 'WAIT').map(o => {
+                const fills = OUTCOME_FILLS[o.outcome];
+                const dash = o.outcome === 'OPEN' ? '3 3' : undefined;
+                return (
+                  <React.Fragment key={`box-${o.signal.id}`}>
+                    <ReferenceArea x1={o.startSlot} x2={o.endSlot} y1={o.signal.entry} y2={o.signal.takeProfit} ifOverflow="hidden" shape={(props: any) => <TradeBox {...props} color={fills.reward} opacity={fills.rewardOpacity} dash={dash} />} />
+                    <ReferenceArea x1={o.startSlot} x2={o.endSlot} y1={o.signal.entry} y2={o.signal.stopLoss} ifOverflow="hidden" shape={(props: any) => <TradeBox {...props} color={fills.risk} opacity={fills.riskOpacity} dash={dash} />} />
+                    <ReferenceLine segment={[{ x: o.startSlot, y: o.signal.entry }, { x: o.endSlot, y: o.signal.entry }]} stroke="#e2e8f0" strokeOpacity={0.5} strokeWidth={1} ifOverflow="hidden" />
+                  </React.Fragment>
+                );
+              })}
+
+              {overlays.map(o => (
+                <ReferenceDot 
+                  key={o.signal.id} 
+                  x={o.startSlot} 
+                  y={o.signal.priceAtSignal} 
+                  shape={<SignalMarker payload={o} onMouseEnter={handleMouseEnter} onMouseLeave={handleMouseLeave} />} 
+                  isFront={true} 
+                />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
         </div>
+        {showProfile && (
+          <div className="h-full w-[22%] md:w-[18%] shrink-0">
+            <GammaProfilePanel profile={gammaProfile!} domain={yPriceDomain} levels={levels} />
+          </div>
+        )}
+      </div>
+
+      <div className="h-[18%] w-full relative mt-2 md:mt-4 border-t border-slate-800/60 bg-slate-900/5">
+        <div className="absolute top-1 md:top-2 left-1 md:left-2 z-20 pointer-events-none flex items-center gap-1.5">
+           <span className="px-2 py-0.5 bg-slate-900/50 border border-slate-800/80 text-slate-400 text-[7px] md:text-[9px] font-black uppercase tracking-widest rounded-md">Order Flow</span>
+           {latestFlow && (
+             <span className="text-[6px] md:text-[8px] font-mono text-slate-500 uppercase">
+               CVD <span className={latestFlow.cvd >= 0 ? 'text-emerald-400' : 'text-rose-400'}>{formatExposure(latestFlow.cvd)}</span> · IMB {(latestFlow.imbalance * 100).toFixed(0)}%
+             </span>
+           )}
+        </div>
+
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={mergedData} syncId="aetherSync" margin={{ top: 10, right: 0, bottom: 0, left: 0 }}>
-            <defs>
-              <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="#0ea5e9" stopOpacity={0.15}/>
-                <stop offset="95%" stopColor="#0ea5e9" stopOpacity={0}/>
-              </linearGradient>
-            </defs>
-            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} strokeOpacity={0.1} />
-            <XAxis dataKey="time" hide />
-            <YAxis hide domain={yPriceDomain} />
+          <ComposedChart data={mergedData} syncId="aetherSync" margin={{ top: 5, right: 0, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} strokeOpacity={0.05} />
+            <XAxis dataKey="slot" hide />
+            <YAxis hide domain={['auto', 'auto']} />
+            <YAxis yAxisId="cvd" hide domain={['auto', 'auto']} />
             <Tooltip content={<CustomTooltip />} />
-            
-            <Area 
-              type="monotone" 
-              dataKey="price" 
-              stroke="#0ea5e9" 
-              strokeWidth={2} 
-              fillOpacity={1} 
-              fill="url(#colorPrice)" 
-              isAnimationActive={false} 
-            />
 
-            {levels?.gammaFlip ? (
-              <ReferenceLine y={levels.gammaFlip} stroke="#22d3ee" strokeDasharray="4 4" strokeOpacity={0.3} strokeWidth={1}>
-                <Label value="GF" position="insideRight" fill="#22d3ee" fontSize={7} fontWeight="900" />
-              </ReferenceLine>
-            ) : null}
-
-            {visibleSignals.map((signal) => (
-              <ReferenceDot 
-                key={signal.id} 
-                x={signal.chartTime} 
-                y={signal.priceAtSignal} 
-                shape={<SignalMarker payload={signal} onMouseEnter={handleMouseEnter} onMouseLeave={handleMouseLeave} />} 
-                isFront={true} 
-              />
-            ))}
-          </AreaChart>
+            <ReferenceLine y={0} stroke="#1e293b" strokeWidth={1} />
+            <Bar dataKey="delta" isAnimationActive={false}>
+              {mergedData.map(d => (
+                <Cell key={d.slot} fill={(d.delta || 0) >= 0 ? '#10b981' : '#f43f5e'} fillOpacity={0.5} />
+              ))}
+            </Bar>
+            <Line yAxisId="cvd" type="monotone" dataKey="cvd" stroke="#38bdf8" strokeWidth={1.5} dot={false} connectNulls={false} isAnimationActive={false} />
+
+            {flowFlags.map(d => {
+              const color = d.absorption ? ABSORPTION_COLORS[d.absorption] : EXHAUSTION_COLORS[d.exhaustion as ExhaustionSide];
+              return (
+                <ReferenceLine key={`flow-${d.slot}`} x={d.slot} stroke={color} strokeDasharray="2 2" strokeOpacity={0.6}>
+                  <Label value={d.absorption ? 'ABS' : 'EXH'} position="insideTopRight" fill={color} fontSize={7} fontWeight="900" />
+                </ReferenceLine>
+              );
+            })}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
 
-      <div className="h-[30%] w-full relative mt-2 md:mt-4 border-t border-slate-800/60 bg-slate-900/5">
+      <div className="h-[26%] w-full relative mt-2 md:mt-4 border-t border-slate-800/60 bg-slate-900/5">
         <div className="absolute top-1 md:top-2 left-1 md:left-2 z-20 pointer-events-none">
            <span className="px-2 py-0.5 bg-slate-900/50 border border-slate-800/80 text-slate-400 text-[7px] md:text-[9px] font-black uppercase tracking-widest rounded-md">Lixi Sentiment</span>
         </div>
@@ -216,16 +585,35 @@ const MarketChart: React.FC<MarketChartProps> = ({ data, symbol, signals, levels
           className="absolute z-[100] bg-slate-950/98 backdrop-blur-3xl border border-slate-800 p-4 md:p-5 rounded-2xl md:rounded-[2rem] shadow-2xl pointer-events-none -translate-x-1/2 -translate-y-[120%] animate-in fade-in zoom-in duration-300 min-w-[160px] md:min-w-[200px] ring-1 ring-white/10" 
           style={{ left: tooltipPos.x, top: tooltipPos.y }}
         >
-          <div className="flex justify-between items-start mb-2 md:mb-4">
-            <span className="text-[7px] md:text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">{hoveredItem.liquidityZone}</span>
+          <div className="flex justify-between items-start gap-3 mb-2 md:mb-4">
+            <span className="text-[7px] md:text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">{hoveredItem.signal.liquidityZone}</span>
+            <span className={`text-[7px] md:text-[10px] font-black uppercase tracking-[0.2em] ${OUTCOME_LABELS[hoveredItem.outcome].className}`}>
+              {OUTCOME_LABELS[hoveredItem.outcome].text}{hoveredItem.rMultiple !== null ? ` ${hoveredItem.rMultiple >= 0 ? '+' : ''}${hoveredItem.rMultiple.toFixed(1)}R` : ''}
+            </span>
           </div>
-          <div className={`text-sm md:text-xl font-black italic tracking-tighter mb-2 md:mb-4 ${hoveredItem.type === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}`}>{hoveredItem.type} SETUP</div>
+          <div className={`text-sm md:text-xl font-black italic tracking-tighter mb-2 md:mb-4 ${hoveredItem.signal.type === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}`}>{hoveredItem.signal.type} SETUP</div>
           <div className="space-y-1 md:space-y-2 pt-2 md:pt-4 border-t border-slate-900">
             <div className="flex justify-between items-center">
               <span className="text-[8px] md:text-[10px] font-bold text-slate-600 uppercase">Confidence</span>
-              <span className="text-[9px] md:text-[11px] font-black text-sky-400 tabular-nums">{hoveredItem.voteCount}%</span>
+              <span className="text-[9px] md:text-[11px] font-black text-sky-400 tabular-nums">{hoveredItem.signal.voteCount}%</span>
+            </div>
+            <div className="text-[7px] md:text-[9px] font-mono text-slate-400 uppercase">
+              E {hoveredItem.signal.entry.toFixed(2)} · SL {hoveredItem.signal.stopLoss.toFixed(2)} · TP {hoveredItem.signal.takeProfit.toFixed(2)}
             </div>
           </div>
+          {hoveredItem.signal.reasoning && (
+            <p className="mt-2 md:mt-3 text-[8px] md:text-[10px] text-slate-400 font-mono italic leading-relaxed max-w-[240px]">"{hoveredItem.signal.reasoning}"</p>
+          )}
+          {hoveredItem.signal.ensembleInsights && hoveredItem.signal.ensembleInsights.length > 0 && (
+            <div className="mt-2 md:mt-3 pt-2 border-t border-slate-900 space-y-1">
+              {hoveredItem.signal.ensembleInsights.slice(0, 4).map(insight => (
+                <div key={insight.category} className="flex justify-between gap-3 text-[7px] md:text-[9px] font-black uppercase">
+                  <span className="text-slate-500">{insight.category}</span>
+                  <span className={insight.sentiment === 'BULLISH' ? 'text-emerald-400' : insight.sentiment === 'BEARISH' ? 'text-rose-400' : 'text-slate-500'}>{insight.weight}%</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { Signal } from '../types';
+import { TradierOrder } from '../services/tradierService';
+import { PositionSizing, quantityBreach } from '../services/riskService';
+
+interface OrderTicketProps {
+  signal: Signal;
+  isSandbox: boolean;
+  blockedReason: string | null;
+  sizing: PositionSizing;
+  placing: boolean;
+  orders: TradierOrder[];
+  onExecute: (quantity: number) => void;
+  onPaper: (quantity: number) => void;
+  onCancel: (orderId: number) => void;
+}
+
+const WORKING_STATUSES = ['open', 'pending', 'partially_filled'];
+
+const OrderTicket: React.FC<OrderTicketProps> = ({ signal, isSandbox, blockedReason, sizing, placing, orders, onExecute, onPaper, onCancel }) => {
+  const [quantity, setQuantity] = useState(String(Math.max(1, sizing.quantity)));
+  const qty = parseInt(quantity);
+  const breach = qty > 0 ? quantityBreach(sizing, qty) : null;
+  const enabled = !blockedReason && !breach && !placing && qty > 0;
+  const paperEnabled = !breach && qty > 0;
+
+  // A fresh signal or a change in room re-seeds the ticket with the suggested size
+  useEffect(() => {
+    setQuantity(String(Math.max(1, sizing.quantity)));
+  }, [signal, sizing.quantity]);
+  const working = orders.filter(o => WORKING_STATUSES.includes(o.status));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={quantity}
+          onChange={e => setQuantity(e.target.value)}
+          className="w-20 bg-slate-900/80 border border-slate-800 rounded-xl px-3 py-3 text-xs text-sky-400 outline-none font-mono text-center"
+        />
+        <button
+          onClick={() => enabled && onExecute(qty)}
+          disabled={!enabled}
+          className={`flex-1 py-3 rounded-xl text-[9px] md:text-[11px] font-black uppercase tracking-[0.2em] transition-all active:scale-95 ${enabled ? (signal.type === 'BUY' ? 'bg-emerald-500 hover:bg-emerald-400 text-white' : 'bg-rose-500 hover:bg-rose-400 text-white') : 'bg-slate-800 text-slate-600 cursor-not-allowed'}`}
+        >
+          {placing ? 'Routing...' : `Execute ${signal.type}`}
+        </button>
+        <button
+          onClick={() => paperEnabled && onPaper(qty)}
+          disabled={!paperEnabled}
+          className={`px-3 md:px-4 py-3 rounded-xl text-[9px] md:text-[11px] font-black uppercase tracking-[0.2em] transition-all active:scale-95 ${paperEnabled ? 'bg-violet-500/10 text-violet-300 hover:bg-violet-500/20' : 'bg-slate-800 text-slate-600 cursor-not-allowed'}`}
+        >
+          Paper
+        </button>
+      </div>
+      <div className="flex justify-between items-center text-[7px] md:text-[8px] font-black uppercase tracking-widest">
+        <span className={isSandbox ? 'text-sky-500' : 'text-rose-500'}>{isSandbox ? 'Sandbox Account' : 'Live Account'}</span>
+        {(breach || blockedReason) && <span className={breach ? 'text-rose-400' : 'text-slate-600'}>{breach || blockedReason}</span>}
+      </div>
+      {qty > 0 && !sizing.blockedReason && (
+        <div className="flex justify-between items-center text-[7px] md:text-[8px] font-mono uppercase tracking-widest text-slate-500">
+          <span>${(qty * sizing.perShareRisk).toFixed(2)} at stop</span>
+          <span>{((qty * sizing.perShareRisk) / sizing.riskBudget).toFixed(2)}× budget</span>
+        </div>
+      )}
+      {working.length > 0 && (
+        <div className="space-y-1.5 pt-2 border-t border-slate-900">
+          {working.map(o => (
+            <div key={o.id} className="flex justify-between items-center text-[8px] md:text-[9px] font-mono">
+              <span className="text-slate-400">#{o.id} {o.class.toUpperCase()}{o.side ? ` ${o.side} ${o.quantity}` : ''}</span>
+              <span className="text-slate-600 uppercase">{o.status}</span>
+              <button onClick={() => onCancel(o.id)} className="text-rose-400 hover:text-rose-300 font-black uppercase">Cancel</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderTicket;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { PaperBrokerConfig, PaperBrokerSnapshot } from '../services/paperBroker';
+
+interface PaperBrokerPanelProps {
+  snapshot: PaperBrokerSnapshot;
+  onClosePosition: (positionId: string) => void;
+  onCancelOrder: (orderId: string) => void;
+  onConfigChange: (config: Partial<PaperBrokerConfig>) => void;
+  onReset: () => void;
+}
+
+const money = (v: number) => `${v < 0 ? '-' : ''}$${Math.abs(v).toFixed(2)}`;
+const pnlColor = (v: number) => v > 0 ? 'text-emerald-400' : v < 0 ? 'text-rose-400' : 'text-slate-400';
+
+const PaperBrokerPanel: React.FC<PaperBrokerPanelProps> = ({ snapshot, onClosePosition, onCancelOrder, onConfigChange, onReset }) => {
+  const working = snapshot.orders.filter(o => o.status === 'WORKING');
+
+  return (
+    <div className="glass-effect p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-slate-800/40">
+      <div className="flex justify-between items-center mb-4 md:mb-6">
+        <div className="space-y-0.5">
+          <h3 className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Paper Broker</h3>
+          <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">{snapshot.source === 'REPLAY' ? 'Replay book · ' : ''}{snapshot.ledger.length} closed · {snapshot.positions.length} open</p>
+        </div>
+        <button onClick={onReset} className="text-[8px] md:text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-rose-400 transition-all">Reset</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div className="space-y-1">
+          <span className="text-[7px] md:text-[9px] font-black text-slate-500 uppercase tracking-widest block">Realized</span>
+          <div className={`text-[11px] md:text-sm font-mono font-bold tracking-tight ${pnlColor(snapshot.realizedPnl)}`}>{money(snapshot.realizedPnl)}</div>
+        </div>
+        <div className="space-y-1">
+          <span className="text-[7px] md:text-[9px] font-black text-slate-500 uppercase tracking-widest block">Unrealized</span>
+          <div className={`text-[11px] md:text-sm font-mono font-bold tracking-tight ${pnlColor(snapshot.unrealizedPnl)}`}>{money(snapshot.unrealizedPnl)}</div>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        {snapshot.positions.map(p => (
+          <div key={p.id} className="flex justify-between items-center text-[8px] md:text-[9px] font-mono">
+            <span className={p.side === 'LONG' ? 'text-emerald-400' : 'text-rose-400'}>{p.side} {p.quantity} {p.symbol} @ {p.entryPrice.toFixed(2)}</span>
+            <span className={`tabular-nums ${pnlColor(p.unrealizedPnl)}`}>{money(p.unrealizedPnl)}</span>
+            <button onClick={() => onClosePosition(p.id)} className="text-slate-400 hover:text-white font-black uppercase">Flatten</button>
+          </div>
+        ))}
+        {working.map(o => (
+          <div key={o.id} className="flex justify-between items-center text-[8px] md:text-[9px] font-mono">
+            <span className="text-slate-500">{o.side} {o.quantity} {o.symbol} LMT {o.limitPrice.toFixed(2)}</span>
+            <span className="text-slate-600 uppercase">working</span>
+            <button onClick={() => onCancelOrder(o.id)} className="text-rose-400 hover:text-rose-300 font-black uppercase">Cancel</button>
+          </div>
+        ))}
+      </div>
+
+      {snapshot.ledger.length > 0 && (
+        <div className="space-y-1 pt-3 mt-3 border-t border-slate-800/50 max-h-32 overflow-y-auto scrollbar-hide">
+          {snapshot.ledger.slice(0, 20).map(t => (
+            <div key={t.id} className="flex justify-between items-center text-[8px] md:text-[9px] font-mono">
+              <span className="text-slate-500">{new Date(t.exitTime).toLocaleTimeString()}</span>
+              <span className="text-slate-400">{t.side} {t.quantity} {t.symbol} {t.entryPrice.toFixed(2)}→{t.exitPrice.toFixed(2)}</span>
+              <span className="text-slate-600">{t.exitReason}</span>
+              <span className={`tabular-nums font-bold ${pnlColor(t.realizedPnl)}`}>{money(t.realizedPnl)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 pt-3 mt-3 border-t border-slate-800/50">
+        {([
+          { k: 'slippagePerShare', l: 'Slip/sh' },
+          { k: 'commissionPerShare', l: 'Comm/sh' },
+          { k: 'minCommission', l: 'Min comm' }
+        ] as { k: keyof PaperBrokerConfig; l: string }[]).map(field => (
+          <label key={field.k} className="space-y-1">
+            <span className="text-[7px] md:text-[8px] font-black text-slate-600 uppercase tracking-widest block">{field.l}</span>
+            <input
+              type="number"
+              step="0.001"
+              min={0}
+              value={snapshot.config[field.k]}
+              onChange={e => onConfigChange({ [field.k]: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-full bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[9px] md:text-[10px] text-sky-400 outline-none font-mono"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PaperBrokerPanel;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { PropChallengeState } from '../services/propChallengeService';
+
+interface PropChallengePanelProps {
+  challenge: PropChallengeState;
+  onManualFill: (realizedPnl: number) => void;
+  onReset: () => void;
+}
+
+const money = (v: number) => `$${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const statusStyle = (status: string) => {
+  if (status === 'PASSING') return 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30';
+  if (status === 'FAILING') return 'bg-rose-500/10 text-rose-400 border-rose-500/30';
+  return 'bg-sky-500/10 text-sky-400 border-sky-500/30';
+};
+
+const PropChallengePanel: React.FC<PropChallengePanelProps> = ({ challenge, onManualFill, onReset }) => {
+  const [pnlInput, setPnlInput] = useState('');
+  const { stats, rules, days } = challenge;
+  const progress = Math.max(0, Math.min(1, (stats.currentEquity - rules.startingBalance) / (rules.profitTarget - rules.startingBalance || 1)));
+  const today = days[0];
+  const dailyRoom = stats.currentEquity - stats.dailyLossLimit;
+  const trailingRoom = stats.currentEquity - stats.maxDrawdown;
+
+  const submitFill = () => {
+    const value = parseFloat(pnlInput);
+    if (isNaN(value) || value === 0) return;
+    onManualFill(value);
+    setPnlInput('');
+  };
+
+  return (
+    <div className="glass-effect p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-slate-800/40">
+      <div className="flex justify-between items-center mb-4 md:mb-6">
+        <div className="space-y-0.5">
+          <h3 className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Prop Challenge</h3>
+          <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">session {challenge.session}</p>
+        </div>
+        <span className={`px-2 md:px-3 py-0.5 md:py-1 rounded border text-[8px] md:text-[10px] font-black uppercase tracking-widest ${statusStyle(stats.status)}`}>{stats.status}</span>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex justify-between items-end">
+          <div>
+            <span className="text-[7px] md:text-[9px] font-black text-slate-500 uppercase tracking-widest block">Equity</span>
+            <div className="text-xl md:text-3xl font-black mono tracking-tighter text-white">{money(stats.currentEquity)}</div>
+          </div>
+          <div className="text-right">
+            <span className="text-[7px] md:text-[9px] font-black text-slate-500 uppercase tracking-widest block">Target</span>
+            <div className="text-[11px] md:text-sm font-mono font-bold text-emerald-400">{money(stats.profitTarget)}</div>
+          </div>
+        </div>
+        <div className="w-full h-1 bg-slate-900 rounded-full overflow-hidden">
+          <div className="h-full bg-emerald-500 transition-all duration-700" style={{ width: `${progress * 100}%` }} />
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {[
+            { k: 'DAILY FLOOR', v: money(stats.dailyLossLimit), room: dailyRoom },
+            { k: 'TRAIL FLOOR', v: money(stats.maxDrawdown), room: trailingRoom },
+            { k: 'DRAWDOWN', v: money(stats.currentDrawdown) },
+            { k: 'OPEN P&L', v: money(challenge.unrealizedPnl) }
+          ].map(item => (
+            <div key={item.k} className="space-y-1">
+              <span className="text-[7px] md:text-[9px] font-black text-slate-500 uppercase tracking-widest block">{item.k}</span>
+              <div className="text-[11px] md:text-sm font-mono font-bold text-white tracking-tight">{item.v}</div>
+              {item.room !== undefined && (
+                <div className={`text-[7px] md:text-[8px] font-mono uppercase ${item.room < rules.dailyLossAmount * 0.25 ? 'text-rose-400' : 'text-slate-600'}`}>room {money(item.room)}</div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {challenge.failReason && (
+          <p className="text-[8px] md:text-[9px] font-black text-rose-400 uppercase tracking-widest">{challenge.failReason}</p>
+        )}
+
+        <div className="space-y-1 pt-3 border-t border-slate-800/50">
+          {days.slice(0, 5).map(day => {
+            const pnl = day.closingEquity - day.openingEquity;
+            return (
+              <div key={day.session} className="flex justify-between items-center text-[8px] md:text-[9px] font-mono">
+                <span className="text-slate-500">{day.session}{day === today ? ' · today' : ''}</span>
+                <span className="text-slate-600">{day.trades} fills</span>
+                <span className={`tabular-nums font-bold ${day.breachedDailyLimit ? 'text-rose-500' : pnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{pnl >= 0 ? '+' : ''}{money(pnl)}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="number"
+            value={pnlInput}
+            onChange={e => setPnlInput(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && submitFill()}
+            placeholder="Realized P&L"
+            className="flex-1 min-w-0 bg-slate-900/80 border border-slate-800 rounded-lg md:rounded-xl px-3 py-2 text-[10px] md:text-xs text-sky-400 outline-none font-mono"
+          />
+          <button onClick={submitFill} className="px-3 md:px-4 py-2 rounded-lg md:rounded-xl bg-sky-500/10 text-sky-400 hover:bg-sky-500/20 text-[8px] md:text-[10px] font-black uppercase tracking-widest transition-all active:scale-95">Log Fill</button>
+          <button onClick={onReset} className="px-3 py-2 rounded-lg md:rounded-xl text-slate-500 hover:text-rose-400 text-[8px] md:text-[10px] font-black uppercase tracking-widest transition-all">Reset</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PropChallengePanel;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { PositionSizing, RiskSettings } from '../services/riskService';
+
+interface RiskPanelProps {
+  settings: RiskSettings;
+  sizing: PositionSizing | null;
+  symbol: string;
+  onChange: (patch: Partial<RiskSettings>) => void;
+}
+
+const money = (v: number) => `$${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const LIMIT_LABELS: Record<PositionSizing['limitedBy'], string> = {
+  RISK_PCT: 'risk per trade',
+  DAILY_LIMIT: 'daily loss room',
+  MAX_DRAWDOWN: 'drawdown room'
+};
+
+const RiskPanel: React.FC<RiskPanelProps> = ({ settings, sizing, symbol, onChange }) => {
+  const fieldClass = 'w-full bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[9px] md:text-[10px] text-sky-400 outline-none font-mono';
+
+  return (
+    <div className="glass-effect p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-slate-800/40">
+      <div className="flex justify-between items-center mb-4 md:mb-6">
+        <div className="space-y-0.5">
+          <h3 className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Position Sizing</h3>
+          <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">{sizing ? `${symbol} · capped by ${LIMIT_LABELS[sizing.limitedBy]}` : 'no active signal'}</p>
+        </div>
+        {sizing && (
+          <span className={`px-2 md:px-3 py-0.5 md:py-1 rounded border text-[8px] md:text-[10px] font-black uppercase tracking-widest ${sizing.blockedReason ? 'bg-rose-500/10 text-rose-400 border-rose-500/30' : 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30'}`}>
+            {sizing.blockedReason ? 'BLOCKED' : `${sizing.quantity} SH`}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <label className="space-y-1">
+          <span className="text-[7px] md:text-[8px] font-black text-slate-500 uppercase tracking-widest block">Risk / trade %</span>
+          <input type="number" min={0.05} max={10} step={0.05} value={settings.riskPerTradePct} onChange={e => onChange({ riskPerTradePct: Math.max(0, parseFloat(e.target.value) || 0) })} className={fieldClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-[7px] md:text-[8px] font-black text-slate-500 uppercase tracking-widest block">Max room used %</span>
+          <input type="number" min={5} max={100} step={5} value={Math.round(settings.maxRoomUsage * 100)} onChange={e => onChange({ maxRoomUsage: Math.min(1, Math.max(0, (parseFloat(e.target.value) || 0) / 100)) })} className={fieldClass} />
+        </label>
+      </div>
+
+      {sizing ? (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { k: 'DOLLAR RISK', v: money(sizing.dollarRisk) },
+              { k: 'REWARD', v: money(sizing.dollarReward) },
+              { k: 'REWARD:RISK', v: `1:${sizing.rewardRisk.toFixed(2)}` },
+              { k: 'TARGET', v: `${sizing.rewardRisk >= 0 ? '+' : ''}${sizing.rewardRisk.toFixed(2)}R` }
+            ].map(item => (
+              <div key={item.k}>
+                <span className="text-[7px] md:text-[8px] font-black text-slate-500 uppercase tracking-widest block">{item.k}</span>
+                <span className="text-[10px] md:text-xs font-mono font-bold text-white">{item.v}</span>
+              </div>
+            ))}
+          </div>
+          <div className="text-[7px] md:text-[8px] font-mono text-slate-500 uppercase">
+            1R {money(sizing.perShareRisk)}/sh · budget {money(sizing.riskBudget)} · daily room {money(sizing.dailyRoom)} · drawdown room {money(sizing.trailingRoom)}
+          </div>
+          {sizing.blockedReason && <p className="text-[8px] md:text-[9px] font-black uppercase tracking-widest text-rose-400">{sizing.blockedReason}</p>}
+        </div>
+      ) : (
+        <div className="h-12 flex items-center justify-center text-[8px] font-black uppercase tracking-widest text-slate-700">Run the oracle to size a trade</div>
+      )}
+    </div>
+  );
+};
+
+export default RiskPanel;
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AUTO_LOCK_OPTIONS, CREDENTIAL_LABELS, CredentialKey, CredentialTestResult, EMPTY_SECRETS, MIN_PASSPHRASE_LENGTH,
+  TradierEnvironment, VaultSecrets, VaultSettings, VaultStatus, maskSecret
+} from '../services/credentialVault';
+
+interface VaultModalProps {
+  status: VaultStatus;
+  secrets: VaultSecrets | null;
+  /** Plaintext credentials from before the vault, pre-filled into the create form or offered for import on unlock */
+  legacy: Partial<VaultSecrets> | null;
+  settings: VaultSettings;
+  allowLiveOrders: boolean;
+  connected: boolean;
+  busy: boolean;
+  error: string | null;
+  tests: Partial<Record<CredentialKey, CredentialTestResult>>;
+  testing: CredentialKey | null;
+  onCreate: (passphrase: string, secrets: VaultSecrets) => void;
+  onUnlock: (passphrase: string, importLegacy: boolean) => void;
+  onSave: (secrets: VaultSecrets) => void;
+  onTest: (key: CredentialKey) => void;
+  onConnect: () => void;
+  onLock: () => void;
+  onForget: () => void;
+  onSettingsChange: (patch: Partial<VaultSettings>) => void;
+  onAllowLiveOrdersChange: (allow: boolean) => void;
+  onClose: () => void;
+}
+
+const CREDENTIAL_KEYS: CredentialKey[] = ['tradierSandboxToken', 'tradierLiveToken', 'geminiApiKey'];
+
+const inputClass = 'w-full bg-slate-900/80 border border-slate-800 rounded-xl md:rounded-2xl px-4 md:px-5 py-3 md:py-4 text-sm text-sky-400 outline-none font-mono';
+const labelClass = 'text-[8px] md:text-[10px] font-black uppercase text-slate-400 ml-1';
+
+const EnvironmentToggle: React.FC<{ value: TradierEnvironment; onChange: (env: TradierEnvironment) => void }> = ({ value, onChange }) => (
+  <div className="flex bg-slate-900 p-1 rounded-xl md:rounded-2xl border border-slate-800">
+    {(['SANDBOX', 'LIVE'] as const).map(env => (
+      <button key={env} onClick={() => onChange(env)} className={`flex-1 py-2.5 md:py-3 rounded-lg md:rounded-xl text-[9px] md:text-[11px] font-black uppercase tracking-widest transition-all ${value === env ? (env === 'LIVE' ? 'bg-rose-500 text-white' : 'bg-sky-500 text-white') : 'text-slate-500 hover:text-slate-300'}`}>
+        {env === 'SANDBOX' ? 'Sandbox' : 'Live'}
+      </button>
+    ))}
+  </div>
+);
+
+const VaultModal: React.FC<VaultModalProps> = (props) => {
+  const { status, secrets, legacy, settings, allowLiveOrders, connected, busy, error, tests, testing } = props;
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [draft, setDraft] = useState<VaultSecrets>(() => ({ ...EMPTY_SECRETS, ...(legacy || {}) }));
+  const [editing, setEditing] = useState<CredentialKey | null>(null);
+  const [replacement, setReplacement] = useState('');
+  const [forgetArmed, setForgetArmed] = useState(false);
+  const [importLegacy, setImportLegacy] = useState(true);
+
+  // The passphrase is not kept around once it has done its job
+  useEffect(() => {
+    setPassphrase('');
+    setConfirmation('');
+    setForgetArmed(false);
+  }, [status]);
+
+  const mismatch = confirmation.length > 0 && confirmation !== passphrase;
+  const canCreate = passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmation && !busy;
+
+  const submitReplacement = (key: CredentialKey) => {
+    if (!secrets) return;
+    props.onSave({ ...secrets, [key]: replacement.trim() });
+    setEditing(null);
+    setReplacement('');
+  };
+
+  const subtitle = status === 'EMPTY' ? 'create · encrypted at rest' : status === 'LOCKED' ? 'locked · enter passphrase' : `unlocked · auto-lock ${settings.autoLockMinutes}m idle`;
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4 md:p-6 bg-slate-950/98 backdrop-blur-3xl" onClick={props.onClose}>
+      <div className="glass-effect rounded-2xl md:rounded-[3rem] p-8 md:p-12 border border-slate-700/40 max-w-md w-full relative z-10 shadow-2xl max-h-[95vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="mb-8 md:mb-10 text-center">
+          <h3 className="text-2xl md:text-4xl font-black text-white tracking-tighter uppercase mb-2">Quant Vault</h3>
+          <p className="text-[8px] md:text-[10px] text-slate-500 uppercase font-black tracking-[0.2em]">{subtitle}</p>
+        </div>
+
+        {error && <p className="mb-4 text-[8px] md:text-[10px] font-black uppercase tracking-widest text-rose-400 text-center">{error}</p>}
+
+        {status === 'EMPTY' && (
+          <div className="space-y-4 md:space-y-5">
+            {legacy && (
+              <p className="text-[7px] md:text-[9px] font-bold uppercase tracking-widest text-amber-500/80">
+                A plaintext token from an earlier version was found. It is imported below and wiped from storage once the vault is created.
+              </p>
+            )}
+            <div className="space-y-2">
+              <label className={labelClass}>Passphrase</label>
+              <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} className={inputClass} placeholder={`${MIN_PASSPHRASE_LENGTH}+ characters`} autoComplete="new-password" />
+              <input type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} className={`${inputClass} ${mismatch ? 'border-rose-500/60' : ''}`} placeholder="Repeat passphrase" autoComplete="new-password" />
+            </div>
+            {CREDENTIAL_KEYS.map(key => (
+              <div key={key} className="space-y-2">
+                <label className={labelClass}>{CREDENTIAL_LABELS[key]}</label>
+                <input type="password" value={draft[key]} onChange={e => setDraft(prev => ({ ...prev, [key]: e.target.value }))} className={inputClass} placeholder="optional" autoComplete="off" />
+              </div>
+            ))}
+            <EnvironmentToggle value={draft.environment} onChange={environment => setDraft(prev => ({ ...prev, environment }))} />
+            <button onClick={() => props.onCreate(passphrase, { ...draft, tradierSandboxToken: draft.tradierSandboxToken.trim(), tradierLiveToken: draft.tradierLiveToken.trim(), geminiApiKey: draft.geminiApiKey.trim() })} disabled={!canCreate} className="w-full bg-sky-500 hover:bg-sky-400 disabled:opacity-40 text-white font-black py-4 md:py-6 rounded-xl md:rounded-2xl uppercase tracking-[0.2em] text-[10px] md:text-[12px] transition-all active:scale-95">
+              {busy ? 'Encrypting...' : 'Create Vault'}
+            </button>
+            <p className="text-[7px] md:text-[8px] font-mono uppercase tracking-widest text-slate-600 text-center">The passphrase is never stored and cannot be recovered</p>
+          </div>
+        )}
+
+        {status === 'LOCKED' && (
+          <form className="space-y-4 md:space-y-6" onSubmit={e => { e.preventDefault(); if (passphrase && !busy) props.onUnlock(passphrase, !!legacy && importLegacy); }}>
+            {legacy && (
+              <button type="button" onClick={() => setImportLegacy(!importLegacy)} className="w-full flex justify-between items-center gap-3 p-3 md:p-4 bg-slate-900 rounded-xl md:rounded-2xl border border-amber-500/30 text-left">
+                <span className="text-[7px] md:text-[9px] font-bold uppercase tracking-widest text-amber-500/80">
+                  A plaintext {legacy.environment === 'LIVE' ? 'live' : 'sandbox'} token from an earlier version was found. {importLegacy ? 'It replaces the one in the vault' : 'It is discarded'} and is wiped from storage on unlock.
+                </span>
+                <div className={`w-10 md:w-14 h-5 md:h-7 rounded-full p-1 shrink-0 transition-all duration-500 ${importLegacy ? 'bg-amber-500' : 'bg-slate-700'}`}><div className={`w-3 md:w-4 h-3 md:h-4 bg-white rounded-full transition-all duration-500 ${importLegacy ? 'translate-x-5 md:translate-x-7' : ''}`} /></div>
+              </button>
+            )}
+            <div className="space-y-2">
+              <label className={labelClass}>Passphrase</label>
+              <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} className={inputClass} autoFocus autoComplete="current-password" />
+            </div>
+            <button type="submit" disabled={!passphrase || busy} className="w-full bg-sky-500 hover:bg-sky-400 disabled:opacity-40 text-white font-black py-4 md:py-6 rounded-xl md:rounded-2xl uppercase tracking-[0.2em] text-[10px] md:text-[12px] transition-all active:scale-95">
+              {busy ? 'Deriving key...' : 'Unlock'}
+            </button>
+            <button type="button" onClick={() => { if (forgetArmed) props.onForget(); setForgetArmed(!forgetArmed); }} className={`w-full text-[7px] md:text-[9px] font-black uppercase tracking-widest transition-all ${forgetArmed ? 'text-rose-400' : 'text-slate-600 hover:text-slate-400'}`}>
+              {forgetArmed ? 'Click again to erase every stored credential' : 'Forgot passphrase? Erase vault'}
+            </button>
+          </form>
+        )}
+
+        {status === 'UNLOCKED' && secrets && (
+          <div className="space-y-4 md:space-y-6">
+            <EnvironmentToggle value={secrets.environment} onChange={environment => props.onSave({ ...secrets, environment })} />
+
+            <div className="space-y-3">
+              {CREDENTIAL_KEYS.map(key => {
+                const test = tests[key];
+                const value = secrets[key];
+                const active = key === 'geminiApiKey' || (key === 'tradierLiveToken') === (secrets.environment === 'LIVE');
+                return (
+                  <div key={key} className={`p-3 md:p-4 bg-slate-900 rounded-xl md:rounded-2xl border ${active ? 'border-slate-700' : 'border-slate-800 opacity-60'}`}>
+                    <div className="flex justify-between items-center gap-2">
+                      <div className="min-w-0">
+                        <span className="text-[8px] md:text-[10px] font-black uppercase text-slate-200 block">{CREDENTIAL_LABELS[key]}</span>
+                        <span className="text-[9px] md:text-[11px] font-mono text-slate-500 block truncate">{value ? maskSecret(value) : 'not set'}</span>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <button onClick={() => { setEditing(editing === key ? null : key); setReplacement(''); }} className="px-2 py-1 rounded-lg text-[7px] md:text-[8px] font-black uppercase tracking-widest bg-slate-800 text-slate-400 hover:text-slate-200 transition-all">{value ? 'Replace' : 'Add'}</button>
+                        <button onClick={() => props.onTest(key)} disabled={!value || testing === key} className="px-2 py-1 rounded-lg text-[7px] md:text-[8px] font-black uppercase tracking-widest bg-sky-500/10 text-sky-400 hover:bg-sky-500/20 disabled:opacity-40 transition-all">{testing === key ? '...' : 'Test'}</button>
+                      </div>
+                    </div>
+                    {editing === key && (
+                      <form className="flex gap-2 mt-2" onSubmit={e => { e.preventDefault(); submitReplacement(key); }}>
+                        <input type="password" value={replacement} onChange={e => setReplacement(e.target.value)} className="flex-1 bg-slate-950/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[9px] md:text-[10px] text-sky-400 outline-none font-mono" placeholder="new value (empty clears)" autoFocus autoComplete="off" />
+                        <button type="submit" className="px-2 py-1 rounded-lg text-[7px] md:text-[8px] font-black uppercase tracking-widest bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 transition-all">Save</button>
+                      </form>
+                    )}
+                    {test && (
+                      <p className={`mt-1.5 text-[7px] md:text-[8px] font-mono uppercase truncate ${test.ok ? 'text-emerald-500/80' : 'text-rose-400'}`} title={test.detail}>
+                        {test.ok ? 'OK' : 'FAILED'} · {test.detail} · {new Date(test.at).toLocaleTimeString()}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {secrets.environment === 'LIVE' && (
+              <button onClick={() => props.onAllowLiveOrdersChange(!allowLiveOrders)} className="w-full flex justify-between items-center p-4 md:p-6 bg-slate-900 rounded-xl md:rounded-2xl border border-slate-800">
+                <div className="text-left">
+                  <span className="text-[9px] md:text-[11px] font-black uppercase text-slate-200 block">Live Order Routing</span>
+                  <span className="text-[7px] md:text-[8px] font-bold uppercase text-rose-500/80 tracking-widest">real capital · off by default</span>
+                </div>
+                <div className={`w-10 md:w-14 h-5 md:h-7 rounded-full p-1 transition-all duration-500 ${allowLiveOrders ? 'bg-rose-500' : 'bg-slate-700'}`}><div className={`w-3 md:w-4 h-3 md:h-4 bg-white rounded-full transition-all duration-500 ${allowLiveOrders ? 'translate-x-5 md:translate-x-7' : ''}`} /></div>
+              </button>
+            )}
+
+            <label className="flex justify-between items-center px-1">
+              <span className={labelClass}>Auto-lock after</span>
+              <select value={settings.autoLockMinutes} onChange={e => props.onSettingsChange({ autoLockMinutes: Number(e.target.value) })} className="bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[9px] md:text-[10px] font-black text-sky-400 outline-none">
+                {AUTO_LOCK_OPTIONS.map(m => <option key={m} value={m}>{m} min idle</option>)}
+              </select>
+            </label>
+
+            <div className="flex gap-2">
+              <button onClick={props.onConnect} disabled={busy} className="flex-1 bg-sky-500 hover:bg-sky-400 disabled:opacity-40 text-white font-black py-4 md:py-6 rounded-xl md:rounded-2xl uppercase tracking-[0.2em] text-[10px] md:text-[12px] transition-all active:scale-95">
+                {connected ? 'Reconnect Bridge' : 'Establish Bridge'}
+              </button>
+              <button onClick={props.onLock} className="px-4 md:px-6 bg-slate-800 hover:bg-slate-700 text-slate-300 font-black rounded-xl md:rounded-2xl uppercase tracking-[0.2em] text-[9px] md:text-[11px] transition-all active:scale-95">Lock</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultModal;
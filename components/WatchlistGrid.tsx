@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { HistoricalSignal, InstitutionalLevels } from '../types';
+
+export interface WatchlistRow {
+  symbol: string;
+  price: number;
+  change: number;
+  lixi: number | null;
+  flow: 'GOLDEN' | 'WATCH' | 'QUIET';
+  bias?: InstitutionalLevels['bias'];
+  signal?: HistoricalSignal;
+}
+
+interface WatchlistGridProps {
+  rows: WatchlistRow[];
+  selected: string;
+  disabled: boolean;
+  onSelect: (symbol: string) => void;
+  onAdd: (symbol: string) => void;
+  onRemove: (symbol: string) => void;
+}
+
+const FLOW_STYLES: Record<WatchlistRow['flow'], string> = {
+  GOLDEN: 'text-amber-400',
+  WATCH: 'text-amber-200',
+  QUIET: 'text-sky-400'
+};
+
+const BIAS_STYLES: Record<InstitutionalLevels['bias'], string> = {
+  BULLISH: 'text-emerald-400',
+  BEARISH: 'text-rose-400',
+  SQUEEZE: 'text-amber-400',
+  NEUTRAL: 'text-slate-500'
+};
+
+const WatchlistGrid: React.FC<WatchlistGridProps> = ({ rows, selected, disabled, onSelect, onAdd, onRemove }) => {
+  const [draft, setDraft] = useState('');
+
+  const submit = () => {
+    if (!draft.trim()) return;
+    onAdd(draft);
+    setDraft('');
+  };
+
+  return (
+    <div className="glass-effect p-4 md:p-8 rounded-2xl md:rounded-[2rem] border border-slate-800/40">
+      <div className="flex justify-between items-center mb-4 md:mb-6 gap-3">
+        <div className="space-y-0.5">
+          <h3 className="text-[8px] md:text-[10px] font-black text-slate-500 uppercase tracking-widest">Watchlist</h3>
+          <p className="text-[7px] md:text-[8px] text-slate-600 font-mono uppercase tracking-widest">{rows.length} symbols monitored</p>
+        </div>
+        <div className="flex gap-1.5">
+          <input
+            type="text"
+            value={draft}
+            onChange={e => setDraft(e.target.value.toUpperCase())}
+            onKeyDown={e => e.key === 'Enter' && submit()}
+            placeholder="ADD"
+            className="w-16 md:w-20 bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-[9px] md:text-[10px] text-sky-400 outline-none font-mono uppercase"
+          />
+          <button onClick={submit} className="px-2.5 py-1.5 rounded-lg text-[8px] md:text-[9px] font-black uppercase tracking-widest bg-sky-500/10 text-sky-400 hover:bg-sky-500/20 transition-all active:scale-95">+</button>
+        </div>
+      </div>
+
+      <table className="w-full">
+        <thead>
+          <tr className="text-[7px] md:text-[8px] font-black text-slate-600 uppercase tracking-widest">
+            <th className="text-left pb-2">Sym</th>
+            <th className="text-right pb-2">Last</th>
+            <th className="text-right pb-2">LIXI</th>
+            <th className="text-right pb-2">Bias</th>
+            <th className="text-right pb-2">Signal</th>
+            <th className="pb-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr
+              key={row.symbol}
+              onClick={() => !disabled && row.symbol !== selected && onSelect(row.symbol)}
+              className={`border-t border-slate-900 cursor-pointer transition-all ${row.symbol === selected ? 'bg-sky-500/[0.06]' : 'hover:bg-slate-800/30'} ${row.flow === 'GOLDEN' ? 'shadow-[inset_2px_0_0_#f59e0b]' : ''}`}
+            >
+              <td className="py-1.5 text-[9px] md:text-[10px] font-black text-white">{row.symbol}</td>
+              <td className="py-1.5 text-right text-[9px] md:text-[10px] font-mono tabular-nums">
+                <span className="text-slate-300">{row.price > 0 ? row.price.toFixed(2) : '--'}</span>
+                <span className={`ml-1 ${row.change >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{row.price > 0 ? `${row.change >= 0 ? '+' : ''}${row.change.toFixed(2)}%` : ''}</span>
+              </td>
+              <td className={`py-1.5 text-right text-[9px] md:text-[10px] font-mono font-bold tabular-nums ${FLOW_STYLES[row.flow]}`}>{row.lixi !== null ? row.lixi.toFixed(2) : '--'}</td>
+              <td className={`py-1.5 text-right text-[8px] md:text-[9px] font-black uppercase ${row.bias ? BIAS_STYLES[row.bias] : 'text-slate-700'}`}>{row.bias || '--'}</td>
+              <td className="py-1.5 text-right text-[8px] md:text-[9px] font-black uppercase">
+                {row.signal ? (
+                  <span className={row.signal.type === 'BUY' ? 'text-emerald-400' : row.signal.type === 'SELL' ? 'text-rose-400' : 'text-slate-500'}>{row.signal.type} {row.signal.voteCount}%</span>
+                ) : <span className="text-slate-700">--</span>}
+              </td>
+              <td className="py-1.5 pl-2 text-right">
+                {rows.length > 1 && (
+                  <button onClick={e => { e.stopPropagation(); onRemove(row.symbol); }} className="text-[9px] font-black text-slate-600 hover:text-rose-400 transition-all">×</button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default WatchlistGrid;
@@ -0,0 +1,208 @@
+// Local mock of the Tradier REST API: profile, quotes, stream sessions and an in-memory order book that
+// validates OTOCO brackets the way Tradier does, for running the bridge offline and for the order tests.
+// Usage: node scripts/mock-tradier-api.mjs [port] [streamPort]   (also starts the mock stream, which its sessions point at)
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { startMockStream } from './mock-tradier-stream.mjs';
+
+export const ACCOUNT_ID = 'VA00000001';
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Accept, Content-Type'
+};
+
+const SIDES = ['buy', 'sell', 'sell_short', 'buy_to_cover'];
+const TYPES = ['market', 'limit', 'stop', 'stop_limit'];
+const EXIT_SIDE = { buy: 'sell', sell_short: 'buy_to_cover' };
+
+class OrderError extends Error {}
+
+// Equity orders carry flat fields; multi-leg classes index them as symbol[0], side[0], ...
+const parseLegs = params => {
+  const read = suffix => ({
+    symbol: params.get(`symbol${suffix}`),
+    side: params.get(`side${suffix}`),
+    quantity: Number(params.get(`quantity${suffix}`)),
+    type: params.get(`type${suffix}`),
+    price: params.has(`price${suffix}`) ? Number(params.get(`price${suffix}`)) : undefined,
+    stop: params.has(`stop${suffix}`) ? Number(params.get(`stop${suffix}`)) : undefined
+  });
+  if (params.get('class') === 'equity') return [read('')];
+  const legs = [];
+  for (let i = 0; params.has(`symbol[${i}]`); i++) legs.push(read(`[${i}]`));
+  return legs;
+};
+
+const validateLeg = (leg, index) => {
+  const name = `leg ${index}`;
+  if (!leg.symbol) throw new OrderError(`${name}: symbol is required`);
+  if (!SIDES.includes(leg.side)) throw new OrderError(`${name}: invalid side ${leg.side}`);
+  if (!Number.isInteger(leg.quantity) || leg.quantity <= 0) throw new OrderError(`${name}: invalid quantity ${leg.quantity}`);
+  if (!TYPES.includes(leg.type)) throw new OrderError(`${name}: invalid type ${leg.type}`);
+  if ((leg.type === 'limit' || leg.type === 'stop_limit') && !(leg.price > 0)) throw new OrderError(`${name}: price is required for ${leg.type} orders`);
+  if ((leg.type === 'stop' || leg.type === 'stop_limit') && !(leg.stop > 0)) throw new OrderError(`${name}: stop is required for ${leg.type} orders`);
+};
+
+// OTOCO: an entry, then a limit target and a stop that cancel each other, both closing the entry's side
+const validateOtoco = legs => {
+  if (legs.length !== 3) throw new OrderError(`OTOCO orders need exactly 3 legs, got ${legs.length}`);
+  const [entry, ...exits] = legs;
+  const exitSide = EXIT_SIDE[entry.side];
+  if (!exitSide) throw new OrderError(`OTOCO entry side must be buy or sell_short, got ${entry.side}`);
+  if (exits.some(leg => leg.side !== exitSide || leg.symbol !== entry.symbol || leg.quantity !== entry.quantity)) {
+    throw new OrderError(`OTOCO exit legs must ${exitSide} ${entry.quantity} ${entry.symbol}`);
+  }
+  const target = exits.find(leg => leg.type === 'limit');
+  const stop = exits.find(leg => leg.type === 'stop');
+  if (!target || !stop) throw new OrderError('OTOCO exits must be one limit and one stop');
+  const entryPrice = entry.price;
+  const isLong = entry.side === 'buy';
+  if (isLong ? !(stop.stop < entryPrice && entryPrice < target.price) : !(target.price < entryPrice && entryPrice < stop.stop)) {
+    throw new OrderError(`OTOCO ${entry.side} bracket out of order: stop ${stop.stop}, entry ${entryPrice}, target ${target.price}`);
+  }
+};
+
+/**
+ * Starts the mock; port 0 picks a free one. Pass the handle from `startMockStream` as `stream` to serve
+ * `/markets/events/session` with sessions that stream accepts. `requests` records every call for assertions,
+ * and `fillBracket` plays out a placed bracket so its fills show up in the order list.
+ */
+export const startMockTradierApi = ({ port = 4010, stream = null } = {}) => new Promise(resolve => {
+  const orders = new Map();
+  const requests = [];
+  let nextId = 1000;
+
+  const createOrder = params => {
+    const cls = params.get('class');
+    if (!['equity', 'otoco'].includes(cls)) throw new OrderError(`Unsupported order class ${cls}`);
+    if (!['day', 'gtc'].includes(params.get('duration'))) throw new OrderError(`Invalid duration ${params.get('duration')}`);
+    const legs = parseLegs(params);
+    if (legs.length === 0) throw new OrderError('Order has no legs');
+    legs.forEach(validateLeg);
+    if (cls === 'otoco') validateOtoco(legs);
+
+    const id = nextId++;
+    const createDate = new Date().toISOString();
+    const toOrder = (leg, legId, status) => ({
+      id: legId, type: leg.type, symbol: leg.symbol, side: leg.side, quantity: leg.quantity, status,
+      duration: params.get('duration'), price: leg.price, stop_price: leg.stop, avg_fill_price: 0, exec_quantity: 0,
+      class: 'equity', create_date: createDate
+    });
+    const order = cls === 'equity'
+      ? { ...toOrder(legs[0], id, 'open'), tag: params.get('tag') || undefined }
+      : {
+        ...toOrder(legs[0], id, 'open'), class: cls, tag: params.get('tag') || undefined,
+        leg: legs.map((leg, i) => toOrder(leg, id + i + 1, i === 0 ? 'open' : 'pending'))
+      };
+    if (cls === 'otoco') nextId += legs.length;
+    if (params.get('preview') !== 'true') orders.set(id, order);
+    return { id, status: 'ok', partner_id: 'mock' };
+  };
+
+  const cancelOrder = id => {
+    const order = orders.get(id);
+    if (!order) throw new OrderError(`Order ${id} not found`);
+    if (order.status === 'canceled' || order.status === 'filled') throw new OrderError(`Order ${id} is already ${order.status}`);
+    order.status = 'canceled';
+    (order.leg || []).forEach(leg => { leg.status = 'canceled'; });
+    return { id, status: 'ok' };
+  };
+
+  // Simulates the market reaching a bracket: the entry fills, then the chosen exit fills and its sibling is cancelled
+  const fillBracket = (id, { entryPrice, exit = 'limit', exitPrice }) => {
+    const order = orders.get(id);
+    if (!order || !order.leg) throw new Error(`No bracket ${id}`);
+    const [entry, ...exits] = order.leg;
+    const fill = (leg, price) => Object.assign(leg, {
+      status: 'filled', avg_fill_price: price, exec_quantity: leg.quantity, transaction_date: new Date().toISOString()
+    });
+    fill(entry, entryPrice ?? entry.price);
+    exits.forEach(leg => {
+      if (leg.type === exit) fill(leg, exitPrice ?? (exit === 'stop' ? leg.stop_price : leg.price));
+      else leg.status = 'canceled';
+    });
+    order.status = 'filled';
+    return order;
+  };
+
+  // Tradier collapses single-element lists to an object and empty ones to the string "null"
+  const collapse = list => list.length === 0 ? 'null' : list.length === 1 ? list[0] : list;
+
+  const route = (method, path, params) => {
+    if (method === 'GET' && path === '/v1/user/profile') {
+      return { profile: { id: 'id-mock', name: 'Mock Trader', account: { account_number: ACCOUNT_ID, type: 'margin', status: 'active' } } };
+    }
+    if (method === 'GET' && path === '/v1/markets/quotes') {
+      const symbols = (params.get('symbols') || '').split(',').filter(Boolean);
+      return {
+        quotes: {
+          quote: collapse(symbols.map(symbol => ({
+            symbol, description: `${symbol} (mock)`, last: 100, change: 0, change_percentage: 0, volume: 0,
+            prevclose: 100, open: 100, bid: 99.99, ask: 100.01, bidsize: 5, asksize: 5, trade_date: Date.now()
+          })))
+        }
+      };
+    }
+    if (method === 'POST' && path === '/v1/markets/events/session') {
+      if (!stream) throw new OrderError('Streaming is not available on this mock');
+      return { stream: stream.issueSession() };
+    }
+    const account = /^\/v1\/accounts\/([^/]+)\/(orders|positions)(?:\/(\d+))?$/.exec(path);
+    if (account) {
+      if (account[1] !== ACCOUNT_ID) throw new OrderError(`Account ${account[1]} not found`);
+      if (account[2] === 'positions' && method === 'GET') return { positions: 'null' };
+      if (account[2] === 'orders' && !account[3] && method === 'GET') return { orders: orders.size === 0 ? 'null' : { order: collapse([...orders.values()]) } };
+      if (account[2] === 'orders' && !account[3] && method === 'POST') return { order: createOrder(params) };
+      if (account[2] === 'orders' && account[3] && method === 'DELETE') return { order: cancelOrder(Number(account[3])) };
+    }
+    return null;
+  };
+
+  const server = http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, cors).end();
+      return;
+    }
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url, 'http://localhost');
+      const params = req.method === 'POST' ? new URLSearchParams(body) : url.searchParams;
+      requests.push({ method: req.method, path: url.pathname, params: Object.fromEntries(params) });
+      if (!/^Bearer \S+/.test(req.headers.authorization || '')) {
+        res.writeHead(401, { ...cors, 'Content-Type': 'text/plain' }).end('Invalid Access Token');
+        return;
+      }
+      try {
+        const payload = route(req.method, url.pathname, params);
+        if (payload === null) {
+          res.writeHead(404, { ...cors, 'Content-Type': 'text/plain' }).end(`No mock for ${req.method} ${url.pathname}`);
+          return;
+        }
+        res.writeHead(200, { ...cors, 'Content-Type': 'application/json' }).end(JSON.stringify(payload));
+      } catch (err) {
+        if (!(err instanceof OrderError)) throw err;
+        res.writeHead(400, { ...cors, 'Content-Type': 'application/json' }).end(JSON.stringify({ errors: { error: [err.message] } }));
+      }
+    });
+  });
+
+  server.listen(port, () => {
+    const actual = server.address().port;
+    resolve({
+      url: `http://localhost:${actual}/v1`,
+      orders,
+      requests,
+      fillBracket,
+      close: () => new Promise(done => server.close(() => done()))
+    });
+  });
+});
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const stream = await startMockStream({ port: Number(process.argv[3]) || 4011 });
+  const api = await startMockTradierApi({ port: Number(process.argv[2]) || 4010, stream });
+  console.log(`Mock Tradier API on ${api.url} (account ${ACCOUNT_ID}); stream on ${stream.url}`);
+}
@@ -0,0 +1,128 @@
+// Local mock of the Tradier market events stream: issues single-use sessions over HTTP and serves quote/trade
+// events over a WebSocket, for running the bridge offline and for the stream tests.
+// Usage: node scripts/mock-tradier-stream.mjs [port]   (MODE=SILENT never speaks after subscribing, MODE=DROP closes right after it)
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer } from 'ws';
+
+export const STREAM_PATH = '/v1/markets/events';
+export const SESSION_PATH = '/v1/markets/events/session';
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Accept, Content-Type'
+};
+
+/**
+ * Starts the mock; port 0 picks a free one. Events only flow in LIVE mode: SILENT accepts the subscription
+ * and then goes quiet (exercises the heartbeat timeout), DROP closes each socket as soon as it subscribes.
+ * `tickMs` / `heartbeatMs` of 0 disable the synthetic feed and heartbeats so tests can `send` events themselves.
+ */
+export const startMockStream = ({ port = 4011, mode = 'LIVE', tickMs = 500, heartbeatMs = 5000 } = {}) => new Promise(resolve => {
+  const pending = new Set();
+  const clients = new Set();
+  const stats = { sessions: 0, connections: 0, subscriptions: [], rejected: 0 };
+  const prices = {};
+  let currentMode = mode;
+  let url = '';
+
+  const issueSession = () => {
+    const sessionid = randomUUID();
+    pending.add(sessionid);
+    stats.sessions++;
+    return { url, sessionid };
+  };
+
+  const send = event => {
+    if (currentMode !== 'LIVE') return;
+    const line = JSON.stringify(event);
+    clients.forEach(client => {
+      if (!event.symbol || client.symbols.includes(event.symbol)) client.socket.send(line);
+    });
+  };
+
+  // Random walk per subscribed symbol; each step sends a quote, then a print at the bid or the ask
+  const emitSynthetic = () => {
+    const symbols = new Set();
+    clients.forEach(client => client.symbols.forEach(s => symbols.add(s)));
+    symbols.forEach(symbol => {
+      const mid = prices[symbol] = Math.max(1, (prices[symbol] || 100) + (Math.random() - 0.5) * 0.1);
+      const bid = Math.round((mid - 0.01) * 100) / 100;
+      const ask = Math.round((mid + 0.01) * 100) / 100;
+      send({ type: 'quote', symbol, bid, bidsz: 5, ask, asksz: 5, biddate: Date.now(), askdate: Date.now() });
+      send({ type: 'trade', symbol, price: Math.random() < 0.5 ? bid : ask, size: Math.ceil(Math.random() * 300), date: Date.now() });
+    });
+  };
+
+  const server = http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, cors).end();
+      return;
+    }
+    if (req.method === 'POST' && req.url === SESSION_PATH) {
+      res.writeHead(200, { ...cors, 'Content-Type': 'application/json' }).end(JSON.stringify({ stream: issueSession() }));
+      return;
+    }
+    res.writeHead(404, cors).end();
+  });
+
+  const wss = new WebSocketServer({ server, path: STREAM_PATH });
+  wss.on('connection', socket => {
+    stats.connections++;
+    socket.once('message', raw => {
+      let subscription = null;
+      try {
+        subscription = JSON.parse(String(raw));
+      } catch (e) {
+        // Not a subscription payload: rejected below
+      }
+      // Sessions are single-use, like Tradier's: a reused or unknown id is refused
+      if (!subscription || !pending.has(subscription.sessionid)) {
+        stats.rejected++;
+        socket.close(1008, 'invalid session');
+        return;
+      }
+      pending.delete(subscription.sessionid);
+      stats.subscriptions.push(subscription);
+      if (currentMode === 'DROP') {
+        socket.close();
+        return;
+      }
+      const client = { socket, symbols: Array.isArray(subscription.symbols) ? subscription.symbols : [] };
+      clients.add(client);
+      socket.on('close', () => clients.delete(client));
+    });
+  });
+
+  const timers = [];
+  if (tickMs > 0) timers.push(setInterval(emitSynthetic, tickMs));
+  if (heartbeatMs > 0) timers.push(setInterval(() => send({ type: 'heartbeat' }), heartbeatMs));
+
+  const close = () => new Promise(done => {
+    timers.forEach(clearInterval);
+    wss.clients.forEach(socket => socket.terminate());
+    wss.close(() => server.close(() => done()));
+  });
+
+  server.listen(port, () => {
+    const actual = server.address().port;
+    url = `ws://localhost:${actual}${STREAM_PATH}`;
+    resolve({
+      url,
+      sessionUrl: `http://localhost:${actual}${SESSION_PATH}`,
+      stats,
+      issueSession,
+      send,
+      setMode: next => { currentMode = next; },
+      dropClients: () => clients.forEach(client => client.socket.close()),
+      close
+    });
+  });
+});
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const mock = await startMockStream({ port: Number(process.argv[2]) || 4011, mode: process.env.MODE || 'LIVE' });
+  console.log(`Mock Tradier stream on ${mock.url} (sessions: POST ${mock.sessionUrl})`);
+}
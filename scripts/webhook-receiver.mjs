@@ -0,0 +1,37 @@
+// Minimal local webhook receiver for testing alert channels: logs every POSTed payload.
+// Usage: node scripts/webhook-receiver.mjs [port]   (FAIL_FIRST=n rejects the first n requests to exercise retry)
+import http from 'node:http';
+
+const port = Number(process.argv[2]) || 8787;
+let failuresLeft = Number(process.env.FAIL_FIRST) || 0;
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors).end();
+    return;
+  }
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`[${new Date().toISOString()}] ${req.method} ${req.url} -> 503 (simulated failure)`);
+      res.writeHead(503, cors).end();
+      return;
+    }
+    let payload = body;
+    try {
+      payload = JSON.stringify(JSON.parse(body), null, 2);
+    } catch (e) {
+      // Not JSON: print as received
+    }
+    console.log(`[${new Date().toISOString()}] ${req.method} ${req.url}\n${payload}`);
+    res.writeHead(200, { ...cors, 'Content-Type': 'application/json' }).end('{"ok":true}');
+  });
+}).listen(port, () => console.log(`Webhook receiver listening on http://localhost:${port}/`));
@@ -0,0 +1,262 @@
+import { Alert, AlertSeverity } from "../types";
+
+export type AlertChannelKind = 'NOTIFICATION' | 'AUDIO' | 'WEBHOOK';
+
+export interface AlertChannelConfig {
+  id: string;
+  kind: AlertChannelKind;
+  name: string;
+  enabled: boolean;
+  minSeverity: AlertSeverity;
+  /** Notifications only: skip delivery while the page is visible and the toast already shows */
+  backgroundOnly?: boolean;
+  url?: string;
+  /** JSON text with {{field}} placeholders, rendered per alert */
+  template?: string;
+}
+
+export interface ChannelDeliveryStatus {
+  ok: boolean;
+  detail: string;
+  at: number;
+}
+
+interface AlertChannel {
+  deliver(alert: Alert): Promise<void>;
+}
+
+interface AlertDispatcherOptions {
+  onStatus: (channelId: string, status: ChannelDeliveryStatus) => void;
+  /** Per attempt; a receiver that accepts the connection but never answers is aborted and retried */
+  webhookTimeoutMs?: number;
+  retryDelayMs?: number;
+}
+
+const STORAGE_KEY = 'ALERT_CHANNELS';
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+const WEBHOOK_TIMEOUT_MS = 5000;
+export const TEST_RULE_ID = 'channel-test';
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { INFO: 0, WARNING: 1, CRITICAL: 2 };
+
+export const WEBHOOK_TEMPLATES: Record<'SLACK' | 'DISCORD' | 'RAW', string> = {
+  SLACK: '{"text": "*{{severity}}* {{type}} {{symbol}}: {{message}}"}',
+  DISCORD: '{"content": "**{{severity}}** {{type}} {{symbol}}: {{message}}"}',
+  RAW: '{"id": "{{id}}", "type": "{{type}}", "severity": "{{severity}}", "symbol": "{{symbol}}", "message": "{{message}}", "epoch": {{epoch}}}'
+};
+
+export const DEFAULT_CHANNELS: AlertChannelConfig[] = [
+  { id: 'notification', kind: 'NOTIFICATION', name: 'Browser notification', enabled: false, minSeverity: 'WARNING', backgroundOnly: true },
+  { id: 'audio', kind: 'AUDIO', name: 'Audio cue', enabled: false, minSeverity: 'WARNING' },
+  { id: 'webhook', kind: 'WEBHOOK', name: 'Webhook', enabled: false, minSeverity: 'WARNING', url: '', template: WEBHOOK_TEMPLATES.SLACK }
+];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Placeholders sit inside JSON strings (or bare for numbers), so string values are escaped as JSON string bodies
+export const renderTemplate = (template: string, alert: Alert): string => {
+  const fields: Record<string, string | number> = {
+    id: alert.id,
+    type: alert.type,
+    severity: alert.severity,
+    symbol: alert.symbol || '',
+    message: alert.message,
+    timestamp: alert.timestamp,
+    epoch: alert.epoch,
+    iso: new Date(alert.epoch).toISOString()
+  };
+  const body = template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    const value = fields[key];
+    if (value === undefined) return '';
+    return typeof value === 'number' ? String(value) : JSON.stringify(value).slice(1, -1);
+  });
+  try {
+    JSON.parse(body);
+  } catch (e) {
+    throw new Error('Webhook template does not render to valid JSON');
+  }
+  return body;
+};
+
+class NotificationChannel implements AlertChannel {
+  private config: AlertChannelConfig;
+
+  constructor(config: AlertChannelConfig) {
+    this.config = config;
+  }
+
+  async deliver(alert: Alert): Promise<void> {
+    if (typeof Notification === 'undefined') throw new Error('Notifications unsupported in this browser');
+    if (this.config.backgroundOnly && document.visibilityState === 'visible' && alert.ruleId !== TEST_RULE_ID) return;
+    if (Notification.permission === 'default') await Notification.requestPermission();
+    if (Notification.permission !== 'granted') throw new Error('Notification permission denied');
+    new Notification(`${alert.type} · ${alert.severity}`, { body: alert.message, tag: alert.id });
+  }
+}
+
+// Note sequences (frequency Hz, duration s) so each alert type is recognisable without looking
+const CUES: Record<Alert['type'], [number, number][]> = {
+  GOLDEN: [[660, 0.12], [880, 0.12], [1320, 0.25]],
+  SIGNAL: [[880, 0.1], [0, 0.06], [880, 0.1]],
+  SYSTEM: [[440, 0.18]]
+};
+
+class AudioChannel implements AlertChannel {
+  private static context: AudioContext | null = null;
+
+  async deliver(alert: Alert): Promise<void> {
+    const Ctor = window.AudioContext || (window as any).webkitAudioContext;
+    if (!Ctor) throw new Error('Web Audio unsupported in this browser');
+    if (!AudioChannel.context) AudioChannel.context = new Ctor();
+    const ctx = AudioChannel.context;
+    // Browsers start the context suspended until a user gesture; the channel test button provides one
+    if (ctx.state === 'suspended') await ctx.resume();
+    if (ctx.state !== 'running') throw new Error('Audio blocked until the page is interacted with');
+
+    let at = ctx.currentTime;
+    CUES[alert.type].forEach(([freq, duration]) => {
+      if (freq > 0) {
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.frequency.value = freq;
+        gain.gain.setValueAtTime(0.15, at);
+        gain.gain.exponentialRampToValueAtTime(0.001, at + duration);
+        osc.connect(gain).connect(ctx.destination);
+        osc.start(at);
+        osc.stop(at + duration);
+      }
+      at += duration;
+    });
+  }
+}
+
+class WebhookChannel implements AlertChannel {
+  private config: AlertChannelConfig;
+  private timeoutMs: number;
+
+  constructor(config: AlertChannelConfig, timeoutMs: number) {
+    this.config = config;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async deliver(alert: Alert): Promise<void> {
+    const url = (this.config.url || '').trim();
+    if (!/^https?:\/\//i.test(url)) throw new Error('Webhook URL must start with http:// or https://');
+    const body = renderTemplate(this.config.template || WEBHOOK_TEMPLATES.RAW, alert);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        signal: controller.signal
+      });
+      if (!response.ok) throw new Error(`Webhook responded ${response.status}`);
+    } catch (err: any) {
+      if (controller.signal.aborted) throw new Error(`Webhook timed out after ${this.timeoutMs} ms`);
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+const createChannel = (config: AlertChannelConfig, webhookTimeoutMs: number): AlertChannel => {
+  switch (config.kind) {
+    case 'NOTIFICATION': return new NotificationChannel(config);
+    case 'AUDIO': return new AudioChannel();
+    case 'WEBHOOK': return new WebhookChannel(config, webhookTimeoutMs);
+  }
+};
+
+// Template and permission errors will not fix themselves, so only network and HTTP failures are retried
+const isPermanent = (err: any) => /template|permission|unsupported|must start/i.test(err?.message || '');
+
+const deliverWithRetry = async (channel: AlertChannel, alert: Alert, retryDelayMs: number): Promise<number> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await channel.deliver(alert);
+      return attempt;
+    } catch (err: any) {
+      if (attempt >= MAX_ATTEMPTS || isPermanent(err)) throw err;
+      await sleep(retryDelayMs * 2 ** (attempt - 1));
+    }
+  }
+};
+
+/**
+ * Fans every alert out to the enabled channels at or above their severity floor. Channels deliver
+ * independently, so one failing webhook never delays the notification or the audio cue.
+ */
+export class AlertDispatcher {
+  private configs: AlertChannelConfig[];
+  private opts: Required<AlertDispatcherOptions>;
+
+  constructor(options: AlertDispatcherOptions, configs: AlertChannelConfig[] = DEFAULT_CHANNELS) {
+    this.opts = { webhookTimeoutMs: WEBHOOK_TIMEOUT_MS, retryDelayMs: RETRY_DELAY_MS, ...options };
+    this.configs = configs;
+  }
+
+  setChannels(configs: AlertChannelConfig[]) {
+    this.configs = configs;
+  }
+
+  dispatch(alert: Alert) {
+    this.configs
+      .filter(c => c.enabled && SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[c.minSeverity])
+      .forEach(c => { this.send(c, alert); });
+  }
+
+  /** Sends a synthetic alert through one channel regardless of its enabled flag or severity floor. */
+  test(config: AlertChannelConfig): Promise<boolean> {
+    const now = new Date();
+    return this.send(config, {
+      id: `test-${now.getTime().toString(36)}`,
+      type: 'SIGNAL',
+      severity: config.minSeverity,
+      message: `Test delivery from ${config.name}`,
+      timestamp: now.toLocaleTimeString(),
+      epoch: now.getTime(),
+      acknowledged: true,
+      ruleId: TEST_RULE_ID
+    });
+  }
+
+  private async send(config: AlertChannelConfig, alert: Alert): Promise<boolean> {
+    try {
+      const attempts = await deliverWithRetry(createChannel(config, this.opts.webhookTimeoutMs), alert, this.opts.retryDelayMs);
+      this.opts.onStatus(config.id, { ok: true, detail: attempts > 1 ? `delivered after ${attempts} attempts` : 'delivered', at: Date.now() });
+      return true;
+    } catch (err: any) {
+      this.opts.onStatus(config.id, { ok: false, detail: err?.message || 'delivery failed', at: Date.now() });
+      return false;
+    }
+  }
+}
+
+export const loadAlertChannels = (): AlertChannelConfig[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        // Merge onto the defaults so built-in channels always appear, then keep any extra webhooks
+        const builtIn = DEFAULT_CHANNELS.map(d => ({ ...d, ...(parsed.find((c: AlertChannelConfig) => c.id === d.id) || {}) }));
+        return [...builtIn, ...parsed.filter((c: AlertChannelConfig) => c.kind === 'WEBHOOK' && !DEFAULT_CHANNELS.some(d => d.id === c.id))];
+      }
+    }
+  } catch (e) {
+    // Corrupt channel store: fall back to the disabled defaults
+  }
+  return DEFAULT_CHANNELS;
+};
+
+export const saveAlertChannels = (channels: AlertChannelConfig[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(channels));
+  } catch (e) {
+    // Storage quota or privacy mode; settings last for the session only
+  }
+};
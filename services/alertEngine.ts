@@ -0,0 +1,247 @@
+import { Alert, AlertSeverity, HistoricalSignal, InstitutionalLevels, LevelKey, TickLabel, TickWindow } from "../types";
+import { SessionInfo, SessionPhase } from "./sessionCalendar";
+
+export type RuleMetric =
+  | 'PRICE'
+  | 'LEVEL_CROSS'
+  | 'LIXI'
+  | 'GOLDEN_FLOW'
+  | 'LABEL_STREAK'
+  | 'SENTIMENT_SCORE'
+  | 'VOTE_COUNT'
+  | 'CONFIDENCE'
+  | 'SIGNAL_TYPE'
+  | 'GOLDEN_SETUP';
+
+export type RuleOperator = '>' | '>=' | '<' | '<=' | 'CROSSES_ABOVE' | 'CROSSES_BELOW' | 'CROSSES';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** A watchlist symbol, or '*' for every symbol */
+  symbol: string;
+  metric: RuleMetric;
+  operator: RuleOperator;
+  value: number;
+  level?: LevelKey;
+  label?: TickLabel;
+  signalType?: HistoricalSignal['type'];
+  severity: AlertSeverity;
+  cooldownMs: number;
+  /** Session phases the rule may fire in; absent or empty means any time */
+  phases?: SessionPhase[];
+}
+
+export interface RuleContext {
+  symbol: string;
+  price?: number;
+  levels?: InstitutionalLevels;
+  windows?: TickWindow[];
+  goldenThreshold?: number;
+  sentimentScore?: number;
+  signal?: HistoricalSignal;
+  session?: SessionInfo;
+}
+
+interface AlertEngineHandlers {
+  onAlert: (alert: Omit<Alert, 'id' | 'timestamp' | 'epoch' | 'acknowledged'>) => void;
+}
+
+// Metrics read from a just-issued signal fire once per signal; the rest are edge-triggered on state
+export const SIGNAL_METRICS: RuleMetric[] = ['VOTE_COUNT', 'CONFIDENCE', 'SIGNAL_TYPE', 'GOLDEN_SETUP'];
+export const CROSS_OPERATORS: RuleOperator[] = ['CROSSES_ABOVE', 'CROSSES_BELOW', 'CROSSES'];
+
+// A golden cluster this soon after the 9:30 bell is reported as the opening cross
+const OPENING_CROSS_MINUTES = 15;
+
+// The two conditions that used to be hard-coded in App.tsx
+export const DEFAULT_RULES: AlertRule[] = [
+  { id: 'default-golden-flow', name: 'Golden liquidity cluster', enabled: true, symbol: '*', metric: 'GOLDEN_FLOW', operator: '>', value: 0, severity: 'CRITICAL', cooldownMs: 60000, phases: ['REGULAR'] },
+  { id: 'default-premium-setup', name: 'Premium setup', enabled: true, symbol: '*', metric: 'VOTE_COUNT', operator: '>=', value: 85, severity: 'WARNING', cooldownMs: 0 }
+];
+
+const compare = (v: number, op: RuleOperator, target: number) => {
+  switch (op) {
+    case '>': return v > target;
+    case '>=': return v >= target;
+    case '<': return v < target;
+    case '<=': return v <= target;
+    default: return false;
+  }
+};
+
+const crossed = (prev: number | undefined, curr: number, op: RuleOperator, target: number) => {
+  if (prev === undefined || !(target > 0)) return false;
+  const up = prev < target && curr >= target;
+  const down = prev > target && curr <= target;
+  return op === 'CROSSES_ABOVE' ? up : op === 'CROSSES_BELOW' ? down : up || down;
+};
+
+const labelStreak = (windows: TickWindow[], label: TickLabel) => {
+  let n = 0;
+  while (n < windows.length && windows[n].label === label) n++;
+  return n;
+};
+
+export const LEVEL_NAMES: Record<LevelKey, string> = {
+  hp: 'HP', mhp: 'MHP', hg: 'HG', gammaFlip: 'Gamma Flip', maxGamma: 'Max Gamma', vannaPivot: 'Vanna Pivot'
+};
+
+export const describeRule = (rule: AlertRule) => {
+  switch (rule.metric) {
+    case 'LEVEL_CROSS': return `price ${rule.operator.replace('_', ' ').toLowerCase()} ${LEVEL_NAMES[rule.level || 'gammaFlip']}`;
+    case 'GOLDEN_FLOW': return 'LIXI above golden threshold';
+    case 'LABEL_STREAK': return `${rule.value}+ ${rule.label || TickLabel.UPWARDS} windows`;
+    case 'SIGNAL_TYPE': return `signal is ${rule.signalType || 'BUY'}`;
+    case 'GOLDEN_SETUP': return 'signal flagged golden setup';
+    default: return `${rule.metric.replace('_', ' ').toLowerCase()} ${rule.operator.replace('_', ' ').toLowerCase()} ${rule.value}`;
+  }
+};
+
+/**
+ * Evaluates user rules against per-symbol state. State rules fire on the false -> true edge and
+ * signal rules fire per signal; both then respect the rule's cooldown per symbol.
+ */
+export class AlertEngine {
+  private rules: AlertRule[];
+  private handlers: AlertEngineHandlers;
+  private lastState: Record<string, boolean> = {};
+  private lastFired: Record<string, number> = {};
+  private lastPrice: Record<string, number> = {};
+
+  constructor(handlers: AlertEngineHandlers, rules: AlertRule[] = DEFAULT_RULES) {
+    this.handlers = handlers;
+    this.rules = rules;
+  }
+
+  setRules(rules: AlertRule[]) {
+    this.rules = rules;
+  }
+
+  evaluate(ctx: RuleContext, now: number = Date.now()) {
+    const previousPrice = this.lastPrice[ctx.symbol];
+    this.rules.forEach(rule => {
+      if (!rule.enabled || (rule.symbol !== '*' && rule.symbol !== ctx.symbol)) return;
+      const isSignalRule = SIGNAL_METRICS.includes(rule.metric);
+      if (isSignalRule !== !!ctx.signal) return;
+      // Out-of-phase rules are skipped without touching their edge state, so they fire on entering the phase
+      if (rule.phases && rule.phases.length > 0 && ctx.session && !rule.phases.includes(ctx.session.phase)) return;
+
+      const result = this.test(rule, ctx, previousPrice);
+      if (result === null) return;
+      const key = `${rule.id}:${ctx.symbol}`;
+      const wasTrue = this.lastState[key] || false;
+      if (!isSignalRule) this.lastState[key] = result.hit;
+      if (!result.hit || (!isSignalRule && wasTrue)) return;
+      if (now - (this.lastFired[key] || 0) < rule.cooldownMs) return;
+
+      this.lastFired[key] = now;
+      this.handlers.onAlert({
+        type: rule.metric === 'GOLDEN_FLOW' || rule.metric === 'GOLDEN_SETUP' ? 'GOLDEN' : 'SIGNAL',
+        severity: rule.severity,
+        symbol: ctx.symbol,
+        ruleId: rule.id,
+        message: `${rule.name}: ${ctx.symbol} ${result.detail}`
+      });
+    });
+    if (ctx.price && ctx.price > 0) this.lastPrice[ctx.symbol] = ctx.price;
+  }
+
+  /** Returns null when the context lacks the data a rule needs, so its edge state is left untouched. */
+  private test(rule: AlertRule, ctx: RuleContext, previousPrice: number | undefined): { hit: boolean; detail: string } | null {
+    const latest = ctx.windows && ctx.windows[0];
+    const sig = ctx.signal;
+    switch (rule.metric) {
+      case 'PRICE': {
+        if (!ctx.price) return null;
+        const hit = CROSS_OPERATORS.includes(rule.operator)
+          ? crossed(previousPrice, ctx.price, rule.operator, rule.value)
+          : compare(ctx.price, rule.operator, rule.value);
+        return { hit, detail: `price ${ctx.price.toFixed(2)} vs ${rule.value}` };
+      }
+      case 'LEVEL_CROSS': {
+        const level = ctx.levels ? ctx.levels[rule.level || 'gammaFlip'] : 0;
+        if (!ctx.price || typeof level !== 'number') return null;
+        return { hit: crossed(previousPrice, ctx.price, rule.operator, level), detail: `${ctx.price.toFixed(2)} crossed ${LEVEL_NAMES[rule.level || 'gammaFlip']} ${level.toFixed(2)}` };
+      }
+      case 'LIXI':
+        if (!latest) return null;
+        return { hit: compare(latest.lixi, rule.operator, rule.value), detail: `LIXI ${latest.lixi.toFixed(2)}` };
+      case 'GOLDEN_FLOW': {
+        if (!latest || ctx.goldenThreshold === undefined) return null;
+        const openingCross = (ctx.session?.minutesSinceOpen ?? OPENING_CROSS_MINUTES) < OPENING_CROSS_MINUTES;
+        return { hit: latest.lixi > ctx.goldenThreshold, detail: `${openingCross ? 'opening cross' : 'institutional cluster'}, LIXI ${latest.lixi.toFixed(2)}` };
+      }
+      case 'LABEL_STREAK': {
+        if (!ctx.windows) return null;
+        const label = rule.label || TickLabel.UPWARDS;
+        const streak = labelStreak(ctx.windows, label);
+        return { hit: streak >= rule.value, detail: `${streak} consecutive ${label} windows` };
+      }
+      case 'SENTIMENT_SCORE':
+        if (ctx.sentimentScore === undefined) return null;
+        return { hit: compare(ctx.sentimentScore, rule.operator, rule.value), detail: `sentiment ${ctx.sentimentScore}` };
+      case 'VOTE_COUNT':
+        if (!sig) return null;
+        return { hit: compare(sig.voteCount, rule.operator, rule.value), detail: `${sig.type} ${sig.voteCount}% votes at $${sig.entry.toFixed(2)}` };
+      case 'CONFIDENCE':
+        if (!sig) return null;
+        return { hit: compare(sig.confidence, rule.operator, rule.value), detail: `${sig.type} ${sig.confidence}% confidence at $${sig.entry.toFixed(2)}` };
+      case 'SIGNAL_TYPE':
+        if (!sig) return null;
+        return { hit: sig.type === (rule.signalType || 'BUY'), detail: `${sig.type} at $${sig.entry.toFixed(2)}` };
+      case 'GOLDEN_SETUP':
+        if (!sig) return null;
+        return { hit: sig.isGoldenSetup, detail: `golden ${sig.type} at $${sig.entry.toFixed(2)}` };
+      default:
+        return null;
+    }
+  }
+}
+
+const RULES_KEY = 'ALERT_RULES';
+const LOG_KEY = 'ALERT_LOG';
+export const MAX_ALERT_LOG = 200;
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const saved = localStorage.getItem(RULES_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (e) {
+    // Corrupt rule store: start from the defaults
+  }
+  return DEFAULT_RULES;
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  try {
+    localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+  } catch (e) {
+    // Storage quota or privacy mode; rules apply for the session only
+  }
+};
+
+export const loadAlertLog = (): Alert[] => {
+  try {
+    const saved = localStorage.getItem(LOG_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (e) {
+    // Corrupt log: start empty
+  }
+  return [];
+};
+
+export const saveAlertLog = (log: Alert[]) => {
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log.slice(0, MAX_ALERT_LOG)));
+  } catch (e) {
+    // Storage quota or privacy mode; the log survives until reload
+  }
+};
@@ -0,0 +1,212 @@
+import { HistoricalSignal, Signal, Tick } from "../types";
+import { formatNyTime } from "./sessionCalendar";
+import { TradierBar, parseBarTime } from "./tradierService";
+
+export type BacktestOutcome = 'TP' | 'SL' | 'EXPIRED' | 'NO_DATA';
+
+export interface BacktestBar {
+  time: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface SignalResult {
+  signalId: string;
+  type: HistoricalSignal['type'];
+  isGoldenSetup: boolean;
+  voteCount: number;
+  outcome: BacktestOutcome;
+  entry: number;
+  exit: number;
+  riskPerShare: number;
+  pnlPerShare: number;
+  rMultiple: number;
+  maeR: number;
+  barsHeld: number;
+  resolvedAt: number | null;
+}
+
+export interface BacktestStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  expired: number;
+  winRate: number;
+  expectancy: number;
+  avgR: number;
+  maxAdverseExcursionR: number;
+}
+
+export interface BacktestReport {
+  overall: BacktestStats;
+  byType: Record<string, BacktestStats>;
+  byGolden: Record<string, BacktestStats>;
+  byVoteBucket: Record<string, BacktestStats>;
+  results: SignalResult[];
+  skipped: number;
+}
+
+export interface BacktestOptions {
+  maxBarsHeld?: number;
+}
+
+// One-minute bars a bracket may stay open before it is closed at the last close as EXPIRED
+export const DEFAULT_MAX_BARS_HELD = 120;
+
+const toNum = (v: unknown) => parseFloat(String(v)) || 0;
+
+export const barsFromTradier = (bars: TradierBar[]): BacktestBar[] => bars
+  .map(b => ({ time: parseBarTime(String(b.date)), high: toNum(b.high), low: toNum(b.low), close: toNum(b.close) }))
+  .filter(b => b.time > 0 && b.close > 0)
+  .sort((a, b) => a.time - b.time);
+
+/** Collapses a tick tape into one-minute bars so tick recordings and Tradier history resolve identically. */
+export const barsFromTicks = (ticks: Tick[], intervalMs: number = 60000): BacktestBar[] => {
+  const buckets = new Map<number, BacktestBar>();
+  ticks.forEach(t => {
+    const price = t.last || t.mid;
+    if (!price) return;
+    const key = Math.floor(t.time / intervalMs) * intervalMs;
+    const bar = buckets.get(key);
+    if (!bar) buckets.set(key, { time: key, high: price, low: price, close: price });
+    else {
+      bar.high = Math.max(bar.high, price);
+      bar.low = Math.min(bar.low, price);
+      bar.close = price;
+    }
+  });
+  return Array.from(buckets.values()).sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Stamps a fresh signal with the moment it was produced, which during replay is the replay clock rather
+ * than the wall clock, so it anchors to the replayed candle and resolves on the bars after it.
+ */
+export const recordSignal = (signal: Signal, symbol: string, priceAtSignal: number, at: number, id: string): HistoricalSignal => ({
+  ...signal,
+  id,
+  symbol,
+  timestamp: new Date(at).toISOString(),
+  chartTime: formatNyTime(at),
+  priceAtSignal,
+  liquidityZone: signal.isGoldenSetup ? 'GOLDEN SETUP' : signal.liquidityZone || 'NEUTRAL'
+});
+
+export const voteBucket = (voteCount: number) => {
+  if (voteCount >= 90) return '90-100';
+  if (voteCount >= 80) return '80-89';
+  if (voteCount >= 70) return '70-79';
+  if (voteCount >= 60) return '60-69';
+  return '<60';
+};
+
+/**
+ * Walks bars forward from the signal time until stop or target is touched.
+ * When a single bar spans both levels the stop is assumed to have filled first.
+ */
+export const resolveSignal = (signal: HistoricalSignal, bars: BacktestBar[], options: BacktestOptions = {}): SignalResult => {
+  const maxBarsHeld = options.maxBarsHeld ?? DEFAULT_MAX_BARS_HELD;
+  const isLong = signal.type === 'BUY';
+  const entry = signal.entry || signal.priceAtSignal;
+  const riskPerShare = Math.abs(entry - signal.stopLoss);
+  const startTime = Date.parse(signal.timestamp);
+
+  const base: SignalResult = {
+    signalId: signal.id,
+    type: signal.type,
+    isGoldenSetup: signal.isGoldenSetup,
+    voteCount: signal.voteCount,
+    outcome: 'NO_DATA',
+    entry,
+    exit: entry,
+    riskPerShare,
+    pnlPerShare: 0,
+    rMultiple: 0,
+    maeR: 0,
+    barsHeld: 0,
+    resolvedAt: null
+  };
+
+  const forward = bars.filter(b => b.time > startTime).slice(0, maxBarsHeld);
+  if (forward.length === 0 || riskPerShare === 0) return base;
+
+  let worst = 0;
+  for (let i = 0; i < forward.length; i++) {
+    const bar = forward[i];
+    const adverse = isLong ? entry - bar.low : bar.high - entry;
+    worst = Math.max(worst, adverse);
+
+    const stopHit = isLong ? bar.low <= signal.stopLoss : bar.high >= signal.stopLoss;
+    const targetHit = isLong ? bar.high >= signal.takeProfit : bar.low <= signal.takeProfit;
+    if (stopHit || targetHit) {
+      const exit = stopHit ? signal.stopLoss : signal.takeProfit;
+      const pnl = isLong ? exit - entry : entry - exit;
+      return {
+        ...base,
+        outcome: stopHit ? 'SL' : 'TP',
+        exit,
+        pnlPerShare: pnl,
+        rMultiple: pnl / riskPerShare,
+        maeR: Math.min(worst, riskPerShare) / riskPerShare,
+        barsHeld: i + 1,
+        resolvedAt: bar.time
+      };
+    }
+  }
+
+  const last = forward[forward.length - 1];
+  const pnl = isLong ? last.close - entry : entry - last.close;
+  return {
+    ...base,
+    outcome: 'EXPIRED',
+    exit: last.close,
+    pnlPerShare: pnl,
+    rMultiple: pnl / riskPerShare,
+    maeR: worst / riskPerShare,
+    barsHeld: forward.length,
+    resolvedAt: last.time
+  };
+};
+
+export const summarize = (results: SignalResult[]): BacktestStats => {
+  const resolved = results.filter(r => r.outcome !== 'NO_DATA');
+  const trades = resolved.length;
+  const wins = resolved.filter(r => r.pnlPerShare > 0).length;
+  const losses = resolved.filter(r => r.pnlPerShare < 0).length;
+  const sum = (fn: (r: SignalResult) => number) => resolved.reduce((acc, r) => acc + fn(r), 0);
+  return {
+    trades,
+    wins,
+    losses,
+    expired: resolved.filter(r => r.outcome === 'EXPIRED').length,
+    winRate: trades ? wins / trades : 0,
+    expectancy: trades ? sum(r => r.pnlPerShare) / trades : 0,
+    avgR: trades ? sum(r => r.rMultiple) / trades : 0,
+    maxAdverseExcursionR: resolved.reduce((acc, r) => Math.max(acc, r.maeR), 0)
+  };
+};
+
+const groupStats = (results: SignalResult[], keyOf: (r: SignalResult) => string) => {
+  const groups: Record<string, SignalResult[]> = {};
+  results.forEach(r => {
+    const key = keyOf(r);
+    (groups[key] = groups[key] || []).push(r);
+  });
+  const stats: Record<string, BacktestStats> = {};
+  Object.keys(groups).forEach(key => { stats[key] = summarize(groups[key]); });
+  return stats;
+};
+
+export const runBacktest = (signals: HistoricalSignal[], bars: BacktestBar[], options: BacktestOptions = {}): BacktestReport => {
+  const tradable = signals.filter(s => s.type !== 'WAIT');
+  const results = tradable.map(s => resolveSignal(s, bars, options));
+  return {
+    overall: summarize(results),
+    byType: groupStats(results, r => r.type),
+    byGolden: groupStats(results, r => r.isGoldenSetup ? 'GOLDEN' : 'STANDARD'),
+    byVoteBucket: groupStats(results, r => voteBucket(r.voteCount)),
+    results,
+    skipped: signals.length - tradable.length + results.filter(r => r.outcome === 'NO_DATA').length
+  };
+};
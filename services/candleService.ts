@@ -0,0 +1,158 @@
+import { PricePoint, SessionLevels } from "../types";
+
+export type Timeframe = 1 | 5 | 15;
+
+export const TIMEFRAMES: Timeframe[] = [1, 5, 15];
+
+export interface Candle extends PricePoint {
+  open: number;
+  high: number;
+  low: number;
+  vwap: number;
+  /** First bar of a regular session; VWAP re-anchors here */
+  sessionOpen: boolean;
+  /** First bar of a later trading date in a multi-day tape */
+  sessionBreak: boolean;
+}
+
+const SESSION_OPEN_MINUTES = 9 * 60 + 30;
+const SESSION_CLOSE_MINUTES = 16 * 60;
+export const OPENING_RANGE_MINUTES = 30;
+
+// History times are wall-clock ET strings ("HH:MM" or "HH:MM:SS"); anything else sorts as unknown (-1)
+const minutesOf = (time: string) => {
+  const match = /(\d{1,2}):(\d{2})/.exec(time);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : -1;
+};
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Rolls 1-minute points up into `timeframe`-minute candles. History runs oldest-first across several
+ * days, so a bucket closes whenever its time-of-day key or session id changes; a repeat of the same key
+ * on a later day can never merge into an earlier bucket. Points without OHLC become flat candles at their price.
+ */
+export const aggregateCandles = (points: PricePoint[], timeframe: Timeframe = 1): Candle[] => {
+  const candles: Candle[] = [];
+  let key = NaN;
+  let previousMinutes = -1;
+  let previousSession: string | undefined;
+  let pv = 0;
+  let vol = 0;
+
+  points.forEach(p => {
+    const close = p.price;
+    if (!(close > 0)) return;
+    const minutes = minutesOf(p.time);
+    const newSession = p.session !== undefined && previousSession !== undefined && p.session !== previousSession;
+    // Tapes without session ids (search snapshots) can only tell a new day by the clock running backwards
+    const dayRolled = newSession || (p.session === undefined && minutes >= 0 && previousMinutes >= 0 && minutes < previousMinutes);
+    const crossedOpen = minutes >= SESSION_OPEN_MINUTES && (previousMinutes < SESSION_OPEN_MINUTES || dayRolled);
+    if (minutes >= 0) previousMinutes = minutes;
+    if (p.session !== undefined) previousSession = p.session;
+
+    // VWAP anchors at each session open, and drops the prior day's volume as soon as the date changes
+    if (crossedOpen || dayRolled) { pv = 0; vol = 0; }
+    const high = Math.max(p.high ?? close, close);
+    const low = Math.min(p.low ?? close, close);
+    const volume = p.volume || 0;
+    pv += ((high + low + close) / 3) * volume;
+    vol += volume;
+    const vwap = vol > 0 ? pv / vol : close;
+
+    const bucket = minutes >= 0 ? Math.floor(minutes / timeframe) : candles.length;
+    const last = candles[candles.length - 1];
+    if (last && bucket === key && !crossedOpen && !dayRolled) {
+      last.high = Math.max(last.high, high);
+      last.low = Math.min(last.low, low);
+      last.price = close;
+      last.volume += volume;
+      last.vwap = vwap;
+      if (p.gamma !== undefined) last.gamma = p.gamma;
+      if (p.vanna !== undefined) last.vanna = p.vanna;
+      return;
+    }
+    key = bucket;
+    // Candles start on their bucket boundary even when the first point inside arrives late
+    const offsetMs = timeframe > 1 && minutes >= 0 ? (minutes - bucket * timeframe) * 60000 : 0;
+    candles.push({
+      ...p,
+      time: timeframe > 1 && minutes >= 0 ? formatMinutes(bucket * timeframe) : p.time,
+      epoch: p.epoch !== undefined ? Math.floor(p.epoch / 60000) * 60000 - offsetMs : undefined,
+      open: p.open ?? close,
+      high,
+      low,
+      volume,
+      vwap,
+      // A tape that starts mid-session still anchors VWAP but is not marked as an open
+      sessionOpen: crossedOpen && minutes < SESSION_OPEN_MINUTES + 15,
+      sessionBreak: newSession
+    });
+  });
+  return candles;
+};
+
+/**
+ * Index of the candle a moment falls in: the last candle opening at or before it. Moments before the
+ * first candle, or well past the last one (a tape that ended), have no anchor (-1).
+ */
+export const candleIndexAt = (candles: PricePoint[], epoch: number, timeframe: Timeframe = 1): number => {
+  if (!(epoch > 0) || candles.length === 0) return -1;
+  for (let i = candles.length - 1; i >= 0; i--) {
+    const start = candles[i].epoch;
+    if (start === undefined) continue;
+    if (start > epoch) continue;
+    const isLast = i === candles.length - 1;
+    // Polled history lags the live clock by a bar or two, so fresh signals still land on the last candle
+    return !isLast || epoch - start <= Math.max(timeframe, 5) * 60000 ? i : -1;
+  }
+  return -1;
+};
+
+/** Fallback for tapes without epochs (search snapshots): the latest candle labelled at or before the wall-clock time. */
+export const candleIndexForLabel = (candles: PricePoint[], label: string): number => {
+  const target = minutesOf(label);
+  if (target < 0) return -1;
+  for (let i = candles.length - 1; i >= 0; i--) {
+    const start = minutesOf(candles[i].time);
+    if (start >= 0 && start <= target) return i;
+  }
+  return -1;
+};
+
+/**
+ * Prior-session high/low/close and the latest session's opening range, from regular-hours points only.
+ * Needs session ids, so a search snapshot (one unlabelled day) has no session levels.
+ */
+export const computeSessionLevels = (points: PricePoint[], openingRangeMinutes: number = OPENING_RANGE_MINUTES): SessionLevels | null => {
+  const regular = points.filter(p => {
+    const minutes = minutesOf(p.time);
+    return p.session !== undefined && p.price > 0 && minutes >= SESSION_OPEN_MINUTES && minutes < SESSION_CLOSE_MINUTES;
+  });
+  if (regular.length === 0) return null;
+
+  const session = regular[regular.length - 1].session as string;
+  let priorSession: string | null = null;
+  for (let i = regular.length - 1; i >= 0 && priorSession === null; i--) {
+    if (regular[i].session !== session) priorSession = regular[i].session as string;
+  }
+
+  const levels: SessionLevels = { session, priorSession, openingRangeMinutes, openingRangeComplete: false };
+  const prior = regular.filter(p => p.session === priorSession);
+  if (prior.length > 0) {
+    levels.priorHigh = Math.max(...prior.map(p => Math.max(p.high ?? p.price, p.price)));
+    levels.priorLow = Math.min(...prior.map(p => Math.min(p.low ?? p.price, p.price)));
+    levels.priorClose = prior[prior.length - 1].price;
+  }
+
+  const today = regular.filter(p => p.session === session);
+  const rangeEnd = SESSION_OPEN_MINUTES + openingRangeMinutes;
+  const opening = today.filter(p => minutesOf(p.time) < rangeEnd);
+  if (opening.length > 0) {
+    levels.openingRangeHigh = Math.max(...opening.map(p => Math.max(p.high ?? p.price, p.price)));
+    levels.openingRangeLow = Math.min(...opening.map(p => Math.min(p.low ?? p.price, p.price)));
+    levels.openingRangeComplete = today.some(p => minutesOf(p.time) >= rangeEnd);
+  }
+  return levels;
+};
@@ -0,0 +1,245 @@
+export type TradierEnvironment = 'SANDBOX' | 'LIVE';
+export type CredentialKey = 'tradierSandboxToken' | 'tradierLiveToken' | 'geminiApiKey';
+export type VaultStatus = 'EMPTY' | 'LOCKED' | 'UNLOCKED';
+export type LockReason = 'IDLE' | 'MANUAL';
+
+export interface VaultSecrets {
+  tradierSandboxToken: string;
+  tradierLiveToken: string;
+  geminiApiKey: string;
+  /** Which Tradier token the bridge connects with */
+  environment: TradierEnvironment;
+}
+
+export interface VaultSettings {
+  autoLockMinutes: number;
+}
+
+export interface CredentialTestResult {
+  ok: boolean;
+  detail: string;
+  at: number;
+}
+
+interface VaultEnvelope {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+interface VaultHandlers {
+  onLock: (reason: LockReason) => void;
+}
+
+const VAULT_KEY = 'CREDENTIAL_VAULT';
+const SETTINGS_KEY = 'VAULT_SETTINGS';
+// Plaintext keys written before the vault existed; read once for import, then removed
+const LEGACY_TOKEN_KEY = 'TRADIER_TOKEN';
+const LEGACY_SANDBOX_KEY = 'TRADIER_SANDBOX';
+
+// OWASP guidance for PBKDF2-HMAC-SHA256; costs a few hundred ms per unlock in a browser
+const PBKDF2_ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+
+export const DEFAULT_VAULT_SETTINGS: VaultSettings = {
+  autoLockMinutes: 15
+};
+
+export const EMPTY_SECRETS: VaultSecrets = {
+  tradierSandboxToken: '',
+  tradierLiveToken: '',
+  geminiApiKey: '',
+  environment: 'SANDBOX'
+};
+
+export const CREDENTIAL_LABELS: Record<CredentialKey, string> = {
+  tradierSandboxToken: 'Tradier Sandbox Token',
+  tradierLiveToken: 'Tradier Live Token',
+  geminiApiKey: 'Gemini API Key'
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const readEnvelope = (): VaultEnvelope | null => {
+  try {
+    const saved = localStorage.getItem(VAULT_KEY);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    if (parsed && parsed.version === 1 && parsed.salt && parsed.iv && parsed.data) return parsed;
+  } catch (e) {
+    // Unreadable envelope: treated as no vault so a new one can be created over it
+  }
+  return null;
+};
+
+/** Shows only the last four characters, enough to tell two tokens apart. */
+export const maskSecret = (secret: string) => {
+  if (!secret) return '';
+  return secret.length <= 8 ? '•'.repeat(8) : `${'•'.repeat(8)}${secret.slice(-4)}`;
+};
+
+/**
+ * Secrets encrypted at rest with AES-GCM under a key derived from the user's passphrase (PBKDF2).
+ * The derived key lives only in memory and is dropped on lock, after `autoLockMinutes` without activity,
+ * or on reload; the passphrase itself is never stored.
+ */
+export class CredentialVault {
+  private handlers: VaultHandlers;
+  private key: CryptoKey | null = null;
+  private salt: Uint8Array | null = null;
+  private iterations = PBKDF2_ITERATIONS;
+  private idleMs: number;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(handlers: VaultHandlers, settings: VaultSettings = DEFAULT_VAULT_SETTINGS) {
+    this.handlers = handlers;
+    this.idleMs = settings.autoLockMinutes * 60000;
+  }
+
+  get status(): VaultStatus {
+    if (this.key) return 'UNLOCKED';
+    return readEnvelope() ? 'LOCKED' : 'EMPTY';
+  }
+
+  setAutoLock(minutes: number) {
+    this.idleMs = minutes * 60000;
+    if (this.key) this.touch();
+  }
+
+  async create(passphrase: string, secrets: VaultSecrets): Promise<VaultSecrets> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`Passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    this.salt = crypto.getRandomValues(new Uint8Array(16));
+    this.iterations = PBKDF2_ITERATIONS;
+    this.key = await deriveKey(passphrase, this.salt, this.iterations);
+    await this.save(secrets);
+    clearLegacyCredentials();
+    return secrets;
+  }
+
+  /**
+   * Tokens in `imported` (the legacy plaintext ones) replace the stored values and are re-encrypted;
+   * the vault keeps its environment. The plaintext keys are wiped on any successful unlock.
+   */
+  async unlock(passphrase: string, imported: Partial<VaultSecrets> | null = null): Promise<VaultSecrets> {
+    const envelope = readEnvelope();
+    if (!envelope) throw new Error('No vault to unlock');
+    const salt = fromBase64(envelope.salt);
+    const key = await deriveKey(passphrase, salt, envelope.iterations);
+    let plain: ArrayBuffer;
+    try {
+      plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.data));
+    } catch (e) {
+      // GCM authentication fails identically for a wrong passphrase and a tampered envelope
+      throw new Error('Wrong passphrase, or the vault data is corrupted');
+    }
+    this.key = key;
+    this.salt = salt;
+    this.iterations = envelope.iterations;
+    this.touch();
+    const stored: VaultSecrets = { ...EMPTY_SECRETS, ...JSON.parse(new TextDecoder().decode(plain)) };
+    const secrets = imported ? await this.save({ ...stored, ...imported, environment: stored.environment }) : stored;
+    clearLegacyCredentials();
+    return secrets;
+  }
+
+  /** Re-encrypts under the unlocked key with a fresh IV. */
+  async save(secrets: VaultSecrets): Promise<VaultSecrets> {
+    if (!this.key || !this.salt) throw new Error('Vault is locked');
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.key, new TextEncoder().encode(JSON.stringify(secrets)));
+    const envelope: VaultEnvelope = {
+      version: 1,
+      iterations: this.iterations,
+      salt: toBase64(this.salt),
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(data))
+    };
+    localStorage.setItem(VAULT_KEY, JSON.stringify(envelope));
+    this.touch();
+    return secrets;
+  }
+
+  lock(reason: LockReason = 'MANUAL') {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    if (!this.key) return;
+    this.key = null;
+    this.salt = null;
+    this.handlers.onLock(reason);
+  }
+
+  /** Deletes the stored vault; the only way back from a forgotten passphrase. */
+  forget() {
+    this.lock();
+    localStorage.removeItem(VAULT_KEY);
+  }
+
+  /** Restarts the inactivity countdown; call on user input. */
+  touch() {
+    if (!this.key) return;
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => this.lock('IDLE'), this.idleMs);
+  }
+}
+
+/** Token saved in plain localStorage by earlier versions, offered for import when creating or unlocking the vault. */
+export const readLegacyCredentials = (): Partial<VaultSecrets> | null => {
+  try {
+    const token = localStorage.getItem(LEGACY_TOKEN_KEY);
+    if (!token) return null;
+    const sandbox = localStorage.getItem(LEGACY_SANDBOX_KEY) === 'true';
+    return sandbox
+      ? { tradierSandboxToken: token, environment: 'SANDBOX' }
+      : { tradierLiveToken: token, environment: 'LIVE' };
+  } catch (e) {
+    // Storage unavailable: nothing to import
+    return null;
+  }
+};
+
+export const clearLegacyCredentials = () => {
+  try {
+    localStorage.removeItem(LEGACY_TOKEN_KEY);
+    localStorage.removeItem(LEGACY_SANDBOX_KEY);
+  } catch (e) {
+    // Storage unavailable: nothing was persisted to clear
+  }
+};
+
+export const loadVaultSettings = (): VaultSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) return { ...DEFAULT_VAULT_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    // Corrupt settings: use the defaults
+  }
+  return DEFAULT_VAULT_SETTINGS;
+};
+
+export const saveVaultSettings = (settings: VaultSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    // Storage quota or privacy mode; settings last for the session only
+  }
+};
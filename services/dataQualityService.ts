@@ -0,0 +1,227 @@
+import { InstitutionalLevels, LevelKey, PricePoint } from "../types";
+import { MarketDataPayload } from "./geminiService";
+import { TradierQuote } from "./tradierService";
+import { SessionInfo } from "./sessionCalendar";
+
+export type DataSource = 'TRADIER_QUOTE' | 'TRADIER_BARS' | 'TRADIER_CHAIN' | 'TRADIER_STREAM' | 'SEARCH' | 'DEFAULT' | 'NONE';
+export type FieldHealth = 'OK' | 'WARN' | 'BAD';
+export type QualityIssueKind = 'PRICE_DIVERGENCE' | 'LEVEL_DIVERGENCE' | 'STALE_QUOTE' | 'STALE_BARS' | 'BAR_GAP' | 'FABRICATED_FILL' | 'DEFAULTED' | 'MISSING';
+
+export interface FieldProvenance {
+  field: string;
+  label: string;
+  value: number | null;
+  source: DataSource;
+  health: FieldHealth;
+  note: string;
+}
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  field: string;
+  health: Exclude<FieldHealth, 'OK'>;
+  message: string;
+}
+
+export interface DataQualityReport {
+  symbol: string;
+  checkedAt: number;
+  fields: FieldProvenance[];
+  issues: QualityIssue[];
+  /** Message of the first BAD issue; analysis is blocked while it is set */
+  blockReason: string | null;
+}
+
+export interface QualityInputs {
+  symbol: string;
+  /** Parsed search payload, or null when the search was rejected */
+  search: MarketDataPayload | null;
+  quote: TradierQuote | null;
+  vixQuote: TradierQuote | null;
+  /** Tradier 1-minute bars; empty without the bridge */
+  bars: PricePoint[];
+  chainLevels: InstitutionalLevels | null;
+  searchLevels: InstitutionalLevels;
+  /** Where the LIXI windows for this symbol were built from */
+  windowsFrom: 'STREAM' | 'NO_STREAM' | 'NONE';
+  session: SessionInfo;
+  now: number;
+}
+
+// Search vs quote price: beyond WARN the snapshot is suspect, beyond BAD anything built on it is unusable
+const PRICE_WARN_PCT = 0.5;
+const PRICE_BAD_PCT = 2;
+// A level this far from the verified price cannot be today's level
+const LEVEL_BAD_PCT = 10;
+const LEVEL_WARN_PCT = 2;
+const QUOTE_STALE_WARN_MS = 2 * 60000;
+const QUOTE_STALE_BAD_MS = 10 * 60000;
+const BARS_STALE_WARN_MS = 5 * 60000;
+const BARS_STALE_BAD_MS = 15 * 60000;
+const GAP_WARN_MINUTES = 3;
+const GAP_BAD_MINUTES = 15;
+// Runs this long of identical closes or identical volumes are filler, not prints
+const FILL_RUN = 10;
+export const DEFAULT_VIX = 15;
+
+const LEVEL_LABELS: Record<LevelKey, string> = {
+  hp: 'Weekly HP', mhp: 'Monthly HP', hg: 'Half Gap', gammaFlip: 'Gamma Flip', maxGamma: 'Max Gamma', vannaPivot: 'Vanna Pivot'
+};
+
+const HEALTH_RANK: Record<FieldHealth, number> = { OK: 0, WARN: 1, BAD: 2 };
+
+const pctApart = (a: number, b: number) => b > 0 ? Math.abs(a - b) / b * 100 : 0;
+
+const minutesOf = (time: string) => {
+  const match = /(\d{1,2}):(\d{2})/.exec(time);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : -1;
+};
+
+const longestRun = <T>(values: T[]) => {
+  let best = 0;
+  let run = 0;
+  values.forEach((v, i) => {
+    run = i > 0 && v === values[i - 1] ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+  return best;
+};
+
+/**
+ * Tags every market-data field with the source it came from and cross-checks the search snapshot
+ * against the Tradier quote, bars and chain. Pure: the same inputs always give the same report.
+ */
+export const assessDataQuality = (inputs: QualityInputs): DataQualityReport => {
+  const { symbol, search, quote, vixQuote, bars, chainLevels, searchLevels, windowsFrom, session, now } = inputs;
+  const fields: FieldProvenance[] = [];
+  const issues: QualityIssue[] = [];
+  const regular = session.phase === 'REGULAR';
+
+  const addField = (field: string, label: string, value: number | null, source: DataSource, note: string, health: FieldHealth = 'OK') => {
+    fields.push({ field, label, value, source, health, note });
+  };
+  const flag = (field: string, kind: QualityIssueKind, health: QualityIssue['health'], message: string) => {
+    issues.push({ kind, field, health, message });
+    const target = fields.find(f => f.field === field);
+    if (target && HEALTH_RANK[health] > HEALTH_RANK[target.health]) target.health = health;
+  };
+
+  // Price: the quote is ground truth, then the last bar, then the search snapshot
+  const quotePrice = Number(quote?.last) || 0;
+  const lastBar = bars.length > 0 ? bars[bars.length - 1] : null;
+  const searchPrice = Number(search?.currentPrice) || 0;
+  const verifiedPrice = quotePrice || lastBar?.price || 0;
+  const historyFromSearch = bars.length === 0;
+  const levelsFromSearch = !chainLevels;
+
+  if (quotePrice > 0) addField('price', 'Price', quotePrice, 'TRADIER_QUOTE', 'last trade');
+  else if (lastBar) addField('price', 'Price', lastBar.price, 'TRADIER_BARS', 'last 1m close');
+  else if (searchPrice > 0) addField('price', 'Price', searchPrice, 'SEARCH', 'unverified search snapshot', 'WARN');
+  else addField('price', 'Price', null, 'NONE', 'no source returned a price');
+
+  if (verifiedPrice === 0 && searchPrice === 0) flag('price', 'MISSING', 'BAD', 'No price from any source');
+  if (verifiedPrice > 0 && searchPrice > 0) {
+    const apart = pctApart(searchPrice, verifiedPrice);
+    // Divergence only blocks when something downstream still rests on the search snapshot
+    const dependsOnSearch = historyFromSearch || levelsFromSearch;
+    if (apart > PRICE_BAD_PCT) flag('price', 'PRICE_DIVERGENCE', dependsOnSearch ? 'BAD' : 'WARN', `Search price ${searchPrice.toFixed(2)} is ${apart.toFixed(1)}% off Tradier ${verifiedPrice.toFixed(2)}`);
+    else if (apart > PRICE_WARN_PCT) flag('price', 'PRICE_DIVERGENCE', 'WARN', `Search price ${searchPrice.toFixed(2)} is ${apart.toFixed(1)}% off Tradier ${verifiedPrice.toFixed(2)}`);
+  }
+
+  // Quote freshness only means something while the regular session is printing
+  const tradeAt = Number(quote?.trade_date) || 0;
+  if (quote) {
+    const age = tradeAt > 0 ? now - tradeAt : null;
+    addField('quoteAge', 'Quote age', age !== null ? Math.round(age / 1000) : null, 'TRADIER_QUOTE', age === null ? 'no trade timestamp' : regular ? 'seconds since last trade' : 'market not in regular session');
+    if (regular && age !== null && age > QUOTE_STALE_BAD_MS) flag('quoteAge', 'STALE_QUOTE', 'BAD', `Last ${symbol} trade is ${Math.round(age / 60000)} min old`);
+    else if (regular && age !== null && age > QUOTE_STALE_WARN_MS) flag('quoteAge', 'STALE_QUOTE', 'WARN', `Last ${symbol} trade is ${Math.round(age / 60000)} min old`);
+  }
+
+  const quoteChange = quote ? Number(quote.change_percentage) : NaN;
+  const searchChange = Number(search?.change24h);
+  if (Number.isFinite(quoteChange)) addField('change', 'Change %', quoteChange, 'TRADIER_QUOTE', 'vs prior close');
+  else if (search && Number.isFinite(searchChange)) addField('change', 'Change %', searchChange, 'SEARCH', 'unverified search snapshot', 'WARN');
+  else addField('change', 'Change %', null, 'NONE', 'unavailable');
+
+  const quotedVix = Number(vixQuote?.last) || 0;
+  const searchVix = Number(search?.vix) || 0;
+  if (quotedVix > 0) {
+    addField('vix', 'VIX', quotedVix, 'TRADIER_QUOTE', 'index quote');
+    if (searchVix > 0 && pctApart(searchVix, quotedVix) > 10) flag('vix', 'PRICE_DIVERGENCE', 'WARN', `Search VIX ${searchVix.toFixed(2)} differs from quoted ${quotedVix.toFixed(2)}`);
+  } else if (searchVix > 0) {
+    addField('vix', 'VIX', searchVix, 'SEARCH', 'unverified search snapshot', 'WARN');
+  } else {
+    addField('vix', 'VIX', DEFAULT_VIX, 'DEFAULT', `no source; assumed ${DEFAULT_VIX}`);
+    flag('vix', 'DEFAULTED', 'WARN', `VIX missing; defaulted to ${DEFAULT_VIX}`);
+  }
+
+  // History: real bars get gap and staleness checks, a search series gets filler checks
+  const searchHistory = search?.history || [];
+  if (bars.length > 0) {
+    const latestSession = lastBar?.session;
+    let largestGap = 0;
+    let gaps = 0;
+    for (let i = 1; i < bars.length; i++) {
+      const prev = bars[i - 1];
+      const curr = bars[i];
+      if (curr.session !== latestSession || prev.session !== latestSession || !curr.epoch || !prev.epoch) continue;
+      const missing = Math.round((curr.epoch - prev.epoch) / 60000) - 1;
+      if (missing > 0) {
+        gaps++;
+        largestGap = Math.max(largestGap, missing);
+      }
+    }
+    addField('history', 'History', bars.length, 'TRADIER_BARS', `${bars.length} bars · ${gaps} gap${gaps === 1 ? '' : 's'}`);
+    if (largestGap > GAP_BAD_MINUTES) flag('history', 'BAR_GAP', 'BAD', `${largestGap} min hole in today's ${symbol} bars`);
+    else if (largestGap > GAP_WARN_MINUTES) flag('history', 'BAR_GAP', 'WARN', `${largestGap} min hole in today's ${symbol} bars`);
+
+    const barAge = lastBar?.epoch ? now - lastBar.epoch : 0;
+    if (regular && barAge > BARS_STALE_BAD_MS) flag('history', 'STALE_BARS', 'BAD', `Newest ${symbol} bar is ${Math.round(barAge / 60000)} min old`);
+    else if (regular && barAge > BARS_STALE_WARN_MS) flag('history', 'STALE_BARS', 'WARN', `Newest ${symbol} bar is ${Math.round(barAge / 60000)} min old`);
+    addField('volume', 'Volume', bars.reduce((acc, b) => acc + (b.volume || 0), 0), 'TRADIER_BARS', 'summed 1m volume');
+  } else if (searchHistory.length > 0) {
+    addField('history', 'History', searchHistory.length, 'SEARCH', 'unverified search series', 'WARN');
+    const minutes = searchHistory.map(h => minutesOf(String(h.time)));
+    if (minutes.some((m, i) => m < 0 || (i > 0 && m <= minutes[i - 1]))) flag('history', 'BAR_GAP', 'WARN', 'Search series times are missing or out of order');
+    if (longestRun(searchHistory.map(h => h.price)) >= FILL_RUN) flag('history', 'FABRICATED_FILL', 'WARN', `Search series repeats one close ${FILL_RUN}+ times in a row`);
+
+    const missingVolume = searchHistory.filter(h => !(Number(h.volume) > 0)).length;
+    const volumeRun = longestRun(searchHistory.map(h => Number(h.volume) || 0).filter(v => v > 0));
+    addField('volume', 'Volume', searchHistory.length - missingVolume, 'SEARCH', `${missingVolume} of ${searchHistory.length} points without volume`, 'WARN');
+    if (missingVolume > searchHistory.length / 2) flag('volume', 'MISSING', 'BAD', `${missingVolume} of ${searchHistory.length} search points carry no volume; LIXI would run on placeholders`);
+    else if (volumeRun >= FILL_RUN) flag('volume', 'FABRICATED_FILL', 'BAD', `Search series repeats one volume ${volumeRun} times in a row`);
+  } else {
+    addField('history', 'History', null, 'NONE', 'no bars and no search series');
+    flag('history', 'MISSING', 'BAD', `No price history for ${symbol}`);
+  }
+
+  const windowNotes: Record<QualityInputs['windowsFrom'], [DataSource, string, FieldHealth]> = {
+    STREAM: ['TRADIER_STREAM', 'real prints from the stream', 'OK'],
+    NO_STREAM: ['NONE', 'order flow needs the Tradier stream; it is never simulated', 'BAD'],
+    NONE: ['NONE', 'no windows', 'BAD']
+  };
+  const [windowSource, windowNote, windowHealth] = windowNotes[windowsFrom];
+  addField('windows', 'LIXI windows', null, windowSource, windowNote, windowHealth);
+  if (windowsFrom === 'NONE') flag('windows', 'MISSING', 'BAD', 'No LIXI windows to analyse');
+  if (windowsFrom === 'NO_STREAM') flag('windows', 'MISSING', 'BAD', `No live order flow for ${symbol}: LIXI windows need a streaming Tradier connection`);
+
+  // Levels: the chain is verified; search levels are checked for plausibility against the verified price
+  (Object.keys(LEVEL_LABELS) as LevelKey[]).forEach(key => {
+    const searchValue = Number(searchLevels[key]) || 0;
+    if (chainLevels) {
+      const chainValue = Number(chainLevels[key]) || 0;
+      addField(key, LEVEL_LABELS[key], chainValue || null, 'TRADIER_CHAIN', chainLevels.derivations?.[key]?.method || 'option chain');
+      if (chainValue > 0 && searchValue > 0 && pctApart(searchValue, chainValue) > LEVEL_WARN_PCT) {
+        flag(key, 'LEVEL_DIVERGENCE', 'WARN', `Search ${LEVEL_LABELS[key]} ${searchValue.toFixed(2)} disagrees with chain ${chainValue.toFixed(2)}`);
+      }
+      return;
+    }
+    addField(key, LEVEL_LABELS[key], searchValue || null, searchValue > 0 ? 'SEARCH' : 'NONE', searchValue > 0 ? 'unverified search snapshot' : 'not returned', 'WARN');
+    if (searchValue > 0 && verifiedPrice > 0 && pctApart(searchValue, verifiedPrice) > LEVEL_BAD_PCT) {
+      flag(key, 'LEVEL_DIVERGENCE', 'BAD', `Search ${LEVEL_LABELS[key]} ${searchValue.toFixed(2)} is ${pctApart(searchValue, verifiedPrice).toFixed(0)}% from the Tradier price`);
+    }
+  });
+
+  const blocking = issues.find(i => i.health === 'BAD');
+  return { symbol, checkedAt: now, fields, issues, blockReason: blocking ? blocking.message : null };
+};
@@ -0,0 +1,228 @@
+import { EnsembleInsight, TickLabel, TickWindow } from "../types";
+import { OrderFlowPoint, computeOrderFlow, flagBias } from "./orderFlowService";
+
+export interface EnsembleConfig {
+  models: number;
+  lambda: number;
+  l1Ratio: number;
+  learningRate: number;
+  iterations: number;
+  /** Mean P(up) must clear 0.5 by this margin for a model to cast a directional vote */
+  voteMargin: number;
+  minSamples: number;
+  seed: number;
+}
+
+export interface EnsembleResult {
+  direction: 'BUY' | 'SELL' | 'WAIT';
+  /** Winning side's share of models; on WAIT the stronger directional side's, i.e. how close it came to a trade */
+  voteCount: number;
+  upVotes: number;
+  downVotes: number;
+  abstentions: number;
+  probabilityUp: number;
+  models: number;
+  samples: number;
+  insights: EnsembleInsight[];
+}
+
+export const DEFAULT_ENSEMBLE_CONFIG: EnsembleConfig = {
+  models: 100,
+  lambda: 0.02,
+  l1Ratio: 0.5,
+  learningRate: 0.1,
+  iterations: 150,
+  voteMargin: 0.05,
+  minSamples: 20,
+  seed: 20240
+};
+
+const DERIVATIVE_SLOTS = 12; // v11 .. v22
+
+const FEATURE_NAMES = [
+  'v1_mid', 'v2_spread', 'v3_crossing_return', 'v9_volatility', 'v10_intensity', 'v14_ask_vol', 'v15_bid_vol',
+  ...Array.from({ length: DERIVATIVE_SLOTS }, (_, i) => `v${11 + i}_derivative`),
+  'of_imbalance', 'of_cvd_slope', 'of_absorption', 'of_exhaustion'
+];
+
+// Insight categories the UI shows; derivative slots collapse into a single momentum group
+const CATEGORY_FOR: Record<string, string> = {
+  v1_mid: 'Price Level',
+  v2_spread: 'Spread',
+  v3_crossing_return: 'Crossing Return',
+  v9_volatility: 'Volatility',
+  v10_intensity: 'Intensity',
+  v14_ask_vol: 'Ask Flow',
+  v15_bid_vol: 'Bid Flow',
+  of_imbalance: 'Order Imbalance',
+  of_cvd_slope: 'Cumulative Delta',
+  of_absorption: 'Absorption',
+  of_exhaustion: 'Exhaustion'
+};
+const categoryOf = (name: string) => CATEGORY_FOR[name] || 'Tick Momentum';
+
+/** Window features followed by its order-flow state, which depends on the windows before it. */
+export const featureVector = (w: TickWindow, flow: OrderFlowPoint): number[] => {
+  const f = w.features;
+  const derivatives = Array.from({ length: DERIVATIVE_SLOTS }, (_, i) => f.v11_22_derivatives[i] || 0);
+  const flags = flagBias(flow);
+  return [
+    f.v1_mid, f.v2_spread, f.v3_crossing_return, f.v9_volatility, f.v10_intensity, f.v14_ask_vol, f.v15_bid_vol, ...derivatives,
+    flow.imbalance, flow.cvdSlope, flags.absorption, flags.exhaustion
+  ];
+};
+
+const seededRandom = (seed: number) => {
+  let state = (seed % 2147483646) + 1;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+};
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-Math.max(-30, Math.min(30, z))));
+const softThreshold = (w: number, t: number) => Math.sign(w) * Math.max(0, Math.abs(w) - t);
+
+interface Standardizer {
+  mean: number[];
+  std: number[];
+}
+
+const fitStandardizer = (rows: number[][]): Standardizer => {
+  const dims = rows[0].length;
+  const mean = Array.from({ length: dims }, (_, j) => rows.reduce((acc, r) => acc + r[j], 0) / rows.length);
+  const std = Array.from({ length: dims }, (_, j) => {
+    const variance = rows.reduce((acc, r) => acc + Math.pow(r[j] - mean[j], 2), 0) / rows.length;
+    return Math.sqrt(variance) || 1;
+  });
+  return { mean, std };
+};
+
+const standardize = (row: number[], s: Standardizer) => row.map((v, j) => (v - s.mean[j]) / s.std[j]);
+
+/**
+ * Elastic-net logistic regression by proximal gradient descent: the L2 term enters the gradient,
+ * the L1 term is applied as a soft threshold after each step. The intercept is not penalized.
+ */
+export const fitElasticNetLogistic = (x: number[][], y: number[], config: EnsembleConfig) => {
+  const dims = x[0].length;
+  const weights = new Array(dims).fill(0);
+  let bias = 0;
+  const { lambda, l1Ratio, learningRate, iterations } = config;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const grad = new Array(dims).fill(0);
+    let gradBias = 0;
+    for (let i = 0; i < x.length; i++) {
+      const err = sigmoid(x[i].reduce((acc, v, j) => acc + v * weights[j], bias)) - y[i];
+      for (let j = 0; j < dims; j++) grad[j] += err * x[i][j];
+      gradBias += err;
+    }
+    for (let j = 0; j < dims; j++) {
+      const step = weights[j] - learningRate * (grad[j] / x.length + lambda * (1 - l1Ratio) * weights[j]);
+      weights[j] = softThreshold(step, learningRate * lambda * l1Ratio);
+    }
+    bias -= learningRate * gradBias / x.length;
+  }
+  return { weights, bias };
+};
+
+/**
+ * Pairs each window's features with the label of the window that followed it. Stationary outcomes
+ * carry no direction and are dropped. Windows arrive newest-first, as held in the dashboard.
+ */
+export const buildTrainingSet = (windows: TickWindow[], flow: OrderFlowPoint[] = computeOrderFlow(windows)) => {
+  const chronological = [...windows].reverse();
+  const flowChronological = [...flow].reverse();
+  const x: number[][] = [];
+  const y: number[] = [];
+  for (let i = 0; i < chronological.length - 1; i++) {
+    const next = chronological[i + 1].label;
+    if (next === TickLabel.STATIONARY) continue;
+    x.push(featureVector(chronological[i], flowChronological[i]));
+    y.push(next === TickLabel.UPWARDS ? 1 : 0);
+  }
+  return { x, y };
+};
+
+/**
+ * Trains `config.models` elastic-net logistic models on bootstrap resamples and scores the most
+ * recent window. Returns null while there are too few labelled transitions, or only one class.
+ */
+export const runEnsemble = (windows: TickWindow[], config: EnsembleConfig = DEFAULT_ENSEMBLE_CONFIG): EnsembleResult | null => {
+  if (windows.length === 0) return null;
+  const flow = computeOrderFlow(windows);
+  const { x, y } = buildTrainingSet(windows, flow);
+  const positives = y.reduce((acc, v) => acc + v, 0);
+  if (x.length < config.minSamples || positives === 0 || positives === y.length) return null;
+
+  const scaler = fitStandardizer(x);
+  const xs = x.map(r => standardize(r, scaler));
+  const latest = standardize(featureVector(windows[0], flow[0]), scaler);
+  const rand = seededRandom(config.seed);
+
+  let upVotes = 0;
+  let downVotes = 0;
+  let probabilitySum = 0;
+  const coefSum = new Array(FEATURE_NAMES.length).fill(0);
+  const selected = new Array(FEATURE_NAMES.length).fill(0);
+
+  for (let m = 0; m < config.models; m++) {
+    const idx = Array.from({ length: xs.length }, () => Math.floor(rand() * xs.length));
+    const model = fitElasticNetLogistic(idx.map(i => xs[i]), idx.map(i => y[i]), config);
+    const p = sigmoid(latest.reduce((acc, v, j) => acc + v * model.weights[j], model.bias));
+    probabilitySum += p;
+    if (p >= 0.5 + config.voteMargin) upVotes++;
+    else if (p <= 0.5 - config.voteMargin) downVotes++;
+    model.weights.forEach((w, j) => {
+      coefSum[j] += w;
+      if (w !== 0) selected[j]++;
+    });
+  }
+
+  const abstentions = config.models - upVotes - downVotes;
+  let direction: EnsembleResult['direction'] = 'WAIT';
+  if (upVotes > downVotes && upVotes > abstentions) direction = 'BUY';
+  else if (downVotes > upVotes && downVotes > abstentions) direction = 'SELL';
+  const winning = direction === 'BUY' ? upVotes : direction === 'SELL' ? downVotes : Math.max(upVotes, downVotes);
+
+  return {
+    direction,
+    voteCount: Math.round((winning / config.models) * 100),
+    upVotes,
+    downVotes,
+    abstentions,
+    probabilityUp: probabilitySum / config.models,
+    models: config.models,
+    samples: xs.length,
+    insights: buildInsights(coefSum.map(c => c / config.models), selected, latest, config.models)
+  };
+};
+
+/** Aggregates mean standardized coefficients into UI categories; weight is the share of |beta|. */
+const buildInsights = (meanCoef: number[], selected: number[], latest: number[], models: number): EnsembleInsight[] => {
+  const groups: Record<string, { magnitude: number; contribution: number; selected: number; members: number }> = {};
+  FEATURE_NAMES.forEach((name, j) => {
+    const key = categoryOf(name);
+    const g = groups[key] || { magnitude: 0, contribution: 0, selected: 0, members: 0 };
+    g.magnitude += Math.abs(meanCoef[j]);
+    g.contribution += meanCoef[j] * latest[j];
+    g.selected += selected[j];
+    g.members++;
+    groups[key] = g;
+  });
+
+  const total = Object.keys(groups).reduce((acc, k) => acc + groups[k].magnitude, 0) || 1;
+  return Object.keys(groups)
+    .map(category => {
+      const g = groups[category];
+      const sentiment: EnsembleInsight['sentiment'] = g.contribution > 0.01 ? 'BULLISH' : g.contribution < -0.01 ? 'BEARISH' : 'NEUTRAL';
+      return {
+        category,
+        weight: Math.round((g.magnitude / total) * 100),
+        sentiment,
+        description: `Mean |β| ${g.magnitude.toFixed(3)}, kept in ${Math.round((g.selected / (g.members * models)) * 100)}% of model fits; current contribution ${g.contribution >= 0 ? '+' : ''}${g.contribution.toFixed(3)} log-odds`
+      };
+    })
+    .sort((a, b) => b.weight - a.weight);
+};
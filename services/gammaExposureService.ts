@@ -0,0 +1,248 @@
+import { InstitutionalLevels, LevelDerivation, LevelKey, PricePoint } from "../types";
+import { TradierOptionContract, TradierQuote, TradierService } from "./tradierService";
+
+export interface StrikeExposure {
+  strike: number;
+  callGex: number;
+  putGex: number;
+  netGex: number;
+  netVanna: number;
+  openInterest: number;
+}
+
+export interface GammaProfile {
+  symbol: string;
+  spot: number;
+  expirations: string[];
+  strikes: StrikeExposure[];
+  totalGex: number;
+  computedAt: string;
+}
+
+export interface GammaLevelsResult {
+  levels: InstitutionalLevels;
+  profile: GammaProfile;
+}
+
+const RISK_FREE_RATE = 0.04;
+const CONTRACT_MULTIPLIER = 100;
+const MIN_YEARS_TO_EXPIRY = 1 / (365 * 24);
+const FLIP_SCAN_RANGE = 0.08;
+const FLIP_SCAN_STEPS = 160;
+
+const normPdf = (x: number) => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+const yearsToExpiry = (expiration: string, now: number) => {
+  // Equity options stop trading at the 16:00 New York close on expiration day (~20:00/21:00 UTC)
+  const expiry = Date.parse(`${expiration}T20:00:00Z`);
+  return Math.max(MIN_YEARS_TO_EXPIRY, (expiry - now) / (365 * 24 * 3600 * 1000));
+};
+
+/** Black-Scholes gamma and vanna (dDelta/dVol) for a unit position; identical for calls and puts. */
+export const bsGammaVanna = (spot: number, strike: number, years: number, iv: number) => {
+  const sqrtT = Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (RISK_FREE_RATE + 0.5 * iv * iv) * years) / (iv * sqrtT);
+  const d2 = d1 - iv * sqrtT;
+  const pdf = normPdf(d1);
+  return {
+    gamma: pdf / (spot * iv * sqrtT),
+    vanna: -pdf * d2 / iv
+  };
+};
+
+interface PricedContract {
+  strike: number;
+  sign: 1 | -1;
+  openInterest: number;
+  iv: number;
+  years: number;
+}
+
+// Dealer convention: customers are long calls and short puts, so dealers carry +gamma on calls and -gamma on puts
+const priceContracts = (chain: TradierOptionContract[], now: number): PricedContract[] => chain
+  .map(c => ({
+    strike: Number(c.strike),
+    sign: (c.option_type === 'call' ? 1 : -1) as 1 | -1,
+    openInterest: Number(c.open_interest) || 0,
+    iv: Number(c.greeks?.mid_iv) || Number(c.greeks?.smv_vol) || 0,
+    years: yearsToExpiry(c.expiration_date, now)
+  }))
+  .filter(c => c.strike > 0 && c.openInterest > 0 && c.iv > 0);
+
+/** Dollar gamma per 1% move summed across the book at a hypothetical spot. */
+const totalGexAt = (contracts: PricedContract[], spot: number) => contracts.reduce((acc, c) => {
+  const { gamma } = bsGammaVanna(spot, c.strike, c.years, c.iv);
+  return acc + c.sign * gamma * c.openInterest * CONTRACT_MULTIPLIER * spot * spot * 0.01;
+}, 0);
+
+const buildStrikeProfile = (contracts: PricedContract[], spot: number): StrikeExposure[] => {
+  const byStrike = new Map<number, StrikeExposure>();
+  contracts.forEach(c => {
+    const { gamma, vanna } = bsGammaVanna(spot, c.strike, c.years, c.iv);
+    const gex = c.sign * gamma * c.openInterest * CONTRACT_MULTIPLIER * spot * spot * 0.01;
+    const vex = c.sign * vanna * c.openInterest * CONTRACT_MULTIPLIER * spot * 0.01;
+    const row = byStrike.get(c.strike) || { strike: c.strike, callGex: 0, putGex: 0, netGex: 0, netVanna: 0, openInterest: 0 };
+    if (c.sign > 0) row.callGex += gex;
+    else row.putGex += gex;
+    row.netGex += gex;
+    row.netVanna += vex;
+    row.openInterest += c.openInterest;
+    byStrike.set(c.strike, row);
+  });
+  return Array.from(byStrike.values()).sort((a, b) => a.strike - b.strike);
+};
+
+/** Scans spot +/- FLIP_SCAN_RANGE for the sign change in total GEX closest to the current price. */
+const findZeroGamma = (contracts: PricedContract[], spot: number): number => {
+  const lo = spot * (1 - FLIP_SCAN_RANGE);
+  const step = (spot * 2 * FLIP_SCAN_RANGE) / FLIP_SCAN_STEPS;
+  let best = 0;
+  let prevS = lo;
+  let prevG = totalGexAt(contracts, lo);
+  for (let i = 1; i <= FLIP_SCAN_STEPS; i++) {
+    const s = lo + i * step;
+    const g = totalGexAt(contracts, s);
+    if ((prevG <= 0 && g > 0) || (prevG >= 0 && g < 0)) {
+      const crossing = prevS + (s - prevS) * (Math.abs(prevG) / (Math.abs(prevG) + Math.abs(g) || 1));
+      if (!best || Math.abs(crossing - spot) < Math.abs(best - spot)) best = crossing;
+    }
+    prevS = s;
+    prevG = g;
+  }
+  return best;
+};
+
+const largestBy = (rows: StrikeExposure[], key: 'netGex' | 'netVanna') =>
+  rows.reduce<StrikeExposure | null>((best, r) => !best || Math.abs(r[key]) > Math.abs(best[key]) ? r : best, null);
+
+const isFriday = (date: string) => new Date(`${date}T12:00:00Z`).getUTCDay() === 5;
+const isThirdFriday = (date: string) => {
+  const day = parseInt(date.split('-')[2]);
+  return isFriday(date) && day >= 15 && day <= 21;
+};
+
+/** Nearest Friday expiry is the weekly; the nearest third-Friday expiry is the monthly. */
+export const pickExpirations = (expirations: string[], today: string) => {
+  const upcoming = expirations.filter(d => d >= today).sort();
+  return {
+    weekly: upcoming.find(isFriday) || upcoming[0] || null,
+    monthly: upcoming.find(isThirdFriday) || null
+  };
+};
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+/** Tags each price point with the net gamma and vanna of the strike nearest to where it traded. */
+export const annotateHistory = (points: PricePoint[], profile: GammaProfile): PricePoint[] => {
+  if (profile.strikes.length === 0) return points;
+  return points.map(p => {
+    const nearest = profile.strikes.reduce((best, r) => Math.abs(r.strike - p.price) < Math.abs(best.strike - p.price) ? r : best);
+    return { ...p, gamma: nearest.netGex, vanna: nearest.netVanna };
+  });
+};
+
+export type ProfileMode = 'GEX' | 'VANNA';
+
+export interface ProfileBar {
+  strike: number;
+  value: number;
+  openInterest: number;
+  /** Percent offsets within the panel: `top` from the domain max, `left`/`width` around a centre axis */
+  top: number;
+  left: number;
+  width: number;
+}
+
+/**
+ * Lays out per-strike bars against the tape's price domain so each bar sits level with its strike.
+ * Bars grow from the centre, right for positive exposure and left for negative, scaled to the largest.
+ */
+export const layoutProfile = (profile: GammaProfile, domain: number[], mode: ProfileMode) => {
+  const [min, max] = domain;
+  const range = max - min || 1;
+  const rows = profile.strikes.filter(r => r.strike >= min && r.strike <= max);
+  const valueOf = (r: StrikeExposure) => mode === 'GEX' ? r.netGex : r.netVanna;
+  const peak = rows.reduce((acc, r) => Math.max(acc, Math.abs(valueOf(r))), 0) || 1;
+  const strikeStep = rows.length > 1 ? Math.min(...rows.slice(1).map((r, i) => r.strike - rows[i].strike)) : 1;
+
+  const bars: ProfileBar[] = rows.map(r => {
+    const value = valueOf(r);
+    const width = (Math.abs(value) / peak) * 50;
+    return { strike: r.strike, value, openInterest: r.openInterest, top: ((max - r.strike) / range) * 100, left: value >= 0 ? 50 : 50 - width, width };
+  });
+  return { bars, barHeight: Math.max(0.6, (strikeStep / range) * 100 * 0.7) };
+};
+
+/**
+ * Pulls weekly and monthly chains through Tradier and derives every institutional level locally.
+ * Each level carries a derivation record naming the method, expiries and inputs used.
+ */
+export const computeGammaLevels = async (service: TradierService, symbol: string, quote: TradierQuote, now: number = Date.now()): Promise<GammaLevelsResult> => {
+  const spot = Number(quote.last);
+  if (!(spot > 0)) throw new Error(`No spot price for ${symbol}`);
+
+  const today = new Date(now).toISOString().split('T')[0];
+  const { weekly, monthly } = pickExpirations(await service.getOptionExpirations(symbol), today);
+  if (!weekly) throw new Error(`No option expirations listed for ${symbol}`);
+
+  const expirations = Array.from(new Set([weekly, monthly].filter((d): d is string => !!d)));
+  const chains = await Promise.all(expirations.map(exp => service.getOptionChain(symbol, exp)));
+  const chainByExpiry = new Map(expirations.map((exp, i) => [exp, priceContracts(chains[i], now)]));
+  const combined = expirations.flatMap(exp => chainByExpiry.get(exp) || []);
+  if (combined.length === 0) throw new Error(`Option chain for ${symbol} carries no open interest or IV`);
+
+  const strikes = buildStrikeProfile(combined, spot);
+  const weeklyTop = largestBy(buildStrikeProfile(chainByExpiry.get(weekly) || [], spot), 'netGex');
+  const monthlyTop = monthly ? largestBy(buildStrikeProfile(chainByExpiry.get(monthly) || [], spot), 'netGex') : null;
+  const maxGammaRow = largestBy(strikes, 'netGex');
+  const vannaRow = largestBy(strikes, 'netVanna');
+  const gammaFlip = findZeroGamma(combined, spot);
+
+  const prevClose = Number(quote.prevclose) || 0;
+  const open = Number(quote.open) || 0;
+  const hg = prevClose > 0 && open > 0 ? (prevClose + open) / 2 : 0;
+
+  const hp = weeklyTop ? weeklyTop.strike : 0;
+  const mhp = monthlyTop ? monthlyTop.strike : 0;
+  let bias: InstitutionalLevels['bias'] = 'NEUTRAL';
+  if (hp === mhp && hp !== 0) bias = 'SQUEEZE';
+  else if (hp > mhp) bias = 'BULLISH';
+  else if (mhp > hp) bias = 'BEARISH';
+
+  const computedAt = new Date(now).toISOString();
+  const chainDerivation = (method: string, exps: string[], inputs: Record<string, number>): LevelDerivation => ({
+    source: 'TRADIER_CHAIN', method, expirations: exps, inputs: { spot, ...inputs }, computedAt
+  });
+
+  const derivations: Partial<Record<LevelKey, LevelDerivation>> = {
+    hp: chainDerivation('Strike with largest |net GEX| in the weekly expiry', [weekly], { netGex: round2(weeklyTop?.netGex || 0) }),
+    maxGamma: chainDerivation('Strike with largest |net GEX| across weekly + monthly', expirations, { netGex: round2(maxGammaRow?.netGex || 0) }),
+    vannaPivot: chainDerivation('Strike with largest |net vanna exposure| across weekly + monthly', expirations, { netVanna: round2(vannaRow?.netVanna || 0) }),
+    gammaFlip: chainDerivation(`Zero crossing of total GEX re-priced over spot +/-${FLIP_SCAN_RANGE * 100}%`, expirations, { contracts: combined.length }),
+    hg: { source: 'TRADIER_QUOTE', method: 'Midpoint of prior close and session open', inputs: { prevClose, open }, computedAt }
+  };
+  if (monthly) {
+    derivations.mhp = chainDerivation('Strike with largest |net GEX| in the monthly expiry', [monthly], { netGex: round2(monthlyTop?.netGex || 0) });
+  }
+
+  return {
+    levels: {
+      hp,
+      mhp,
+      hg: round2(hg),
+      gammaFlip: round2(gammaFlip),
+      maxGamma: maxGammaRow ? maxGammaRow.strike : 0,
+      vannaPivot: vannaRow ? vannaRow.strike : 0,
+      bias,
+      derivations
+    },
+    profile: {
+      symbol,
+      spot,
+      expirations,
+      strikes,
+      totalGex: strikes.reduce((acc, r) => acc + r.netGex, 0),
+      computedAt
+    }
+  };
+};
@@ -0,0 +1,73 @@
+import { GoogleGenAI, GenerateContentConfig } from "@google/genai";
+import { LlmProvider, LlmRequest } from "./llmProvider";
+
+export interface GeminiModels {
+  search: string;
+  analysis: string;
+}
+
+export const DEFAULT_GEMINI_MODELS: GeminiModels = {
+  search: 'gemini-3-flash-preview',
+  analysis: 'gemini-3-pro-preview'
+};
+
+// AI Studio injects the picked key as process.env.API_KEY at runtime; elsewhere `process` does not exist in the browser
+const injectedApiKey = (): string | undefined => typeof process !== 'undefined' ? process.env?.API_KEY : undefined;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const withRetry = async <T>(fn: () => Promise<T>, retries = 2, delay = 2000): Promise<T> => {
+  try {
+    return await fn();
+  } catch (error: any) {
+    const errorMsg = error?.message?.toLowerCase() || "";
+    if (retries > 0 && (errorMsg.includes('429') || errorMsg.includes('resource_exhausted') || errorMsg.includes('deadline'))) {
+      await sleep(delay);
+      return withRetry(fn, retries - 1, delay * 1.5);
+    }
+    throw error;
+  }
+};
+
+export class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini';
+  readonly requiresKey = true;
+  private apiKey: string;
+  private models: GeminiModels;
+  private client: GoogleGenAI | null = null;
+
+  constructor(apiKey: string, models: GeminiModels = DEFAULT_GEMINI_MODELS) {
+    this.apiKey = apiKey;
+    this.models = models;
+  }
+
+  async generate(request: LlmRequest): Promise<string> {
+    const config: GenerateContentConfig = { responseMimeType: 'application/json', responseSchema: request.schema };
+    if (request.grounded) config.tools = [{ googleSearch: {} }];
+    if (request.thinkingBudget) config.thinkingConfig = { thinkingBudget: request.thinkingBudget };
+
+    const response = await withRetry(() => this.getClient().models.generateContent({
+      model: request.task === 'ANALYSIS' ? this.models.analysis : this.models.search,
+      contents: request.prompt,
+      config
+    }));
+    return response.text || '';
+  }
+
+  setApiKey(key: string) {
+    this.apiKey = key;
+    this.client = null;
+  }
+
+  /** Cheapest authenticated round trip: reads the search model's metadata. */
+  async ping(): Promise<string> {
+    const model = await this.getClient().models.get({ model: this.models.search });
+    return model.displayName || model.name || this.models.search;
+  }
+
+  // The key can be injected by the AI Studio picker after load, so the client is built on first use
+  private getClient(): GoogleGenAI {
+    if (!this.client) this.client = new GoogleGenAI({ apiKey: this.apiKey || injectedApiKey() });
+    return this.client;
+  }
+}
@@ -1,49 +1,146 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { MarketData, AnalysisResponse, TickWindow, SentimentAnalysis } from "../types";
-
-const SEARCH_MODEL = 'gemini-3-flash-preview'; 
-const ANALYSIS_MODEL = 'gemini-3-pro-preview'; 
+import { Schema, Type } from "@google/genai";
+import { MarketData, AnalysisResponse, TickWindow, SentimentAnalysis, MarketSentiment, SessionLevels } from "../types";
+import { FieldIssue, SchemaValidationError, parseWithSchema } from "./schemaValidation";
+import { LlmRequest, getLlmProvider } from "./llmProvider";
+import { EnsembleResult, runEnsemble } from "./ensembleService";
+import { OrderFlowSummary, computeOrderFlow, summarizeOrderFlow } from "./orderFlowService";
 
 const SYSTEM_INSTRUCTION = `
-You are the "Aether Oracle," an institutional-grade HFT ensemble coordinator.
-Objective: Execute the Rocket Scooter methodology using a 100-model Elastic Net (ENet) Ensemble.
+You are the "Aether Oracle," an institutional-grade HFT analyst.
+Objective: Execute the Rocket Scooter methodology. Direction and vote count come from a local
+elastic-net ensemble; your job is to place the bracket against the levels and explain the setup.
 Respond ONLY with valid JSON.
 `;
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface MarketDataPayload {
+  currentPrice: number;
+  change24h: number;
+  vix: number;
+  hp: number;
+  mhp: number;
+  gammaFlip: number;
+  maxGamma: number;
+  vannaPivot: number;
+  yesterdayClose: number;
+  todayOpen: number;
+  history: { time: string; price: number; volume: number }[];
+}
+
+// Nullable in the schema; a level the search could not find normalizes to 0
+const LEVEL_KEYS = ['hp', 'mhp', 'gammaFlip', 'maxGamma', 'vannaPivot', 'yesterdayClose', 'todayOpen'] as const satisfies readonly (keyof MarketDataPayload)[];
 
-const sanitizeJsonResponse = (text: string): string => {
-  let cleaned = text.trim();
-  if (cleaned.includes('```')) {
-    const matches = cleaned.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-    if (matches && matches[1]) {
-      cleaned = matches[1].trim();
+const num = (description?: string, extra: Partial<Schema> = {}): Schema => ({ type: Type.NUMBER, description, ...extra });
+const str = (description?: string, extra: Partial<Schema> = {}): Schema => ({ type: Type.STRING, description, ...extra });
+const TONE_ENUM = ['BULLISH', 'BEARISH', 'NEUTRAL'];
+
+const MARKET_DATA_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    currentPrice: num('Last traded price'),
+    change24h: num('Percent change on the session'),
+    vix: num('CBOE Volatility Index level'),
+    hp: num('Weekly hedge pressure level', { nullable: true }),
+    mhp: num('Monthly hedge pressure level', { nullable: true }),
+    gammaFlip: num(undefined, { nullable: true }),
+    maxGamma: num(undefined, { nullable: true }),
+    vannaPivot: num(undefined, { nullable: true }),
+    yesterdayClose: num(undefined, { nullable: true }),
+    todayOpen: num(undefined, { nullable: true }),
+    history: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { time: str('HH:MM'), price: num(), volume: num(undefined, { nullable: true }) },
+        required: ['time', 'price']
+      }
     }
-  }
-  const startIdx = cleaned.indexOf('{');
-  const endIdx = cleaned.lastIndexOf('}');
-  if (startIdx !== -1 && endIdx !== -1) {
-    cleaned = cleaned.substring(startIdx, endIdx + 1);
-  }
-  return cleaned;
+  },
+  required: ['currentPrice', 'change24h', 'vix', 'history']
 };
 
-const withRetry = async <T>(fn: () => Promise<T>, retries = 2, delay = 2000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (error: any) {
-    const errorMsg = error?.message?.toLowerCase() || "";
-    if (retries > 0 && (errorMsg.includes('429') || errorMsg.includes('resource_exhausted') || errorMsg.includes('deadline'))) {
-      await sleep(delay);
-      return withRetry(fn, retries - 1, delay * 1.5);
+const SENTIMENT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    score: num('-100 (extreme fear) to 100 (extreme greed)', { minimum: -100, maximum: 100 }),
+    label: str(undefined, { enum: ['EXTREME FEAR', 'FEAR', 'NEUTRAL', 'GREED', 'EXTREME GREED'] }),
+    headlines: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { title: str(), sentiment: str(undefined, { enum: TONE_ENUM }), source: str() },
+        required: ['title', 'sentiment', 'source']
+      }
+    }
+  },
+  required: ['score', 'label', 'headlines']
+};
+
+const ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    sentiment: str(undefined, { enum: Object.values(MarketSentiment) }),
+    liquidityScore: num(undefined, { minimum: 0, maximum: 100 }),
+    signal: {
+      type: Type.OBJECT,
+      properties: {
+        type: str(undefined, { enum: ['BUY', 'SELL', 'WAIT'] }),
+        confidence: num(undefined, { minimum: 0, maximum: 100 }),
+        entry: num(),
+        stopLoss: num(),
+        takeProfit: num(),
+        reasoning: str(),
+        liquidityZone: str(),
+        executionStatus: str(undefined, { enum: ['RISK ON', 'SIT OUT'] }),
+        isGoldenSetup: { type: Type.BOOLEAN }
+      },
+      required: ['type', 'confidence', 'entry', 'stopLoss', 'takeProfit', 'reasoning', 'liquidityZone', 'executionStatus', 'isGoldenSetup']
+    },
+    macroFactors: { type: Type.ARRAY, items: str() }
+  },
+  required: ['sentiment', 'liquidityScore', 'signal', 'macroFactors']
+};
+
+interface StructuredRequest<T> extends LlmRequest {
+  schemaName: string;
+  /** Cross-field rules the schema cannot express; any issues go through the same repair loop */
+  check?: (value: T) => FieldIssue[];
+}
+
+/**
+ * Requests JSON constrained to the schema, then validates it locally. A reply that still fails is sent
+ * back to the model with the field-level issues for correction; after MAX_REPAIR_ATTEMPTS the typed
+ * SchemaValidationError propagates to the caller.
+ */
+const generateStructured = async <T>(request: StructuredRequest<T>): Promise<T> => {
+  const provider = getLlmProvider();
+  let prompt = request.prompt;
+  let lastError: SchemaValidationError | null = null;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const text = await provider.generate({ ...request, prompt });
+    try {
+      const value = parseWithSchema<T>(request.schemaName, text, request.schema);
+      const issues = request.check ? request.check(value) : [];
+      if (issues.length > 0) throw new SchemaValidationError(request.schemaName, issues);
+      return value;
+    } catch (err) {
+      if (!(err instanceof SchemaValidationError)) throw err;
+      lastError = err;
+      prompt = `${request.prompt}
+
+    Your previous reply failed validation:
+    ${err.issues.map(i => `- ${i.path}: expected ${i.expected}, got ${i.received}`).join('\n    ')}
+    Previous reply: ${text.slice(0, 4000)}
+    Return the corrected JSON object only.`;
     }
-    throw error;
   }
+  throw lastError;
 };
 
-export const fetchMarketDataViaSearch = async (symbol: string): Promise<any> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const fetchMarketDataViaSearch = async (symbol: string): Promise<MarketDataPayload> => {
   const prompt = `REAL-TIME QUANT DATA RETRIEVAL:
     Search for today's specific institutional levels for ${symbol}.
     1. Metrics: currentPrice, change24h, vix (CBOE Volatility Index).
@@ -64,38 +161,27 @@ export const fetchMarketDataViaSearch = async (symbol: string): Promise<any> =>
       "history": [{"time": "HH:MM", "price": number, "volume": number}]
     }`;
 
-  return withRetry(async () => {
-    const response = await ai.models.generateContent({
-      model: SEARCH_MODEL,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      }
-    });
+  const parsed = await generateStructured<MarketDataPayload>({
+    task: 'MARKET_DATA',
+    symbol,
+    prompt,
+    schemaName: 'MarketDataPayload',
+    schema: MARKET_DATA_SCHEMA,
+    grounded: true
+  });
 
-    const rawText = response.text || '{}';
-    try {
-      const parsed = JSON.parse(sanitizeJsonResponse(rawText));
-      const numericKeys = ['currentPrice', 'change24h', 'vix', 'hp', 'mhp', 'gammaFlip', 'maxGamma', 'vannaPivot', 'yesterdayClose', 'todayOpen'];
-      numericKeys.forEach(key => {
-        parsed[key] = parseFloat(String(parsed[key])) || 0;
-      });
-      if (parsed.history && Array.isArray(parsed.history)) {
-        parsed.history = parsed.history.map((h: any) => ({
-          ...h,
-          price: parseFloat(String(h.price)) || 0,
-          volume: parseFloat(String(h.volume)) || (Math.floor(Math.random() * 5000) + 2000)
-        })).filter((h: any) => h.price > 0);
-      }
-      return parsed;
-    } catch (parseErr) {
-      return { currentPrice: 0, history: [] };
-    }
+  LEVEL_KEYS.forEach(key => {
+    parsed[key] = Number(parsed[key]) || 0;
   });
+  // Missing volumes stay 0 so the data-quality check can see them instead of a made-up print
+  parsed.history = parsed.history.map(h => ({
+    ...h,
+    volume: Number(h.volume) || 0
+  })).filter(h => h.price > 0);
+  return parsed;
 };
 
 export const fetchSentimentAnalysis = async (symbol: string): Promise<SentimentAnalysis> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   const prompt = `SEARCH AND ANALYZE: Current institutional sentiment for ${symbol}. 
     Return JSON format:
     {
@@ -106,59 +192,100 @@ export const fetchSentimentAnalysis = async (symbol: string): Promise<SentimentA
       ]
     }`;
 
-  return withRetry(async () => {
-    const response = await ai.models.generateContent({
-      model: SEARCH_MODEL,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      }
-    });
-
-    try {
-      const parsed = JSON.parse(sanitizeJsonResponse(response.text || '{}'));
-      parsed.score = parseFloat(String(parsed.score)) || 0;
-      return parsed as SentimentAnalysis;
-    } catch (err) {
-      return { score: 0, label: "NEUTRAL", headlines: [] };
-    }
+  return generateStructured<SentimentAnalysis>({
+    task: 'SENTIMENT',
+    symbol,
+    prompt,
+    schemaName: 'SentimentAnalysis',
+    schema: SENTIMENT_SCHEMA,
+    grounded: true
   });
 };
 
+const sessionContext = (levels?: SessionLevels) => {
+  if (!levels) return '';
+  const parts = [
+    levels.priorHigh !== undefined ? `PDH: ${levels.priorHigh}` : '',
+    levels.priorLow !== undefined ? `PDL: ${levels.priorLow}` : '',
+    levels.priorClose !== undefined ? `PDC: ${levels.priorClose}` : '',
+    levels.openingRangeHigh !== undefined ? `OR${levels.openingRangeMinutes}: ${levels.openingRangeLow}-${levels.openingRangeHigh}${levels.openingRangeComplete ? '' : ' (forming)'}` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? `, ${parts.join(', ')}` : '';
+};
+
+const orderFlowContext = (summary: OrderFlowSummary | null) => {
+  if (!summary) return 'n/a';
+  const flags = [
+    summary.absorption ? `${summary.absorption} absorption` : '',
+    summary.exhaustion ? `${summary.exhaustion} exhaustion` : ''
+  ].filter(Boolean);
+  return `CVD ${summary.cvd.toFixed(0)}, CVD slope ${summary.cvdSlope.toFixed(2)}, imbalance ${summary.imbalance.toFixed(2)}${flags.length > 0 ? `, ${flags.join(', ')}` : ''}`;
+};
+
+const bracketRule = (direction: EnsembleResult['direction']) =>
+  direction === 'BUY' ? ' (stopLoss below entry, takeProfit above)' : direction === 'SELL' ? ' (takeProfit below entry, stopLoss above)' : '';
+
+/**
+ * A BUY bracket must read stopLoss < entry < takeProfit and a SELL the mirror image. WAIT places no
+ * order, so its levels are left unchecked.
+ */
+export const bracketIssues = (signal: AnalysisResponse['signal'], direction: EnsembleResult['direction']): FieldIssue[] => {
+  if (direction === 'WAIT') return [];
+  const { entry, stopLoss, takeProfit } = signal;
+  const issues: FieldIssue[] = [];
+  if (!(entry > 0)) issues.push({ path: '$.signal.entry', expected: '> 0', received: String(entry) });
+  const below = direction === 'BUY' ? 'stopLoss' : 'takeProfit';
+  const above = direction === 'BUY' ? 'takeProfit' : 'stopLoss';
+  if (!(signal[below] < entry)) issues.push({ path: `$.signal.${below}`, expected: `below entry ${entry} for a ${direction}`, received: String(signal[below]) });
+  if (!(signal[above] > entry)) issues.push({ path: `$.signal.${above}`, expected: `above entry ${entry} for a ${direction}`, received: String(signal[above]) });
+  return issues;
+};
+
+/**
+ * The local ensemble decides direction and vote count; the LLM only places the bracket against the
+ * levels and narrates. Its own type is overridden so the two can never disagree, and a bracket that
+ * points the wrong way for that direction is sent back for repair and rejected if it never comes right.
+ */
 export const analyzeMarket = async (data: MarketData, windows: TickWindow[]): Promise<AnalysisResponse> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const windowContext = windows.slice(0, 15).map(w => ({
+  const ensemble = runEnsemble(windows);
+  if (!ensemble) throw new Error('Ensemble needs more labelled windows with both up and down moves');
+
+  const flow = computeOrderFlow(windows);
+  const windowContext = windows.slice(0, 15).map((w, i) => ({
     l: w.label,
-    lixi: (w.lixi || 0).toFixed(2)
+    lixi: (w.lixi || 0).toFixed(2),
+    d: flow[i].delta.toFixed(0)
   }));
 
   const prompt = `${SYSTEM_INSTRUCTION}
     Symbol: ${data.symbol} Price: ${data.currentPrice} VIX: ${data.vix}
-    Levels: GF: ${data.levels?.gammaFlip}, HP: ${data.levels?.hp}
+    Levels: GF: ${data.levels?.gammaFlip}, HP: ${data.levels?.hp}${sessionContext(data.sessionLevels)}
     Last Windows: ${JSON.stringify(windowContext)}
-    Calculate high-probability trade setup. Return JSON.
+    Order Flow: ${orderFlowContext(summarizeOrderFlow(flow))}
+    Ensemble: ${ensemble.direction} (${ensemble.upVotes} up / ${ensemble.downVotes} down / ${ensemble.abstentions} abstain of ${ensemble.models} models, P(up) ${ensemble.probabilityUp.toFixed(3)}, ${ensemble.samples} samples)
+    Drivers: ${ensemble.insights.slice(0, 4).map(i => `${i.category} ${i.sentiment} ${i.weight}%`).join(', ')}
+    Set signal.type to ${ensemble.direction}, place entry/stopLoss/takeProfit against the levels${bracketRule(ensemble.direction)} and explain the setup. Return JSON.
   `;
 
-  return withRetry(async () => {
-    const response = await ai.models.generateContent({
-      model: ANALYSIS_MODEL,
-      contents: prompt,
-      config: {
-        thinkingConfig: { thinkingBudget: 2000 }
-      }
-    });
+  const result = await generateStructured<AnalysisResponse>({
+    task: 'ANALYSIS',
+    symbol: data.symbol,
+    prompt,
+    schemaName: 'AnalysisResponse',
+    schema: ANALYSIS_SCHEMA,
+    referencePrice: data.currentPrice,
+    direction: ensemble.direction,
+    thinkingBudget: 2000,
+    check: value => bracketIssues(value.signal, ensemble.direction)
+  });
 
-    try {
-      const parsed = JSON.parse(sanitizeJsonResponse(response.text || '{}'));
-      if (parsed.signal) {
-        parsed.signal.entry = parseFloat(String(parsed.signal.entry)) || 0;
-        parsed.signal.stopLoss = parseFloat(String(parsed.signal.stopLoss)) || 0;
-        parsed.signal.takeProfit = parseFloat(String(parsed.signal.takeProfit)) || 0;
-        parsed.signal.voteCount = parseInt(String(parsed.signal.voteCount)) || 0;
-      }
-      return parsed as AnalysisResponse;
-    } catch (e) {
-      throw new Error("Analysis parsing failed");
+  return {
+    ...result,
+    signal: {
+      ...result.signal,
+      type: ensemble.direction,
+      voteCount: ensemble.voteCount,
+      ensembleInsights: ensemble.insights
     }
-  });
+  };
 };
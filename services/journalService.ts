@@ -0,0 +1,242 @@
+import { AnalysisResponse, HistoricalSignal, InstitutionalLevels, SentimentAnalysis } from "../types";
+
+export interface JournalEntry {
+  id: string;
+  symbol: string;
+  timestamp: string;
+  epoch: number;
+  source: 'LIVE' | 'REPLAY';
+  signal: HistoricalSignal;
+  analysis: AnalysisResponse | null;
+  sentiment: SentimentAnalysis | null;
+  levels: InstitutionalLevels | null;
+  notes: string;
+  tags: string[];
+  updatedAt: string;
+}
+
+export interface JournalQuery {
+  symbol?: string;
+  from?: number;
+  to?: number;
+  tag?: string;
+  limit?: number;
+}
+
+const DB_NAME = 'aether-journal';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error || new Error('IndexedDB request failed'));
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error || new Error('IndexedDB transaction failed'));
+  tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+});
+
+export const normalizeTags = (raw: string | string[]) =>
+  Array.from(new Set((Array.isArray(raw) ? raw : raw.split(',')).map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+export const createEntry = (
+  signal: HistoricalSignal,
+  analysis: AnalysisResponse | null,
+  sentiment: SentimentAnalysis | null,
+  levels: InstitutionalLevels | null,
+  source: JournalEntry['source'] = 'LIVE'
+): JournalEntry => ({
+  id: signal.id,
+  symbol: signal.symbol,
+  timestamp: signal.timestamp,
+  epoch: Date.parse(signal.timestamp) || Date.now(),
+  source,
+  signal,
+  analysis,
+  sentiment,
+  levels,
+  notes: '',
+  tags: [],
+  updatedAt: new Date().toISOString()
+});
+
+/**
+ * IndexedDB-backed journal of every signal with the analysis, sentiment and levels it was issued
+ * against. Entries are keyed by signal id, so re-imports overwrite rather than duplicate.
+ */
+export class SignalJournal {
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  static async open(): Promise<SignalJournal> {
+    if (typeof indexedDB === 'undefined') throw new Error('IndexedDB unavailable in this browser');
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('epoch', 'epoch');
+      store.createIndex('symbol_epoch', ['symbol', 'epoch']);
+    };
+    return new SignalJournal(await requestToPromise(request));
+  }
+
+  async put(entries: JournalEntry[]): Promise<void> {
+    const tx = this.db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    entries.forEach(e => store.put(e));
+    await transactionDone(tx);
+  }
+
+  async get(id: string): Promise<JournalEntry | undefined> {
+    return requestToPromise(this.db.transaction(STORE).objectStore(STORE).get(id));
+  }
+
+  /** Newest first. Symbol and date range use the compound index; tags are filtered in memory. */
+  async query(q: JournalQuery = {}): Promise<JournalEntry[]> {
+    const from = q.from ?? 0;
+    const to = q.to ?? Number.MAX_SAFE_INTEGER;
+    const store = this.db.transaction(STORE).objectStore(STORE);
+    const request = q.symbol
+      ? store.index('symbol_epoch').openCursor(IDBKeyRange.bound([q.symbol, from], [q.symbol, to]), 'prev')
+      : store.index('epoch').openCursor(IDBKeyRange.bound(from, to), 'prev');
+    const tag = q.tag ? q.tag.trim().toLowerCase() : '';
+    const limit = q.limit ?? Infinity;
+
+    return new Promise((resolve, reject) => {
+      const out: JournalEntry[] = [];
+      request.onerror = () => reject(request.error || new Error('Journal query failed'));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || out.length >= limit) {
+          resolve(out);
+          return;
+        }
+        const entry = cursor.value as JournalEntry;
+        if (!tag || entry.tags.includes(tag)) out.push(entry);
+        cursor.continue();
+      };
+    });
+  }
+
+  async annotate(id: string, notes: string, tags: string[]): Promise<JournalEntry> {
+    const entry = await this.get(id);
+    if (!entry) throw new Error(`Journal entry ${id} not found`);
+    const updated = { ...entry, notes, tags: normalizeTags(tags), updatedAt: new Date().toISOString() };
+    await this.put([updated]);
+    return updated;
+  }
+
+  async remove(id: string): Promise<void> {
+    const tx = this.db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(id);
+    await transactionDone(tx);
+  }
+}
+
+const CSV_COLUMNS: { header: string; value: (e: JournalEntry) => unknown }[] = [
+  { header: 'id', value: e => e.id },
+  { header: 'symbol', value: e => e.symbol },
+  { header: 'timestamp', value: e => e.timestamp },
+  { header: 'source', value: e => e.source },
+  { header: 'type', value: e => e.signal.type },
+  { header: 'voteCount', value: e => e.signal.voteCount },
+  { header: 'confidence', value: e => e.signal.confidence },
+  { header: 'entry', value: e => e.signal.entry },
+  { header: 'stopLoss', value: e => e.signal.stopLoss },
+  { header: 'takeProfit', value: e => e.signal.takeProfit },
+  { header: 'priceAtSignal', value: e => e.signal.priceAtSignal },
+  { header: 'isGoldenSetup', value: e => e.signal.isGoldenSetup },
+  { header: 'liquidityZone', value: e => e.signal.liquidityZone },
+  { header: 'executionStatus', value: e => e.signal.executionStatus },
+  { header: 'marketSentiment', value: e => e.analysis?.sentiment ?? '' },
+  { header: 'sentimentScore', value: e => e.sentiment?.score ?? '' },
+  { header: 'sentimentLabel', value: e => e.sentiment?.label ?? '' },
+  { header: 'hp', value: e => e.levels?.hp ?? '' },
+  { header: 'mhp', value: e => e.levels?.mhp ?? '' },
+  { header: 'gammaFlip', value: e => e.levels?.gammaFlip ?? '' },
+  { header: 'maxGamma', value: e => e.levels?.maxGamma ?? '' },
+  { header: 'vannaPivot', value: e => e.levels?.vannaPivot ?? '' },
+  { header: 'bias', value: e => e.levels?.bias ?? '' },
+  { header: 'tags', value: e => e.tags.join(';') },
+  { header: 'notes', value: e => e.notes },
+  { header: 'reasoning', value: e => e.signal.reasoning },
+  // Full record so a CSV round-trips without losing nested snapshots
+  { header: 'payload', value: e => JSON.stringify(e) }
+];
+
+const csvCell = (v: unknown) => {
+  const text = v === null || v === undefined ? '' : String(v);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const entriesToCsv = (entries: JournalEntry[]) => [
+  CSV_COLUMNS.map(c => c.header).join(','),
+  ...entries.map(e => CSV_COLUMNS.map(c => csvCell(c.value(e))).join(','))
+].join('\n');
+
+export const entriesToJson = (entries: JournalEntry[]) =>
+  JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), entries }, null, 2);
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += ch;
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c !== ''));
+};
+
+const isEntry = (v: any): v is JournalEntry =>
+  !!v && typeof v.id === 'string' && typeof v.symbol === 'string' && !!v.signal && typeof v.signal.type === 'string';
+
+/** Reads a journal export. CSV rows are restored from their payload column; notes and tags columns win if edited. */
+export const parseJournalFile = (text: string, fileName: string): JournalEntry[] => {
+  let entries: unknown[];
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    const [header, ...rows] = parseCsvRows(text);
+    const col = (name: string) => header ? header.indexOf(name) : -1;
+    const payloadIdx = col('payload');
+    if (payloadIdx === -1) throw new Error('CSV is missing the payload column');
+    entries = rows.map(r => {
+      const entry = JSON.parse(r[payloadIdx]);
+      if (col('notes') !== -1) entry.notes = r[col('notes')] ?? entry.notes;
+      if (col('tags') !== -1) entry.tags = normalizeTags((r[col('tags')] || '').split(';'));
+      return entry;
+    });
+  } else {
+    const parsed = JSON.parse(text);
+    entries = Array.isArray(parsed) ? parsed : parsed?.entries;
+    if (!Array.isArray(entries)) throw new Error('JSON export has no entries array');
+  }
+  const valid = entries.filter(isEntry).map(e => ({
+    ...e,
+    epoch: Number(e.epoch) || Date.parse(e.timestamp) || 0,
+    notes: e.notes || '',
+    tags: normalizeTags(e.tags || [])
+  }));
+  if (valid.length === 0) throw new Error('No journal entries found in file');
+  return valid;
+};
@@ -0,0 +1,122 @@
+import { Tick } from "../types";
+
+export interface LixiCalibration {
+  watchPercentile: number;
+  goldenPercentile: number;
+  windows: number;
+  sessions: number;
+  calibratedAt: string;
+}
+
+/**
+ * LIXI = -log10(avg spread) + intensityWeight * log10(window volume) + advWeight * log10(ADV), capped.
+ * Thresholds classify a window as watch (amber) or golden (alert).
+ */
+export interface LixiProfile {
+  advFactor: number;
+  /** DEFAULT keeps the hand-set advFactor; QUOTE opts in to refilling it from the Tradier quote's average volume */
+  advSource: 'DEFAULT' | 'QUOTE';
+  intensityWeight: number;
+  advWeight: number;
+  cap: number;
+  watchThreshold: number;
+  goldenThreshold: number;
+  calibration?: LixiCalibration;
+}
+
+export type LixiProfiles = Record<string, Partial<LixiProfile>>;
+
+const STORAGE_KEY = 'LIXI_PROFILES';
+const MIN_CALIBRATION_WINDOWS = 50;
+
+// The original hard-coded model, kept as the profile every symbol starts from
+export const DEFAULT_LIXI_PROFILE: LixiProfile = {
+  advFactor: 50000000,
+  advSource: 'DEFAULT',
+  intensityWeight: 0.65,
+  advWeight: 0.4,
+  cap: 15,
+  watchThreshold: 7.5,
+  goldenThreshold: 8.5
+};
+
+export const profileFor = (profiles: LixiProfiles, symbol: string): LixiProfile => ({
+  ...DEFAULT_LIXI_PROFILE,
+  ...(profiles[symbol] || {})
+});
+
+export const computeLixi = (avgSpread: number, intensity: number, profile: LixiProfile) => {
+  const lixi = -Math.log10(avgSpread || 0.01)
+    + profile.intensityWeight * Math.log10(intensity || 1)
+    + profile.advWeight * Math.log10(profile.advFactor || 1);
+  return Math.min(lixi, profile.cap);
+};
+
+export const windowLixi = (ticks: Tick[], profile: LixiProfile) => {
+  const avgSpread = ticks.reduce((acc, t) => acc + t.spread, 0) / (ticks.length || 1);
+  const intensity = ticks.reduce((acc, t) => acc + t.volume, 0);
+  return computeLixi(avgSpread, intensity, profile);
+};
+
+/** Fills ADV from the quote's average daily volume, only for profiles that opted in to QUOTE. */
+export const withQuoteAdv = (profile: Partial<LixiProfile>, averageVolume: number): Partial<LixiProfile> =>
+  profile.advSource === 'QUOTE' && averageVolume > 0 ? { ...profile, advFactor: averageVolume } : profile;
+
+export const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.min(1, Math.max(0, p)) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+};
+
+/**
+ * Re-scores recorded sessions window by window under the profile and places the watch and golden
+ * thresholds at the requested percentiles, so "golden" means the same share of liquidity everywhere.
+ * Sessions arrive already cut into the symbol's active window type.
+ */
+export const calibrateProfile = (
+  profile: LixiProfile,
+  sessionWindows: Tick[][][],
+  watchPercentile: number = 0.85,
+  goldenPercentile: number = 0.95
+): LixiProfile => {
+  if (!(goldenPercentile > watchPercentile)) throw new Error('Golden percentile must sit above the watch percentile');
+  const values = sessionWindows.flatMap(windows => windows.map(w => windowLixi(w, profile)));
+  if (values.length < MIN_CALIBRATION_WINDOWS) {
+    throw new Error(`Calibration needs at least ${MIN_CALIBRATION_WINDOWS} windows, recordings hold ${values.length}`);
+  }
+
+  const round2 = (v: number) => Math.round(v * 100) / 100;
+  return {
+    ...profile,
+    watchThreshold: round2(percentile(values, watchPercentile)),
+    goldenThreshold: round2(percentile(values, goldenPercentile)),
+    calibration: {
+      watchPercentile,
+      goldenPercentile,
+      windows: values.length,
+      sessions: sessionWindows.length,
+      calibratedAt: new Date().toISOString()
+    }
+  };
+};
+
+export const loadLixiProfiles = (): LixiProfiles => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    // Corrupt profile store: every symbol falls back to the default model
+  }
+  return {};
+};
+
+export const saveLixiProfiles = (profiles: LixiProfiles) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    // Storage quota or privacy mode; profiles stay in memory for the session
+  }
+};
@@ -0,0 +1,56 @@
+import { Schema } from "@google/genai";
+import { GeminiProvider } from "./geminiProvider";
+import { StubProvider } from "./stubProvider";
+
+export type LlmTask = 'MARKET_DATA' | 'SENTIMENT' | 'ANALYSIS';
+
+export interface LlmRequest {
+  task: LlmTask;
+  symbol: string;
+  prompt: string;
+  schema: Schema;
+  /** Anchor price for providers that fabricate responses without live data */
+  referencePrice?: number;
+  /** Direction already decided locally that the narration must follow */
+  direction?: 'BUY' | 'SELL' | 'WAIT';
+  /** Ground the answer in live web search where the provider supports it */
+  grounded?: boolean;
+  thinkingBudget?: number;
+}
+
+export interface LlmProvider {
+  readonly id: string;
+  /** Whether the provider needs a user-selected API key before the dashboard can poll */
+  readonly requiresKey: boolean;
+  /** Returns the raw model text; schema validation and repair happen in the caller. */
+  generate(request: LlmRequest): Promise<string>;
+  /** Swaps in a key unlocked from the credential vault; an empty key clears it again on lock. */
+  setApiKey?(key: string): void;
+}
+
+export type LlmProviderId = 'gemini' | 'stub';
+
+export const createProvider = (id: LlmProviderId): LlmProvider => {
+  switch (id) {
+    case 'stub':
+      return new StubProvider();
+    case 'gemini':
+    default:
+      // No key at build time: it arrives from the credential vault, or from the AI Studio picker
+      return new GeminiProvider('');
+  }
+};
+
+let activeProvider: LlmProvider | null = null;
+
+/** Lazily builds the provider named by LLM_PROVIDER, defaulting to Gemini. */
+export const getLlmProvider = (): LlmProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider((process.env.LLM_PROVIDER || 'gemini') as LlmProviderId);
+  }
+  return activeProvider;
+};
+
+export const setLlmProvider = (provider: LlmProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,118 @@
+import { TickWindow } from "../types";
+
+/** Which side's passive liquidity soaked up the aggressive flow */
+export type AbsorptionSide = 'BID' | 'ASK';
+/** Which side ran out of aggressors at a new extreme */
+export type ExhaustionSide = 'BUYING' | 'SELLING';
+
+export interface OrderFlowPoint {
+  windowId: string;
+  timestamp: string;
+  /** Aggressive buy volume (trades at the ask) minus aggressive sell volume (trades at the bid) */
+  delta: number;
+  /** Running sum of delta from the oldest window held */
+  cvd: number;
+  /** delta / volume, in [-1, 1]; +1 is all lifted offers */
+  imbalance: number;
+  /** Net delta over the last `CVD_SLOPE_WINDOWS` windows as a share of their volume, in [-1, 1] */
+  cvdSlope: number;
+  volume: number;
+  /** Window-over-window change of the mean mid, as a fraction */
+  move: number;
+  absorption: AbsorptionSide | null;
+  exhaustion: ExhaustionSide | null;
+}
+
+export interface OrderFlowSummary {
+  cvd: number;
+  cvdSlope: number;
+  imbalance: number;
+  /** Most recent flags within the last `FLAG_RECENCY` windows */
+  absorption: AbsorptionSide | null;
+  exhaustion: ExhaustionSide | null;
+  windows: number;
+}
+
+export const CVD_SLOPE_WINDOWS = 5;
+// Rolling baseline used to judge "heavy" volume and "small" moves
+const BASELINE_WINDOWS = 20;
+// One-sided flow: at least this share of the window's volume net in one direction
+const HEAVY_IMBALANCE = 0.3;
+const HEAVY_VOLUME = 1.5;
+// Heavy flow that moved price less than this share of the typical move was absorbed
+const STALLED_MOVE = 0.25;
+// A new extreme over this many windows on delta below this share of typical |delta| is exhaustion
+const EXTREME_LOOKBACK = 5;
+const FADING_DELTA = 0.25;
+const FLAG_RECENCY = 3;
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : 0;
+
+/**
+ * Per-window delta, cumulative delta, imbalance and absorption/exhaustion flags. Windows arrive
+ * newest-first, as held in the dashboard, and points are returned in the same order.
+ */
+export const computeOrderFlow = (windows: TickWindow[]): OrderFlowPoint[] => {
+  const chronological = [...windows].reverse();
+  const points: OrderFlowPoint[] = [];
+  let cvd = 0;
+
+  chronological.forEach((w, i) => {
+    const askVol = w.features.v14_ask_vol || 0;
+    const bidVol = w.features.v15_bid_vol || 0;
+    const volume = askVol + bidVol;
+    const delta = askVol - bidVol;
+    cvd += delta;
+    const move = i > 0 && w.ratio > 0 ? w.ratio - 1 : 0;
+
+    const recent = points.slice(-(CVD_SLOPE_WINDOWS - 1));
+    const slopeVolume = recent.reduce((acc, p) => acc + p.volume, volume);
+    const cvdSlope = slopeVolume > 0 ? recent.reduce((acc, p) => acc + p.delta, delta) / slopeVolume : 0;
+
+    const baseline = points.slice(-BASELINE_WINDOWS);
+    const typicalVolume = mean(baseline.map(p => p.volume));
+    const typicalMove = mean(baseline.map(p => Math.abs(p.move)));
+    const typicalDelta = mean(baseline.map(p => Math.abs(p.delta)));
+    const imbalance = volume > 0 ? delta / volume : 0;
+
+    let absorption: AbsorptionSide | null = null;
+    const heavy = baseline.length >= CVD_SLOPE_WINDOWS && Math.abs(imbalance) >= HEAVY_IMBALANCE && volume >= typicalVolume * HEAVY_VOLUME;
+    // Price failing to follow one-sided aggression means resting orders on the other side took it all
+    if (heavy && typicalMove > 0) {
+      const stalled = Math.abs(move) <= typicalMove * STALLED_MOVE || Math.sign(move) === -Math.sign(delta);
+      if (stalled) absorption = delta < 0 ? 'BID' : 'ASK';
+    }
+
+    let exhaustion: ExhaustionSide | null = null;
+    const prior = chronological.slice(Math.max(0, i - EXTREME_LOOKBACK), i);
+    if (prior.length === EXTREME_LOOKBACK && typicalDelta > 0) {
+      const fading = (side: number) => delta * side < typicalDelta * FADING_DELTA;
+      if (w.meanMid > Math.max(...prior.map(p => p.meanMid)) && fading(1)) exhaustion = 'BUYING';
+      else if (w.meanMid < Math.min(...prior.map(p => p.meanMid)) && fading(-1)) exhaustion = 'SELLING';
+    }
+
+    points.push({ windowId: w.id, timestamp: w.timestamp, delta, cvd, imbalance, cvdSlope, volume, move, absorption, exhaustion });
+  });
+
+  return points.reverse();
+};
+
+/** Latest order-flow state for signal generation; `points` newest-first as returned by computeOrderFlow. */
+export const summarizeOrderFlow = (points: OrderFlowPoint[]): OrderFlowSummary | null => {
+  if (points.length === 0) return null;
+  const recent = points.slice(0, FLAG_RECENCY);
+  return {
+    cvd: points[0].cvd,
+    cvdSlope: points[0].cvdSlope,
+    imbalance: points[0].imbalance,
+    absorption: recent.find(p => p.absorption)?.absorption || null,
+    exhaustion: recent.find(p => p.exhaustion)?.exhaustion || null,
+    windows: points.length
+  };
+};
+
+/** Flags as signed numbers for models: +1 favours upside (bid absorption, selling exhaustion), -1 downside. */
+export const flagBias = (point: OrderFlowPoint) => ({
+  absorption: point.absorption === 'BID' ? 1 : point.absorption === 'ASK' ? -1 : 0,
+  exhaustion: point.exhaustion === 'SELLING' ? 1 : point.exhaustion === 'BUYING' ? -1 : 0
+});
@@ -0,0 +1,297 @@
+import { Signal, Tick } from "../types";
+
+export type PaperSide = 'LONG' | 'SHORT';
+export type PaperExitReason = 'TP' | 'SL' | 'MANUAL';
+/** LIVE trades feed the prop challenge; REPLAY trades come from a replayed session and never do */
+export type PaperSource = 'LIVE' | 'REPLAY';
+
+export interface PaperBrokerConfig {
+  slippagePerShare: number;
+  commissionPerShare: number;
+  minCommission: number;
+}
+
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: PaperSide;
+  quantity: number;
+  limitPrice: number;
+  stopLoss: number;
+  takeProfit: number;
+  createdAt: number;
+  status: 'WORKING' | 'FILLED' | 'CANCELLED';
+  source: PaperSource;
+}
+
+export interface PaperPosition {
+  id: string;
+  orderId: string;
+  symbol: string;
+  side: PaperSide;
+  quantity: number;
+  entryPrice: number;
+  entryTime: number;
+  stopLoss: number;
+  takeProfit: number;
+  entryCommission: number;
+  markPrice: number;
+  unrealizedPnl: number;
+  source: PaperSource;
+}
+
+export interface PaperTrade {
+  id: string;
+  symbol: string;
+  side: PaperSide;
+  quantity: number;
+  entryPrice: number;
+  exitPrice: number;
+  entryTime: number;
+  exitTime: number;
+  exitReason: PaperExitReason;
+  commission: number;
+  realizedPnl: number;
+  source: PaperSource;
+}
+
+export interface PaperBrokerSnapshot {
+  source: PaperSource;
+  config: PaperBrokerConfig;
+  orders: PaperOrder[];
+  positions: PaperPosition[];
+  ledger: PaperTrade[];
+  realizedPnl: number;
+  unrealizedPnl: number;
+}
+
+interface PaperBrokerHandlers {
+  onTrade?: (trade: PaperTrade) => void;
+  onChange?: (snapshot: PaperBrokerSnapshot) => void;
+}
+
+const STORAGE_KEY = 'PAPER_BROKER';
+const MAX_LEDGER = 500;
+
+export const DEFAULT_PAPER_CONFIG: PaperBrokerConfig = {
+  slippagePerShare: 0.01,
+  commissionPerShare: 0.005,
+  minCommission: 1
+};
+
+let sequence = 0;
+const nextId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${(sequence++).toString(36)}`;
+
+/**
+ * In-app simulated broker. Entry limits fill against the opposite side of the book, protective stops
+ * fill as market orders with slippage, and targets fill at their limit price.
+ * A REPLAY broker is a throwaway: it is never persisted and tags everything it creates as REPLAY.
+ */
+export class PaperBroker {
+  readonly source: PaperSource;
+  private config: PaperBrokerConfig;
+  private orders: PaperOrder[] = [];
+  private positions: PaperPosition[] = [];
+  private ledger: PaperTrade[] = [];
+  private handlers: PaperBrokerHandlers;
+
+  constructor(handlers: PaperBrokerHandlers = {}, initial?: Partial<PaperBrokerSnapshot>, source: PaperSource = 'LIVE') {
+    this.handlers = handlers;
+    this.source = source;
+    this.config = { ...DEFAULT_PAPER_CONFIG, ...(initial?.config || {}) };
+    // Snapshots saved before tagging existed only ever held live trading
+    this.orders = (initial?.orders || []).map(o => ({ ...o, source: o.source || 'LIVE' }));
+    this.positions = (initial?.positions || []).map(p => ({ ...p, source: p.source || 'LIVE' }));
+    this.ledger = (initial?.ledger || []).map(t => ({ ...t, source: t.source || 'LIVE' }));
+  }
+
+  static load(handlers: PaperBrokerHandlers = {}): PaperBroker {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) return new PaperBroker(handlers, JSON.parse(saved));
+    } catch (e) {
+      // Corrupt ledger snapshot: start flat
+    }
+    return new PaperBroker(handlers);
+  }
+
+  snapshot(): PaperBrokerSnapshot {
+    return {
+      source: this.source,
+      config: { ...this.config },
+      orders: [...this.orders],
+      positions: [...this.positions],
+      ledger: [...this.ledger],
+      realizedPnl: this.ledger.reduce((acc, t) => acc + t.realizedPnl, 0),
+      unrealizedPnl: this.positions.reduce((acc, p) => acc + p.unrealizedPnl, 0)
+    };
+  }
+
+  setConfig(config: Partial<PaperBrokerConfig>) {
+    this.config = { ...this.config, ...config };
+    this.changed();
+  }
+
+  submitSignal(symbol: string, signal: Signal, quantity: number): PaperOrder {
+    if (signal.type === 'WAIT') throw new Error('WAIT signals cannot be paper traded');
+    if (!Number.isInteger(quantity) || quantity <= 0) throw new Error(`Invalid order quantity: ${quantity}`);
+    const isLong = signal.type === 'BUY';
+    const ordered = isLong
+      ? signal.stopLoss < signal.entry && signal.entry < signal.takeProfit
+      : signal.takeProfit < signal.entry && signal.entry < signal.stopLoss;
+    if (!ordered) throw new Error(`Bracket levels out of order for ${signal.type}`);
+
+    const order: PaperOrder = {
+      id: nextId('PO'),
+      symbol,
+      side: isLong ? 'LONG' : 'SHORT',
+      quantity,
+      limitPrice: signal.entry,
+      stopLoss: signal.stopLoss,
+      takeProfit: signal.takeProfit,
+      createdAt: Date.now(),
+      status: 'WORKING',
+      source: this.source
+    };
+    this.orders = [order, ...this.orders];
+    this.changed();
+    return order;
+  }
+
+  cancelOrder(orderId: string) {
+    this.orders = this.orders.map(o => o.id === orderId && o.status === 'WORKING' ? { ...o, status: 'CANCELLED' } : o);
+    this.changed();
+  }
+
+  closePosition(positionId: string, time: number = Date.now()) {
+    const position = this.positions.find(p => p.id === positionId);
+    if (!position) return;
+    this.exit(position, position.markPrice, 'MANUAL', time);
+    this.changed();
+  }
+
+  /** Cancels working orders and closes every position at its last mark. */
+  flatten(time: number = Date.now()) {
+    this.orders = this.orders.map(o => o.status === 'WORKING' ? { ...o, status: 'CANCELLED' } : o);
+    [...this.positions].forEach(position => this.exit(position, position.markPrice, 'MANUAL', time));
+    this.changed();
+  }
+
+  reset() {
+    this.orders = [];
+    this.positions = [];
+    this.ledger = [];
+    this.changed();
+  }
+
+  onTicks(symbol: string, ticks: Tick[]) {
+    let touched = false;
+    ticks.forEach(tick => {
+      if (tick.bid <= 0 || tick.ask <= 0) return;
+      touched = this.fillEntries(symbol, tick) || touched;
+      touched = this.manageExits(symbol, tick) || touched;
+    });
+    if (touched || this.positions.some(p => p.symbol === symbol)) this.changed();
+  }
+
+  private commissionFor(quantity: number) {
+    return Math.max(this.config.minCommission, quantity * this.config.commissionPerShare);
+  }
+
+  private fillEntries(symbol: string, tick: Tick): boolean {
+    let filled = false;
+    const { slippagePerShare } = this.config;
+    this.orders = this.orders.map(order => {
+      if (order.status !== 'WORKING' || order.symbol !== symbol) return order;
+      const isLong = order.side === 'LONG';
+      const marketable = isLong ? tick.ask <= order.limitPrice : tick.bid >= order.limitPrice;
+      if (!marketable) return order;
+
+      // Slippage can worsen a limit fill but never past the limit itself
+      const fillPrice = isLong
+        ? Math.min(order.limitPrice, tick.ask + slippagePerShare)
+        : Math.max(order.limitPrice, tick.bid - slippagePerShare);
+      this.positions = [...this.positions, {
+        id: nextId('PP'),
+        orderId: order.id,
+        symbol,
+        side: order.side,
+        quantity: order.quantity,
+        entryPrice: fillPrice,
+        entryTime: tick.time,
+        stopLoss: order.stopLoss,
+        takeProfit: order.takeProfit,
+        entryCommission: this.commissionFor(order.quantity),
+        markPrice: fillPrice,
+        unrealizedPnl: 0,
+        source: order.source
+      }];
+      filled = true;
+      return { ...order, status: 'FILLED' };
+    });
+    return filled;
+  }
+
+  private manageExits(symbol: string, tick: Tick): boolean {
+    let exited = false;
+    const { slippagePerShare } = this.config;
+    [...this.positions].forEach(position => {
+      if (position.symbol !== symbol) return;
+      const isLong = position.side === 'LONG';
+      const exitQuote = isLong ? tick.bid : tick.ask;
+
+      const stopHit = isLong ? tick.bid <= position.stopLoss : tick.ask >= position.stopLoss;
+      const targetHit = isLong ? tick.bid >= position.takeProfit : tick.ask <= position.takeProfit;
+      if (stopHit) {
+        this.exit(position, isLong ? exitQuote - slippagePerShare : exitQuote + slippagePerShare, 'SL', tick.time);
+        exited = true;
+      } else if (targetHit) {
+        this.exit(position, position.takeProfit, 'TP', tick.time);
+        exited = true;
+      } else {
+        const pnl = (isLong ? exitQuote - position.entryPrice : position.entryPrice - exitQuote) * position.quantity;
+        this.positions = this.positions.map(p => p.id === position.id ? { ...p, markPrice: exitQuote, unrealizedPnl: pnl } : p);
+      }
+    });
+    return exited;
+  }
+
+  private exit(position: PaperPosition, exitPrice: number, reason: PaperExitReason, time: number) {
+    const isLong = position.side === 'LONG';
+    const commission = position.entryCommission + this.commissionFor(position.quantity);
+    const gross = (isLong ? exitPrice - position.entryPrice : position.entryPrice - exitPrice) * position.quantity;
+    const trade: PaperTrade = {
+      id: nextId('PT'),
+      symbol: position.symbol,
+      side: position.side,
+      quantity: position.quantity,
+      entryPrice: position.entryPrice,
+      exitPrice,
+      entryTime: position.entryTime,
+      exitTime: time,
+      exitReason: reason,
+      commission,
+      realizedPnl: gross - commission,
+      source: position.source
+    };
+    this.positions = this.positions.filter(p => p.id !== position.id);
+    this.ledger = [trade, ...this.ledger].slice(0, MAX_LEDGER);
+    this.handlers.onTrade?.(trade);
+  }
+
+  private changed() {
+    const snapshot = this.snapshot();
+    if (this.source === 'LIVE') this.persist(snapshot);
+    this.handlers.onChange?.(snapshot);
+  }
+
+  private persist(snapshot: PaperBrokerSnapshot) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({
+        config: snapshot.config, orders: snapshot.orders.slice(0, MAX_LEDGER), positions: snapshot.positions, ledger: snapshot.ledger
+      }));
+    } catch (e) {
+      // Storage quota or privacy mode; the in-memory ledger stays authoritative
+    }
+  }
+}
@@ -0,0 +1,204 @@
+import { PropChallengeStats } from "../types";
+import { getSession, tradingDateBefore } from "./sessionCalendar";
+
+export interface PropChallengeRules {
+  startingBalance: number;
+  profitTarget: number;
+  maxLossAmount: number;
+  dailyLossAmount: number;
+  // Most evaluations stop trailing the drawdown floor once it reaches the starting balance
+  lockFloorAtStart: boolean;
+}
+
+export interface PropTradeFill {
+  id: string;
+  symbol: string;
+  realizedPnl: number;
+  timestamp: number;
+  source: 'LIVE' | 'PAPER' | 'MANUAL';
+}
+
+export interface PropDayRecord {
+  session: string;
+  openingEquity: number;
+  closingEquity: number;
+  highEquity: number;
+  lowEquity: number;
+  realizedPnl: number;
+  trades: number;
+  breachedDailyLimit: boolean;
+}
+
+export interface PropChallengeState {
+  rules: PropChallengeRules;
+  stats: PropChallengeStats;
+  balance: number;
+  unrealizedPnl: number;
+  highWaterMark: number;
+  session: string;
+  days: PropDayRecord[];
+  failReason?: string;
+  /** When the evaluation began; fills that closed earlier belong to no challenge (absent on older saves) */
+  startedAt?: number;
+  /** Ids of fills already booked, so a broker fill polled again is not counted twice */
+  appliedFills?: string[];
+}
+
+const STORAGE_KEY = 'PROP_CHALLENGE';
+const MAX_DAY_RECORDS = 90;
+const MAX_APPLIED_FILLS = 500;
+
+/**
+ * Session key (YYYY-MM-DD, New York) that a timestamp belongs to: the trading date whose 9:30 open most
+ * recently passed. Pre-market, weekends and exchange holidays stay on the previous session.
+ */
+export const sessionKeyFor = (time: number) => {
+  const session = getSession(time);
+  if (!session.isTradingDay) return tradingDateBefore(0, time);
+  return session.regularOpen !== null && time >= session.regularOpen ? session.date : tradingDateBefore(1, time);
+};
+
+export const rulesFromStats = (stats: PropChallengeStats): PropChallengeRules => ({
+  startingBalance: stats.startingBalance,
+  profitTarget: stats.profitTarget,
+  maxLossAmount: stats.startingBalance - stats.maxDrawdown,
+  dailyLossAmount: stats.startingBalance - stats.dailyLossLimit,
+  lockFloorAtStart: true
+});
+
+const openDay = (session: string, equity: number): PropDayRecord => ({
+  session,
+  openingEquity: equity,
+  closingEquity: equity,
+  highEquity: equity,
+  lowEquity: equity,
+  realizedPnl: 0,
+  trades: 0,
+  breachedDailyLimit: false
+});
+
+const currentDay = (state: PropChallengeState) => state.days[0];
+
+/** Recomputes equity, floors and status after any change to balance, marks or session. */
+const evaluate = (state: PropChallengeState): PropChallengeState => {
+  const { rules } = state;
+  const equity = state.balance + state.unrealizedPnl;
+  const highWaterMark = Math.max(state.highWaterMark, equity);
+  let trailingFloor = highWaterMark - rules.maxLossAmount;
+  if (rules.lockFloorAtStart) trailingFloor = Math.min(trailingFloor, rules.startingBalance);
+
+  const today = currentDay(state);
+  const dailyFloor = today.openingEquity - rules.dailyLossAmount;
+  const breachedDaily = equity <= dailyFloor;
+  const breachedMax = equity <= trailingFloor;
+
+  const days = [{
+    ...today,
+    closingEquity: equity,
+    highEquity: Math.max(today.highEquity, equity),
+    lowEquity: Math.min(today.lowEquity, equity),
+    breachedDailyLimit: today.breachedDailyLimit || breachedDaily
+  }, ...state.days.slice(1)];
+
+  // A breach is terminal for the evaluation; it never flips back to ACTIVE
+  let failReason = state.failReason;
+  if (!failReason && breachedMax) failReason = `Trailing drawdown floor $${trailingFloor.toFixed(2)} breached`;
+  if (!failReason && breachedDaily) failReason = `Daily loss limit $${dailyFloor.toFixed(2)} breached on ${today.session}`;
+
+  let status: PropChallengeStats['status'] = 'ACTIVE';
+  if (failReason) status = 'FAILING';
+  else if (equity >= rules.profitTarget) status = 'PASSING';
+
+  return {
+    ...state,
+    highWaterMark,
+    days,
+    failReason,
+    stats: {
+      startingBalance: rules.startingBalance,
+      currentEquity: equity,
+      profitTarget: rules.profitTarget,
+      maxDrawdown: trailingFloor,
+      currentDrawdown: Math.max(0, highWaterMark - equity),
+      dailyLossLimit: dailyFloor,
+      status
+    }
+  };
+};
+
+export const createChallenge = (rules: PropChallengeRules, now: number = Date.now()): PropChallengeState => {
+  const session = sessionKeyFor(now);
+  return evaluate({
+    rules,
+    stats: {
+      startingBalance: rules.startingBalance,
+      currentEquity: rules.startingBalance,
+      profitTarget: rules.profitTarget,
+      maxDrawdown: rules.startingBalance - rules.maxLossAmount,
+      currentDrawdown: 0,
+      dailyLossLimit: rules.startingBalance - rules.dailyLossAmount,
+      status: 'ACTIVE'
+    },
+    balance: rules.startingBalance,
+    unrealizedPnl: 0,
+    highWaterMark: rules.startingBalance,
+    session,
+    days: [openDay(session, rules.startingBalance)],
+    startedAt: now,
+    appliedFills: []
+  });
+};
+
+/** Opens a new day record (and a fresh daily loss floor) once the clock crosses the next session open. */
+export const rollSession = (state: PropChallengeState, now: number = Date.now()): PropChallengeState => {
+  const session = sessionKeyFor(now);
+  // Late-arriving fills stamped in an earlier session book into the current day rather than reopen an old one
+  if (session <= state.session) return state;
+  const equity = state.balance + state.unrealizedPnl;
+  return evaluate({
+    ...state,
+    session,
+    days: [openDay(session, equity), ...state.days].slice(0, MAX_DAY_RECORDS)
+  });
+};
+
+/** Books a closed trade; repeats of an id already booked, and trades closed before the challenge began, are ignored. */
+export const applyFill = (state: PropChallengeState, fill: PropTradeFill): PropChallengeState => {
+  const applied = state.appliedFills || [];
+  if (applied.includes(fill.id) || fill.timestamp < (state.startedAt || 0)) return state;
+  const rolled = rollSession(state, fill.timestamp);
+  const today = currentDay(rolled);
+  return evaluate({
+    ...rolled,
+    balance: rolled.balance + fill.realizedPnl,
+    days: [{ ...today, realizedPnl: today.realizedPnl + fill.realizedPnl, trades: today.trades + 1 }, ...rolled.days.slice(1)],
+    appliedFills: [fill.id, ...applied].slice(0, MAX_APPLIED_FILLS)
+  });
+};
+
+export const markToMarket = (state: PropChallengeState, unrealizedPnl: number, now: number = Date.now()): PropChallengeState => {
+  const rolled = rollSession(state, now);
+  if (rolled === state && unrealizedPnl === state.unrealizedPnl) return state;
+  return evaluate({ ...rolled, unrealizedPnl });
+};
+
+export const loadChallenge = (fallback: PropChallengeRules): PropChallengeState => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as PropChallengeState;
+      if (parsed && parsed.rules && Array.isArray(parsed.days) && parsed.days.length > 0) return rollSession(parsed);
+    }
+  } catch (e) {
+    // Corrupt snapshot: start a fresh evaluation rather than crash the dashboard
+  }
+  return createChallenge(fallback);
+};
+
+export const saveChallenge = (state: PropChallengeState) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (e) {
+    // Storage quota or privacy mode; the in-memory state stays authoritative
+  }
+};
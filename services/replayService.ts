@@ -0,0 +1,188 @@
+import { Tick, InstitutionalLevels, HistoricalSignal } from "../types";
+import { TradierBar, parseBarTime } from "./tradierService";
+
+export type ReplaySpeed = 1 | 10 | 'STEP';
+
+export interface ReplaySession {
+  symbol: string;
+  source: 'TICKS' | 'BARS';
+  ticks: Tick[];
+  levels?: InstitutionalLevels;
+  signals?: HistoricalSignal[];
+}
+
+export interface RecordedSessionFile {
+  symbol: string;
+  recordedAt: string;
+  ticks?: Tick[];
+  bars?: TradierBar[];
+  levels?: InstitutionalLevels;
+  signals?: HistoricalSignal[];
+}
+
+interface ReplayHandlers {
+  onTicks: (ticks: Tick[]) => void;
+  onProgress: (cursor: number, total: number) => void;
+  onComplete: () => void;
+}
+
+const NOMINAL_BAR_SPREAD = 0.01;
+// Gaps longer than one minute bar (halts, overnight) are compressed so a replay never stalls
+const MAX_REPLAY_GAP_MS = 60000;
+
+const toNum = (v: unknown) => parseFloat(String(v)) || 0;
+
+/** Deterministic bar-to-tick conversion: no noise, volume split by where the close sits in the bar range. */
+export const barsToTicks = (bars: TradierBar[]): Tick[] => bars.map((b, idx) => {
+  const close = toNum(b.close);
+  const high = toNum(b.high) || close;
+  const low = toNum(b.low) || close;
+  const volume = toNum(b.volume);
+  const buyFraction = high > low ? (close - low) / (high - low) : 0.5;
+  return {
+    time: parseBarTime(String(b.date)) || idx * 60000,
+    bid: close - NOMINAL_BAR_SPREAD / 2,
+    ask: close + NOMINAL_BAR_SPREAD / 2,
+    last: close,
+    mid: close,
+    volume,
+    askVolume: volume * buyFraction,
+    bidVolume: volume * (1 - buyFraction),
+    spread: NOMINAL_BAR_SPREAD
+  };
+}).filter(t => t.last > 0);
+
+const normalizeTick = (t: any): Tick => {
+  const bid = toNum(t.bid);
+  const ask = toNum(t.ask);
+  const mid = toNum(t.mid) || (bid + ask) / 2;
+  return {
+    time: toNum(t.time),
+    bid,
+    ask,
+    last: toNum(t.last) || mid,
+    mid,
+    volume: toNum(t.volume),
+    bidVolume: toNum(t.bidVolume),
+    askVolume: toNum(t.askVolume),
+    spread: toNum(t.spread) || Math.max(0, ask - bid)
+  };
+};
+
+export const parseSessionFile = (text: string): ReplaySession => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  // A bare array is accepted as either ticks or bars depending on its shape
+  const file: RecordedSessionFile = Array.isArray(raw)
+    ? { symbol: 'REPLAY', recordedAt: '', ...(raw.length && 'close' in raw[0] ? { bars: raw } : { ticks: raw }) }
+    : raw;
+
+  let ticks: Tick[] = [];
+  let source: ReplaySession['source'] = 'TICKS';
+  if (Array.isArray(file.ticks) && file.ticks.length > 0) {
+    ticks = file.ticks.map(normalizeTick).filter(t => t.mid > 0);
+  } else if (Array.isArray(file.bars) && file.bars.length > 0) {
+    ticks = barsToTicks(file.bars);
+    source = 'BARS';
+  }
+  if (ticks.length === 0) throw new Error('Replay file contains no ticks or bars');
+
+  return {
+    symbol: String(file.symbol || 'REPLAY').toUpperCase(),
+    source,
+    ticks: ticks.sort((a, b) => a.time - b.time),
+    levels: file.levels,
+    signals: Array.isArray(file.signals) ? file.signals : undefined
+  };
+};
+
+export const buildSessionFile = (symbol: string, ticks: Tick[], levels?: InstitutionalLevels, signals?: HistoricalSignal[]): RecordedSessionFile => ({
+  symbol,
+  recordedAt: new Date().toISOString(),
+  ticks,
+  levels,
+  signals
+});
+
+/**
+ * Plays a recorded session back tick by tick. Pacing follows the recorded timestamps divided by the speed;
+ * in STEP mode nothing advances until step() is called.
+ */
+export class ReplayEngine {
+  private session: ReplaySession;
+  private handlers: ReplayHandlers;
+  private ticksPerStep: number;
+  private cursor = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  speed: ReplaySpeed = 1;
+
+  constructor(session: ReplaySession, handlers: ReplayHandlers, ticksPerStep: number = 1) {
+    this.session = session;
+    this.handlers = handlers;
+    this.ticksPerStep = Math.max(1, ticksPerStep);
+  }
+
+  get isPlaying() {
+    return this.timer !== null;
+  }
+
+  get isComplete() {
+    return this.cursor >= this.session.ticks.length;
+  }
+
+  setSpeed(speed: ReplaySpeed) {
+    this.speed = speed;
+    if (speed === 'STEP') this.pause();
+    else if (this.isPlaying) {
+      this.pause();
+      this.play();
+    }
+  }
+
+  play() {
+    if (this.isPlaying || this.isComplete || this.speed === 'STEP') return;
+    this.scheduleNext(0);
+  }
+
+  pause() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  step() {
+    this.pause();
+    this.emit(this.ticksPerStep);
+  }
+
+  reset() {
+    this.pause();
+    this.cursor = 0;
+    this.handlers.onProgress(0, this.session.ticks.length);
+  }
+
+  private scheduleNext(delay: number) {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.emit(1);
+      if (this.isComplete || this.speed === 'STEP') return;
+      const ticks = this.session.ticks;
+      const gap = Math.min(MAX_REPLAY_GAP_MS, Math.max(0, ticks[this.cursor].time - ticks[this.cursor - 1].time));
+      this.scheduleNext(gap / (this.speed as number));
+    }, delay);
+  }
+
+  private emit(count: number) {
+    const total = this.session.ticks.length;
+    if (this.cursor >= total) return;
+    const batch = this.session.ticks.slice(this.cursor, this.cursor + count);
+    this.cursor += batch.length;
+    this.handlers.onTicks(batch);
+    this.handlers.onProgress(this.cursor, total);
+    if (this.cursor >= total) this.handlers.onComplete();
+  }
+}
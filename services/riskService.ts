@@ -0,0 +1,100 @@
+import { PropChallengeStats, Signal } from "../types";
+
+export interface RiskSettings {
+  /** Percent of current equity put at risk per trade */
+  riskPerTradePct: number;
+  /** Largest fraction of the remaining room to a prop limit one trade may consume */
+  maxRoomUsage: number;
+}
+
+export interface PositionSizing {
+  quantity: number;
+  perShareRisk: number;
+  perShareReward: number;
+  dollarRisk: number;
+  dollarReward: number;
+  /** Target expressed in multiples of the initial risk (R) */
+  rewardRisk: number;
+  riskBudget: number;
+  dailyRoom: number;
+  trailingRoom: number;
+  limitedBy: 'RISK_PCT' | 'DAILY_LIMIT' | 'MAX_DRAWDOWN';
+  blockedReason: string | null;
+}
+
+const STORAGE_KEY = 'RISK_SETTINGS';
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  riskPerTradePct: 0.5,
+  maxRoomUsage: 0.5
+};
+
+/**
+ * Sizes a bracket so the loss at the stop stays inside the risk-per-trade budget and a capped share of
+ * the room left to the daily and trailing floors. `PropChallengeStats` carries both floors as equity levels.
+ */
+export const sizePosition = (signal: Signal, stats: PropChallengeStats, settings: RiskSettings = DEFAULT_RISK_SETTINGS): PositionSizing => {
+  const isLong = signal.type === 'BUY';
+  const perShareRisk = isLong ? signal.entry - signal.stopLoss : signal.stopLoss - signal.entry;
+  const perShareReward = isLong ? signal.takeProfit - signal.entry : signal.entry - signal.takeProfit;
+  const dailyRoom = Math.max(0, stats.currentEquity - stats.dailyLossLimit);
+  const trailingRoom = Math.max(0, stats.currentEquity - stats.maxDrawdown);
+
+  const pctBudget = Math.max(0, stats.currentEquity * settings.riskPerTradePct / 100);
+  const dailyBudget = dailyRoom * settings.maxRoomUsage;
+  const trailingBudget = trailingRoom * settings.maxRoomUsage;
+  const riskBudget = Math.min(pctBudget, dailyBudget, trailingBudget);
+  const limitedBy: PositionSizing['limitedBy'] = riskBudget === pctBudget ? 'RISK_PCT' : riskBudget === dailyBudget ? 'DAILY_LIMIT' : 'MAX_DRAWDOWN';
+
+  const valid = signal.type !== 'WAIT' && perShareRisk > 0 && Number.isFinite(perShareRisk);
+  const quantity = valid ? Math.floor(riskBudget / perShareRisk) : 0;
+
+  let blockedReason: string | null = null;
+  if (signal.type === 'WAIT') blockedReason = 'No trade signal';
+  else if (!valid) blockedReason = 'Stop is on the wrong side of entry';
+  else if (stats.status === 'FAILING') blockedReason = 'Prop challenge failed';
+  else if (dailyRoom <= 0) blockedReason = 'Daily loss limit reached';
+  else if (trailingRoom <= 0) blockedReason = 'Max drawdown reached';
+  else if (quantity < 1) blockedReason = `One share risks $${perShareRisk.toFixed(2)}, over the $${riskBudget.toFixed(2)} budget`;
+
+  return {
+    quantity,
+    perShareRisk: Math.max(0, perShareRisk),
+    perShareReward,
+    dollarRisk: quantity * Math.max(0, perShareRisk),
+    dollarReward: quantity * perShareReward,
+    rewardRisk: valid ? perShareReward / perShareRisk : 0,
+    riskBudget,
+    dailyRoom,
+    trailingRoom,
+    limitedBy,
+    blockedReason
+  };
+};
+
+/** Reason a manually entered quantity cannot be sent, or null when it stays inside the prop limits. */
+export const quantityBreach = (sizing: PositionSizing, quantity: number): string | null => {
+  if (sizing.blockedReason) return sizing.blockedReason;
+  const risk = quantity * sizing.perShareRisk;
+  if (risk >= sizing.dailyRoom) return `$${risk.toFixed(0)} at stop breaches the daily loss limit`;
+  if (risk >= sizing.trailingRoom) return `$${risk.toFixed(0)} at stop breaches max drawdown`;
+  return null;
+};
+
+export const loadRiskSettings = (): RiskSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...DEFAULT_RISK_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    // Corrupt settings: use the defaults
+  }
+  return DEFAULT_RISK_SETTINGS;
+};
+
+export const saveRiskSettings = (settings: RiskSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    // Storage quota or privacy mode; settings last for the session only
+  }
+};
@@ -0,0 +1,140 @@
+import { Schema, Type } from "@google/genai";
+
+export interface FieldIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export class SchemaValidationError extends Error {
+  readonly issues: FieldIssue[];
+  readonly schemaName: string;
+
+  constructor(schemaName: string, issues: FieldIssue[]) {
+    super(`${schemaName} failed validation: ${issues.map(i => `${i.path} expected ${i.expected}, got ${i.received}`).join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.schemaName = schemaName;
+    this.issues = issues;
+  }
+}
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 24 ? value.slice(0, 24) + '…' : value}"`;
+  return typeof value;
+};
+
+/**
+ * Deterministic repairs for common model slips: numeric strings ("512.30", "$512"), enum casing,
+ * and a single object where an array was declared. Anything else is left for validation to report.
+ */
+export const coerceToSchema = (value: unknown, schema: Schema): unknown => {
+  if (value === undefined || value === null) return value;
+  switch (schema.type) {
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value === 'number') return schema.type === Type.INTEGER ? Math.round(value) : value;
+      if (typeof value === 'string') {
+        const parsed = parseFloat(value.replace(/[$,%\s]/g, ''));
+        if (!isNaN(parsed)) return schema.type === Type.INTEGER ? Math.round(parsed) : parsed;
+      }
+      return value;
+    }
+    case Type.STRING: {
+      if (typeof value === 'number') return String(value);
+      if (typeof value === 'string' && schema.enum) {
+        const match = schema.enum.find(e => e.toUpperCase() === value.trim().toUpperCase());
+        return match ?? value;
+      }
+      return value;
+    }
+    case Type.BOOLEAN: {
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      return value;
+    }
+    case Type.ARRAY: {
+      const items = Array.isArray(value) ? value : (typeof value === 'object' ? [value] : value);
+      return Array.isArray(items) && schema.items ? items.map(i => coerceToSchema(i, schema.items as Schema)) : items;
+    }
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return value;
+      const out: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+      Object.entries(schema.properties || {}).forEach(([key, prop]) => {
+        if (key in out) out[key] = coerceToSchema(out[key], prop);
+      });
+      return out;
+    }
+    default:
+      return value;
+  }
+};
+
+export const validateAgainstSchema = (value: unknown, schema: Schema, path: string = '$'): FieldIssue[] => {
+  if (value === undefined || value === null) {
+    return schema.nullable ? [] : [{ path, expected: String(schema.type || 'value').toLowerCase(), received: describe(value) }];
+  }
+  switch (schema.type) {
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== 'number' || !isFinite(value)) return [{ path, expected: 'number', received: describe(value) }];
+      if (schema.minimum !== undefined && value < schema.minimum) return [{ path, expected: `>= ${schema.minimum}`, received: String(value) }];
+      if (schema.maximum !== undefined && value > schema.maximum) return [{ path, expected: `<= ${schema.maximum}`, received: String(value) }];
+      return [];
+    }
+    case Type.STRING: {
+      if (typeof value !== 'string') return [{ path, expected: 'string', received: describe(value) }];
+      if (schema.enum && !schema.enum.includes(value)) return [{ path, expected: schema.enum.join(' | '), received: describe(value) }];
+      return [];
+    }
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [{ path, expected: 'boolean', received: describe(value) }];
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return [{ path, expected: 'array', received: describe(value) }];
+      const min = schema.minItems !== undefined ? parseInt(schema.minItems) : 0;
+      const issues: FieldIssue[] = value.length < min ? [{ path, expected: `>= ${min} items`, received: `${value.length} items` }] : [];
+      return schema.items
+        ? issues.concat(...value.map((item, i) => validateAgainstSchema(item, schema.items as Schema, `${path}[${i}]`)))
+        : issues;
+    }
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return [{ path, expected: 'object', received: describe(value) }];
+      const record = value as Record<string, unknown>;
+      const issues: FieldIssue[] = [];
+      (schema.required || []).forEach(key => {
+        if (record[key] === undefined) issues.push({ path: `${path}.${key}`, expected: 'required field', received: 'missing' });
+      });
+      Object.entries(schema.properties || {}).forEach(([key, prop]) => {
+        if (record[key] !== undefined) issues.push(...validateAgainstSchema(record[key], prop, `${path}.${key}`));
+      });
+      return issues;
+    }
+    default:
+      return [];
+  }
+};
+
+/** Pulls the first JSON object out of model text, tolerating code fences and leading prose. */
+export const extractJson = (text: string): unknown => {
+  let cleaned = text.trim();
+  const fenced = cleaned.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced && fenced[1]) cleaned = fenced[1].trim();
+  const startIdx = cleaned.indexOf('{');
+  const endIdx = cleaned.lastIndexOf('}');
+  if (startIdx !== -1 && endIdx > startIdx) cleaned = cleaned.substring(startIdx, endIdx + 1);
+  return JSON.parse(cleaned);
+};
+
+export const parseWithSchema = <T>(schemaName: string, text: string, schema: Schema): T => {
+  let raw: unknown;
+  try {
+    raw = extractJson(text);
+  } catch (e) {
+    throw new SchemaValidationError(schemaName, [{ path: '$', expected: 'JSON object', received: describe(text) }]);
+  }
+  const repaired = coerceToSchema(raw, schema);
+  const issues = validateAgainstSchema(repaired, schema);
+  if (issues.length > 0) throw new SchemaValidationError(schemaName, issues);
+  return repaired as T;
+};
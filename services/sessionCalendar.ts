@@ -0,0 +1,212 @@
+export type SessionPhase = 'PRE' | 'REGULAR' | 'POST' | 'CLOSED';
+
+export interface SessionInfo {
+  phase: SessionPhase;
+  /** New York calendar date (YYYY-MM-DD) the moment falls on */
+  date: string;
+  isTradingDay: boolean;
+  isHalfDay: boolean;
+  holiday?: string;
+  /** Regular open/close of `date` in epoch ms; null on closed days */
+  regularOpen: number | null;
+  regularClose: number | null;
+  /** Next regular-session open after this moment, and ms until it (0 while regular trading is on) */
+  nextOpen: number;
+  msToOpen: number;
+  /** Ms until the regular close while the regular session is on, otherwise null */
+  msToClose: number | null;
+  minutesSinceOpen: number | null;
+}
+
+const TIME_ZONE = 'America/New_York';
+const PRE_OPEN = 4 * 60;
+const REGULAR_OPEN = 9 * 60 + 30;
+const REGULAR_CLOSE = 16 * 60;
+const HALF_DAY_CLOSE = 13 * 60;
+const POST_CLOSE = 20 * 60;
+const HALF_DAY_POST_CLOSE = 17 * 60;
+
+// NYSE full-day closures. Extend each December when the exchange publishes the following year.
+const HOLIDAYS: Record<string, string> = {
+  '2025-01-01': "New Year's Day",
+  '2025-01-09': 'National Day of Mourning',
+  '2025-01-20': 'Martin Luther King Jr. Day',
+  '2025-02-17': "Washington's Birthday",
+  '2025-04-18': 'Good Friday',
+  '2025-05-26': 'Memorial Day',
+  '2025-06-19': 'Juneteenth',
+  '2025-07-04': 'Independence Day',
+  '2025-09-01': 'Labor Day',
+  '2025-11-27': 'Thanksgiving Day',
+  '2025-12-25': 'Christmas Day',
+  '2026-01-01': "New Year's Day",
+  '2026-01-19': 'Martin Luther King Jr. Day',
+  '2026-02-16': "Washington's Birthday",
+  '2026-04-03': 'Good Friday',
+  '2026-05-25': 'Memorial Day',
+  '2026-06-19': 'Juneteenth',
+  '2026-07-03': 'Independence Day (observed)',
+  '2026-09-07': 'Labor Day',
+  '2026-11-26': 'Thanksgiving Day',
+  '2026-12-25': 'Christmas Day',
+  '2027-01-01': "New Year's Day",
+  '2027-01-18': 'Martin Luther King Jr. Day',
+  '2027-02-15': "Washington's Birthday",
+  '2027-03-26': 'Good Friday',
+  '2027-05-31': 'Memorial Day',
+  '2027-06-18': 'Juneteenth (observed)',
+  '2027-07-05': 'Independence Day (observed)',
+  '2027-09-06': 'Labor Day',
+  '2027-11-25': 'Thanksgiving Day',
+  '2027-12-24': 'Christmas Day (observed)'
+};
+
+// 1:00 PM regular close, 5:00 PM end of after-hours
+const HALF_DAYS: Record<string, string> = {
+  '2025-07-03': 'Independence Day eve',
+  '2025-11-28': 'Day after Thanksgiving',
+  '2025-12-24': 'Christmas Eve',
+  '2026-11-27': 'Day after Thanksgiving',
+  '2026-12-24': 'Christmas Eve',
+  '2027-11-26': 'Day after Thanksgiving'
+};
+
+const DAY_MS = 86400000;
+
+interface NyParts {
+  date: string;
+  minutes: number;
+}
+
+const nyFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false
+});
+
+const nyParts = (time: number): NyParts => {
+  const parts = nyFormatter.formatToParts(new Date(time));
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: (parseInt(get('hour')) % 24) * 60 + parseInt(get('minute')) + parseInt(get('second')) / 60
+  };
+};
+
+/** Epoch ms of a New York wall-clock time, correcting the UTC guess by the zone offset in force (DST-safe). */
+export const nyEpoch = (date: string, minutes: number): number => {
+  const [y, m, d] = date.split('-').map(Number);
+  const wall = Date.UTC(y, m - 1, d) + minutes * 60000;
+  let guess = wall + 5 * 3600000;
+  for (let i = 0; i < 2; i++) {
+    const p = nyParts(guess);
+    const [gy, gm, gd] = p.date.split('-').map(Number);
+    const seen = Date.UTC(gy, gm - 1, gd) + Math.round(p.minutes * 60000 / 1000) * 1000;
+    guess += wall - seen;
+  }
+  return guess;
+};
+
+/** New York trading date (YYYY-MM-DD) a moment falls on; bars carry it as their session id. */
+export const sessionDateOf = (time: number) => nyParts(time).date;
+
+/** Wall-clock New York time ("HH:MM:SS"), the label chart points and recorded signals carry. */
+export const formatNyTime = (time: number) => {
+  try {
+    return new Date(time).toLocaleString('en-US', {
+      timeZone: TIME_ZONE,
+      hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false
+    });
+  } catch (e) {
+    return new Date(time).toLocaleTimeString();
+  }
+};
+
+/** Parses a zone-less exchange stamp ("YYYY-MM-DD HH:MM[:SS]" or with a T) as New York wall-clock time. */
+export const parseNyDateTime = (value: string): number => {
+  const match = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim());
+  if (!match) return NaN;
+  return nyEpoch(match[1], parseInt(match[2]) * 60 + parseInt(match[3])) + parseInt(match[4] || '0') * 1000;
+};
+
+const shiftDate = (date: string, days: number) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d) + days * DAY_MS).toISOString().split('T')[0];
+};
+
+const weekdayOf = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+};
+
+export const isTradingDate = (date: string) => {
+  const day = weekdayOf(date);
+  return day !== 0 && day !== 6 && !HOLIDAYS[date];
+};
+
+const closeMinutes = (date: string) => HALF_DAYS[date] ? HALF_DAY_CLOSE : REGULAR_CLOSE;
+
+/** First regular open strictly after `time`. */
+const nextRegularOpen = (time: number): number => {
+  let date = nyParts(time).date;
+  for (let i = 0; i < 15; i++) {
+    if (isTradingDate(date)) {
+      const open = nyEpoch(date, REGULAR_OPEN);
+      if (open > time) return open;
+    }
+    date = shiftDate(date, 1);
+  }
+  return time + DAY_MS;
+};
+
+export const getSession = (time: number = Date.now()): SessionInfo => {
+  const { date, minutes } = nyParts(time);
+  const trading = isTradingDate(date);
+  const isHalfDay = trading && !!HALF_DAYS[date];
+  const close = closeMinutes(date);
+  const postClose = isHalfDay ? HALF_DAY_POST_CLOSE : POST_CLOSE;
+
+  let phase: SessionPhase = 'CLOSED';
+  if (trading) {
+    if (minutes >= REGULAR_OPEN && minutes < close) phase = 'REGULAR';
+    else if (minutes >= PRE_OPEN && minutes < REGULAR_OPEN) phase = 'PRE';
+    else if (minutes >= close && minutes < postClose) phase = 'POST';
+  }
+
+  const regularOpen = trading ? nyEpoch(date, REGULAR_OPEN) : null;
+  const regularClose = trading ? nyEpoch(date, close) : null;
+  const nextOpen = phase === 'REGULAR' && regularOpen !== null ? regularOpen : nextRegularOpen(time);
+
+  return {
+    phase,
+    date,
+    isTradingDay: trading,
+    isHalfDay,
+    holiday: HOLIDAYS[date] || HALF_DAYS[date],
+    regularOpen,
+    regularClose,
+    nextOpen,
+    msToOpen: phase === 'REGULAR' ? 0 : Math.max(0, nextOpen - time),
+    msToClose: phase === 'REGULAR' && regularClose !== null ? regularClose - time : null,
+    minutesSinceOpen: phase === 'REGULAR' ? Math.floor(minutes - REGULAR_OPEN) : null
+  };
+};
+
+/** The New York date `sessions` trading days before the one `time` falls on (or the last one, on a closed day). */
+export const tradingDateBefore = (sessions: number, time: number = Date.now()): string => {
+  let date = nyParts(time).date;
+  while (!isTradingDate(date)) date = shiftDate(date, -1);
+  for (let found = 0; found < sessions;) {
+    date = shiftDate(date, -1);
+    if (isTradingDate(date)) found++;
+  }
+  return date;
+};
+
+export const formatCountdown = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const mins = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+};
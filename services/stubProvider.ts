@@ -0,0 +1,101 @@
+import { LlmProvider, LlmRequest } from "./llmProvider";
+
+const BASE_PRICES: Record<string, number> = { SPY: 520, QQQ: 440 };
+const HISTORY_POINTS = 120;
+
+const hashSymbol = (symbol: string) => symbol.split('').reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) >>> 0, 7);
+
+// Park-Miller LCG so fixtures are identical across runs for the same symbol
+const seededRandom = (seed: number) => {
+  let state = (seed % 2147483646) + 1;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+};
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+const basePriceFor = (symbol: string) => BASE_PRICES[symbol] || 50 + (hashSymbol(symbol) % 450);
+
+const marketDataFixture = (symbol: string) => {
+  const rand = seededRandom(hashSymbol(symbol));
+  const open = basePriceFor(symbol);
+  let price = open;
+  const history = Array.from({ length: HISTORY_POINTS }, (_, i) => {
+    price = price * (1 + (rand() - 0.5) * 0.0016);
+    const minutes = 9 * 60 + 30 + i;
+    return {
+      time: `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`,
+      price: round2(price),
+      volume: 2000 + Math.floor(rand() * 5000)
+    };
+  });
+  const yesterdayClose = round2(open * 0.997);
+  return {
+    currentPrice: round2(price),
+    change24h: round2(((price - yesterdayClose) / yesterdayClose) * 100),
+    vix: 15.4,
+    hp: Math.round(open * 1.004),
+    mhp: Math.round(open * 0.994),
+    gammaFlip: round2(open * 0.998),
+    maxGamma: Math.round(open),
+    vannaPivot: Math.round(open * 1.008),
+    yesterdayClose,
+    todayOpen: round2(open),
+    history
+  };
+};
+
+const sentimentFixture = (symbol: string) => ({
+  score: 18,
+  label: 'NEUTRAL',
+  headlines: [
+    { title: `${symbol} holds above weekly hedge pressure into the close`, sentiment: 'BULLISH', source: 'Stub Wire' },
+    { title: 'Dealers remain long gamma as VIX drifts lower', sentiment: 'NEUTRAL', source: 'Stub Wire' },
+    { title: 'Rate path repricing caps upside in duration-sensitive names', sentiment: 'BEARISH', source: 'Stub Wire' }
+  ]
+});
+
+const analysisFixture = (symbol: string, referencePrice: number, direction: 'BUY' | 'SELL' | 'WAIT') => {
+  const entry = round2(referencePrice || basePriceFor(symbol));
+  const side = direction === 'SELL' ? -1 : 1;
+  return {
+    sentiment: direction === 'SELL' ? 'BEARISH' : direction === 'BUY' ? 'BULLISH' : 'NEUTRAL',
+    liquidityScore: 64,
+    signal: {
+      type: direction,
+      confidence: 68,
+      entry,
+      stopLoss: round2(entry * (1 - side * 0.003)),
+      takeProfit: round2(entry * (1 + side * 0.006)),
+      reasoning: `Stub provider fixture: ensemble ${direction} narrated against the gamma flip.`,
+      liquidityZone: 'GAMMA FLIP',
+      executionStatus: direction === 'WAIT' ? 'SIT OUT' : 'RISK ON',
+      isGoldenSetup: false
+    },
+    macroFactors: ['Stub fixture', 'No network access']
+  };
+};
+
+/**
+ * Offline provider returning deterministic fixtures, so the dashboard runs in dev and CI without
+ * keys or network. Output depends only on the task, symbol, reference price and direction.
+ */
+export class StubProvider implements LlmProvider {
+  readonly id = 'stub';
+  readonly requiresKey = false;
+
+  async generate(request: LlmRequest): Promise<string> {
+    switch (request.task) {
+      case 'MARKET_DATA':
+        return JSON.stringify(marketDataFixture(request.symbol));
+      case 'SENTIMENT':
+        return JSON.stringify(sentimentFixture(request.symbol));
+      case 'ANALYSIS':
+        return JSON.stringify(analysisFixture(request.symbol, request.referencePrice || 0, request.direction || 'BUY'));
+      default:
+        throw new Error(`Stub provider has no fixture for ${request.task}`);
+    }
+  }
+}
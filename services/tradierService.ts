@@ -1,5 +1,8 @@
 
-import { Tick, TickLabel, TickWindow } from "../types";
+import { Signal, Tick, TickLabel, TickWindow } from "../types";
+import { DEFAULT_LIXI_PROFILE, LixiProfile, computeLixi } from "./lixiService";
+import { TradierStream, TradierStreamOptions, TradierStreamSession } from "./tradierStream";
+import { parseNyDateTime, tradingDateBefore } from "./sessionCalendar";
 
 const generateSafeId = () => {
   try {
@@ -20,6 +23,13 @@ export interface TradierQuote {
   description: string;
   prevclose?: number;
   open?: number;
+  bid?: number;
+  ask?: number;
+  bidsize?: number;
+  asksize?: number;
+  average_volume?: number;
+  /** Epoch ms of the last trade; the data-quality check reads staleness from it */
+  trade_date?: number;
 }
 
 export interface TradierBar {
@@ -31,16 +41,220 @@ export interface TradierBar {
   volume: number;
 }
 
+export const parseBarTime = (date: string) => {
+  // Intraday stamps are exchange wall-clock without a zone; reading them as browser-local would shift every bar
+  const wall = parseNyDateTime(date);
+  if (!isNaN(wall)) return wall;
+  const parsed = Date.parse(date);
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+export interface TradierOptionGreeks {
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  mid_iv: number;
+  smv_vol: number;
+}
+
+export interface TradierOptionContract {
+  symbol: string;
+  underlying: string;
+  strike: number;
+  option_type: 'call' | 'put';
+  expiration_date: string;
+  open_interest: number;
+  volume: number;
+  bid: number;
+  ask: number;
+  greeks?: TradierOptionGreeks | null;
+}
+
+export interface TradierEndpoints {
+  apiUrl?: string;
+  streamUrl?: string;
+}
+
+export type TradierOrderSide = 'buy' | 'sell' | 'sell_short' | 'buy_to_cover';
+export type TradierOrderType = 'market' | 'limit' | 'stop' | 'stop_limit';
+
+export interface TradierOrderLeg {
+  symbol: string;
+  side: TradierOrderSide;
+  quantity: number;
+  type: TradierOrderType;
+  price?: number;
+  stop?: number;
+}
+
+export interface TradierOrderRequest {
+  class: 'equity' | 'otoco';
+  duration: 'day' | 'gtc';
+  legs: TradierOrderLeg[];
+  tag?: string;
+  preview?: boolean;
+}
+
+export interface TradierOrderResult {
+  id: number;
+  status: string;
+  partner_id?: string;
+}
+
+export interface TradierOrder {
+  id: number;
+  type: string;
+  symbol: string;
+  side: string;
+  quantity: number;
+  status: string;
+  duration: string;
+  price?: number;
+  stop_price?: number;
+  avg_fill_price?: number;
+  exec_quantity?: number;
+  class: string;
+  create_date: string;
+  transaction_date?: string;
+  tag?: string;
+  leg?: TradierOrder[];
+}
+
+/** A bracket whose entry and one exit have both filled: a finished round trip. */
+export interface ClosedBracket {
+  orderId: number;
+  symbol: string;
+  quantity: number;
+  entryPrice: number;
+  exitPrice: number;
+  exitReason: 'TARGET' | 'STOP';
+  realizedPnl: number;
+  closedAt: number;
+}
+
+export interface TradierPosition {
+  id: number;
+  symbol: string;
+  quantity: number;
+  cost_basis: number;
+  date_acquired: string;
+}
+
+// Tag on every bracket the dashboard routes, so its fills can be told apart from orders placed elsewhere
+export const ORDER_TAG_PREFIX = 'aether-';
+
+// Prior regular sessions pulled alongside today's for intraday context
+const HISTORY_SESSIONS = 2;
+
+const roundPrice = (v: number) => Math.round(v * 100) / 100;
+
+const asArray = <T>(v: T | T[] | undefined | null): T[] => v == null ? [] : Array.isArray(v) ? v : [v];
+
+// Tradier explains rejections in the body: {"errors":{"error":[...]}} from order validation, {"fault":{...}} from the gateway
+const errorDetail = (body: string) => {
+  try {
+    const parsed = JSON.parse(body);
+    const messages = asArray<string>(parsed?.errors?.error);
+    if (messages.length > 0) return messages.join('; ');
+    if (parsed?.fault?.faultstring) return String(parsed.fault.faultstring);
+  } catch (e) {
+    // Plain-text body: used as is
+  }
+  return body.trim().slice(0, 200);
+};
+
+/**
+ * Builds an OTOCO bracket from a signal: a limit entry that, once filled, arms a take-profit limit
+ * and a protective stop where either fill cancels the other.
+ */
+export const buildBracketOrder = (symbol: string, signal: Signal, quantity: number, tag?: string): TradierOrderRequest => {
+  if (signal.type === 'WAIT') throw new Error('WAIT signals cannot be executed');
+  if (!Number.isInteger(quantity) || quantity <= 0) throw new Error(`Invalid order quantity: ${quantity}`);
+  const isLong = signal.type === 'BUY';
+  const { entry, stopLoss, takeProfit } = signal;
+  const ordered = isLong ? stopLoss < entry && entry < takeProfit : takeProfit < entry && entry < stopLoss;
+  if (!(entry > 0) || !ordered) {
+    throw new Error(`Bracket levels out of order for ${signal.type}: stop ${stopLoss}, entry ${entry}, target ${takeProfit}`);
+  }
+  const exitSide: TradierOrderSide = isLong ? 'sell' : 'buy_to_cover';
+  return {
+    class: 'otoco',
+    duration: 'day',
+    tag,
+    legs: [
+      { symbol, side: isLong ? 'buy' : 'sell_short', quantity, type: 'limit', price: roundPrice(entry) },
+      { symbol, side: exitSide, quantity, type: 'limit', price: roundPrice(takeProfit) },
+      { symbol, side: exitSide, quantity, type: 'stop', stop: roundPrice(stopLoss) }
+    ]
+  };
+};
+
+/**
+ * Round trips finished by the dashboard's OTOCO brackets, priced from the legs' average fills. Brackets
+ * still working, cancelled before entry, or routed by something else are left out.
+ */
+export const closedBrackets = (orders: TradierOrder[], tagPrefix: string = ORDER_TAG_PREFIX): ClosedBracket[] => orders.flatMap(order => {
+  if (order.class !== 'otoco' || !order.tag?.startsWith(tagPrefix)) return [];
+  const [entry, ...exits] = asArray(order.leg);
+  const exit = exits.find(leg => leg.status === 'filled');
+  if (!entry || entry.status !== 'filled' || !exit) return [];
+  const quantity = exit.exec_quantity || entry.exec_quantity || entry.quantity;
+  const entryPrice = entry.avg_fill_price || 0;
+  const exitPrice = exit.avg_fill_price || 0;
+  const perShare = entry.side === 'buy' ? exitPrice - entryPrice : entryPrice - exitPrice;
+  return [{
+    orderId: order.id,
+    symbol: order.symbol,
+    quantity,
+    entryPrice,
+    exitPrice,
+    exitReason: exit.type === 'stop' ? 'STOP' : 'TARGET',
+    realizedPnl: roundPrice(perShare * quantity),
+    closedAt: Date.parse(exit.transaction_date || '') || Date.now()
+  }];
+});
+
+const encodeOrder = (order: TradierOrderRequest): URLSearchParams => {
+  const params = new URLSearchParams();
+  params.set('class', order.class);
+  params.set('duration', order.duration);
+  if (order.tag) params.set('tag', order.tag);
+  if (order.preview) params.set('preview', 'true');
+
+  const setLeg = (leg: TradierOrderLeg, suffix: string) => {
+    params.set(`symbol${suffix}`, leg.symbol);
+    params.set(`side${suffix}`, leg.side);
+    params.set(`quantity${suffix}`, String(leg.quantity));
+    params.set(`type${suffix}`, leg.type);
+    if (leg.price !== undefined) params.set(`price${suffix}`, leg.price.toFixed(2));
+    if (leg.stop !== undefined) params.set(`stop${suffix}`, leg.stop.toFixed(2));
+  };
+
+  // Single equity orders use flat params; multi-leg classes index each leg as symbol[0], side[0], ...
+  if (order.class === 'equity') setLeg(order.legs[0], '');
+  else order.legs.forEach((leg, i) => setLeg(leg, `[${i}]`));
+  return params;
+};
+
 export class TradierService {
   private baseUrl: string;
+  private streamUrl: string | null;
   private token: string;
   private alpha = 1e-5; 
+  private accountId: string | null = null;
+  readonly isSandbox: boolean;
+  // Orders against a live brokerage account must be opted into explicitly for each bridge
+  allowLiveTrading = false;
 
-  constructor(token: string, isSandbox: boolean = false) {
+  constructor(token: string, isSandbox: boolean = false, endpoints: TradierEndpoints = {}) {
     this.token = token;
-    this.baseUrl = isSandbox 
+    this.isSandbox = isSandbox;
+    this.baseUrl = endpoints.apiUrl || (isSandbox 
       ? 'https://sandbox.tradier.com/v1' 
-      : 'https://api.tradier.com/v1';
+      : 'https://api.tradier.com/v1');
+    // Tradier does not offer streaming on the sandbox; an explicit URL (e.g. a local mock) overrides that
+    this.streamUrl = endpoints.streamUrl || (isSandbox ? null : 'wss://ws.tradier.com/v1/markets/events');
   }
 
   private async fetchTradier(endpoint: string, method: string = 'GET', body?: any) {
@@ -53,13 +267,19 @@ export class TradierService {
         headers: { 'Authorization': `Bearer ${this.token}`, 'Accept': 'application/json' },
         signal: controller.signal
       };
-      if (body) {
+      if (body instanceof URLSearchParams) {
+        options.body = body.toString();
+        options.headers = { ...options.headers, 'Content-Type': 'application/x-www-form-urlencoded' };
+      } else if (body) {
         options.body = JSON.stringify(body);
         options.headers = { ...options.headers, 'Content-Type': 'application/json' };
       }
       const response = await fetch(`${this.baseUrl}${endpoint}`, options);
       clearTimeout(timeoutId);
-      if (!response.ok) throw new Error(`Tradier API error: ${response.status}`);
+      if (!response.ok) {
+        const detail = errorDetail(await response.text().catch(() => ''));
+        throw new Error(`Tradier API error: ${response.status}${detail ? ` (${detail})` : ''}`);
+      }
       return await response.json();
     } catch (err) {
       clearTimeout(timeoutId);
@@ -75,16 +295,100 @@ export class TradierService {
   }
 
   async getIntradayHistory(symbol: string): Promise<TradierBar[]> {
-    const start = new Date();
-    // For Monday open, ensure we look back to Friday for context but prioritize today's bars
-    start.setDate(start.getDate() - 3);
-    const startStr = `${start.toISOString().split('T')[0]} 09:30`;
+    // Count back in trading days so Mondays and post-holiday opens still carry prior sessions for context
+    const startStr = `${tradingDateBefore(HISTORY_SESSIONS)} 09:30`;
     const data = await this.fetchTradier(`/markets/timesales?symbol=${symbol}&interval=1min&start=${startStr}&session=true`);
-    if (!data.series || !data.series.data) return [];
-    return Array.isArray(data.series.data) ? data.series.data : [data.series.data];
+    // Timesales rows are stamped `time` where daily history uses `date`; consumers read `date` for both
+    return asArray<any>(data.series?.data).map(row => ({ ...row, date: row.date || row.time }));
+  }
+
+  /** Account holder and account numbers behind the token; doubles as the vault's connection test. */
+  async getProfile(): Promise<{ name: string; accounts: string[] }> {
+    const data = await this.fetchTradier('/user/profile');
+    return {
+      name: String(data.profile?.name || ''),
+      accounts: asArray<any>(data.profile?.account).map(a => String(a.account_number || '')).filter(Boolean)
+    };
+  }
+
+  async getAccountId(): Promise<string> {
+    if (this.accountId) return this.accountId;
+    const data = await this.fetchTradier('/user/profile');
+    const account = asArray<any>(data.profile?.account)[0];
+    if (!account || !account.account_number) throw new Error('No Tradier account on this token');
+    this.accountId = String(account.account_number);
+    return this.accountId;
+  }
+
+  get canTrade(): boolean {
+    return !!this.token && (this.isSandbox || this.allowLiveTrading);
+  }
+
+  async placeOrder(order: TradierOrderRequest): Promise<TradierOrderResult> {
+    if (!this.canTrade) throw new Error('Live order placement is disabled for this bridge');
+    const accountId = await this.getAccountId();
+    const data = await this.fetchTradier(`/accounts/${accountId}/orders`, 'POST', encodeOrder(order));
+    if (data.errors) throw new Error(`Tradier rejected order: ${asArray(data.errors.error).join('; ')}`);
+    if (!data.order) throw new Error('Tradier returned no order acknowledgement');
+    return data.order;
+  }
+
+  async placeBracketOrder(symbol: string, signal: Signal, quantity: number, tag?: string): Promise<TradierOrderResult> {
+    return this.placeOrder(buildBracketOrder(symbol, signal, quantity, tag));
+  }
+
+  async cancelOrder(orderId: number): Promise<TradierOrderResult> {
+    const accountId = await this.getAccountId();
+    const data = await this.fetchTradier(`/accounts/${accountId}/orders/${orderId}`, 'DELETE');
+    if (!data.order) throw new Error(`Tradier could not cancel order ${orderId}`);
+    return data.order;
+  }
+
+  async getOrders(): Promise<TradierOrder[]> {
+    const accountId = await this.getAccountId();
+    const data = await this.fetchTradier(`/accounts/${accountId}/orders?includeTags=true`);
+    return asArray<TradierOrder>(data.orders?.order);
+  }
+
+  async getPositions(): Promise<TradierPosition[]> {
+    const accountId = await this.getAccountId();
+    const data = await this.fetchTradier(`/accounts/${accountId}/positions`);
+    return asArray<TradierPosition>(data.positions?.position);
+  }
+
+  async getOptionExpirations(symbol: string): Promise<string[]> {
+    const data = await this.fetchTradier(`/markets/options/expirations?symbol=${symbol}&includeAllRoots=true`);
+    return asArray<string>(data.expirations?.date);
+  }
+
+  async getOptionChain(symbol: string, expiration: string): Promise<TradierOptionContract[]> {
+    const data = await this.fetchTradier(`/markets/options/chains?symbol=${symbol}&expiration=${expiration}&greeks=true`);
+    return asArray<TradierOptionContract>(data.options?.option);
+  }
+
+  get supportsStreaming(): boolean {
+    return !!this.token && !!this.streamUrl;
+  }
+
+  async createStreamSession(): Promise<TradierStreamSession> {
+    const data = await this.fetchTradier('/markets/events/session', 'POST');
+    if (!data.stream || !data.stream.sessionid) throw new Error('Tradier stream session unavailable');
+    return data.stream;
+  }
+
+  openStream(symbols: string[], handlers: Pick<TradierStreamOptions, 'onTicks' | 'onStateChange'>): TradierStream {
+    if (!this.streamUrl) throw new Error('Tradier streaming unavailable for this endpoint');
+    const stream = new TradierStream({
+      url: this.streamUrl,
+      symbols,
+      createSession: () => this.createStreamSession(),
+      ...handlers
+    });
+    stream.start();
+    return stream;
   }
 
-  calculateWindowLabel(currentTicks: Tick[], lastWindowMid: number): TickWindow {
+  calculateWindowLabel(currentTicks: Tick[], lastWindowMid: number, profile: LixiProfile = DEFAULT_LIXI_PROFILE, alpha: number = this.alpha): TickWindow {
     const meanMid = currentTicks.reduce((acc, t) => acc + t.mid, 0) / currentTicks.length;
     const ratio = meanMid / lastWindowMid;
     const first = currentTicks[0];
@@ -96,17 +400,12 @@ export class TradierService {
     const v14_ask_vol = currentTicks.reduce((acc, t) => acc + t.askVolume, 0);
     const v15_bid_vol = currentTicks.reduce((acc, t) => acc + t.bidVolume, 0);
 
-    // DYNAMIC LIXI SCALING: Adjusted to use real Volume (v10) more aggressively
-    // This makes the Monday 9:30AM spikes significantly more pronounced
-    const advFactor = 50000000; 
     const avgSpread = currentTicks.reduce((acc, t) => acc + t.spread, 0) / currentTicks.length;
-    
-    // Weighted formula: Intensity (v10) now has a larger coefficient for "actual" feel
-    const lixi = -Math.log10(avgSpread || 0.01) + 0.65 * Math.log10(v10 || 1) + 0.4 * Math.log10(advFactor);
+    const lixi = computeLixi(avgSpread, v10, profile);
 
     let label = TickLabel.STATIONARY;
-    if (ratio > (1 + this.alpha)) label = TickLabel.UPWARDS;
-    else if (ratio < (1 - this.alpha)) label = TickLabel.DOWNWARDS;
+    if (ratio > (1 + alpha)) label = TickLabel.UPWARDS;
+    else if (ratio < (1 - alpha)) label = TickLabel.DOWNWARDS;
 
     return {
       id: generateSafeId(),
@@ -122,10 +421,10 @@ export class TradierService {
         v15_bid_vol,
         v11_22_derivatives: currentTicks.map((t, i) => i > 0 ? t.mid - currentTicks[i-1].mid : 0)
       },
-      lixi: Math.min(lixi, 15), // Cap for UI stability
+      lixi,
       label,
       ratio,
-      timestamp: new Date().toLocaleTimeString()
+      timestamp: new Date(last.time || Date.now()).toLocaleTimeString()
     };
   }
 }
@@ -0,0 +1,239 @@
+import { Tick } from "../types";
+
+export interface TradierStreamSession {
+  url: string;
+  sessionid: string;
+}
+
+export type StreamState = 'CONNECTING' | 'OPEN' | 'STALE' | 'RECONNECTING' | 'CLOSED';
+
+interface QuoteEvent {
+  type: 'quote';
+  symbol: string;
+  bid: number | string;
+  bidsz: number | string;
+  ask: number | string;
+  asksz: number | string;
+}
+
+interface TradeEvent {
+  type: 'trade';
+  symbol: string;
+  price: number | string;
+  size: number | string;
+  date: number | string;
+}
+
+interface BookState {
+  bid: number;
+  ask: number;
+  bidSize: number;
+  askSize: number;
+}
+
+export interface TradierStreamOptions {
+  url: string;
+  symbols: string[];
+  createSession: () => Promise<TradierStreamSession>;
+  onTicks: (symbol: string, ticks: Tick[]) => void;
+  onStateChange?: (state: StreamState) => void;
+  heartbeatTimeoutMs?: number;
+  flushIntervalMs?: number;
+  maxBufferedTicks?: number;
+  reconnectBaseDelayMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+const toNum = (v: unknown) => parseFloat(String(v)) || 0;
+
+/**
+ * WebSocket client for the Tradier market events stream.
+ * Trades are emitted as Ticks enriched with the latest quote; quotes only update the book.
+ * Ticks are buffered and flushed in batches so a burst of prints cannot flood React state.
+ */
+export class TradierStream {
+  private opts: Required<TradierStreamOptions>;
+  private socket: WebSocket | null = null;
+  private books = new Map<string, BookState>();
+  private buffers = new Map<string, Tick[]>();
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private stopped = false;
+  private state: StreamState = 'CLOSED';
+  droppedTicks = 0;
+
+  constructor(options: TradierStreamOptions) {
+    this.opts = {
+      onStateChange: () => {},
+      heartbeatTimeoutMs: 60000,
+      flushIntervalMs: 250,
+      maxBufferedTicks: 2000,
+      reconnectBaseDelayMs: 1000,
+      maxReconnectDelayMs: 30000,
+      ...options
+    };
+  }
+
+  get currentState() {
+    return this.state;
+  }
+
+  start() {
+    this.stopped = false;
+    this.flushTimer = setInterval(() => this.flush(), this.opts.flushIntervalMs);
+    this.connect();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.flushTimer = this.heartbeatTimer = this.reconnectTimer = null;
+    this.teardownSocket();
+    // Buffered ticks belong to the subscription being torn down; delivering them now would land them on whatever replaced it
+    this.buffers.clear();
+    this.setState('CLOSED');
+  }
+
+  private setState(state: StreamState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.opts.onStateChange(state);
+  }
+
+  private async connect() {
+    this.setState(this.reconnectAttempts === 0 ? 'CONNECTING' : 'RECONNECTING');
+    try {
+      // Sessions are single-use and expire after a few minutes, so every (re)connect asks for a fresh one
+      const session = await this.opts.createSession();
+      if (this.stopped) return;
+
+      const socket = new WebSocket(this.opts.url);
+      this.socket = socket;
+
+      socket.onopen = () => {
+        socket.send(JSON.stringify({
+          symbols: this.opts.symbols,
+          sessionid: session.sessionid,
+          filter: ['quote', 'trade'],
+          linebreak: true
+        }));
+        this.setState('OPEN');
+        this.armHeartbeat();
+      };
+      socket.onmessage = (event) => {
+        // Backoff resets only once the server has actually spoken; accept-then-close keeps backing off
+        this.reconnectAttempts = 0;
+        this.armHeartbeat();
+        if (this.state === 'STALE') this.setState('OPEN');
+        String(event.data).split('\n').forEach(line => this.handleLine(line));
+      };
+      socket.onerror = () => socket.close();
+      socket.onclose = () => {
+        if (this.socket === socket) this.scheduleReconnect();
+      };
+    } catch (err) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private teardownSocket() {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onopen = socket.onmessage = socket.onclose = null;
+      // Closing a socket that is still connecting raises an error event; the discarded socket should not react to it
+      socket.onerror = () => {};
+      try { socket.close(); } catch (e) { /* already closed */ }
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.stopped) return;
+    this.teardownSocket();
+    if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer);
+    this.setState('RECONNECTING');
+    const delay = Math.min(this.opts.maxReconnectDelayMs, this.opts.reconnectBaseDelayMs * Math.pow(2, this.reconnectAttempts));
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private armHeartbeat() {
+    if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer);
+    this.heartbeatTimer = setTimeout(() => {
+      // Silence past the timeout means the pipe is dead even if the socket claims to be open
+      this.setState('STALE');
+      this.scheduleReconnect();
+    }, this.opts.heartbeatTimeoutMs);
+  }
+
+  private handleLine(line: string) {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    let event: any;
+    try {
+      event = JSON.parse(trimmed);
+    } catch (e) {
+      return;
+    }
+    if (event.type === 'quote') this.handleQuote(event as QuoteEvent);
+    else if (event.type === 'trade') this.handleTrade(event as TradeEvent);
+  }
+
+  private handleQuote(event: QuoteEvent) {
+    this.books.set(event.symbol, {
+      bid: toNum(event.bid),
+      ask: toNum(event.ask),
+      bidSize: toNum(event.bidsz),
+      askSize: toNum(event.asksz)
+    });
+  }
+
+  private handleTrade(event: TradeEvent) {
+    const price = toNum(event.price);
+    const size = toNum(event.size);
+    if (price <= 0 || size <= 0) return;
+
+    const book = this.books.get(event.symbol);
+    const bid = book && book.bid > 0 ? book.bid : price;
+    const ask = book && book.ask > 0 ? book.ask : price;
+
+    // Aggressor side: prints at or through the ask are buyer-initiated, at or through the bid seller-initiated
+    let askVolume = size / 2;
+    let bidVolume = size / 2;
+    if (price >= ask && ask > bid) { askVolume = size; bidVolume = 0; }
+    else if (price <= bid && ask > bid) { askVolume = 0; bidVolume = size; }
+
+    const tick: Tick = {
+      time: toNum(event.date) || Date.now(),
+      bid,
+      ask,
+      last: price,
+      mid: (bid + ask) / 2,
+      volume: size,
+      bidVolume,
+      askVolume,
+      spread: Math.max(0, ask - bid)
+    };
+
+    const buffer = this.buffers.get(event.symbol) || [];
+    buffer.push(tick);
+    if (buffer.length > this.opts.maxBufferedTicks) {
+      const overflow = buffer.length - this.opts.maxBufferedTicks;
+      buffer.splice(0, overflow);
+      this.droppedTicks += overflow;
+    }
+    this.buffers.set(event.symbol, buffer);
+  }
+
+  private flush() {
+    this.buffers.forEach((ticks, symbol) => {
+      if (ticks.length === 0) return;
+      this.buffers.set(symbol, []);
+      this.opts.onTicks(symbol, ticks);
+    });
+  }
+}
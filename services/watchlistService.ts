@@ -0,0 +1,66 @@
+import { InstitutionalLevels, Tick } from "../types";
+import { TradierQuote } from "./tradierService";
+import { SYMBOLS } from "../constants";
+
+export interface WatchlistSummary {
+  symbol: string;
+  price: number;
+  change: number;
+  levels?: InstitutionalLevels;
+  levelsAt?: number;
+  updatedAt: number;
+}
+
+const STORAGE_KEY = 'WATCHLIST';
+export const MAX_WATCHLIST = 12;
+
+/** Upper-cases and validates a ticker; returns null for anything that is not a plausible equity symbol. */
+export const normalizeSymbol = (raw: string): string | null => {
+  const symbol = raw.trim().toUpperCase();
+  return /^[A-Z][A-Z.]{0,5}$/.test(symbol) ? symbol : null;
+};
+
+export const loadWatchlist = (): string[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      const symbols = Array.isArray(parsed) ? parsed.map(s => normalizeSymbol(String(s))).filter((s): s is string => !!s) : [];
+      if (symbols.length > 0) return Array.from(new Set(symbols)).slice(0, MAX_WATCHLIST);
+    }
+  } catch (e) {
+    // Corrupt list: fall back to the default symbols
+  }
+  return [...SYMBOLS];
+};
+
+export const saveWatchlist = (symbols: string[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(symbols));
+  } catch (e) {
+    // Storage quota or privacy mode; the list lasts for the session only
+  }
+};
+
+/**
+ * Turns a polled quote into a single tick for background windowing. The quote's volume is cumulative
+ * for the day, so the tick carries the delta since the previous poll, split evenly between sides.
+ */
+export const quoteToTick = (quote: TradierQuote, previousVolume: number, time: number = Date.now()): Tick | null => {
+  const bid = Number(quote.bid) || 0;
+  const ask = Number(quote.ask) || 0;
+  if (bid <= 0 || ask <= 0) return null;
+  const volume = previousVolume > 0 ? Math.max(0, (Number(quote.volume) || 0) - previousVolume) : 0;
+  const mid = (bid + ask) / 2;
+  return {
+    time,
+    bid,
+    ask,
+    mid,
+    last: Number(quote.last) || mid,
+    spread: ask - bid,
+    volume,
+    bidVolume: volume / 2,
+    askVolume: volume / 2
+  };
+};
@@ -0,0 +1,132 @@
+import { Tick } from "../types";
+
+export type WindowMode = 'COUNT' | 'TIME' | 'VOLUME' | 'DOLLAR';
+
+/**
+ * `size` is in the mode's own unit: ticks for COUNT, milliseconds for TIME, shares for VOLUME and
+ * dollars for DOLLAR. `alpha` is the mean-mid ratio band inside which a window labels STATIONARY.
+ */
+export interface WindowingConfig {
+  mode: WindowMode;
+  size: number;
+  alpha: number;
+}
+
+export interface WindowPreset {
+  id: string;
+  label: string;
+  config: WindowingConfig;
+}
+
+const STORAGE_KEY = 'WINDOWING_PROFILES';
+
+// The original fixed 4-tick chunks with alpha 1e-5
+export const DEFAULT_WINDOWING: WindowingConfig = { mode: 'COUNT', size: 4, alpha: 1e-5 };
+
+// Larger bars carry larger typical moves, so each gets a wider stationary band
+export const WINDOW_PRESETS: WindowPreset[] = [
+  { id: 'COUNT_4', label: '4 Ticks', config: DEFAULT_WINDOWING },
+  { id: 'COUNT_20', label: '20 Ticks', config: { mode: 'COUNT', size: 20, alpha: 2e-5 } },
+  { id: 'TIME_15S', label: '15s', config: { mode: 'TIME', size: 15000, alpha: 2e-5 } },
+  { id: 'TIME_1M', label: '1m', config: { mode: 'TIME', size: 60000, alpha: 5e-5 } },
+  { id: 'VOLUME_50K', label: '50K Sh', config: { mode: 'VOLUME', size: 50000, alpha: 3e-5 } },
+  { id: 'DOLLAR_25M', label: '$25M', config: { mode: 'DOLLAR', size: 25000000, alpha: 3e-5 } }
+];
+
+export const sameWindowing = (a: WindowingConfig, b: WindowingConfig) =>
+  a.mode === b.mode && a.size === b.size && a.alpha === b.alpha;
+
+export const presetFor = (config: WindowingConfig) => WINDOW_PRESETS.find(p => sameWindowing(p.config, config)) || null;
+
+export const describeWindowing = (config: WindowingConfig) => {
+  const preset = presetFor(config);
+  if (preset) return preset.label;
+  switch (config.mode) {
+    case 'TIME': return `${config.size / 1000}s`;
+    case 'VOLUME': return `${config.size} Sh`;
+    case 'DOLLAR': return `$${config.size}`;
+    default: return `${config.size} Ticks`;
+  }
+};
+
+/**
+ * Accumulates ticks into bars of the configured type. Ticks are never split across bars, so volume
+ * and dollar bars close on the tick that crosses the size. Time bars are aligned to the epoch and
+ * close when the first tick of the next bucket arrives.
+ */
+export class WindowBuilder {
+  readonly config: WindowingConfig;
+  private pending: Tick[] = [];
+  private accumulated = 0;
+
+  constructor(config: WindowingConfig) {
+    this.config = config;
+  }
+
+  push(ticks: Tick[]): Tick[][] {
+    const closed: Tick[][] = [];
+    ticks.forEach(tick => {
+      if (this.config.mode === 'TIME' && this.pending.length > 0 && this.bucketOf(tick) !== this.bucketOf(this.pending[0])) {
+        closed.push(this.take());
+      }
+      this.pending.push(tick);
+      if (this.config.mode === 'VOLUME') this.accumulated += tick.volume;
+      else if (this.config.mode === 'DOLLAR') this.accumulated += tick.volume * (tick.last || tick.mid);
+
+      const full = this.config.mode === 'COUNT'
+        ? this.pending.length >= this.config.size
+        : this.config.mode !== 'TIME' && this.accumulated >= this.config.size;
+      if (full) closed.push(this.take());
+    });
+    return closed;
+  }
+
+  /** Emits the partial bar still accumulating, if any. */
+  flush(): Tick[][] {
+    return this.pending.length > 0 ? [this.take()] : [];
+  }
+
+  reset() {
+    this.pending = [];
+    this.accumulated = 0;
+  }
+
+  private bucketOf(tick: Tick) {
+    return Math.floor(tick.time / Math.max(1, this.config.size));
+  }
+
+  private take(): Tick[] {
+    const bar = this.pending;
+    this.reset();
+    return bar;
+  }
+}
+
+/** Splits a complete tick series into bars, including the trailing partial bar. */
+export const buildWindows = (ticks: Tick[], config: WindowingConfig): Tick[][] => {
+  const builder = new WindowBuilder(config);
+  return [...builder.push(ticks), ...builder.flush()];
+};
+
+export type WindowingProfiles = Record<string, WindowingConfig>;
+
+export const windowingFor = (profiles: WindowingProfiles, symbol: string): WindowingConfig =>
+  profiles[symbol] || DEFAULT_WINDOWING;
+
+export const loadWindowingProfiles = (): WindowingProfiles => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    // Corrupt store: every symbol falls back to 4-tick windows
+  }
+  return {};
+};
+
+export const saveWindowingProfiles = (profiles: WindowingProfiles) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    // Storage quota or privacy mode; the selection lasts for the session only
+  }
+};
@@ -0,0 +1,105 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AlertChannelConfig, AlertDispatcher, ChannelDeliveryStatus, WEBHOOK_TEMPLATES } from '../services/alertChannels';
+import { Alert } from '../types';
+
+interface Received {
+  contentType: string | undefined;
+  body: string;
+}
+
+/** A local receiver whose replies are scripted per request; unscripted requests get a 200 */
+const startReceiver = async (reply: (index: number, res: ServerResponse) => void) => {
+  const received: Received[] = [];
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ contentType: req.headers['content-type'], body });
+      reply(received.length - 1, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/hook`, received, server };
+};
+
+const webhook = (url: string, template = WEBHOOK_TEMPLATES.SLACK): AlertChannelConfig => ({
+  id: 'webhook', kind: 'WEBHOOK', name: 'Webhook', enabled: true, minSeverity: 'WARNING', url, template
+});
+
+const alert: Alert = {
+  id: 'a-1', type: 'GOLDEN', severity: 'CRITICAL', symbol: 'SPY', message: 'Golden setup "long" at 500.25',
+  timestamp: '11:00:00', epoch: 1741964400000, acknowledged: false
+};
+
+const dispatcher = (statuses: ChannelDeliveryStatus[], webhookTimeoutMs = 1000) =>
+  new AlertDispatcher({ onStatus: (_, status) => statuses.push(status), webhookTimeoutMs, retryDelayMs: 10 }, []);
+
+const deliver = async (config: AlertChannelConfig, statuses: ChannelDeliveryStatus[], webhookTimeoutMs?: number) => {
+  const target = dispatcher(statuses, webhookTimeoutMs);
+  target.setChannels([config]);
+  target.dispatch(alert);
+  await expect.poll(() => statuses.length, { timeout: 5000 }).toBe(1);
+  return statuses[0];
+};
+
+describe('WebhookChannel delivery', () => {
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    server?.closeAllConnections();
+    await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+    server = null;
+  });
+
+  it('posts the rendered template as JSON', async () => {
+    const receiver = await startReceiver((_, res) => res.end('ok'));
+    server = receiver.server;
+    const statuses: ChannelDeliveryStatus[] = [];
+    const status = await deliver(webhook(receiver.url, WEBHOOK_TEMPLATES.RAW), statuses);
+
+    expect(status).toMatchObject({ ok: true, detail: 'delivered' });
+    expect(receiver.received).toHaveLength(1);
+    expect(receiver.received[0].contentType).toBe('application/json');
+    expect(JSON.parse(receiver.received[0].body)).toEqual({
+      id: 'a-1', type: 'GOLDEN', severity: 'CRITICAL', symbol: 'SPY', message: 'Golden setup "long" at 500.25', epoch: 1741964400000
+    });
+  });
+
+  it('retries after a server error', async () => {
+    const receiver = await startReceiver((index, res) => {
+      res.statusCode = index === 0 ? 500 : 200;
+      res.end();
+    });
+    server = receiver.server;
+    const statuses: ChannelDeliveryStatus[] = [];
+    const status = await deliver(webhook(receiver.url), statuses);
+
+    expect(status).toMatchObject({ ok: true, detail: 'delivered after 2 attempts' });
+    expect(receiver.received).toHaveLength(2);
+    expect(JSON.parse(receiver.received[1].body)).toEqual({ text: '*CRITICAL* GOLDEN SPY: Golden setup "long" at 500.25' });
+  });
+
+  it('aborts an attempt the receiver never answers', async () => {
+    // Never replies, so every attempt has to be cut off by the timeout
+    const receiver = await startReceiver(() => {});
+    server = receiver.server;
+    const statuses: ChannelDeliveryStatus[] = [];
+    const status = await deliver(webhook(receiver.url), statuses, 100);
+
+    expect(status).toMatchObject({ ok: false, detail: 'Webhook timed out after 100 ms' });
+    expect(receiver.received).toHaveLength(3);
+  });
+
+  it('does not retry a template that cannot render', async () => {
+    const receiver = await startReceiver((_, res) => res.end());
+    server = receiver.server;
+    const statuses: ChannelDeliveryStatus[] = [];
+    const status = await deliver(webhook(receiver.url, '{"text": {{message}}}'), statuses);
+
+    expect(status).toMatchObject({ ok: false, detail: 'Webhook template does not render to valid JSON' });
+    expect(receiver.received).toHaveLength(0);
+  });
+});
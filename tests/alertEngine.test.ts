@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { AlertEngine, AlertRule, DEFAULT_RULES, RuleContext, describeRule } from '../services/alertEngine';
+import { getSession, nyEpoch } from '../services/sessionCalendar';
+import { HistoricalSignal, InstitutionalLevels, TickLabel, TickWindow } from '../types';
+
+type Fired = Parameters<ConstructorParameters<typeof AlertEngine>[0]['onAlert']>[0];
+
+const rule = (overrides: Partial<AlertRule>): AlertRule => ({
+  id: 'r1', name: 'Rule', enabled: true, symbol: '*', metric: 'PRICE', operator: '>', value: 500, severity: 'WARNING', cooldownMs: 0,
+  ...overrides
+});
+
+const engineWith = (...rules: AlertRule[]) => {
+  const fired: Fired[] = [];
+  return { engine: new AlertEngine({ onAlert: a => fired.push(a) }, rules), fired };
+};
+
+const windows = (...labels: TickLabel[]) => labels.map((label, i) => ({ id: `w${i}`, label, lixi: i === 0 ? 6 : 1 }) as TickWindow);
+
+const levels = { hp: 505, mhp: 510, hg: 499, gammaFlip: 498, maxGamma: 500, vannaPivot: 502, bias: 'NEUTRAL' } as InstitutionalLevels;
+
+const signal = (overrides: Partial<HistoricalSignal> = {}) => ({
+  id: 's1', type: 'BUY', voteCount: 88, confidence: 70, entry: 500, isGoldenSetup: false, ...overrides
+}) as HistoricalSignal;
+
+const at = (minutes: number) => nyEpoch('2025-03-14', minutes);
+
+describe('AlertEngine state rules', () => {
+  it('fires on the false to true edge only', () => {
+    const { engine, fired } = engineWith(rule({}));
+    [499, 501, 502, 499, 503].forEach((price, i) => engine.evaluate({ symbol: 'SPY', price }, i * 1000));
+    expect(fired).toHaveLength(2);
+    expect(fired[0]).toMatchObject({ type: 'SIGNAL', severity: 'WARNING', symbol: 'SPY', ruleId: 'r1', message: 'Rule: SPY price 501.00 vs 500' });
+  });
+
+  it('holds a re-armed rule back until its cooldown has passed', () => {
+    const { engine, fired } = engineWith(rule({ cooldownMs: 60000 }));
+    [[501, 0], [499, 10000], [501, 20000], [499, 30000], [501, 61000]].forEach(([price, offset]) => engine.evaluate({ symbol: 'SPY', price }, at(11 * 60) + offset));
+    expect(fired).toHaveLength(2);
+  });
+
+  it('keeps edge state and cooldowns per symbol', () => {
+    const { engine, fired } = engineWith(rule({ cooldownMs: 60000 }));
+    engine.evaluate({ symbol: 'SPY', price: 501 }, at(11 * 60));
+    engine.evaluate({ symbol: 'QQQ', price: 501 }, at(11 * 60) + 1000);
+    expect(fired.map(a => a.symbol)).toEqual(['SPY', 'QQQ']);
+  });
+
+  it('skips disabled rules and rules for other symbols', () => {
+    const { engine, fired } = engineWith(rule({ enabled: false }), rule({ id: 'r2', symbol: 'QQQ' }));
+    engine.evaluate({ symbol: 'SPY', price: 501 }, 0);
+    expect(fired).toEqual([]);
+  });
+
+  it('detects price and level crosses against the previous evaluation', () => {
+    const { engine, fired } = engineWith(
+      rule({ id: 'above', operator: 'CROSSES_ABOVE', value: 500 }),
+      rule({ id: 'flip', metric: 'LEVEL_CROSS', operator: 'CROSSES_BELOW', level: 'gammaFlip' })
+    );
+    [499.5, 500.2, 498.5, 497.9].forEach((price, i) => engine.evaluate({ symbol: 'SPY', price, levels }, i));
+
+    expect(fired.map(a => a.ruleId)).toEqual(['above', 'flip']);
+    expect(fired[1].message).toBe('Rule: SPY 497.90 crossed Gamma Flip 498.00');
+  });
+
+  it('leaves edge state alone while the data a rule needs is missing', () => {
+    const { engine, fired } = engineWith(rule({ metric: 'LIXI', operator: '>', value: 5 }));
+    engine.evaluate({ symbol: 'SPY', windows: windows(TickLabel.UPWARDS) }, 0);
+    engine.evaluate({ symbol: 'SPY' }, 1);
+    engine.evaluate({ symbol: 'SPY', windows: windows(TickLabel.UPWARDS) }, 2);
+    expect(fired).toHaveLength(1);
+  });
+
+  it('counts a label streak from the newest window', () => {
+    const { engine, fired } = engineWith(rule({ metric: 'LABEL_STREAK', value: 3, label: TickLabel.DOWNWARDS }));
+    engine.evaluate({ symbol: 'SPY', windows: windows(TickLabel.DOWNWARDS, TickLabel.DOWNWARDS, TickLabel.UPWARDS, TickLabel.DOWNWARDS) }, 0);
+    engine.evaluate({ symbol: 'SPY', windows: windows(TickLabel.DOWNWARDS, TickLabel.DOWNWARDS, TickLabel.DOWNWARDS) }, 1);
+    expect(fired.map(a => a.message)).toEqual(['Rule: SPY 3 consecutive DOWNWARDS windows']);
+  });
+});
+
+describe('AlertEngine session phases', () => {
+  const golden = DEFAULT_RULES[0];
+  const ctx = (minutes: number): RuleContext => ({ symbol: 'SPY', windows: windows(TickLabel.UPWARDS), goldenThreshold: 5, session: getSession(at(minutes)) });
+
+  it('waits for the regular session and fires on entering it', () => {
+    const { engine, fired } = engineWith(golden);
+    engine.evaluate(ctx(9 * 60), at(9 * 60));
+    expect(fired).toEqual([]);
+
+    engine.evaluate(ctx(9 * 60 + 35), at(9 * 60 + 35));
+    expect(fired).toHaveLength(1);
+    expect(fired[0]).toMatchObject({ type: 'GOLDEN', severity: 'CRITICAL', message: 'Golden liquidity cluster: SPY opening cross, LIXI 6.00' });
+  });
+
+  it('reports a cluster after the opening cross as institutional', () => {
+    const { engine, fired } = engineWith(golden);
+    engine.evaluate(ctx(11 * 60), at(11 * 60));
+    expect(fired[0].message).toMatch(/institutional cluster/);
+  });
+});
+
+describe('AlertEngine signal rules', () => {
+  it('fires once per signal without edge state', () => {
+    const { engine, fired } = engineWith(DEFAULT_RULES[1]);
+    engine.evaluate({ symbol: 'SPY', signal: signal() }, 0);
+    engine.evaluate({ symbol: 'SPY', signal: signal({ id: 's2', voteCount: 91 }) }, 1);
+    engine.evaluate({ symbol: 'SPY', signal: signal({ id: 's3', voteCount: 60 }) }, 2);
+
+    expect(fired.map(a => a.message)).toEqual(['Premium setup: SPY BUY 88% votes at $500.00', 'Premium setup: SPY BUY 91% votes at $500.00']);
+  });
+
+  it('keeps signal rules and state rules apart', () => {
+    const { engine, fired } = engineWith(rule({ id: 'type', metric: 'SIGNAL_TYPE', signalType: 'SELL' }), rule({ id: 'golden', metric: 'GOLDEN_SETUP' }), rule({ id: 'price' }));
+    engine.evaluate({ symbol: 'SPY', price: 501, signal: signal({ type: 'SELL', isGoldenSetup: true }) }, 0);
+    expect(fired.map(a => [a.ruleId, a.type])).toEqual([['type', 'SIGNAL'], ['golden', 'GOLDEN']]);
+  });
+});
+
+describe('describeRule', () => {
+  it('reads each metric in words', () => {
+    expect(describeRule(rule({ metric: 'LEVEL_CROSS', operator: 'CROSSES_ABOVE', level: 'hp' }))).toBe('price crosses above HP');
+    expect(describeRule(rule({ metric: 'LABEL_STREAK', value: 4 }))).toBe('4+ UPWARDS windows');
+    expect(describeRule(rule({ metric: 'SENTIMENT_SCORE', operator: '<=', value: -40 }))).toBe('sentiment score <= -40');
+  });
+});
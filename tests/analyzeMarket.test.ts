@@ -0,0 +1,106 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeMarket, bracketIssues } from '../services/geminiService';
+import { EnsembleResult } from '../services/ensembleService';
+import { LlmProvider, LlmRequest, setLlmProvider } from '../services/llmProvider';
+import { SchemaValidationError } from '../services/schemaValidation';
+import { StubProvider } from '../services/stubProvider';
+import { MarketData } from '../types';
+
+const ensemble: EnsembleResult = {
+  direction: 'SELL', voteCount: 60, upVotes: 10, downVotes: 60, abstentions: 30,
+  probabilityUp: 0.41, models: 100, samples: 40, insights: []
+};
+
+vi.mock('../services/ensembleService', () => ({ runEnsemble: () => ensemble }));
+
+const data = { symbol: 'SPY', currentPrice: 500, vix: 15, levels: { gammaFlip: 498, hp: 505 } } as MarketData;
+
+/** Wraps the stub fixtures, flipping the bracket to the wrong side for the first `inverted` replies */
+class InvertingProvider implements LlmProvider {
+  readonly id = 'inverting';
+  readonly requiresKey = false;
+  readonly prompts: string[] = [];
+  private readonly stub = new StubProvider();
+
+  constructor(private inverted: number) {}
+
+  async generate(request: LlmRequest): Promise<string> {
+    this.prompts.push(request.prompt);
+    const reply = JSON.parse(await this.stub.generate(request));
+    if (this.inverted > 0) {
+      this.inverted--;
+      [reply.signal.stopLoss, reply.signal.takeProfit] = [reply.signal.takeProfit, reply.signal.stopLoss];
+    }
+    return JSON.stringify(reply);
+  }
+}
+
+describe('analyzeMarket bracket orientation', () => {
+  beforeEach(() => {
+    ensemble.direction = 'SELL';
+  });
+
+  afterAll(() => {
+    setLlmProvider(new StubProvider());
+  });
+
+  it('sends an inverted bracket back for repair', async () => {
+    const provider = new InvertingProvider(1);
+    setLlmProvider(provider);
+    const result = await analyzeMarket(data, []);
+
+    expect(provider.prompts).toHaveLength(2);
+    expect(provider.prompts[1]).toMatch(/\$\.signal\.takeProfit: expected below entry 500 for a SELL/);
+    expect(result.signal.type).toBe('SELL');
+    expect(result.signal.takeProfit).toBeLessThan(result.signal.entry);
+    expect(result.signal.stopLoss).toBeGreaterThan(result.signal.entry);
+  });
+
+  it('rejects the signal when repairs never fix the bracket', async () => {
+    const provider = new InvertingProvider(Infinity);
+    setLlmProvider(provider);
+    await expect(analyzeMarket(data, [])).rejects.toBeInstanceOf(SchemaValidationError);
+    expect(provider.prompts).toHaveLength(3);
+  });
+
+  it('leaves WAIT levels unchecked', async () => {
+    ensemble.direction = 'WAIT';
+    const provider = new InvertingProvider(Infinity);
+    setLlmProvider(provider);
+    await analyzeMarket(data, []);
+    expect(provider.prompts).toHaveLength(1);
+  });
+
+  it('checks each side against the entry', () => {
+    const signal = { entry: 100, stopLoss: 99, takeProfit: 102 } as Parameters<typeof bracketIssues>[0];
+    expect(bracketIssues(signal, 'BUY')).toEqual([]);
+    expect(bracketIssues(signal, 'SELL').map(i => i.path)).toEqual(['$.signal.takeProfit', '$.signal.stopLoss']);
+    expect(bracketIssues({ ...signal, entry: 0 }, 'BUY').map(i => i.path)).toEqual(['$.signal.entry', '$.signal.stopLoss']);
+  });
+});
+
+describe('analyzeMarket session context', () => {
+  afterAll(() => {
+    setLlmProvider(new StubProvider());
+  });
+
+  it('quotes prior-day levels and a forming opening range in the prompt', async () => {
+    ensemble.direction = 'SELL';
+    const provider = new InvertingProvider(0);
+    setLlmProvider(provider);
+    const sessionLevels = {
+      session: '2025-03-14', priorSession: '2025-03-13', priorHigh: 505, priorLow: 495.5, priorClose: 501,
+      openingRangeMinutes: 30, openingRangeHigh: 503, openingRangeLow: 499, openingRangeComplete: false
+    };
+    await analyzeMarket({ ...data, sessionLevels }, []);
+
+    expect(provider.prompts[0]).toContain('HP: 505, PDH: 505, PDL: 495.5, PDC: 501, OR30: 499-503 (forming)');
+  });
+
+  it('leaves the levels line alone without session levels', async () => {
+    const provider = new InvertingProvider(0);
+    setLlmProvider(provider);
+    await analyzeMarket(data, []);
+    expect(provider.prompts[0]).toMatch(/HP: 505\n/);
+  });
+});
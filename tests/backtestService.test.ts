@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { BacktestBar, DEFAULT_MAX_BARS_HELD, barsFromTicks, barsFromTradier, recordSignal, resolveSignal, runBacktest, voteBucket } from '../services/backtestService';
+import { aggregateCandles, candleIndexAt, candleIndexForLabel } from '../services/candleService';
+import { formatNyTime, sessionDateOf } from '../services/sessionCalendar';
+import { HistoricalSignal, PricePoint, Signal, Tick } from '../types';
+
+const start = Date.parse('2025-03-14T14:30:00Z');
+
+const signal = {
+  id: 'sig-1', symbol: 'SPY', timestamp: new Date(start).toISOString(), type: 'BUY', voteCount: 70,
+  entry: 100, stopLoss: 99, takeProfit: 102, priceAtSignal: 100, isGoldenSetup: false
+} as HistoricalSignal;
+
+// Flat one-minute bars that never reach the stop or the target
+const flatBars = (count: number): BacktestBar[] =>
+  Array.from({ length: count }, (_, i) => ({ time: start + (i + 1) * 60000, high: 100.5, low: 99.5, close: 100.2 }));
+
+describe('resolveSignal hold limit', () => {
+  it('expires at the default hold limit', () => {
+    const result = resolveSignal(signal, flatBars(300));
+    expect(result.outcome).toBe('EXPIRED');
+    expect(result.barsHeld).toBe(DEFAULT_MAX_BARS_HELD);
+    expect(result.resolvedAt).toBe(start + DEFAULT_MAX_BARS_HELD * 60000);
+    expect(result.rMultiple).toBeCloseTo(0.2);
+  });
+
+  it('resolves a target hit inside the limit', () => {
+    const bars = flatBars(30);
+    bars[9] = { ...bars[9], high: 102.5 };
+    expect(resolveSignal(signal, bars)).toMatchObject({ outcome: 'TP', barsHeld: 10, rMultiple: 2 });
+  });
+});
+
+describe('recordSignal during replay', () => {
+  // A recorded morning tape, one print every 15 s from 11:00 ET; the replay clock stops at 11:20
+  const ticks = Array.from({ length: 240 }, (_, i) => {
+    const price = 100 + (i >= 120 ? (i - 120) * 0.02 : 0);
+    return { time: start + 30 * 60000 + i * 15000, last: price, mid: price, volume: 100 } as Tick;
+  });
+  const points: PricePoint[] = ticks.map(t => ({ time: formatNyTime(t.time), epoch: t.time, session: sessionDateOf(t.time), price: t.last, volume: t.volume }));
+  const candles = aggregateCandles(points, 1);
+  const replayClock = start + 50 * 60000;
+  const fresh: Signal = { type: 'BUY', confidence: 70, voteCount: 70, entry: 100, stopLoss: 99, takeProfit: 101, reasoning: '', liquidityZone: 'GAMMA FLIP', executionStatus: 'RISK ON', isGoldenSetup: false };
+
+  it('lands on the replayed candle and resolves on the bars after it', () => {
+    const recorded = recordSignal(fresh, 'SPY', 100, replayClock, 'sig-replay');
+    const index = candleIndexAt(candles, Date.parse(recorded.timestamp), 1);
+
+    expect(recorded.chartTime).toBe('11:20:00');
+    expect(candles[index].time).toBe('11:20:00');
+    expect(candleIndexForLabel(candles, recorded.chartTime)).toBe(index);
+    expect(resolveSignal(recorded, barsFromTicks(ticks)).outcome).toBe('TP');
+  });
+
+  it('misses the tape when stamped with the wall clock', () => {
+    const recorded = recordSignal(fresh, 'SPY', 100, Date.now(), 'sig-live');
+    expect(candleIndexAt(candles, Date.parse(recorded.timestamp), 1)).toBe(-1);
+    expect(resolveSignal(recorded, barsFromTicks(ticks)).outcome).toBe('NO_DATA');
+  });
+});
+
+describe('resolveSignal fills', () => {
+  const short = { ...signal, id: 'sig-2', type: 'SELL', entry: 100, stopLoss: 101, takeProfit: 98 } as HistoricalSignal;
+
+  it('assumes the stop filled first when one bar spans both levels', () => {
+    const bars = flatBars(5);
+    bars[2] = { ...bars[2], high: 102.5, low: 98.5 };
+    expect(resolveSignal(signal, bars)).toMatchObject({ outcome: 'SL', exit: 99, rMultiple: -1, maeR: 1, barsHeld: 3 });
+  });
+
+  it('resolves a short against the high for the stop and the low for the target', () => {
+    const bars = flatBars(5);
+    bars[1] = { ...bars[1], high: 100.6 };
+    bars[3] = { ...bars[3], low: 97.9 };
+    const result = resolveSignal(short, bars);
+    expect(result).toMatchObject({ outcome: 'TP', exit: 98, pnlPerShare: 2, rMultiple: 2, barsHeld: 4 });
+    expect(result.maeR).toBeCloseTo(0.6);
+  });
+
+  it('ignores bars at or before the signal time', () => {
+    const bars = [{ time: start, high: 103, low: 98, close: 100 }, ...flatBars(3)];
+    expect(resolveSignal(signal, bars).outcome).toBe('EXPIRED');
+    expect(resolveSignal(signal, bars.slice(0, 1)).outcome).toBe('NO_DATA');
+  });
+
+  it('has no result for a bracket without risk', () => {
+    expect(resolveSignal({ ...signal, stopLoss: 100 }, flatBars(3)).outcome).toBe('NO_DATA');
+  });
+});
+
+describe('runBacktest', () => {
+  const bars = flatBars(10);
+  bars[4] = { ...bars[4], high: 102.2 };
+  const signals = [
+    signal,
+    { ...signal, id: 'sig-golden', isGoldenSetup: true, voteCount: 92 },
+    { ...signal, id: 'sig-short', type: 'SELL', entry: 100, stopLoss: 100.4, takeProfit: 98, voteCount: 64 },
+    { ...signal, id: 'sig-wait', type: 'WAIT' },
+    { ...signal, id: 'sig-late', timestamp: new Date(start + 60 * 60000).toISOString() }
+  ] as HistoricalSignal[];
+
+  it('groups outcomes by type, golden flag and vote bucket', () => {
+    const report = runBacktest(signals, bars);
+
+    expect(report.results.map(r => r.outcome)).toEqual(['TP', 'TP', 'SL', 'NO_DATA']);
+    expect(report.skipped).toBe(2);
+    expect(report.overall).toMatchObject({ trades: 3, wins: 2, losses: 1, expired: 0 });
+    expect(report.overall.winRate).toBeCloseTo(2 / 3);
+    expect(report.overall.avgR).toBeCloseTo(1);
+    expect(report.byType.BUY).toMatchObject({ trades: 2, wins: 2 });
+    expect(report.byType.SELL).toMatchObject({ trades: 1, losses: 1 });
+    expect(report.byGolden.GOLDEN).toMatchObject({ trades: 1, wins: 1 });
+    expect(Object.keys(report.byVoteBucket).sort()).toEqual(['60-69', '70-79', '90-100']);
+  });
+
+  it('buckets vote counts by decile from 60', () => {
+    expect([59, 60, 79, 80, 89, 90, 100].map(voteBucket)).toEqual(['<60', '60-69', '70-79', '80-89', '80-89', '90-100', '90-100']);
+  });
+});
+
+describe('bar sources', () => {
+  it('reads Tradier timesales as New York wall-clock and drops unusable rows', () => {
+    const bars = barsFromTradier([
+      { date: '2025-03-14T10:31:00', open: 1, high: '101' as unknown as number, low: 99, close: 100, volume: 10 },
+      { date: '2025-03-14T10:30:00', open: 1, high: 100.5, low: 99.5, close: 100.2, volume: 10 },
+      { date: 'not a date', open: 1, high: 1, low: 1, close: 1, volume: 1 },
+      { date: '2025-03-14T10:32:00', open: 1, high: 1, low: 1, close: 0, volume: 1 }
+    ]);
+    expect(bars.map(b => b.time)).toEqual([start, start + 60000]);
+    expect(bars[1].high).toBe(101);
+  });
+
+  it('collapses ticks into minute bars and falls back to the mid', () => {
+    const ticks = [
+      { time: start + 1000, last: 100, mid: 100, volume: 1 },
+      { time: start + 20000, last: 0, mid: 100.5, volume: 1 },
+      { time: start + 50000, last: 99.8, mid: 99.8, volume: 1 },
+      { time: start + 61000, last: 0, mid: 0, volume: 1 },
+      { time: start + 65000, last: 100.1, mid: 100.1, volume: 1 }
+    ] as Tick[];
+    expect(barsFromTicks(ticks)).toEqual([
+      { time: start, high: 100.5, low: 99.8, close: 99.8 },
+      { time: start + 60000, high: 100.1, low: 100.1, close: 100.1 }
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateCandles, candleIndexAt, candleIndexForLabel, computeSessionLevels } from '../services/candleService';
+import { formatNyTime, nyEpoch } from '../services/sessionCalendar';
+import { PricePoint } from '../types';
+
+/** A one-minute bar at a New York wall-clock time */
+const bar = (date: string, minutes: number, price: number, volume = 100, extra: Partial<PricePoint> = {}): PricePoint => {
+  const epoch = nyEpoch(date, minutes);
+  return { time: formatNyTime(epoch), epoch, session: date, price, volume, ...extra };
+};
+
+const day = '2025-03-14';
+const OPEN = 9 * 60 + 30;
+
+describe('aggregateCandles', () => {
+  it('rolls minutes into OHLC candles on bucket boundaries', () => {
+    const points = [
+      bar(day, OPEN + 2, 100, 100, { open: 99.5, high: 100.4, low: 99.4 }),
+      bar(day, OPEN + 3, 101, 200),
+      bar(day, OPEN + 4, 100.5, 100),
+      bar(day, OPEN + 5, 100.8, 50)
+    ];
+    const candles = aggregateCandles(points, 5);
+
+    expect(candles.map(c => c.time)).toEqual(['09:30', '09:35']);
+    expect(candles[0]).toMatchObject({ open: 99.5, high: 101, low: 99.4, price: 100.5, volume: 400, sessionOpen: true, sessionBreak: false });
+    // A candle starts on its bucket even when its first print arrives two minutes in
+    expect(candles[0].epoch).toBe(nyEpoch(day, OPEN));
+    expect(candles[1]).toMatchObject({ open: 100.8, high: 100.8, low: 100.8, sessionOpen: false });
+  });
+
+  it('keeps one-minute points as flat candles with their own labels', () => {
+    const candles = aggregateCandles([bar(day, OPEN, 100), bar(day, OPEN + 1, 100.2)]);
+    expect(candles.map(c => [c.time, c.open, c.high, c.low])).toEqual([['09:30:00', 100, 100, 100], ['09:31:00', 100.2, 100.2, 100.2]]);
+  });
+
+  it('drops points without a price', () => {
+    expect(aggregateCandles([bar(day, OPEN, 0), bar(day, OPEN + 1, NaN)])).toEqual([]);
+  });
+
+  it('weights VWAP by volume and anchors it at the regular open', () => {
+    const candles = aggregateCandles([
+      bar(day, OPEN - 1, 90, 1000),
+      bar(day, OPEN, 100, 100),
+      bar(day, OPEN + 1, 103, 300)
+    ]);
+
+    expect(candles[0].vwap).toBe(90);
+    expect(candles[1]).toMatchObject({ vwap: 100, sessionOpen: true });
+    expect(candles[2].vwap).toBeCloseTo(102.25);
+  });
+
+  it('splits a pre-market bucket from the open inside the same timeframe', () => {
+    const candles = aggregateCandles([bar(day, 9 * 60 + 16, 99), bar(day, 9 * 60 + 29, 99.5), bar(day, OPEN, 100)], 15);
+    expect(candles.map(c => [c.time, c.sessionOpen])).toEqual([['09:15', false], ['09:30', true]]);
+    expect(candles[0].price).toBe(99.5);
+  });
+
+  it('does not mark a tape that starts late in the session as an open', () => {
+    const candles = aggregateCandles([bar(day, 11 * 60, 100), bar(day, 11 * 60 + 1, 100.1)]);
+    expect(candles.map(c => c.sessionOpen)).toEqual([false, false]);
+  });
+
+  it('starts a new candle when a label-only tape wraps to the next day', () => {
+    const points = [{ time: '15:58', price: 100, volume: 1 }, { time: '15:59', price: 101, volume: 1 }, { time: '09:31', price: 102, volume: 1 }];
+    const candles = aggregateCandles(points, 15);
+    expect(candles.map(c => c.time)).toEqual(['15:45', '09:30']);
+    expect(candles[1]).toMatchObject({ vwap: 102, epoch: undefined });
+  });
+
+  it('carries the latest strike exposure on a rolled-up candle', () => {
+    const candles = aggregateCandles([bar(day, OPEN, 100, 1, { gamma: 5, vanna: 1 }), bar(day, OPEN + 1, 100, 1, { gamma: -3 })], 5);
+    expect(candles[0]).toMatchObject({ gamma: -3, vanna: 1 });
+  });
+});
+
+describe('candle lookups', () => {
+  const candles = aggregateCandles(Array.from({ length: 30 }, (_, i) => bar(day, OPEN + i, 100 + i / 10)), 5);
+
+  it('anchors a moment to the candle it falls in', () => {
+    expect(candleIndexAt(candles, nyEpoch(day, OPEN + 7) + 30000, 5)).toBe(1);
+    expect(candleIndexAt(candles, nyEpoch(day, OPEN), 5)).toBe(0);
+  });
+
+  it('lets a fresh signal land on the last candle but not long after the tape ends', () => {
+    expect(candleIndexAt(candles, nyEpoch(day, OPEN + 29) + 50000, 5)).toBe(5);
+    expect(candleIndexAt(candles, nyEpoch(day, OPEN + 31), 5)).toBe(-1);
+    expect(candleIndexAt(candles, nyEpoch(day, OPEN - 1), 5)).toBe(-1);
+    expect(candleIndexAt([], nyEpoch(day, OPEN), 5)).toBe(-1);
+  });
+
+  it('falls back to wall-clock labels', () => {
+    expect(candleIndexForLabel(candles, '09:44:59')).toBe(2);
+    expect(candleIndexForLabel(candles, '09:29:00')).toBe(-1);
+    expect(candleIndexForLabel(candles, 'not a time')).toBe(-1);
+  });
+});
+
+describe('multi-day tapes', () => {
+  const prior = '2025-03-13';
+  const tape = [
+    bar(prior, OPEN - 30, 120, 500),
+    bar(prior, OPEN, 100, 100, { high: 101, low: 99 }),
+    bar(prior, 12 * 60, 104, 100, { high: 105 }),
+    bar(prior, 15 * 60 + 59, 102, 100, { low: 98.5 }),
+    bar(prior, 17 * 60, 90, 500),
+    bar(day, 8 * 60, 103, 100),
+    bar(day, OPEN, 103.5, 100, { high: 104, low: 103 }),
+    bar(day, OPEN + 10, 102, 100, { low: 101.5 })
+  ];
+
+  it('breaks candles and re-anchors VWAP when the session date changes', () => {
+    const candles = aggregateCandles(tape, 15);
+    const firstToday = candles.findIndex(c => c.session === day);
+
+    expect(candles.map(c => c.sessionBreak)).toEqual(candles.map((_, i) => i === firstToday));
+    expect(candles[firstToday]).toMatchObject({ time: '08:00', vwap: 103, sessionOpen: false });
+    expect(candles.find(c => c.session === day && c.time === '09:30')).toMatchObject({ sessionOpen: true, vwap: expect.closeTo(102.67, 2) });
+  });
+
+  it('takes prior-day levels from regular hours only', () => {
+    expect(computeSessionLevels(tape)).toEqual({
+      session: day, priorSession: prior, priorHigh: 105, priorLow: 98.5, priorClose: 102,
+      openingRangeMinutes: 30, openingRangeHigh: 104, openingRangeLow: 101.5, openingRangeComplete: false
+    });
+  });
+
+  it('completes the opening range once a bar prints after it', () => {
+    const levels = computeSessionLevels([...tape, bar(day, OPEN + 30, 106)]);
+    expect(levels).toMatchObject({ openingRangeHigh: 104, openingRangeComplete: true });
+    expect(computeSessionLevels(tape, 5)).toMatchObject({ openingRangeLow: 103, openingRangeComplete: true });
+  });
+
+  it('has no prior levels on the first session and none at all without session ids', () => {
+    const firstDay = computeSessionLevels(tape.filter(p => p.session === day));
+    expect(firstDay).toMatchObject({ priorSession: null, openingRangeHigh: 104 });
+    expect(firstDay?.priorHigh).toBeUndefined();
+    expect(computeSessionLevels(tape.map(({ session, epoch, ...p }) => p))).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CredentialVault, EMPTY_SECRETS, readLegacyCredentials } from '../services/credentialVault';
+
+// Node has WebCrypto but no localStorage; a Map is enough for the vault's string keys
+const storage = new Map<string, string>();
+(globalThis as any).localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); }
+};
+
+const PASSPHRASE = 'correct horse battery';
+
+const lockedVault = async () => {
+  await new CredentialVault({ onLock: () => {} }).create(PASSPHRASE, { ...EMPTY_SECRETS, tradierSandboxToken: 'vault-token', geminiApiKey: 'gemini-key' });
+  // A plaintext token left behind by an earlier version, as after a downgrade and upgrade
+  storage.set('TRADIER_TOKEN', 'legacy-token');
+  storage.set('TRADIER_SANDBOX', 'true');
+  return new CredentialVault({ onLock: () => {} });
+};
+
+describe('CredentialVault legacy token on unlock', () => {
+  beforeEach(() => {
+    storage.clear();
+  });
+
+  it('imports the plaintext token into the vault and wipes it', async () => {
+    const vault = await lockedVault();
+    const legacy = readLegacyCredentials();
+    const secrets = await vault.unlock(PASSPHRASE, legacy);
+
+    expect(secrets).toMatchObject({ tradierSandboxToken: 'legacy-token', geminiApiKey: 'gemini-key', environment: 'SANDBOX' });
+    expect(storage.has('TRADIER_TOKEN')).toBe(false);
+    expect(storage.has('TRADIER_SANDBOX')).toBe(false);
+    expect(JSON.stringify([...storage.values()])).not.toContain('legacy-token');
+
+    vault.lock();
+    expect(await new CredentialVault({ onLock: () => {} }).unlock(PASSPHRASE)).toMatchObject({ tradierSandboxToken: 'legacy-token' });
+  });
+
+  it('wipes the plaintext token on unlock even when it is not imported', async () => {
+    const vault = await lockedVault();
+    const secrets = await vault.unlock(PASSPHRASE);
+
+    expect(secrets.tradierSandboxToken).toBe('vault-token');
+    expect(readLegacyCredentials()).toBeNull();
+  });
+
+  it('keeps the plaintext token when the passphrase is wrong', async () => {
+    const vault = await lockedVault();
+    await expect(vault.unlock('wrong passphrase', readLegacyCredentials())).rejects.toThrow(/Wrong passphrase/);
+    expect(storage.get('TRADIER_TOKEN')).toBe('legacy-token');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { QualityInputs, assessDataQuality } from '../services/dataQualityService';
+import { getSession, nyEpoch, sessionDateOf } from '../services/sessionCalendar';
+import { InstitutionalLevels, PricePoint } from '../types';
+
+const now = nyEpoch('2025-03-14', 11 * 60);
+
+const levels = (value: number): InstitutionalLevels => ({
+  hp: value, mhp: value, hg: value, gammaFlip: value, maxGamma: value, vannaPivot: value, bias: 'NEUTRAL'
+});
+
+// Ninety unbroken 1m bars ending a minute ago
+const bars: PricePoint[] = Array.from({ length: 90 }, (_, i) => {
+  const epoch = now - (90 - i) * 60000;
+  return { time: '', epoch, session: sessionDateOf(epoch), price: 500 + i / 100, volume: 1000 + i };
+});
+
+/** A fully verified bridge: fresh quote, clean bars, chain levels and the stream building windows. */
+const inputs = (overrides: Partial<QualityInputs> = {}): QualityInputs => ({
+  symbol: 'SPY',
+  search: { currentPrice: 500.9, change24h: 0.4, vix: 15, hp: 505, mhp: 510, gammaFlip: 498, maxGamma: 500, vannaPivot: 502, yesterdayClose: 498, todayOpen: 499, history: [] },
+  quote: { symbol: 'SPY', last: 500.9, change: 2, change_percentage: 0.4, volume: 1000000, description: 'SPY', trade_date: now - 5000 },
+  vixQuote: { symbol: 'VIX', last: 15.2, change: 0, change_percentage: 0, volume: 0, description: 'VIX' },
+  bars,
+  chainLevels: levels(500),
+  searchLevels: levels(500),
+  windowsFrom: 'STREAM',
+  session: getSession(now),
+  now,
+  ...overrides
+});
+
+const field = (report: ReturnType<typeof assessDataQuality>, name: string) => report.fields.find(f => f.field === name);
+
+describe('assessDataQuality windows', () => {
+  it('trusts windows built from stream prints', () => {
+    const report = assessDataQuality(inputs());
+    expect(field(report, 'windows')).toMatchObject({ source: 'TRADIER_STREAM', health: 'OK' });
+    expect(report.blockReason).toBeNull();
+  });
+
+  it('blocks analysis when no stream supplies order flow', () => {
+    const report = assessDataQuality(inputs({ windowsFrom: 'NO_STREAM' }));
+    expect(field(report, 'windows')).toMatchObject({ source: 'NONE', health: 'BAD' });
+    expect(report.blockReason).toMatch(/No live order flow for SPY/);
+  });
+});
+
+// A clean search series: ascending times, moving closes, varied volume
+const searchSeries = Array.from({ length: 30 }, (_, i) => ({ time: `10:${String(i).padStart(2, '0')}`, price: 500 + i / 10, volume: 1000 + i }));
+
+const kinds = (report: ReturnType<typeof assessDataQuality>) => report.issues.map(i => `${i.field}:${i.kind}:${i.health}`);
+
+describe('assessDataQuality provenance', () => {
+  it('verifies every field and raises nothing on a clean bridge', () => {
+    const report = assessDataQuality(inputs());
+    expect(report.issues).toEqual([]);
+    expect(field(report, 'price')).toMatchObject({ value: 500.9, source: 'TRADIER_QUOTE' });
+    expect(field(report, 'vix')).toMatchObject({ value: 15.2, source: 'TRADIER_QUOTE' });
+    expect(field(report, 'history')).toMatchObject({ value: 90, source: 'TRADIER_BARS', note: '90 bars · 0 gaps' });
+    expect(field(report, 'gammaFlip')).toMatchObject({ source: 'TRADIER_CHAIN', health: 'OK' });
+    expect(assessDataQuality(inputs())).toEqual(report);
+  });
+
+  it('falls back from the quote to the last bar to the search snapshot', () => {
+    expect(field(assessDataQuality(inputs({ quote: null })), 'price')).toMatchObject({ value: bars[89].price, source: 'TRADIER_BARS' });
+    const searchOnly = assessDataQuality(inputs({ quote: null, bars: [], search: { ...inputs().search!, history: searchSeries } }));
+    expect(field(searchOnly, 'price')).toMatchObject({ value: 500.9, source: 'SEARCH', health: 'WARN' });
+    expect(field(searchOnly, 'history')).toMatchObject({ source: 'SEARCH', health: 'WARN' });
+  });
+
+  it('blocks without a price from any source', () => {
+    const report = assessDataQuality(inputs({ quote: null, bars: [], search: null }));
+    expect(field(report, 'price')).toMatchObject({ value: null, source: 'NONE', health: 'BAD' });
+    expect(report.blockReason).toBe('No price from any source');
+  });
+
+  it('defaults a missing VIX with a warning only', () => {
+    const report = assessDataQuality(inputs({ vixQuote: null, search: { ...inputs().search!, vix: 0 } }));
+    expect(field(report, 'vix')).toMatchObject({ value: 15, source: 'DEFAULT', health: 'WARN' });
+    expect(report.blockReason).toBeNull();
+  });
+});
+
+describe('assessDataQuality cross-checks', () => {
+  const offSearch = (price: number) => ({ ...inputs().search!, currentPrice: price });
+
+  it('blocks a divergent search price only while something still rests on it', () => {
+    expect(kinds(assessDataQuality(inputs({ search: offSearch(515) })))).toEqual(['price:PRICE_DIVERGENCE:WARN']);
+    expect(kinds(assessDataQuality(inputs({ search: offSearch(504) })))).toEqual(['price:PRICE_DIVERGENCE:WARN']);
+    const dependent = assessDataQuality(inputs({ search: offSearch(515), chainLevels: null }));
+    expect(dependent.blockReason).toBe('Search price 515.00 is 2.8% off Tradier 500.90');
+  });
+
+  it('judges quote staleness only during the regular session', () => {
+    const stale = { ...inputs().quote!, trade_date: now - 11 * 60000 };
+    expect(assessDataQuality(inputs({ quote: stale })).blockReason).toBe('Last SPY trade is 11 min old');
+    expect(kinds(assessDataQuality(inputs({ quote: { ...stale, trade_date: now - 3 * 60000 } })))).toEqual(['quoteAge:STALE_QUOTE:WARN']);
+
+    const evening = nyEpoch('2025-03-14', 18 * 60);
+    const after = assessDataQuality(inputs({ quote: stale, session: getSession(evening), now: evening}));
+    expect(after.issues.filter(i => i.kind === 'STALE_QUOTE')).toEqual([]);
+    expect(field(after, 'quoteAge')?.note).toBe('market not in regular session');
+  });
+
+  it('measures bar holes in the latest session only', () => {
+    const holed = bars.filter((_, i) => i < 40 || i >= 60);
+    expect(assessDataQuality(inputs({ bars: holed })).blockReason).toBe("20 min hole in today's SPY bars");
+    expect(kinds(assessDataQuality(inputs({ bars: bars.filter((_, i) => i < 40 || i >= 45) })))).toEqual(['history:BAR_GAP:WARN']);
+
+    // Yesterday's bars ending at the close are not a hole in today
+    const yesterday = bars.slice(0, 30).map(b => ({ ...b, epoch: b.epoch! - 20 * 3600000, session: '2025-03-13' }));
+    expect(assessDataQuality(inputs({ bars: [...yesterday, ...bars.slice(30)] })).issues).toEqual([]);
+  });
+
+  it('flags stale bars while the session is open', () => {
+    const old = bars.map(b => ({ ...b, epoch: b.epoch! - 10 * 60000 }));
+    expect(kinds(assessDataQuality(inputs({ bars: old })))).toEqual(['history:STALE_BARS:WARN']);
+  });
+
+  it('flags filler in a search series', () => {
+    const search = { ...inputs().search!, history: searchSeries.map((h, i) => (i < 12 ? { ...h, price: 500 } : h)) };
+    expect(kinds(assessDataQuality(inputs({ bars: [], search })))).toEqual(['history:FABRICATED_FILL:WARN']);
+
+    const flatVolume = searchSeries.map(h => ({ ...h, volume: 1000 }));
+    expect(assessDataQuality(inputs({ bars: [], search: { ...search, history: flatVolume } })).blockReason).toBe('Search series repeats one volume 30 times in a row');
+
+    const noVolume = searchSeries.map((h, i) => (i < 20 ? { ...h, volume: 0 } : h));
+    expect(assessDataQuality(inputs({ bars: [], search: { ...search, history: noVolume } })).blockReason).toMatch(/^20 of 30 search points carry no volume/);
+  });
+
+  it('checks search levels against the verified price, and against the chain when there is one', () => {
+    const implausible = assessDataQuality(inputs({ chainLevels: null, searchLevels: { ...levels(500), hp: 560 } }));
+    expect(implausible.blockReason).toBe('Search Weekly HP 560.00 is 12% from the Tradier price');
+    expect(field(implausible, 'mhp')).toMatchObject({ source: 'SEARCH', health: 'WARN' });
+
+    const disagreeing = assessDataQuality(inputs({ searchLevels: { ...levels(500), maxGamma: 520 } }));
+    expect(kinds(disagreeing)).toEqual(['maxGamma:LEVEL_DIVERGENCE:WARN']);
+    expect(field(disagreeing, 'maxGamma')).toMatchObject({ value: 500, source: 'TRADIER_CHAIN' });
+  });
+});
@@ -0,0 +1,62 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { fetchMarketDataViaSearch } from '../services/geminiService';
+import { LlmProvider, LlmRequest, setLlmProvider } from '../services/llmProvider';
+import { SchemaValidationError } from '../services/schemaValidation';
+import { StubProvider } from '../services/stubProvider';
+
+/** Replies with the scripted texts in order, repeating the last one */
+class ScriptedProvider implements LlmProvider {
+  readonly id = 'scripted';
+  readonly requiresKey = false;
+  readonly prompts: string[] = [];
+
+  constructor(private replies: string[]) {}
+
+  async generate(request: LlmRequest): Promise<string> {
+    this.prompts.push(request.prompt);
+    return this.replies[Math.min(this.prompts.length, this.replies.length) - 1];
+  }
+}
+
+const valid = JSON.stringify({
+  currentPrice: 500.5, change24h: 0.4, vix: 15.2, hp: 505, mhp: null, gammaFlip: '498.5', maxGamma: 500,
+  vannaPivot: 502, yesterdayClose: 498, todayOpen: 499,
+  history: [{ time: '09:30', price: 499 }, { time: '09:31', price: 0, volume: 10 }, { time: '09:32', price: 499.5, volume: 1200 }]
+});
+
+describe('fetchMarketDataViaSearch repair loop', () => {
+  afterAll(() => {
+    setLlmProvider(new StubProvider());
+  });
+
+  it('sends invalid JSON back for repair and normalizes the retry', async () => {
+    const provider = new ScriptedProvider(['Here are the levels: currentPrice 500.5', valid]);
+    setLlmProvider(provider);
+    const data = await fetchMarketDataViaSearch('SPY');
+
+    expect(provider.prompts).toHaveLength(2);
+    expect(provider.prompts[1]).toMatch(/- \$: expected JSON object/);
+    expect(provider.prompts[1]).toContain('Previous reply: Here are the levels');
+    expect(data).toMatchObject({ currentPrice: 500.5, mhp: 0, gammaFlip: 498.5, hp: 505 });
+    expect(data.history).toEqual([{ time: '09:30', price: 499, volume: 0 }, { time: '09:32', price: 499.5, volume: 1200 }]);
+  });
+
+  it('reports the missing field when a repair is still incomplete', async () => {
+    const incomplete = JSON.stringify({ currentPrice: 500.5, change24h: 0.4, history: [] });
+    const provider = new ScriptedProvider([incomplete, valid]);
+    setLlmProvider(provider);
+    await fetchMarketDataViaSearch('SPY');
+
+    expect(provider.prompts[1]).toMatch(/- \$\.vix: expected required field, got missing/);
+  });
+
+  it('throws the validation error once the repair attempts run out', async () => {
+    const provider = new ScriptedProvider(['not json']);
+    setLlmProvider(provider);
+    const error = await fetchMarketDataViaSearch('SPY').catch(e => e);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.schemaName).toBe('MarketDataPayload');
+    expect(provider.prompts).toHaveLength(3);
+  });
+});
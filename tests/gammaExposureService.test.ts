@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { GammaProfile, annotateHistory, bsGammaVanna, computeGammaLevels, layoutProfile, pickExpirations } from '../services/gammaExposureService';
+import { TradierOptionContract, TradierQuote, TradierService } from '../services/tradierService';
+import { PricePoint } from '../types';
+
+const now = Date.parse('2025-03-12T15:00:00Z');
+const quote = { symbol: 'SPY', last: 500, prevclose: 498, open: 499 } as TradierQuote;
+
+const contract = (expiration: string, option_type: 'call' | 'put', strike: number, open_interest: number, iv = 0.2): TradierOptionContract => ({
+  symbol: `SPY${expiration}${option_type}${strike}`, underlying: 'SPY', strike, option_type, expiration_date: expiration,
+  open_interest, volume: 0, bid: 0, ask: 0, greeks: { mid_iv: iv } as TradierOptionContract['greeks']
+});
+
+/** Serves fixed expirations and chains, recording which expiries were requested */
+const chainService = (expirations: string[], chains: Record<string, TradierOptionContract[]>) => {
+  const requested: string[] = [];
+  const service = {
+    getOptionExpirations: async () => expirations,
+    getOptionChain: async (_: string, expiration: string) => {
+      requested.push(expiration);
+      return chains[expiration] || [];
+    }
+  } as unknown as TradierService;
+  return { service, requested };
+};
+
+describe('pickExpirations', () => {
+  it('takes the nearest Friday as the weekly and the third Friday as the monthly', () => {
+    const listed = ['2025-03-11', '2025-03-13', '2025-03-14', '2025-03-21', '2025-04-17'];
+    expect(pickExpirations(listed, '2025-03-12')).toEqual({ weekly: '2025-03-14', monthly: '2025-03-21' });
+  });
+
+  it('counts an expiry listed for today and sorts the listing first', () => {
+    expect(pickExpirations(['2025-04-17', '2025-03-21', '2025-03-28'], '2025-03-21')).toEqual({ weekly: '2025-03-21', monthly: '2025-03-21' });
+  });
+
+  it('falls back to the nearest expiry when no Friday is listed', () => {
+    // Good Friday moves the April monthly to Thursday the 17th
+    expect(pickExpirations(['2025-04-17', '2025-04-16'], '2025-04-14')).toEqual({ weekly: '2025-04-16', monthly: null });
+    expect(pickExpirations(['2025-03-07'], '2025-03-12')).toEqual({ weekly: null, monthly: null });
+  });
+});
+
+describe('bsGammaVanna', () => {
+  it('peaks gamma at the money and flips vanna sign across it', () => {
+    const atm = bsGammaVanna(500, 500, 0.1, 0.2);
+    expect(atm.gamma).toBeGreaterThan(bsGammaVanna(500, 520, 0.1, 0.2).gamma);
+    expect(atm.gamma).toBeGreaterThan(bsGammaVanna(500, 480, 0.1, 0.2).gamma);
+    expect(bsGammaVanna(500, 520, 0.1, 0.2).vanna).toBeGreaterThan(0);
+    expect(bsGammaVanna(500, 480, 0.1, 0.2).vanna).toBeLessThan(0);
+  });
+});
+
+describe('computeGammaLevels', () => {
+  it('finds the zero-gamma flip between a put wall and a call wall of equal size', async () => {
+    const { service } = chainService(['2025-03-14'], {
+      '2025-03-14': [contract('2025-03-14', 'put', 490, 10000), contract('2025-03-14', 'call', 510, 10000)]
+    });
+    const { levels, profile } = await computeGammaLevels(service, 'SPY', quote, now);
+
+    expect(levels.gammaFlip).toBeGreaterThan(495);
+    expect(levels.gammaFlip).toBeLessThan(505);
+    expect(profile.strikes.map(s => Math.sign(s.netGex))).toEqual([-1, 1]);
+  });
+
+  it('keeps the flip closest to spot when the profile crosses zero twice', async () => {
+    // Calls on both flanks of a put wall: negative near 500, positive on either side
+    const { service } = chainService(['2025-03-14'], {
+      '2025-03-14': [
+        contract('2025-03-14', 'call', 480, 20000), contract('2025-03-14', 'put', 502, 20000), contract('2025-03-14', 'call', 520, 20000)
+      ]
+    });
+    const { levels } = await computeGammaLevels(service, 'SPY', quote, now);
+
+    expect(levels.gammaFlip).toBeGreaterThan(490);
+    expect(levels.gammaFlip).toBeLessThan(502);
+  });
+
+  it('reports no flip when total gamma never changes sign in the scan', async () => {
+    const { service } = chainService(['2025-03-14'], { '2025-03-14': [contract('2025-03-14', 'call', 500, 10000)] });
+    const { levels } = await computeGammaLevels(service, 'SPY', quote, now);
+    expect(levels.gammaFlip).toBe(0);
+    expect(levels.maxGamma).toBe(500);
+  });
+
+  it('derives hedge pressure per expiry and the bias from their order', async () => {
+    const { service, requested } = chainService(['2025-03-14', '2025-03-21'], {
+      '2025-03-14': [contract('2025-03-14', 'put', 495, 30000), contract('2025-03-14', 'call', 505, 5000)],
+      '2025-03-21': [contract('2025-03-21', 'call', 505, 30000), contract('2025-03-21', 'put', 495, 5000, 0)]
+    });
+    const { levels, profile } = await computeGammaLevels(service, 'SPY', quote, now);
+
+    expect(requested).toEqual(['2025-03-14', '2025-03-21']);
+    expect(levels).toMatchObject({ hp: 495, mhp: 505, bias: 'BEARISH', hg: 498.5 });
+    expect(levels.derivations?.hp).toMatchObject({ source: 'TRADIER_CHAIN', expirations: ['2025-03-14'] });
+    expect(levels.derivations?.mhp?.expirations).toEqual(['2025-03-21']);
+    expect(levels.derivations?.hg).toMatchObject({ source: 'TRADIER_QUOTE', inputs: { prevClose: 498, open: 499 } });
+    // The zero-IV put cannot be priced and drops out of the profile
+    expect(profile.strikes.find(s => s.strike === 495)?.openInterest).toBe(30000);
+  });
+
+  it('reads a squeeze when weekly and monthly pressure share a strike', async () => {
+    const { service } = chainService(['2025-03-21'], { '2025-03-21': [contract('2025-03-21', 'call', 500, 1000)] });
+    const { levels } = await computeGammaLevels(service, 'SPY', quote, now);
+    expect(levels).toMatchObject({ hp: 500, mhp: 500, bias: 'SQUEEZE' });
+  });
+
+  it('rejects a chain without open interest or IV', async () => {
+    const { service } = chainService(['2025-03-14'], { '2025-03-14': [contract('2025-03-14', 'call', 500, 0)] });
+    await expect(computeGammaLevels(service, 'SPY', quote, now)).rejects.toThrow(/no open interest or IV/);
+    await expect(computeGammaLevels(chainService([], {}).service, 'SPY', quote, now)).rejects.toThrow(/No option expirations/);
+  });
+});
+
+describe('annotateHistory', () => {
+  it('tags each point with the exposure of the nearest strike', async () => {
+    const { service } = chainService(['2025-03-14'], {
+      '2025-03-14': [contract('2025-03-14', 'put', 490, 10000), contract('2025-03-14', 'call', 510, 10000)]
+    });
+    const { profile } = await computeGammaLevels(service, 'SPY', quote, now);
+    const points = [{ price: 492 }, { price: 507 }] as PricePoint[];
+    const [low, high] = annotateHistory(points, profile);
+
+    expect(low.gamma).toBe(profile.strikes[0].netGex);
+    expect(high.vanna).toBe(profile.strikes[1].netVanna);
+    expect(annotateHistory(points, { ...profile, strikes: [] })).toBe(points);
+  });
+});
+
+describe('layoutProfile', () => {
+  const row = (strike: number, netGex: number, netVanna: number) => ({ strike, callGex: 0, putGex: 0, netGex, netVanna, openInterest: 100 });
+  const profile: GammaProfile = {
+    symbol: 'SPY', spot: 500, expirations: ['2025-03-14'], totalGex: 0, computedAt: '',
+    strikes: [row(480, 9, 1), row(495, -2e6, 4), row(500, 4e6, -2), row(505, 1e6, 0), row(530, 8e6, 8)]
+  };
+
+  it('places strikes inside the price domain level with the tape', () => {
+    const { bars } = layoutProfile(profile, [490, 510], 'GEX');
+    expect(bars.map(b => b.strike)).toEqual([495, 500, 505]);
+    expect(bars.map(b => b.top)).toEqual([75, 50, 25]);
+  });
+
+  it('scales bars to the largest visible exposure either side of the axis', () => {
+    const { bars } = layoutProfile(profile, [490, 510], 'GEX');
+    // 530 is off-screen, so the 500 strike sets the full half-width
+    expect(bars.map(b => [b.left, b.width])).toEqual([[25, 25], [50, 50], [50, 12.5]]);
+  });
+
+  it('switches to vanna exposure', () => {
+    const { bars } = layoutProfile(profile, [490, 510], 'VANNA');
+    expect(bars.map(b => b.value)).toEqual([4, -2, 0]);
+    expect(bars[1]).toMatchObject({ left: 25, width: 25 });
+  });
+
+  it('sizes bars from the strike spacing with a visible minimum', () => {
+    expect(layoutProfile(profile, [490, 510], 'GEX').barHeight).toBeCloseTo(17.5);
+    expect(layoutProfile(profile, [400, 1400], 'GEX').barHeight).toBe(0.6);
+    expect(layoutProfile(profile, [600, 700], 'GEX').bars).toEqual([]);
+  });
+});
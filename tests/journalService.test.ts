@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { JournalEntry, SignalJournal, createEntry, entriesToCsv, entriesToJson, normalizeTags, parseJournalFile } from '../services/journalService';
+import { HistoricalSignal, InstitutionalLevels } from '../types';
+
+const signal = {
+  id: 'sig-1', symbol: 'SPY', timestamp: '2025-03-14T15:00:00.000Z', type: 'BUY', confidence: 70, voteCount: 82,
+  entry: 500, stopLoss: 499, takeProfit: 502, priceAtSignal: 500, isGoldenSetup: true, liquidityZone: 'GOLDEN SETUP',
+  executionStatus: 'RISK ON', reasoning: 'Reclaimed the flip, "clean" tape'
+} as HistoricalSignal;
+
+const levels: InstitutionalLevels = { hp: 505, mhp: 510, hg: 499, gammaFlip: 498, maxGamma: 500, vannaPivot: 502, bias: 'BULLISH' };
+
+const annotated = (): JournalEntry => ({
+  ...createEntry(signal, null, null, levels, 'REPLAY'),
+  notes: 'Entered late, chased\nsecond line, with a comma',
+  tags: ['fomo', 'a+']
+});
+
+describe('normalizeTags', () => {
+  it('splits, trims, lower-cases and de-duplicates', () => {
+    expect(normalizeTags(' FOMO, a+ ,,fomo')).toEqual(['fomo', 'a+']);
+    expect(normalizeTags(['Trend', ' trend ', ''])).toEqual(['trend']);
+  });
+});
+
+describe('createEntry', () => {
+  it('keys the entry by signal id and dates it by the signal', () => {
+    const entry = createEntry(signal, null, null, levels);
+    expect(entry).toMatchObject({ id: 'sig-1', symbol: 'SPY', epoch: Date.parse(signal.timestamp), source: 'LIVE', notes: '', tags: [] });
+  });
+});
+
+describe('journal exports', () => {
+  it('round-trips through CSV with quotes, commas and newlines intact', () => {
+    const original = annotated();
+    const csv = entriesToCsv([original]);
+    const [entry] = parseJournalFile(csv, 'journal.CSV');
+
+    expect(csv.split('\n')[0]).toMatch(/^id,symbol,timestamp,source,type,/);
+    expect(entry).toEqual(original);
+  });
+
+  it('takes edited notes and tags columns over the payload', () => {
+    const csv = entriesToCsv([annotated()]);
+    const header = csv.split('\n')[0].split(',');
+    const edited = csv.replace('fomo;a+', 'Reviewed; Clean').replace(/"Entered late[^"]*"/, 'held the plan');
+    const [entry] = parseJournalFile(edited, 'journal.csv');
+
+    expect(header).toContain('tags');
+    expect(entry.tags).toEqual(['reviewed', 'clean']);
+    expect(entry.notes).toBe('held the plan');
+    expect(entry.signal.reasoning).toBe(signal.reasoning);
+  });
+
+  it('round-trips through JSON and accepts a bare array', () => {
+    const entries = [annotated()];
+    expect(parseJournalFile(entriesToJson(entries), 'journal.json')).toEqual(entries);
+    expect(parseJournalFile(JSON.stringify(entries), 'journal.json')).toEqual(entries);
+  });
+
+  it('repairs missing fields and drops records that are not entries', () => {
+    const { notes, tags, epoch, ...bare } = annotated();
+    const [entry, ...rest] = parseJournalFile(JSON.stringify([bare, { id: 'x' }, null]), 'journal.json');
+
+    expect(rest).toEqual([]);
+    expect(entry).toMatchObject({ epoch: Date.parse(signal.timestamp), notes: '', tags: [] });
+  });
+
+  it('rejects files with nothing to import', () => {
+    expect(() => parseJournalFile('id,symbol\nsig-1,SPY', 'journal.csv')).toThrow(/payload column/);
+    expect(() => parseJournalFile('{"version":1}', 'journal.json')).toThrow(/no entries array/);
+    expect(() => parseJournalFile('[]', 'journal.json')).toThrow(/No journal entries/);
+  });
+});
+
+describe('SignalJournal', () => {
+  it('refuses to open without IndexedDB', async () => {
+    await expect(SignalJournal.open()).rejects.toThrow(/IndexedDB unavailable/);
+  });
+});
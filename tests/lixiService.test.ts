@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LIXI_PROFILE, profileFor, withQuoteAdv } from '../services/lixiService';
+
+describe('quote ADV', () => {
+  it('leaves default and reset profiles alone', () => {
+    expect(withQuoteAdv({}, 80000000)).toEqual({});
+    expect(withQuoteAdv({ advSource: 'DEFAULT', advFactor: 1000 }, 80000000)).toEqual({ advSource: 'DEFAULT', advFactor: 1000 });
+    expect(profileFor({ SPY: {} }, 'SPY').advFactor).toBe(DEFAULT_LIXI_PROFILE.advFactor);
+  });
+
+  it('fills ADV only for profiles that opted in', () => {
+    expect(withQuoteAdv({ advSource: 'QUOTE', watchThreshold: 7 }, 80000000)).toEqual({ advSource: 'QUOTE', watchThreshold: 7, advFactor: 80000000 });
+    expect(withQuoteAdv({ advSource: 'QUOTE' }, 0)).toEqual({ advSource: 'QUOTE' });
+  });
+});
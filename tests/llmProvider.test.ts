@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Type } from '@google/genai';
+import { DEFAULT_GEMINI_MODELS, GeminiProvider } from '../services/geminiProvider';
+import { LlmRequest, createProvider, setLlmProvider } from '../services/llmProvider';
+import { StubProvider } from '../services/stubProvider';
+import { fetchMarketDataViaSearch, fetchSentimentAnalysis } from '../services/geminiService';
+
+const calls: { apiKey?: string; params: any }[] = [];
+const replies: (string | Error)[] = [];
+
+// Records what the provider sends to the SDK instead of reaching the network
+vi.mock('@google/genai', async importOriginal => {
+  const actual = await importOriginal<typeof import('@google/genai')>();
+  class GoogleGenAI {
+    models: { generateContent: (params: any) => Promise<{ text: string }> };
+    constructor({ apiKey }: { apiKey?: string }) {
+      this.models = {
+        generateContent: async params => {
+          calls.push({ apiKey, params });
+          const reply = replies.shift() ?? '{}';
+          if (reply instanceof Error) throw reply;
+          return { text: reply };
+        }
+      };
+    }
+  }
+  return { ...actual, GoogleGenAI };
+});
+
+const request = (overrides: Partial<LlmRequest> = {}): LlmRequest => ({
+  task: 'MARKET_DATA', symbol: 'SPY', prompt: 'levels', schema: { type: Type.OBJECT }, ...overrides
+});
+
+describe('createProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('builds the stub offline and Gemini otherwise', () => {
+    expect(createProvider('stub')).toBeInstanceOf(StubProvider);
+    expect(createProvider('stub').requiresKey).toBe(false);
+    expect(createProvider('gemini')).toMatchObject({ id: 'gemini', requiresKey: true });
+    expect(createProvider('unknown' as 'gemini').id).toBe('gemini');
+  });
+
+  it('reads LLM_PROVIDER once and keeps the provider it built', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'stub');
+    const { getLlmProvider } = await import('../services/llmProvider');
+    const first = getLlmProvider();
+
+    vi.stubEnv('LLM_PROVIDER', 'gemini');
+    expect(first.id).toBe('stub');
+    expect(getLlmProvider()).toBe(first);
+  });
+});
+
+describe('GeminiProvider', () => {
+  afterEach(() => {
+    calls.length = 0;
+    replies.length = 0;
+    vi.useRealTimers();
+  });
+
+  it('routes analysis to the analysis model and grounds search requests', async () => {
+    const provider = new GeminiProvider('key-1');
+    replies.push('{"a":1}', '{"b":2}');
+
+    expect(await provider.generate(request({ grounded: true }))).toBe('{"a":1}');
+    await provider.generate(request({ task: 'ANALYSIS', thinkingBudget: 2048 }));
+
+    expect(calls[0].params).toMatchObject({ model: DEFAULT_GEMINI_MODELS.search, contents: 'levels' });
+    expect(calls[0].params.config).toMatchObject({ responseMimeType: 'application/json', tools: [{ googleSearch: {} }] });
+    expect(calls[1].params.model).toBe(DEFAULT_GEMINI_MODELS.analysis);
+    expect(calls[1].params.config).toMatchObject({ thinkingConfig: { thinkingBudget: 2048 } });
+    expect(calls[1].params.config.tools).toBeUndefined();
+  });
+
+  it('rebuilds the client when the vault swaps the key', async () => {
+    const provider = new GeminiProvider('key-1');
+    await provider.generate(request());
+    provider.setApiKey('key-2');
+    await provider.generate(request());
+    expect(calls.map(c => c.apiKey)).toEqual(['key-1', 'key-2']);
+  });
+
+  it('retries rate limits but not other failures', async () => {
+    vi.useFakeTimers();
+    const provider = new GeminiProvider('key-1');
+    replies.push(new Error('429 RESOURCE_EXHAUSTED'), '{"ok":true}');
+    const pending = provider.generate(request());
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await pending).toBe('{"ok":true}');
+
+    replies.push(new Error('400 INVALID_ARGUMENT'));
+    await expect(provider.generate(request())).rejects.toThrow(/INVALID_ARGUMENT/);
+    expect(calls).toHaveLength(3);
+  });
+});
+
+describe('StubProvider fixtures', () => {
+  it('repeat exactly for the same symbol and differ across symbols', async () => {
+    const stub = new StubProvider();
+    const spy = await stub.generate(request());
+    expect(await stub.generate(request())).toBe(spy);
+    expect(await stub.generate(request({ symbol: 'IWM' }))).not.toBe(spy);
+  });
+
+  it('anchor the analysis bracket to the reference price and direction', async () => {
+    const stub = new StubProvider();
+    const sell = JSON.parse(await stub.generate(request({ task: 'ANALYSIS', referencePrice: 500, direction: 'SELL' })));
+    expect(sell.signal).toMatchObject({ type: 'SELL', entry: 500, stopLoss: 501.5, takeProfit: 497 });
+    const wait = JSON.parse(await stub.generate(request({ task: 'ANALYSIS', referencePrice: 500, direction: 'WAIT' })));
+    expect(wait.signal.executionStatus).toBe('SIT OUT');
+  });
+
+  it('pass the service schemas without repair', async () => {
+    const stub = new StubProvider();
+    const generate = vi.spyOn(stub, 'generate');
+    setLlmProvider(stub);
+
+    const data = await fetchMarketDataViaSearch('SPY');
+    const sentiment = await fetchSentimentAnalysis('SPY');
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(data.history).toHaveLength(120);
+    expect(data.history[0].time).toBe('09:30');
+    expect(sentiment.headlines).toHaveLength(3);
+  });
+});
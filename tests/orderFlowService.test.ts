@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { featureVector } from '../services/ensembleService';
+import { OrderFlowPoint, computeOrderFlow, flagBias, summarizeOrderFlow } from '../services/orderFlowService';
+import { TickLabel, TickWindow } from '../types';
+
+interface Spec {
+  ask: number;
+  bid: number;
+  mid?: number;
+  ratio?: number;
+}
+
+/** Windows from oldest to newest, returned newest-first as the dashboard holds them */
+const windows = (...specs: Spec[]): TickWindow[] => specs.map(({ ask, bid, mid = 500, ratio = 1 }, i) => ({
+  id: `w${i}`, ticks: [], meanMid: mid, lixi: 1, label: TickLabel.STATIONARY, ratio, timestamp: `10:${String(i).padStart(2, '0')}:00`,
+  features: { v1_mid: mid, v2_spread: 0.01, v3_crossing_return: 0, v9_volatility: 0, v10_intensity: 1, v14_ask_vol: ask, v15_bid_vol: bid, v11_22_derivatives: [] }
+})).reverse();
+
+// Five balanced windows whose mids drift ten basis points either way
+const quiet: Spec[] = Array.from({ length: 5 }, (_, i) => ({ ask: 100, bid: 100, ratio: i % 2 === 0 ? 1.001 : 0.999 }));
+
+const point = (overrides: Partial<OrderFlowPoint> = {}): OrderFlowPoint => ({
+  windowId: 'w', timestamp: '', delta: 0, cvd: 0, imbalance: 0, cvdSlope: 0, volume: 0, move: 0, absorption: null, exhaustion: null, ...overrides
+});
+
+describe('computeOrderFlow', () => {
+  it('accumulates delta oldest-first and returns points newest-first', () => {
+    const flow = computeOrderFlow(windows({ ask: 300, bid: 100 }, { ask: 100, bid: 300, ratio: 0.998 }, { ask: 200, bid: 200, ratio: 1.002 }));
+
+    expect(flow.map(p => [p.windowId, p.delta, p.cvd, p.imbalance])).toEqual([['w2', 0, 0, 0], ['w1', -200, 0, -0.5], ['w0', 200, 200, 0.5]]);
+    expect(flow[0].move).toBeCloseTo(0.002);
+    expect(flow[2].move).toBe(0);
+  });
+
+  it('measures the CVD slope over the last five windows only', () => {
+    const flow = computeOrderFlow(windows({ ask: 1000, bid: 0 }, ...quiet.map(q => ({ ...q, ratio: 1 }))));
+    expect(flow[1].cvdSlope).toBeCloseTo(1000 / 1800);
+    expect(flow[0].cvdSlope).toBe(0);
+    expect(flow[0].cvd).toBe(1000);
+  });
+
+  it('treats an empty window as balanced', () => {
+    expect(computeOrderFlow(windows({ ask: 0, bid: 0 }))[0]).toMatchObject({ delta: 0, imbalance: 0, cvdSlope: 0, volume: 0 });
+  });
+
+  it.each<[string, Spec, OrderFlowPoint['absorption']]>([
+    ['heavy buying that stalls', { ask: 400, bid: 50, ratio: 1.0001 }, 'ASK'],
+    ['heavy selling that price rises through', { ask: 50, bid: 400, ratio: 1.0005 }, 'BID'],
+    ['heavy buying that moves price', { ask: 400, bid: 50, ratio: 1.002 }, null],
+    ['balanced heavy volume', { ask: 250, bid: 200, ratio: 1.0001 }, null],
+    ['one-sided light volume', { ask: 150, bid: 20, ratio: 1.0001 }, null]
+  ])('judges absorption on %s', (_, spec, expected) => {
+    expect(computeOrderFlow(windows(...quiet, spec))[0].absorption).toBe(expected);
+  });
+
+  it('needs a baseline before flagging absorption', () => {
+    expect(computeOrderFlow(windows(...quiet.slice(1), { ask: 400, bid: 50, ratio: 1.0001 }))[0].absorption).toBeNull();
+  });
+
+  it.each<[string, number[], Spec, OrderFlowPoint['exhaustion']]>([
+    ['a new high on fading buying', [500, 501, 502, 503, 504], { ask: 105, bid: 100, mid: 505 }, 'BUYING'],
+    ['a new low on fading selling', [505, 504, 503, 502, 501], { ask: 100, bid: 105, mid: 500 }, 'SELLING'],
+    ['a new high on full buying', [500, 501, 502, 503, 504], { ask: 200, bid: 100, mid: 505 }, null],
+    ['a mid inside the recent range', [500, 501, 502, 503, 504], { ask: 100, bid: 100, mid: 502 }, null]
+  ])('judges exhaustion on %s', (_, mids, spec, expected) => {
+    const flow = computeOrderFlow(windows(...mids.map(mid => ({ ask: 200, bid: 100, mid })), spec));
+    expect(flow[0].exhaustion).toBe(expected);
+    expect(flow.slice(1).every(p => p.exhaustion === null)).toBe(true);
+  });
+});
+
+describe('summarizeOrderFlow', () => {
+  it('has nothing to summarize without windows', () => {
+    expect(summarizeOrderFlow([])).toBeNull();
+  });
+
+  it('reads the latest point and flags from the three newest windows', () => {
+    const summary = summarizeOrderFlow([
+      point({ cvd: 900, cvdSlope: 0.4, imbalance: -0.2 }),
+      point({ absorption: 'BID' }),
+      point({ absorption: 'ASK', exhaustion: 'SELLING' }),
+      point({ exhaustion: 'BUYING' })
+    ]);
+    expect(summary).toEqual({ cvd: 900, cvdSlope: 0.4, imbalance: -0.2, absorption: 'BID', exhaustion: 'SELLING', windows: 4 });
+  });
+
+  it('drops flags older than three windows', () => {
+    const summary = summarizeOrderFlow([point(), point(), point(), point({ absorption: 'ASK', exhaustion: 'BUYING' })]);
+    expect(summary).toMatchObject({ absorption: null, exhaustion: null });
+  });
+});
+
+describe('order-flow features', () => {
+  it('signs each flag by the direction it favours', () => {
+    expect(flagBias(point({ absorption: 'BID', exhaustion: 'SELLING' }))).toEqual({ absorption: 1, exhaustion: 1 });
+    expect(flagBias(point({ absorption: 'ASK', exhaustion: 'BUYING' }))).toEqual({ absorption: -1, exhaustion: -1 });
+    expect(flagBias(point())).toEqual({ absorption: 0, exhaustion: 0 });
+  });
+
+  it('appends imbalance, CVD slope and flags to the window features', () => {
+    const [w] = windows({ ask: 300, bid: 100 });
+    const vector = featureVector(w, point({ imbalance: 0.5, cvdSlope: 0.3, absorption: 'ASK', exhaustion: 'SELLING' }));
+    expect(vector).toHaveLength(23);
+    expect(vector.slice(0, 7)).toEqual([500, 0.01, 0, 0, 1, 300, 100]);
+    expect(vector.slice(-4)).toEqual([0.5, 0.3, -1, 1]);
+  });
+});
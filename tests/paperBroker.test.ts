@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PaperBroker, PaperTrade } from '../services/paperBroker';
+import { Signal, Tick } from '../types';
+
+const storage = new Map<string, string>();
+(globalThis as any).localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); }
+};
+
+const quote = (time: number, bid: number, ask: number): Tick => ({
+  time, bid, ask, last: bid, mid: (bid + ask) / 2, volume: 100, bidVolume: 0, askVolume: 0, spread: ask - bid
+});
+
+const signal = (type: 'BUY' | 'SELL', entry: number, stopLoss: number, takeProfit: number): Signal => ({
+  type, confidence: 70, voteCount: 70, entry, stopLoss, takeProfit, reasoning: '', liquidityZone: 'GAMMA FLIP',
+  executionStatus: 'RISK ON', isGoldenSetup: false
+});
+
+const brokerWithTrades = (source: 'LIVE' | 'REPLAY' = 'LIVE') => {
+  const trades: PaperTrade[] = [];
+  const broker = new PaperBroker({ onTrade: t => trades.push(t) }, undefined, source);
+  return { broker, trades };
+};
+
+describe('PaperBroker fills', () => {
+  beforeEach(() => {
+    storage.clear();
+  });
+
+  it('caps a slipped long entry at the limit price', () => {
+    const { broker } = brokerWithTrades();
+    broker.submitSignal('SPY', signal('BUY', 100, 99, 102), 100);
+    broker.onTicks('SPY', [quote(1, 99.99, 99.995)]);
+    expect(broker.snapshot().positions[0].entryPrice).toBe(100);
+  });
+
+  it('slips a marketable entry but keeps a better price than the limit', () => {
+    const { broker } = brokerWithTrades();
+    broker.submitSignal('SPY', signal('SELL', 100, 101, 98), 100);
+    broker.onTicks('SPY', [quote(1, 100.5, 100.52)]);
+    expect(broker.snapshot().positions[0]).toMatchObject({ side: 'SHORT', entryPrice: 100.49 });
+  });
+
+  it('leaves a limit working until the book reaches it', () => {
+    const { broker } = brokerWithTrades();
+    broker.submitSignal('SPY', signal('BUY', 100, 99, 102), 100);
+    broker.onTicks('SPY', [quote(1, 100.1, 100.12), quote(2, 0, 0)]);
+    expect(broker.snapshot().positions).toHaveLength(0);
+    expect(broker.snapshot().orders[0].status).toBe('WORKING');
+  });
+
+  it('fills a long stop at the bid less slippage', () => {
+    const { broker, trades } = brokerWithTrades();
+    broker.submitSignal('SPY', signal('BUY', 100, 99, 102), 100);
+    broker.onTicks('SPY', [quote(1, 99.98, 100), quote(2, 98.9, 98.92)]);
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ exitReason: 'SL', exitTime: 2 });
+    expect(trades[0].exitPrice).toBeCloseTo(98.89);
+  });
+
+  it('fills a short stop at the ask plus slippage and a target at its limit', () => {
+    const { broker, trades } = brokerWithTrades();
+    broker.submitSignal('SPY', signal('SELL', 100, 101, 98), 100);
+    broker.submitSignal('QQQ', signal('SELL', 100, 101, 98), 100);
+    broker.onTicks('SPY', [quote(1, 100, 100.02), quote(2, 101.1, 101.12)]);
+    broker.onTicks('QQQ', [quote(1, 100, 100.02), quote(2, 97.5, 97.52)]);
+
+    expect(trades.map(t => [t.symbol, t.exitReason])).toEqual([['SPY', 'SL'], ['QQQ', 'TP']]);
+    expect(trades[0].exitPrice).toBeCloseTo(101.13);
+    expect(trades[1].exitPrice).toBe(98);
+  });
+
+  it('checks the stop before the target on the tick that fills the entry', () => {
+    const { broker, trades } = brokerWithTrades();
+    broker.submitSignal('SPY', signal('BUY', 100, 99, 102), 100);
+    // The book gaps through the stop: the entry fills and the same print takes it out
+    broker.onTicks('SPY', [quote(1, 98.5, 98.55)]);
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ exitReason: 'SL', entryTime: 1, exitTime: 1 });
+  });
+
+  it('exits on the stop when a batch reaches the stop before the target', () => {
+    const { broker, trades } = brokerWithTrades();
+    broker.submitSignal('SPY', signal('BUY', 100, 99, 102), 100);
+    broker.onTicks('SPY', [quote(1, 99.98, 100), quote(2, 98.95, 98.97), quote(3, 102.1, 102.12)]);
+
+    expect(trades.map(t => t.exitReason)).toEqual(['SL']);
+    expect(broker.snapshot().positions).toHaveLength(0);
+  });
+
+  it('charges the minimum commission on each side of a small trade', () => {
+    const { broker, trades } = brokerWithTrades();
+    broker.submitSignal('SPY', signal('BUY', 100, 99, 102), 100);
+    broker.onTicks('SPY', [quote(1, 99.98, 100), quote(2, 102, 102.02)]);
+
+    // 100 shares at $0.005 is $0.50 a side, below the $1 minimum
+    expect(trades[0].commission).toBe(2);
+    expect(trades[0].realizedPnl).toBeCloseTo((102 - 100) * 100 - 2);
+  });
+
+  it('charges per share once a side clears the minimum', () => {
+    const { broker, trades } = brokerWithTrades();
+    broker.setConfig({ slippagePerShare: 0 });
+    broker.submitSignal('SPY', signal('BUY', 100, 99, 102), 1000);
+    broker.onTicks('SPY', [quote(1, 99.98, 100), quote(2, 102, 102.02)]);
+    expect(trades[0].commission).toBe(10);
+  });
+});
+
+describe('PaperBroker persistence', () => {
+  beforeEach(() => {
+    storage.clear();
+  });
+
+  it('persists live trading and restores it', () => {
+    const { broker } = brokerWithTrades();
+    broker.submitSignal('SPY', signal('BUY', 100, 99, 102), 100);
+    broker.onTicks('SPY', [quote(1, 99.98, 100), quote(2, 102, 102.02)]);
+
+    const restored = PaperBroker.load().snapshot();
+    expect(restored.ledger).toHaveLength(1);
+    expect(restored.ledger[0].source).toBe('LIVE');
+  });
+
+  it('never writes a replay broker to storage', () => {
+    const { broker, trades } = brokerWithTrades('REPLAY');
+    broker.setConfig({ minCommission: 2 });
+    broker.submitSignal('SPY', signal('BUY', 100, 99, 102), 100);
+    broker.onTicks('SPY', [quote(1, 99.98, 100), quote(2, 102, 102.02)]);
+    broker.flatten(3);
+    broker.reset();
+
+    expect(trades[0].source).toBe('REPLAY');
+    expect(storage.size).toBe(0);
+  });
+
+  it('leaves the live ledger untouched while a replay runs', () => {
+    const { broker: live } = brokerWithTrades();
+    live.submitSignal('SPY', signal('BUY', 100, 99, 102), 100);
+    const saved = storage.get('PAPER_BROKER');
+
+    const { broker: replay } = brokerWithTrades('REPLAY');
+    replay.submitSignal('SPY', signal('BUY', 100, 99, 102), 100);
+    replay.onTicks('SPY', [quote(1, 99.98, 100)]);
+
+    expect(storage.get('PAPER_BROKER')).toBe(saved);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { PropChallengeRules, PropTradeFill, applyFill, createChallenge, rollSession, sessionKeyFor } from '../services/propChallengeService';
+import { nyEpoch } from '../services/sessionCalendar';
+
+const rules: PropChallengeRules = { startingBalance: 50000, profitTarget: 53000, maxLossAmount: 2000, dailyLossAmount: 1000, lockFloorAtStart: true };
+const started = Date.parse('2025-03-14T14:00:00Z');
+
+const fill = (overrides: Partial<PropTradeFill>): PropTradeFill => ({
+  id: 'fill-1', symbol: 'SPY', realizedPnl: 250, timestamp: started + 3600000, source: 'LIVE', ...overrides
+});
+
+describe('applyFill', () => {
+  it('books a broker fill once however often it is polled', () => {
+    const once = applyFill(createChallenge(rules, started), fill({ id: 'tradier-1001' }));
+    const twice = applyFill(once, fill({ id: 'tradier-1001' }));
+
+    expect(twice).toBe(once);
+    expect(twice.balance).toBe(50250);
+    expect(twice.days[0]).toMatchObject({ realizedPnl: 250, trades: 1 });
+  });
+
+  it('ignores trades that closed before the challenge began', () => {
+    const state = createChallenge(rules, started);
+    expect(applyFill(state, fill({ timestamp: started - 60000 }))).toBe(state);
+  });
+});
+
+describe('session rollover', () => {
+  const at = (date: string, hour: number, minute: number = 0) => nyEpoch(date, hour * 60 + minute);
+
+  it.each([
+    ['Friday afternoon', at('2025-03-14', 15), '2025-03-14'],
+    ['Saturday', at('2025-03-15', 12), '2025-03-14'],
+    ['Monday pre-market', at('2025-03-17', 9, 29), '2025-03-14'],
+    ['Monday after the open', at('2025-03-17', 9, 30), '2025-03-17'],
+    ['Good Friday', at('2025-04-18', 11), '2025-04-17'],
+    ['Monday after Good Friday, before the open', at('2025-04-21', 8), '2025-04-17']
+  ])('%s belongs to the %s session', (_, time, session) => {
+    expect(sessionKeyFor(time)).toBe(session);
+  });
+
+  it('opens one day record from Friday to Monday', () => {
+    let state = createChallenge(rules, at('2025-03-14', 10));
+    state = applyFill(state, fill({ timestamp: at('2025-03-14', 14), realizedPnl: -600 }));
+    for (let hour = 16; hour < 24 + 48 + 9; hour++) state = rollSession(state, at('2025-03-14', 0) + hour * 3600000);
+
+    expect(state.days).toHaveLength(1);
+    expect(state.stats.dailyLossLimit).toBe(49000);
+
+    state = rollSession(state, at('2025-03-17', 9, 31));
+    expect(state.days.map(d => d.session)).toEqual(['2025-03-17', '2025-03-14']);
+    expect(state.days[0].openingEquity).toBe(49400);
+    expect(state.stats.dailyLossLimit).toBe(48400);
+  });
+
+  it('keeps a holiday on the session before it', () => {
+    let state = createChallenge(rules, at('2025-04-17', 10));
+    state = rollSession(state, at('2025-04-18', 10));
+    state = rollSession(state, at('2025-04-19', 10));
+    expect(state.days.map(d => d.session)).toEqual(['2025-04-17']);
+
+    state = rollSession(state, at('2025-04-21', 10));
+    expect(state.days.map(d => d.session)).toEqual(['2025-04-21', '2025-04-17']);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { quantityBreach, sizePosition } from '../services/riskService';
+import { PropChallengeStats, Signal } from '../types';
+
+// A $50K account with $1K of daily room and $2K to the trailing floor
+const stats = (overrides: Partial<PropChallengeStats> = {}): PropChallengeStats => ({
+  startingBalance: 50000, currentEquity: 50000, profitTarget: 53000, maxDrawdown: 48000, currentDrawdown: 0,
+  dailyLossLimit: 49000, status: 'ACTIVE', ...overrides
+});
+
+const signal = (type: Signal['type'], entry: number, stopLoss: number, takeProfit: number) =>
+  ({ type, entry, stopLoss, takeProfit }) as Signal;
+
+describe('sizePosition', () => {
+  it('sizes to the risk-per-trade budget when it is the tightest', () => {
+    const sizing = sizePosition(signal('BUY', 500, 499, 502), stats(), { riskPerTradePct: 0.5, maxRoomUsage: 1 });
+    expect(sizing).toMatchObject({
+      quantity: 250, perShareRisk: 1, perShareReward: 2, dollarRisk: 250, dollarReward: 500, rewardRisk: 2,
+      riskBudget: 250, dailyRoom: 1000, trailingRoom: 2000, limitedBy: 'RISK_PCT', blockedReason: null
+    });
+  });
+
+  it('caps the budget at a share of the daily room', () => {
+    const sizing = sizePosition(signal('SELL', 500, 502, 496), stats({ currentEquity: 49300 }), { riskPerTradePct: 1, maxRoomUsage: 0.5 });
+    expect(sizing).toMatchObject({ dailyRoom: 300, riskBudget: 150, limitedBy: 'DAILY_LIMIT', quantity: 75, rewardRisk: 2 });
+  });
+
+  it('caps the budget at a share of the trailing room', () => {
+    const sizing = sizePosition(signal('BUY', 500, 498, 504), stats({ dailyLossLimit: 40000, maxDrawdown: 49800 }), { riskPerTradePct: 1, maxRoomUsage: 0.5 });
+    expect(sizing).toMatchObject({ trailingRoom: 200, riskBudget: 100, limitedBy: 'MAX_DRAWDOWN', quantity: 50 });
+  });
+
+  it.each<[string, Signal, Partial<PropChallengeStats>, RegExp]>([
+    ['a WAIT signal', signal('WAIT', 500, 499, 502), {}, /No trade signal/],
+    ['a stop above a long entry', signal('BUY', 500, 501, 502), {}, /wrong side of entry/],
+    ['a failed challenge', signal('BUY', 500, 499, 502), { status: 'FAILING' }, /challenge failed/],
+    ['no daily room', signal('BUY', 500, 499, 502), { currentEquity: 49000 }, /Daily loss limit reached/],
+    ['no trailing room', signal('BUY', 500, 499, 502), { dailyLossLimit: 40000, maxDrawdown: 50000 }, /Max drawdown reached/],
+    ['a stop wider than the budget', signal('BUY', 500, 200, 900), {}, /One share risks \$300\.00, over the \$250\.00 budget/]
+  ])('blocks %s', (_, sig, overrides, reason) => {
+    const sizing = sizePosition(sig, stats(overrides));
+    expect(sizing.blockedReason).toMatch(reason);
+    expect(quantityBreach(sizing, 1)).toBe(sizing.blockedReason);
+  });
+});
+
+describe('quantityBreach', () => {
+  const sizing = sizePosition(signal('BUY', 500, 499, 502), stats({ maxDrawdown: 49200 }));
+
+  it('accepts a manual size inside both floors', () => {
+    expect(quantityBreach(sizing, 700)).toBeNull();
+  });
+
+  it('names the floor a manual size would reach at the stop', () => {
+    expect(quantityBreach(sizing, 800)).toBe('$800 at stop breaches max drawdown');
+    expect(quantityBreach({ ...sizing, trailingRoom: 5000 }, 1000)).toBe('$1000 at stop breaches the daily loss limit');
+  });
+
+  it('repeats the sizing block for any quantity', () => {
+    expect(quantityBreach(sizePosition(signal('WAIT', 500, 499, 502), stats()), 1)).toBe('No trade signal');
+  });
+});
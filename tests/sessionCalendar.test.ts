@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { SessionPhase, getSession, isTradingDate, nyEpoch, parseNyDateTime, tradingDateBefore } from '../services/sessionCalendar';
+
+const at = (date: string, hh: number, mm = 0) => nyEpoch(date, hh * 60 + mm);
+
+describe('getSession', () => {
+  it.each<[string, number, SessionPhase, string | undefined, string]>([
+    // [date, NY minutes, phase, holiday, next regular open]
+    ['2025-04-18', 11 * 60, 'CLOSED', 'Good Friday', '2025-04-21'],
+    ['2025-06-19', 11 * 60, 'CLOSED', 'Juneteenth', '2025-06-20'],
+    ['2025-03-15', 11 * 60, 'CLOSED', undefined, '2025-03-17'],
+    ['2025-03-16', 21 * 60, 'CLOSED', undefined, '2025-03-17'],
+    ['2025-03-14', 8 * 60, 'PRE', undefined, '2025-03-14'],
+    ['2025-03-14', 17 * 60, 'POST', undefined, '2025-03-17']
+  ])('%s at minute %i is %s', (date, minutes, phase, holiday, nextOpenDate) => {
+    const time = nyEpoch(date, minutes);
+    const session = getSession(time);
+
+    expect(session).toMatchObject({ phase, date, holiday });
+    expect(session.nextOpen).toBe(at(nextOpenDate, 9, 30));
+    expect(session.msToOpen).toBe(at(nextOpenDate, 9, 30) - time);
+    expect(session.msToClose).toBeNull();
+  });
+
+  it.each<[number, number, SessionPhase]>([
+    [12, 0, 'REGULAR'],
+    [13, 0, 'POST'],
+    [16, 59, 'POST'],
+    [17, 0, 'CLOSED']
+  ])('closes the day after Thanksgiving at 13:00 (%i:%i is %s)', (hh, mm, phase) => {
+    const session = getSession(at('2025-11-28', hh, mm));
+
+    expect(session).toMatchObject({ phase, isTradingDay: true, isHalfDay: true, holiday: 'Day after Thanksgiving' });
+    expect(session.regularClose).toBe(at('2025-11-28', 13));
+  });
+
+  it('counts down to the early close', () => {
+    const session = getSession(at('2025-11-28', 12, 15));
+    expect(session.msToClose).toBe(45 * 60000);
+    expect(session.minutesSinceOpen).toBe(165);
+  });
+
+  it('keeps a regular day open until 16:00', () => {
+    const session = getSession(at('2025-03-14', 15, 59));
+    expect(session).toMatchObject({ phase: 'REGULAR', isHalfDay: false, minutesSinceOpen: 389, msToOpen: 0 });
+    expect(session.regularClose).toBe(at('2025-03-14', 16));
+  });
+});
+
+describe('trading date lookups', () => {
+  it.each<[string, boolean]>([
+    ['2025-03-14', true],
+    ['2025-03-15', false],
+    ['2025-03-16', false],
+    ['2025-04-18', false],
+    ['2025-06-19', false],
+    ['2025-11-28', true]
+  ])('%s trades: %s', (date, trades) => {
+    expect(isTradingDate(date)).toBe(trades);
+  });
+
+  it.each<[string, number, number, string]>([
+    // [NY date of the moment, hour, sessions back, expected trading date]
+    ['2025-03-15', 11, 0, '2025-03-14'],
+    ['2025-03-16', 11, 1, '2025-03-13'],
+    ['2025-03-17', 11, 1, '2025-03-14'],
+    ['2025-04-21', 11, 1, '2025-04-17'],
+    ['2025-04-18', 11, 0, '2025-04-17'],
+    ['2025-06-20', 11, 1, '2025-06-18']
+  ])('from %s %i:00, %i sessions back is %s', (date, hh, sessions, expected) => {
+    expect(tradingDateBefore(sessions, at(date, hh))).toBe(expected);
+  });
+});
+
+describe('nyEpoch', () => {
+  it('follows daylight saving on both sides of the switch', () => {
+    expect(at('2025-03-07', 9, 30)).toBe(Date.parse('2025-03-07T14:30:00Z'));
+    expect(at('2025-03-10', 9, 30)).toBe(Date.parse('2025-03-10T13:30:00Z'));
+    expect(parseNyDateTime('2025-11-28 13:00')).toBe(Date.parse('2025-11-28T18:00:00Z'));
+  });
+});
@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { ACCOUNT_ID, startMockTradierApi } from '../scripts/mock-tradier-api.mjs';
+import { ORDER_TAG_PREFIX, TradierService, buildBracketOrder, closedBrackets } from '../services/tradierService';
+import { Signal } from '../types';
+
+type MockApi = Awaited<ReturnType<typeof startMockTradierApi>>;
+
+const signal = (overrides: Partial<Signal>): Signal => ({
+  type: 'BUY', confidence: 70, voteCount: 70, entry: 100, stopLoss: 99, takeProfit: 102,
+  reasoning: '', liquidityZone: 'NEUTRAL', executionStatus: 'RISK ON', isGoldenSetup: false,
+  ...overrides
+});
+
+describe('Tradier order endpoints against the mock REST API', () => {
+  let mock: MockApi;
+  let service: TradierService;
+
+  beforeAll(async () => {
+    mock = await startMockTradierApi({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    mock.orders.clear();
+    mock.requests.length = 0;
+    service = new TradierService('mock-token', true, { apiUrl: mock.url });
+  });
+
+  it('encodes OTOCO legs with [i]-indexed fields', async () => {
+    const result = await service.placeBracketOrder('SPY', signal({}), 10, 'aether-test');
+    expect(result.status).toBe('ok');
+
+    const post = mock.requests.find(r => r.method === 'POST');
+    expect(post?.path).toBe(`/v1/accounts/${ACCOUNT_ID}/orders`);
+    expect(post?.params).toMatchObject({
+      class: 'otoco', duration: 'day', tag: 'aether-test',
+      'symbol[0]': 'SPY', 'side[0]': 'buy', 'quantity[0]': '10', 'type[0]': 'limit', 'price[0]': '100.00',
+      'symbol[1]': 'SPY', 'side[1]': 'sell', 'quantity[1]': '10', 'type[1]': 'limit', 'price[1]': '102.00',
+      'symbol[2]': 'SPY', 'side[2]': 'sell', 'quantity[2]': '10', 'type[2]': 'stop', 'stop[2]': '99.00'
+    });
+    // Flat fields are for single-leg equity orders only
+    expect(post?.params).not.toHaveProperty('symbol');
+  });
+
+  it('routes a short bracket with buy_to_cover exits', async () => {
+    await service.placeBracketOrder('QQQ', signal({ type: 'SELL', entry: 400, stopLoss: 402, takeProfit: 395 }), 3);
+    const post = mock.requests.find(r => r.method === 'POST');
+    expect(post?.params).toMatchObject({ 'side[0]': 'sell_short', 'side[1]': 'buy_to_cover', 'side[2]': 'buy_to_cover', 'stop[2]': '402.00', 'price[1]': '395.00' });
+  });
+
+  it('lists placed orders with their legs', async () => {
+    expect(await service.getOrders()).toEqual([]);
+
+    const first = await service.placeBracketOrder('SPY', signal({}), 10);
+    let orders = await service.getOrders();
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({ id: first.id, class: 'otoco', symbol: 'SPY', status: 'open' });
+    expect(orders[0].leg?.map(l => [l.side, l.type])).toEqual([['buy', 'limit'], ['sell', 'limit'], ['sell', 'stop']]);
+
+    await service.placeBracketOrder('QQQ', signal({ type: 'SELL', entry: 400, stopLoss: 402, takeProfit: 395 }), 1);
+    orders = await service.getOrders();
+    expect(orders.map(o => o.symbol)).toEqual(['SPY', 'QQQ']);
+  });
+
+  it('cancels an order and its legs', async () => {
+    const placed = await service.placeBracketOrder('SPY', signal({}), 10);
+    const cancelled = await service.cancelOrder(placed.id);
+    expect(cancelled).toMatchObject({ id: placed.id, status: 'ok' });
+
+    const [order] = await service.getOrders();
+    expect(order.status).toBe('canceled');
+    expect(order.leg?.every(l => l.status === 'canceled')).toBe(true);
+    expect(mock.requests.some(r => r.method === 'DELETE' && r.path === `/v1/accounts/${ACCOUNT_ID}/orders/${placed.id}`)).toBe(true);
+  });
+
+  it("surfaces Tradier's reason when a bracket is rejected", async () => {
+    // Bypasses buildBracketOrder's own check to reach the server with an inverted stop
+    const order = buildBracketOrder('SPY', signal({}), 5);
+    order.legs[2] = { ...order.legs[2], stop: 101 };
+    await expect(service.placeOrder(order)).rejects.toThrow(/400 \(OTOCO buy bracket out of order: stop 101, entry 100, target 102\)/);
+    await expect(service.cancelOrder(424242)).rejects.toThrow(/400 \(Order 424242 not found\)/);
+  });
+
+  it('refuses inverted brackets before sending them', () => {
+    expect(() => buildBracketOrder('SPY', signal({ stopLoss: 101 }), 5)).toThrow(/out of order/);
+    expect(() => buildBracketOrder('SPY', signal({ type: 'SELL' }), 5)).toThrow(/out of order/);
+    expect(() => buildBracketOrder('SPY', signal({ type: 'WAIT' }), 5)).toThrow(/WAIT/);
+    expect(() => buildBracketOrder('SPY', signal({}), 0)).toThrow(/quantity/);
+  });
+
+  it('reports rejected credentials with the response body', async () => {
+    const anonymous = new TradierService('', true, { apiUrl: mock.url });
+    await expect(anonymous.getProfile()).rejects.toThrow(/401 \(Invalid Access Token\)/);
+  });
+
+  it('prices closed brackets from their fills and skips working or untagged ones', async () => {
+    const target = await service.placeBracketOrder('SPY', signal({}), 10, `${ORDER_TAG_PREFIX}1`);
+    const stopped = await service.placeBracketOrder('QQQ', signal({ type: 'SELL', entry: 400, stopLoss: 402, takeProfit: 395 }), 3, `${ORDER_TAG_PREFIX}2`);
+    await service.placeBracketOrder('SPY', signal({}), 5, `${ORDER_TAG_PREFIX}3`);
+    const foreign = await service.placeBracketOrder('SPY', signal({}), 5, 'other-desk');
+    mock.fillBracket(target.id, { entryPrice: 100.01 });
+    mock.fillBracket(stopped.id, { exit: 'stop', exitPrice: 402.1 });
+    mock.fillBracket(foreign.id, {});
+
+    const closed = closedBrackets(await service.getOrders());
+    expect(closed).toHaveLength(2);
+    expect(closed[0]).toMatchObject({ orderId: target.id, symbol: 'SPY', quantity: 10, exitReason: 'TARGET', realizedPnl: 19.9 });
+    expect(closed[1]).toMatchObject({ orderId: stopped.id, symbol: 'QQQ', quantity: 3, exitReason: 'STOP', realizedPnl: -6.3 });
+    expect(closed[1].closedAt).toBeGreaterThan(0);
+  });
+
+  it('returns positions as an empty list when the account is flat', async () => {
+    expect(await service.getPositions()).toEqual([]);
+  });
+});
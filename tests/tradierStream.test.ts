@@ -0,0 +1,156 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import WebSocket from 'ws';
+import { startMockStream } from '../scripts/mock-tradier-stream.mjs';
+import { StreamState, TradierStream, TradierStreamOptions, TradierStreamSession } from '../services/tradierStream';
+import { Tick } from '../types';
+
+type MockStream = Awaited<ReturnType<typeof startMockStream>>;
+
+const waitFor = async (check: () => boolean, timeoutMs = 3000) => {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise(r => setTimeout(r, 10));
+  }
+};
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+describe('TradierStream against the mock events server', () => {
+  let mock: MockStream | null = null;
+  let stream: TradierStream | null = null;
+  let batches: { symbol: string; ticks: Tick[] }[] = [];
+  let states: StreamState[] = [];
+  let sessionRequests: number[] = [];
+
+  beforeAll(() => {
+    // Node 20 has no global WebSocket; the client only uses the browser-compatible surface ws also provides
+    (globalThis as any).WebSocket = WebSocket;
+  });
+
+  afterEach(async () => {
+    stream?.stop();
+    stream = null;
+    await mock?.close();
+    mock = null;
+  });
+
+  const open = async (mockOptions: Parameters<typeof startMockStream>[0], streamOptions: Partial<TradierStreamOptions> = {}) => {
+    mock = await startMockStream({ port: 0, tickMs: 0, heartbeatMs: 0, ...mockOptions });
+    const server = mock;
+    batches = [];
+    states = [];
+    sessionRequests = [];
+    stream = new TradierStream({
+      url: server.url,
+      symbols: ['SPY'],
+      createSession: async (): Promise<TradierStreamSession> => {
+        sessionRequests.push(Date.now());
+        const response = await fetch(server.sessionUrl, { method: 'POST' });
+        return (await response.json()).stream;
+      },
+      onTicks: (symbol, ticks) => batches.push({ symbol, ticks }),
+      onStateChange: state => states.push(state),
+      flushIntervalMs: 50,
+      reconnectBaseDelayMs: 20,
+      maxReconnectDelayMs: 1000,
+      ...streamOptions
+    });
+    stream.start();
+    await waitFor(() => server.stats.subscriptions.length > 0 && stream!.currentState === 'OPEN');
+    return server;
+  };
+
+  it('subscribes with a fresh session and classifies prints by aggressor side', async () => {
+    const server = await open({});
+    expect(server.stats.subscriptions[0]).toMatchObject({ symbols: ['SPY'], filter: ['quote', 'trade'] });
+
+    server.send({ type: 'quote', symbol: 'SPY', bid: 100, bidsz: 3, ask: 100.02, asksz: 4 });
+    server.send({ type: 'trade', symbol: 'SPY', price: 100.02, size: 200, date: 1700000000000 });
+    server.send({ type: 'trade', symbol: 'SPY', price: 100, size: 100, date: 1700000001000 });
+    await waitFor(() => batches.reduce((acc, b) => acc + b.ticks.length, 0) === 2);
+
+    const ticks = batches.flatMap(b => b.ticks);
+    expect(ticks[0]).toMatchObject({ bid: 100, ask: 100.02, last: 100.02, askVolume: 200, bidVolume: 0, time: 1700000000000 });
+    expect(ticks[1]).toMatchObject({ last: 100, askVolume: 0, bidVolume: 100 });
+  });
+
+  it('flushes a burst of prints as one batch', async () => {
+    const server = await open({}, { flushIntervalMs: 300 });
+    // Let the first flush after connecting pass so the burst lands inside a single interval
+    await sleep(320);
+    for (let i = 0; i < 5; i++) server.send({ type: 'trade', symbol: 'SPY', price: 100 + i / 100, size: 10, date: Date.now() });
+    await waitFor(() => batches.length > 0);
+    await sleep(50);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].symbol).toBe('SPY');
+    expect(batches[0].ticks).toHaveLength(5);
+  });
+
+  it('drops buffered ticks on stop instead of delivering them', async () => {
+    const server = await open({}, { flushIntervalMs: 10000 });
+    server.send({ type: 'trade', symbol: 'SPY', price: 100, size: 10, date: Date.now() });
+    await sleep(100);
+    stream!.stop();
+    await sleep(50);
+
+    expect(batches).toHaveLength(0);
+    expect(stream!.currentState).toBe('CLOSED');
+  });
+
+  it('reconnects with a new single-use session after the server drops the socket', async () => {
+    const server = await open({});
+    server.dropClients();
+    await waitFor(() => server.stats.subscriptions.length === 2 && stream!.currentState === 'OPEN');
+
+    expect(states).toContain('RECONNECTING');
+    expect(server.stats.sessions).toBe(2);
+    expect(server.stats.rejected).toBe(0);
+    expect(server.stats.subscriptions[1].sessionid).not.toBe(server.stats.subscriptions[0].sessionid);
+  });
+
+  it('goes STALE when heartbeats stop and recovers on a new connection', async () => {
+    const server = await open({ mode: 'SILENT' }, { heartbeatTimeoutMs: 150 });
+    await waitFor(() => states.includes('STALE'));
+    const staleAt = states.indexOf('STALE');
+    expect(states[staleAt + 1]).toBe('RECONNECTING');
+
+    server.setMode('LIVE');
+    await waitFor(() => server.stats.subscriptions.length >= 2 && stream!.currentState === 'OPEN');
+    server.send({ type: 'trade', symbol: 'SPY', price: 100, size: 10, date: Date.now() });
+    await waitFor(() => batches.length > 0);
+  });
+
+  it('stays OPEN while heartbeats keep arriving', async () => {
+    await open({ heartbeatMs: 40 }, { heartbeatTimeoutMs: 200 });
+    await sleep(600);
+
+    expect(states).not.toContain('STALE');
+    expect(stream!.currentState).toBe('OPEN');
+  });
+
+  it('keeps backing off when the server accepts and immediately closes', async () => {
+    mock = await startMockStream({ port: 0, tickMs: 0, heartbeatMs: 0, mode: 'DROP' });
+    const server = mock;
+    sessionRequests = [];
+    stream = new TradierStream({
+      url: server.url,
+      symbols: ['SPY'],
+      createSession: async () => {
+        sessionRequests.push(Date.now());
+        return (await (await fetch(server.sessionUrl, { method: 'POST' })).json()).stream;
+      },
+      onTicks: () => {},
+      reconnectBaseDelayMs: 20,
+      maxReconnectDelayMs: 5000
+    });
+    stream.start();
+    await waitFor(() => sessionRequests.length >= 5);
+
+    // Delays double (20, 40, 80, 160 ms) because no message ever arrived to prove the connection healthy
+    const gaps = sessionRequests.slice(1).map((t, i) => t - sessionRequests[i]);
+    expect(gaps[3]).toBeGreaterThanOrEqual(150);
+    expect(gaps[3]).toBeGreaterThan(gaps[0] * 3);
+  });
+});
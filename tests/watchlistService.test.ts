@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MAX_WATCHLIST, loadWatchlist, normalizeSymbol, quoteToTick, saveWatchlist } from '../services/watchlistService';
+import { TradierQuote } from '../services/tradierService';
+
+const storage = new Map<string, string>();
+(globalThis as any).localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); }
+};
+
+const quote = (overrides: Partial<TradierQuote> = {}): TradierQuote => ({
+  symbol: 'IWM', last: 210.05, change: 0, change_percentage: 0, volume: 1500000, description: 'IWM', bid: 210, ask: 210.04, ...overrides
+});
+
+describe('normalizeSymbol', () => {
+  it.each<[string, string | null]>([
+    [' spy ', 'SPY'],
+    ['brk.b', 'BRK.B'],
+    ['GOOGL', 'GOOGL'],
+    ['', null],
+    ['1SPY', null],
+    ['.SPY', null],
+    ['TOOLONG', null],
+    ['SP Y', null]
+  ])('%j becomes %s', (raw, expected) => {
+    expect(normalizeSymbol(raw)).toBe(expected);
+  });
+});
+
+describe('watchlist storage', () => {
+  beforeEach(() => {
+    storage.clear();
+  });
+
+  it('starts from the default symbols', () => {
+    expect(loadWatchlist()).toEqual(['SPY', 'QQQ']);
+  });
+
+  it('round-trips a saved list', () => {
+    saveWatchlist(['IWM', 'SPY']);
+    expect(loadWatchlist()).toEqual(['IWM', 'SPY']);
+  });
+
+  it('cleans, de-duplicates and caps a hand-edited list', () => {
+    const many = Array.from({ length: 20 }, (_, i) => `S${String.fromCharCode(65 + i)}`);
+    storage.set('WATCHLIST', JSON.stringify(['iwm', 'IWM', 'bad ticker', 42, ...many]));
+    const list = loadWatchlist();
+
+    expect(list).toHaveLength(MAX_WATCHLIST);
+    expect(list.slice(0, 3)).toEqual(['IWM', 'SA', 'SB']);
+  });
+
+  it('falls back to the defaults when nothing usable was saved', () => {
+    storage.set('WATCHLIST', '{not json');
+    expect(loadWatchlist()).toEqual(['SPY', 'QQQ']);
+    storage.set('WATCHLIST', JSON.stringify(['???']));
+    expect(loadWatchlist()).toEqual(['SPY', 'QQQ']);
+  });
+});
+
+describe('quoteToTick', () => {
+  it('carries the volume traded since the previous poll, split between sides', () => {
+    const tick = quoteToTick(quote(), 1400000, 1000);
+    expect(tick).toMatchObject({ time: 1000, bid: 210, ask: 210.04, last: 210.05, volume: 100000, bidVolume: 50000, askVolume: 50000 });
+    expect(tick?.mid).toBeCloseTo(210.02);
+    expect(tick?.spread).toBeCloseTo(0.04);
+  });
+
+  it('carries no volume on the first poll or when the cumulative count resets', () => {
+    expect(quoteToTick(quote(), 0)?.volume).toBe(0);
+    expect(quoteToTick(quote({ volume: 10 }), 1400000)?.volume).toBe(0);
+  });
+
+  it('falls back to the mid without a last trade and skips a quote with no book', () => {
+    expect(quoteToTick(quote({ last: 0 }), 0)?.last).toBeCloseTo(210.02);
+    expect(quoteToTick(quote({ bid: 0 }), 0)).toBeNull();
+  });
+});
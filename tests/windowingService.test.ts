@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { WindowBuilder, buildWindows, describeWindowing } from '../services/windowingService';
+import { Tick } from '../types';
+
+const tick = (time: number, volume: number, last = 100): Tick => ({ time, last, mid: last, volume } as Tick);
+const sizes = (windows: Tick[][]) => windows.map(w => w.length);
+
+describe('buildWindows', () => {
+  it('returns no windows for no ticks in every mode', () => {
+    (['COUNT', 'TIME', 'VOLUME', 'DOLLAR'] as const).forEach(mode => {
+      expect(buildWindows([], { mode, size: 10, alpha: 1e-5 })).toEqual([]);
+    });
+  });
+
+  it('chunks by count and keeps the trailing partial window', () => {
+    const ticks = Array.from({ length: 10 }, (_, i) => tick(i, 100));
+    expect(sizes(buildWindows(ticks, { mode: 'COUNT', size: 4, alpha: 1e-5 }))).toEqual([4, 4, 2]);
+  });
+
+  it('splits time windows on epoch-aligned bucket boundaries', () => {
+    // 15 s buckets: [0, 15000) and [15000, 30000); 29999 still belongs to the second
+    const ticks = [tick(1000, 1), tick(14999, 1), tick(15000, 1), tick(29999, 1), tick(30000, 1)];
+    const windows = buildWindows(ticks, { mode: 'TIME', size: 15000, alpha: 2e-5 });
+    expect(windows.map(w => w.map(t => t.time))).toEqual([[1000, 14999], [15000, 29999], [30000]]);
+  });
+
+  it('skips empty time buckets instead of emitting empty windows', () => {
+    const windows = buildWindows([tick(1000, 1), tick(61000, 1)], { mode: 'TIME', size: 15000, alpha: 2e-5 });
+    expect(sizes(windows)).toEqual([1, 1]);
+  });
+
+  it('closes a volume window on the tick that crosses the threshold without splitting it', () => {
+    const ticks = [tick(0, 300), tick(1, 300), tick(2, 900), tick(3, 100), tick(4, 1000)];
+    const windows = buildWindows(ticks, { mode: 'VOLUME', size: 1000, alpha: 3e-5 });
+
+    expect(sizes(windows)).toEqual([3, 2]);
+    // The crossing print carries its whole size; the surplus does not roll into the next window
+    expect(windows[0].reduce((sum, t) => sum + t.volume, 0)).toBe(1500);
+    expect(windows[1].reduce((sum, t) => sum + t.volume, 0)).toBe(1100);
+  });
+
+  it('closes a window on one tick that alone exceeds the threshold', () => {
+    const windows = buildWindows([tick(0, 5000), tick(1, 10)], { mode: 'VOLUME', size: 1000, alpha: 3e-5 });
+    expect(sizes(windows)).toEqual([1, 1]);
+  });
+
+  it('weights dollar windows by price and falls back to the mid', () => {
+    const ticks = [tick(0, 100, 500), tick(1, 100, 500), { ...tick(2, 100, 0), mid: 500 }, tick(3, 100, 500)];
+    // $50K per print; a $100K window closes exactly on the second print
+    expect(sizes(buildWindows(ticks, { mode: 'DOLLAR', size: 100000, alpha: 3e-5 }))).toEqual([2, 2]);
+  });
+});
+
+describe('WindowBuilder', () => {
+  it('carries a partial window across pushes', () => {
+    const builder = new WindowBuilder({ mode: 'VOLUME', size: 1000, alpha: 3e-5 });
+    expect(builder.push([tick(0, 400), tick(1, 400)])).toEqual([]);
+    expect(sizes(builder.push([tick(2, 400), tick(3, 100)]))).toEqual([3]);
+    expect(sizes(builder.flush())).toEqual([1]);
+    expect(builder.flush()).toEqual([]);
+  });
+
+  it('drops the partial window on reset', () => {
+    const builder = new WindowBuilder({ mode: 'COUNT', size: 4, alpha: 1e-5 });
+    builder.push([tick(0, 1), tick(1, 1), tick(2, 1)]);
+    builder.reset();
+    expect(sizes(builder.push([tick(3, 1), tick(4, 1), tick(5, 1), tick(6, 1)]))).toEqual([4]);
+  });
+});
+
+describe('describeWindowing', () => {
+  it('names presets and custom sizes', () => {
+    expect(describeWindowing({ mode: 'TIME', size: 60000, alpha: 5e-5 })).toBe('1m');
+    expect(describeWindowing({ mode: 'TIME', size: 30000, alpha: 5e-5 })).toBe('30s');
+    expect(describeWindowing({ mode: 'VOLUME', size: 20000, alpha: 3e-5 })).toBe('20000 Sh');
+  });
+});
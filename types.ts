@@ -46,12 +46,30 @@ export interface TickWindow {
 
 export interface PricePoint {
   time: string;
+  /** Bar start in epoch ms; absent for search snapshots, which only carry a wall-clock label */
+  epoch?: number;
+  /** New York trading date (YYYY-MM-DD) the bar belongs to; absent alongside `epoch` */
+  session?: string;
+  /** Close of the bar; sources without bars (search snapshots, replay ticks) carry only this */
   price: number;
+  open?: number;
+  high?: number;
+  low?: number;
   volume: number;
   gamma?: number; 
   vanna?: number; 
 }
 
+export interface LevelDerivation {
+  source: 'TRADIER_CHAIN' | 'TRADIER_QUOTE' | 'SEARCH';
+  method: string;
+  expirations?: string[];
+  inputs: Record<string, number>;
+  computedAt: string;
+}
+
+export type LevelKey = 'hp' | 'mhp' | 'hg' | 'gammaFlip' | 'maxGamma' | 'vannaPivot';
+
 export interface InstitutionalLevels {
   hp: number; 
   mhp: number; 
@@ -60,6 +78,21 @@ export interface InstitutionalLevels {
   maxGamma: number; 
   vannaPivot: number; 
   bias: 'BULLISH' | 'BEARISH' | 'NEUTRAL' | 'SQUEEZE';
+  derivations?: Partial<Record<LevelKey, LevelDerivation>>;
+}
+
+/** Reference levels from the tape itself: the prior session's range and close, and today's opening range. */
+export interface SessionLevels {
+  session: string;
+  priorSession: string | null;
+  priorHigh?: number;
+  priorLow?: number;
+  priorClose?: number;
+  openingRangeHigh?: number;
+  openingRangeLow?: number;
+  openingRangeMinutes: number;
+  /** False while the opening range is still forming */
+  openingRangeComplete: boolean;
 }
 
 export interface EnsembleInsight {
@@ -111,6 +144,7 @@ export interface MarketData {
   vix: number;
   history: PricePoint[];
   levels?: InstitutionalLevels;
+  sessionLevels?: SessionLevels;
 }
 
 export interface AnalysisResponse {
@@ -120,11 +154,18 @@ export interface AnalysisResponse {
   macroFactors: string[];
 }
 
+export type AlertSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
+
 export interface Alert {
   id: string;
   type: 'GOLDEN' | 'SIGNAL' | 'SYSTEM';
   message: string;
   timestamp: string;
+  epoch: number;
+  severity: AlertSeverity;
+  acknowledged: boolean;
+  symbol?: string;
+  ruleId?: string;
 }
 
 export interface PropChallengeStats {
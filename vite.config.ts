@@ -11,8 +11,9 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER || 'gemini'),
+        'process.env.TRADIER_API_URL': JSON.stringify(env.TRADIER_API_URL || ''),
+        'process.env.TRADIER_STREAM_URL': JSON.stringify(env.TRADIER_STREAM_URL || '')
       },
       resolve: {
         alias: {